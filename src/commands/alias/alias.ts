@@ -0,0 +1,120 @@
+import type { Command } from "../../types.ts";
+import { createFlagParser, type FlagDefinition } from "../../utils/flag-parser.ts";
+
+interface AliasFlags {
+  print: boolean;
+}
+
+interface UnaliasFlags {
+  all: boolean;
+}
+
+// Characters bash refuses in alias names
+const INVALID_NAME_CHARS = /[\s/$`='"\\|&;()<>]/;
+
+const aliasParser = createFlagParser<AliasFlags>(
+  {
+    name: "alias",
+    flags: [{ short: "p" }] as FlagDefinition[],
+    usage: "alias [-p] [name[=value] ...]",
+    stopAfterFirstPositional: true,
+  },
+  { print: false },
+  (flags) => {
+    flags.print = true;
+  }
+);
+
+const unaliasParser = createFlagParser<UnaliasFlags>(
+  {
+    name: "unalias",
+    flags: [{ short: "a" }] as FlagDefinition[],
+    usage: "unalias [-a] name [name ...]",
+  },
+  { all: false },
+  (flags) => {
+    flags.all = true;
+  }
+);
+
+function formatAlias(name: string, value: string): string {
+  return `alias ${name}='${value.replaceAll("'", "'\\''")}'\n`;
+}
+
+export const alias: Command = async (ctx) => {
+  if (!ctx.shell) {
+    await ctx.stderr.writeText("alias: shell aliases not supported\n");
+    return 1;
+  }
+
+  const result = aliasParser.parse(ctx.args);
+  if (result.error) {
+    await aliasParser.writeError(result.error, ctx.stderr);
+    return 2;
+  }
+
+  if (result.args.length === 0 || result.flags.print) {
+    const aliases = ctx.shell.getAliases();
+    for (const name of Object.keys(aliases).sort()) {
+      await ctx.stdout.writeText(formatAlias(name, aliases[name]!));
+    }
+  }
+
+  let exitCode = 0;
+  for (const arg of result.args) {
+    const equals = arg.indexOf("=");
+    if (equals > 0) {
+      const name = arg.slice(0, equals);
+      if (INVALID_NAME_CHARS.test(name)) {
+        await ctx.stderr.writeText(`alias: \`${name}': invalid alias name\n`);
+        exitCode = 1;
+        continue;
+      }
+      ctx.shell.setAlias(name, arg.slice(equals + 1));
+      continue;
+    }
+
+    const value = ctx.shell.getAliases()[arg];
+    if (value === undefined) {
+      await ctx.stderr.writeText(`alias: ${arg}: not found\n`);
+      exitCode = 1;
+    } else {
+      await ctx.stdout.writeText(formatAlias(arg, value));
+    }
+  }
+  return exitCode;
+};
+
+export const unalias: Command = async (ctx) => {
+  if (!ctx.shell) {
+    await ctx.stderr.writeText("unalias: shell aliases not supported\n");
+    return 1;
+  }
+
+  const result = unaliasParser.parse(ctx.args);
+  if (result.error) {
+    await unaliasParser.writeError(result.error, ctx.stderr);
+    return 2;
+  }
+
+  if (result.flags.all) {
+    for (const name of Object.keys(ctx.shell.getAliases())) {
+      ctx.shell.unsetAlias(name);
+    }
+    return 0;
+  }
+
+  if (result.args.length === 0) {
+    await ctx.stderr.writeText("unalias: usage: unalias [-a] name [name ...]\n");
+    return 2;
+  }
+
+  let exitCode = 0;
+  for (const name of result.args) {
+    if (!ctx.shell.unsetAlias(name)) {
+      await ctx.stderr.writeText(`unalias: ${name}: not found\n`);
+      exitCode = 1;
+    }
+  }
+  return exitCode;
+};
@@ -395,15 +395,16 @@ export const awk: Command = async (ctx) => {
   } else {
     // Read from files
     for (const file of files) {
+      let content: Buffer;
       try {
         const path = ctx.fs.resolve(ctx.cwd, file);
-        const content = await ctx.fs.readFile(path);
-        await processContent(content.toString());
+        content = await ctx.fs.readFile(path);
       } catch (err) {
         const message = err instanceof Error ? err.message : String(err);
         await ctx.stderr.writeText(`awk: ${file}: ${message}\n`);
         return 1;
       }
+      await processContent(content.toString());
     }
   }
 
@@ -161,15 +161,16 @@ export const cat: Command = async (ctx) => {
   } else {
     // Read from files
     for (const file of files) {
+      let content: Buffer;
       try {
         const path = ctx.fs.resolve(ctx.cwd, file);
-        const content = await ctx.fs.readFile(path);
-        await processContent(new Uint8Array(content));
+        content = await ctx.fs.readFile(path);
       } catch (err) {
         const message = err instanceof Error ? err.message : String(err);
         await ctx.stderr.writeText(`cat: ${file}: ${message}\n`);
         return 1;
       }
+      await processContent(new Uint8Array(content));
     }
   }
   return 0;
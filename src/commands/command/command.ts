@@ -0,0 +1,57 @@
+import type { Command } from "../../types.ts";
+import { createFlagParser, type FlagDefinition } from "../../utils/flag-parser.ts";
+
+interface CommandFlags {
+  print: boolean;
+}
+
+const spec = {
+  name: "command",
+  flags: [{ short: "v" }] as FlagDefinition[],
+  usage: "command [-v] command [arg ...]",
+  stopAfterFirstPositional: true,
+};
+
+const defaults: CommandFlags = { print: false };
+
+const handler = (flags: CommandFlags) => {
+  flags.print = true;
+};
+
+const parser = createFlagParser(spec, defaults, handler);
+
+export const command: Command = async (ctx) => {
+  if (!ctx.shell) {
+    await ctx.stderr.writeText("command: shell control not supported\n");
+    return 1;
+  }
+
+  const result = parser.parse(ctx.args);
+  if (result.error) {
+    await parser.writeError(result.error, ctx.stderr);
+    return 2;
+  }
+
+  const [name, ...args] = result.args;
+  if (name === undefined) {
+    return 0;
+  }
+
+  if (!result.flags.print) {
+    return ctx.shell.runCommand(name, args, undefined, { functions: false });
+  }
+
+  // Print how each name would run: an alias definition, the path of a script, the name itself otherwise
+  let exitCode = 0;
+  for (const arg of result.args) {
+    const resolution = await ctx.shell.resolveCommand(arg);
+    if (resolution === undefined) {
+      exitCode = 1;
+    } else if (resolution.kind === "alias") {
+      await ctx.stdout.writeText(`alias ${arg}='${resolution.value!.replaceAll("'", "'\\''")}'\n`);
+    } else {
+      await ctx.stdout.writeText(`${resolution.path ?? arg}\n`);
+    }
+  }
+  return exitCode;
+};
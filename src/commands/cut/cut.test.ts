@@ -137,4 +137,12 @@ describe("cut command", () => {
     const result = await sh`cut -d: -f1,5-6 /colon.txt`.text();
     expect(result).toBe("root:root:/root\nuser:user:/home/user\n");
   });
+
+  test("stops quietly with status 141 when the reader goes away", async () => {
+    vol.writeFileSync("/big.txt", Array.from({ length: 10000 }, (_, i) => `foo ${i}`).join("\n") + "\n");
+    const result = await sh`set -o pipefail; cut -d" " -f2 /big.txt | head -n 1`.nothrow();
+    expect(result.stdout.toString()).toBe("0\n");
+    expect(result.stderr.toString()).toBe("");
+    expect(result.exitCode).toBe(141);
+  });
 });
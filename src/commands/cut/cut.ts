@@ -160,21 +160,22 @@ export const cut: Command = async (ctx) => {
     }
   } else {
     for (const file of files) {
+      let content: string;
       try {
         const path = ctx.fs.resolve(ctx.cwd, file);
-        const content = (await ctx.fs.readFile(path)).toString();
-        const lines = content.split("\n");
-        // Remove trailing empty line from final newline
-        if (lines.length > 0 && lines[lines.length - 1] === "") {
-          lines.pop();
-        }
-        for (const line of lines) {
-          await processLine(line);
-        }
+        content = (await ctx.fs.readFile(path)).toString();
       } catch {
         await ctx.stderr.writeText(`cut: ${file}: No such file or directory\n`);
         return 1;
       }
+      const lines = content.split("\n");
+      // Remove trailing empty line from final newline
+      if (lines.length > 0 && lines[lines.length - 1] === "") {
+        lines.pop();
+      }
+      for (const line of lines) {
+        await processLine(line);
+      }
     }
   }
 
@@ -0,0 +1,194 @@
+import type { Command, CommandContext, ShellCommandApi } from "../../types.ts";
+import { createFlagParser, type FlagDefinition } from "../../utils/flag-parser.ts";
+
+interface DeclareFlags {
+  indexed: boolean;
+  associative: boolean;
+  global: boolean;
+  print: boolean;
+  readonly: boolean;
+  export: boolean;
+}
+
+const NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+// `name=(...)`, passed through as source text by the parser
+const ARRAY_LITERAL = /^([A-Za-z_][A-Za-z0-9_]*)\+?=\(.*\)$/s;
+
+const spec = {
+  name: "declare",
+  flags: [{ short: "a" }, { short: "A" }, { short: "g" }, { short: "p" }, { short: "r" }, { short: "x" }] as FlagDefinition[],
+  usage: "declare [-aAgprx] [name[=value] ...]",
+  stopAfterFirstPositional: true,
+};
+
+const defaults: DeclareFlags = {
+  indexed: false,
+  associative: false,
+  global: false,
+  print: false,
+  readonly: false,
+  export: false,
+};
+
+const handler = (flags: DeclareFlags, flag: FlagDefinition) => {
+  if (flag.short === "a") flags.indexed = true;
+  if (flag.short === "A") flags.associative = true;
+  if (flag.short === "g") flags.global = true;
+  if (flag.short === "p") flags.print = true;
+  if (flag.short === "r") flags.readonly = true;
+  if (flag.short === "x") flags.export = true;
+};
+
+const parser = createFlagParser(spec, defaults, handler);
+
+function quoteValue(value: string): string {
+  return `"${value.replace(/[\\"$`]/g, "\\$&")}"`;
+}
+
+// The `declare` command that recreates a variable, as `declare -p` prints it
+function formatDeclaration(shell: ShellCommandApi, name: string): string | null {
+  const array = shell.getArray(name);
+  const value = shell.getVariable(name);
+  if (!array && value === undefined) {
+    return null;
+  }
+  let attributes = array ? (array.associative ? "A" : "a") : "";
+  if (shell.getReadonlyNames().includes(name)) attributes += "r";
+  if (shell.getExportedNames().includes(name)) attributes += "x";
+  const flags = attributes === "" ? "--" : `-${attributes}`;
+  if (!array) {
+    return `declare ${flags} ${name}=${quoteValue(value!)}`;
+  }
+  const entries = array.entries.map(([key, element]) => {
+    const subscript = /^[\w.-]+$/.test(key) ? key : quoteValue(key);
+    return `[${subscript}]=${quoteValue(element)}`;
+  });
+  return `declare ${flags} ${name}=(${entries.join(" ")})`;
+}
+
+// Make `name` an array of the requested kind, keeping a scalar value as element 0
+function convertToArray(shell: ShellCommandApi, name: string, associative: boolean): void {
+  const array = shell.getArray(name);
+  if (array) {
+    if (array.associative !== associative) {
+      const [from, to] = array.associative ? ["associative", "indexed"] : ["indexed", "associative"];
+      throw new Error(`${name}: cannot convert ${from} to ${to} array`);
+    }
+    return;
+  }
+  const value = shell.getVariable(name);
+  shell.setArray(name, { associative, entries: value === undefined ? [] : [["0", value]] });
+}
+
+interface Declaration {
+  name: string;
+  value?: string;
+  append: boolean;
+  // The `name=(...)` source for an array literal
+  literal?: string;
+}
+
+function parseDeclaration(arg: string): Declaration | null {
+  const literal = arg.match(ARRAY_LITERAL);
+  if (literal) {
+    return { name: literal[1]!, append: false, literal: arg };
+  }
+  const eqIndex = arg.indexOf("=");
+  if (eqIndex === -1) {
+    return NAME_PATTERN.test(arg) ? { name: arg, append: false } : null;
+  }
+  const append = arg[eqIndex - 1] === "+";
+  const name = arg.slice(0, append ? eqIndex - 1 : eqIndex);
+  return NAME_PATTERN.test(name) ? { name, value: arg.slice(eqIndex + 1), append } : null;
+}
+
+async function writeError(ctx: CommandContext, err: unknown): Promise<void> {
+  await ctx.stderr.writeText(`declare: ${err instanceof Error ? err.message : String(err)}\n`);
+}
+
+export const declare: Command = async (ctx) => {
+  if (!ctx.shell) {
+    await ctx.stderr.writeText("declare: shell variables not supported\n");
+    return 1;
+  }
+
+  const result = parser.parse(ctx.args);
+  if (result.error) {
+    await parser.writeError(result.error, ctx.stderr);
+    return 2;
+  }
+  const { flags } = result;
+  if (flags.indexed && flags.associative) {
+    await ctx.stderr.writeText("declare: cannot use -a and -A together\n");
+    return 2;
+  }
+
+  if (result.args.length === 0) {
+    const names = [...Object.keys(ctx.shell.getVariables()), ...ctx.shell.getArrayNames()].sort();
+    for (const name of names) {
+      const declaration = formatDeclaration(ctx.shell, name);
+      if (declaration !== null) {
+        await ctx.stdout.writeText(`${declaration}\n`);
+      }
+    }
+    return 0;
+  }
+
+  let exitCode = 0;
+  for (const arg of result.args) {
+    if (flags.print) {
+      const declaration = formatDeclaration(ctx.shell, arg);
+      if (declaration === null) {
+        await ctx.stderr.writeText(`declare: ${arg}: not found\n`);
+        exitCode = 1;
+      } else {
+        await ctx.stdout.writeText(`${declaration}\n`);
+      }
+      continue;
+    }
+
+    const declaration = parseDeclaration(arg);
+    if (!declaration) {
+      await ctx.stderr.writeText(`declare: \`${arg}': not a valid identifier\n`);
+      exitCode = 1;
+      continue;
+    }
+    const { name, value, append, literal } = declaration;
+
+    try {
+      // Inside a function, declarations are local unless -g makes them global
+      if (ctx.shell.isInFunction() && !flags.global) {
+        ctx.shell.local(name);
+      }
+      if (flags.indexed || flags.associative) {
+        convertToArray(ctx.shell, name, flags.associative);
+      }
+    } catch (err) {
+      await writeError(ctx, err);
+      exitCode = 1;
+      continue;
+    }
+
+    // Element words are expanded here, after -A has made the array associative
+    if (literal) {
+      exitCode = (await ctx.shell.eval(literal)) || exitCode;
+    }
+
+    try {
+      if (value !== undefined) {
+        ctx.shell.setVariable(name, append ? (ctx.shell.getVariable(name) ?? "") + value : value);
+      }
+      if (flags.export) {
+        ctx.shell.exportVariable(name);
+      }
+      if (flags.readonly) {
+        ctx.shell.setReadonly(name);
+      }
+    } catch (err) {
+      await writeError(ctx, err);
+      exitCode = 1;
+    }
+  }
+
+  return exitCode;
+};
@@ -0,0 +1,65 @@
+import { test, expect, describe, beforeEach } from "bun:test";
+import { createFsFromVolume, Volume } from "memfs";
+import { createVirtualFS, createShellDSL } from "../../index.ts";
+import { builtinCommands } from "../index.ts";
+
+describe("env command", () => {
+  let sh: ReturnType<typeof createShellDSL>;
+
+  beforeEach(() => {
+    const vol = new Volume();
+    const memfs = createFsFromVolume(vol);
+    const fs = createVirtualFS(memfs);
+
+    sh = createShellDSL({
+      fs,
+      cwd: "/",
+      env: { HOME: "/home/user", LANG: "C" },
+      commands: builtinCommands,
+    });
+  });
+
+  test("prints the exported environment", async () => {
+    const result = await sh`SHELL_ONLY=1; export EXTRA=yes; env`.text();
+    expect(result).toBe("HOME=/home/user\nLANG=C\nEXTRA=yes\n");
+  });
+
+  test("runs a command with added variables", async () => {
+    const result = await sh`env GREETING=hi NAME="a b" sh -c 'echo "$GREETING, $NAME"'; echo "[$GREETING]"`.text();
+    expect(result).toBe("hi, a b\n[]\n");
+  });
+
+  test("-i starts from an empty environment", async () => {
+    const result = await sh`env -i ONLY=1 env`.text();
+    expect(result).toBe("ONLY=1\n");
+  });
+
+  test("-u removes a variable", async () => {
+    const result = await sh`env -u HOME printenv`.text();
+    expect(result).toBe("LANG=C\n");
+  });
+
+  test("streams the command's stdin and stdout", async () => {
+    const result = await sh`echo piped | env cat`.text();
+    expect(result).toBe("piped\n");
+  });
+
+  test("returns the command's exit status", async () => {
+    const result = await sh`env false`.nothrow();
+    expect(result.exitCode).toBe(1);
+  });
+
+  test("reports unknown commands", async () => {
+    const result = await sh`env missing-command`.nothrow();
+    expect(result.exitCode).toBe(127);
+    expect(result.stderr.toString()).toBe("missing-command: command not found\n");
+  });
+
+  test("rejects unknown options", async () => {
+    const result = await sh`env -z`.nothrow();
+    expect(result.exitCode).toBe(125);
+    expect(result.stderr.toString()).toBe(
+      "env: invalid option -- 'z'\nusage: env [-i] [-u name] [name=value ...] [command [arg ...]]\n"
+    );
+  });
+});
@@ -0,0 +1,67 @@
+import type { Command } from "../../types.ts";
+import { createFlagParser, type FlagDefinition } from "../../utils/flag-parser.ts";
+
+interface EnvFlags {
+  ignoreEnvironment: boolean;
+  unset: string[];
+}
+
+const spec = {
+  name: "env",
+  flags: [
+    { short: "i", long: "ignore-environment" },
+    { short: "u", long: "unset", takesValue: true },
+  ] as FlagDefinition[],
+  usage: "env [-i] [-u name] [name=value ...] [command [arg ...]]",
+  stopAfterFirstPositional: true,
+};
+
+const defaults: EnvFlags = { ignoreEnvironment: false, unset: [] };
+
+const handler = (flags: EnvFlags, flag: FlagDefinition, value?: string) => {
+  switch (flag.short) {
+    case "i":
+      flags.ignoreEnvironment = true;
+      break;
+    case "u":
+      flags.unset = [...flags.unset, value!];
+      break;
+  }
+};
+
+const parser = createFlagParser(spec, defaults, handler);
+
+export const env: Command = async (ctx) => {
+  const result = parser.parse(ctx.args);
+  if (result.error) {
+    await parser.writeError(result.error, ctx.stderr);
+    return 125;
+  }
+
+  const { ignoreEnvironment, unset } = result.flags;
+  const commandEnv: Record<string, string> = ignoreEnvironment ? {} : { ...ctx.env };
+  for (const name of unset) {
+    delete commandEnv[name];
+  }
+
+  const args = [...result.args];
+  while (args.length > 0 && args[0]!.indexOf("=") > 0) {
+    const assignment = args.shift()!;
+    const eqIndex = assignment.indexOf("=");
+    commandEnv[assignment.slice(0, eqIndex)] = assignment.slice(eqIndex + 1);
+  }
+
+  const [name, ...commandArgs] = args;
+  if (name === undefined) {
+    for (const [key, value] of Object.entries(commandEnv)) {
+      await ctx.stdout.writeText(`${key}=${value}\n`);
+    }
+    return 0;
+  }
+
+  if (!ctx.shell) {
+    await ctx.stderr.writeText("env: running commands not supported\n");
+    return 126;
+  }
+  return ctx.shell.runCommand(name, commandArgs, commandEnv);
+};
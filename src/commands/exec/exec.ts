@@ -0,0 +1,22 @@
+import type { Command } from "../../types.ts";
+
+export const execCmd: Command = async (ctx) => {
+  if (!ctx.shell) {
+    await ctx.stderr.writeText("exec: shell control not supported\n");
+    return 1;
+  }
+
+  const args = ctx.args[0] === "--" ? ctx.args.slice(1) : [...ctx.args];
+
+  // Without a command, the redirects stay open for the rest of the shell
+  if (args.length === 0) {
+    ctx.shell.keepRedirects();
+    return 0;
+  }
+
+  // The command replaces the shell, so the shell's EXIT trap never runs
+  ctx.shell.setTrap("EXIT", null);
+  const exitCode = await ctx.shell.runCommand(args[0]!, args.slice(1));
+  ctx.shell.exit(exitCode);
+  return exitCode;
+};
@@ -0,0 +1,75 @@
+import type { Command } from "../../types.ts";
+import { createFlagParser, type FlagDefinition } from "../../utils/flag-parser.ts";
+import { escape } from "../../utils/escape.ts";
+
+interface ExportFlags {
+  unexport: boolean;
+  print: boolean;
+}
+
+const NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+const spec = {
+  name: "export",
+  flags: [{ short: "n" }, { short: "p" }] as FlagDefinition[],
+  usage: "export [-n] [-p] [name[=value] ...]",
+  stopAfterFirstPositional: true,
+};
+
+const defaults: ExportFlags = { unexport: false, print: false };
+
+const handler = (flags: ExportFlags, flag: FlagDefinition) => {
+  if (flag.short === "n") flags.unexport = true;
+  if (flag.short === "p") flags.print = true;
+};
+
+const parser = createFlagParser(spec, defaults, handler);
+
+export const exportCmd: Command = async (ctx) => {
+  if (!ctx.shell) {
+    await ctx.stderr.writeText("export: shell variables not supported\n");
+    return 1;
+  }
+
+  const result = parser.parse(ctx.args);
+  if (result.error) {
+    await parser.writeError(result.error, ctx.stderr);
+    return 2;
+  }
+
+  if (result.args.length === 0) {
+    for (const name of ctx.shell.getExportedNames().sort()) {
+      const value = ctx.shell.getVariable(name);
+      await ctx.stdout.writeText(value === undefined ? `export ${name}\n` : `export ${name}=${escape(value)}\n`);
+    }
+    return 0;
+  }
+
+  let exitCode = 0;
+  for (const arg of result.args) {
+    const eqIndex = arg.indexOf("=");
+    const name = eqIndex === -1 ? arg : arg.slice(0, eqIndex);
+    const value = eqIndex === -1 ? undefined : arg.slice(eqIndex + 1);
+    if (!NAME_PATTERN.test(name)) {
+      await ctx.stderr.writeText(`export: \`${arg}': not a valid identifier\n`);
+      exitCode = 1;
+      continue;
+    }
+
+    try {
+      if (result.flags.unexport) {
+        if (value !== undefined) {
+          ctx.shell.setVariable(name, value);
+        }
+        ctx.shell.unexportVariable(name);
+      } else {
+        ctx.shell.exportVariable(name, value);
+      }
+    } catch (err) {
+      await ctx.stderr.writeText(`export: ${err instanceof Error ? err.message : String(err)}\n`);
+      exitCode = 1;
+    }
+  }
+
+  return exitCode;
+};
@@ -558,4 +558,12 @@ describe("grep command", () => {
       expect(result).toBe("foo\nfoo bar\n");
     });
   });
+
+  test("stops quietly with status 141 when the reader goes away", async () => {
+    vol.writeFileSync("/big.txt", Array.from({ length: 10000 }, (_, i) => `foo ${i}`).join("\n") + "\n");
+    const result = await sh`set -o pipefail; grep foo /big.txt | head -n 1`.nothrow();
+    expect(result.stdout.toString()).toBe("foo 0\n");
+    expect(result.stderr.toString()).toBe("");
+    expect(result.exitCode).toBe(141);
+  });
 });
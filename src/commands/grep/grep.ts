@@ -495,8 +495,9 @@ export const grep: Command = async (ctx) => {
     for (const file of expandedFiles) {
       if (earlyExit && options.quiet) break;
 
+      const path = file.startsWith("/") ? file : ctx.fs.resolve(ctx.cwd, file);
+      let content: Buffer;
       try {
-        const path = file.startsWith("/") ? file : ctx.fs.resolve(ctx.cwd, file);
         const stat = await ctx.fs.stat(path);
 
         if (stat.isDirectory()) {
@@ -506,31 +507,33 @@ export const grep: Command = async (ctx) => {
           continue;
         }
 
-        const content = await ctx.fs.readFile(path);
-        const lines = content.toString().split("\n");
-
-        // Remove trailing empty line if file ends with newline
-        if (lines.length > 0 && lines[lines.length - 1] === "") {
-          lines.pop();
-        }
-
-        // Use original filename for display, not resolved path
-        const displayName = files.includes(file) ? file :
-          (options.recursive ? path : file);
-
-        const { found, count } = await processContent(lines, displayName);
-        perFileResults.set(displayName, { found, count });
-
-        if (found) {
-          globalFound = true;
-          globalMatchCount += count;
-        }
+        content = await ctx.fs.readFile(path);
       } catch (err) {
         await ctx.stderr.writeText(`grep: ${file}: No such file or directory\n`);
         // Continue to other files instead of immediately returning
         if (expandedFiles.length === 1) {
           return 1;
         }
+        continue;
+      }
+
+      const lines = content.toString().split("\n");
+
+      // Remove trailing empty line if file ends with newline
+      if (lines.length > 0 && lines[lines.length - 1] === "") {
+        lines.pop();
+      }
+
+      // Use original filename for display, not resolved path
+      const displayName = files.includes(file) ? file :
+        (options.recursive ? path : file);
+
+      const { found, count } = await processContent(lines, displayName);
+      perFileResults.set(displayName, { found, count });
+
+      if (found) {
+        globalFound = true;
+        globalMatchCount += count;
       }
     }
 
@@ -0,0 +1,62 @@
+import type { Command } from "../../types.ts";
+import { createFlagParser, type FlagDefinition } from "../../utils/flag-parser.ts";
+
+interface HashFlags {
+  reset: boolean;
+}
+
+const spec = {
+  name: "hash",
+  flags: [{ short: "r" }] as FlagDefinition[],
+  usage: "hash [-r] [name ...]",
+};
+
+const defaults: HashFlags = { reset: false };
+
+const handler = (flags: HashFlags) => {
+  flags.reset = true;
+};
+
+const parser = createFlagParser(spec, defaults, handler);
+
+export const hash: Command = async (ctx) => {
+  if (!ctx.shell) {
+    await ctx.stderr.writeText("hash: shell control not supported\n");
+    return 1;
+  }
+
+  const result = parser.parse(ctx.args);
+  if (result.error) {
+    await parser.writeError(result.error, ctx.stderr);
+    return 2;
+  }
+
+  if (result.flags.reset) {
+    ctx.shell.clearCommandHash();
+  }
+
+  if (result.args.length === 0) {
+    if (result.flags.reset) {
+      return 0;
+    }
+    const entries = Object.entries(ctx.shell.getCommandHash());
+    if (entries.length === 0) {
+      await ctx.stderr.writeText("hash: hash table empty\n");
+      return 0;
+    }
+    for (const [name, path] of entries) {
+      await ctx.stdout.writeText(`${name}\t${path}\n`);
+    }
+    return 0;
+  }
+
+  // Looking a name up remembers it when it is a script on PATH
+  let exitCode = 0;
+  for (const name of result.args) {
+    if ((await ctx.shell.resolveCommand(name)) === undefined) {
+      await ctx.stderr.writeText(`hash: ${name}: not found\n`);
+      exitCode = 1;
+    }
+  }
+  return exitCode;
+};
@@ -59,6 +59,19 @@ describe("head command", () => {
     expect(result).toBe("a\nb\nc\n");
   });
 
+  test("stops reading stdin after the last line it prints", async () => {
+    const result = await sh`{ head -n 2; cat; } < /five.txt`.text();
+    expect(result).toBe("one\ntwo\nthree\nfour\nfive\n");
+
+    const endless = await sh`while true; do echo y; done | head -n 3`.text();
+    expect(endless).toBe("y\ny\ny\n");
+  });
+
+  test("keeps a missing final newline from stdin", async () => {
+    const result = await sh`printf "a\nb" | head -n 5`.text();
+    expect(result).toBe("a\nb");
+  });
+
   test("multiple files show headers", async () => {
     const result = await sh`head -n 2 /five.txt /short.txt`.text();
     expect(result).toContain("==> /five.txt <==");
@@ -101,6 +114,14 @@ describe("head command", () => {
     expect(result.exitCode).toBe(1);
   });
 
+  test("stops quietly with status 141 when the reader goes away", async () => {
+    vol.writeFileSync("/big.txt", Array.from({ length: 20000 }, (_, i) => `line${i + 1}`).join("\n") + "\n");
+    const result = await sh`set -o pipefail; head -n 20000 /big.txt | head -n 1`.nothrow();
+    expect(result.stdout.toString()).toBe("line1\n");
+    expect(result.stderr.toString()).toBe("");
+    expect(result.exitCode).toBe(141);
+  });
+
   test("invalid short flag returns error with usage", async () => {
     const result = await sh`head -x /five.txt`.nothrow();
     expect(result.exitCode).toBe(1);
@@ -61,24 +61,38 @@ export const head: Command = async (ctx) => {
   };
 
   if (files.length === 0) {
-    // Read from stdin
-    const content = await ctx.stdin.text();
-    await outputLines(content);
+    // Read from stdin a chunk at a time, only until the last line wanted,
+    // so whatever writes to head is stopped once head is done
+    let remaining = numLines;
+    let chunk: Uint8Array | null;
+    while (remaining > 0 && (chunk = await ctx.stdin.read()) !== null) {
+      let end = chunk.length;
+      for (let newline = chunk.indexOf(0x0a); newline !== -1; newline = chunk.indexOf(0x0a, newline + 1)) {
+        if (--remaining === 0) {
+          end = newline + 1;
+          break;
+        }
+      }
+      // The rest of the chunk is left for whoever reads stdin next
+      ctx.stdin.unread(chunk.subarray(end));
+      await ctx.stdout.write(chunk.subarray(0, end));
+    }
   } else {
     for (let i = 0; i < files.length; i++) {
       const file = files[i]!;
+      if (files.length > 1) {
+        if (i > 0) await ctx.stdout.writeText("\n");
+        await ctx.stdout.writeText(`==> ${file} <==\n`);
+      }
+      let content: string;
       try {
-        if (files.length > 1) {
-          if (i > 0) await ctx.stdout.writeText("\n");
-          await ctx.stdout.writeText(`==> ${file} <==\n`);
-        }
         const path = ctx.fs.resolve(ctx.cwd, file);
-        const content = (await ctx.fs.readFile(path)).toString();
-        await outputLines(content);
+        content = (await ctx.fs.readFile(path)).toString();
       } catch (err) {
         await ctx.stderr.writeText(`head: ${file}: No such file or directory\n`);
         return 1;
       }
+      await outputLines(content);
     }
   }
 
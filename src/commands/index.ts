@@ -31,6 +31,28 @@ export { cut } from "./cut/cut.ts";
 export { od } from "./od/od.ts";
 export { sh, evalCmd as eval, evalCmd, source, dot } from "./sh/sh.ts";
 export { exitCmd as exit, exitCmd } from "./exit/exit.ts";
+export { returnCmd as return, returnCmd } from "./return/return.ts";
+export { local } from "./local/local.ts";
+export { wait } from "./wait/wait.ts";
+export { jobs } from "./jobs/jobs.ts";
+export { kill } from "./kill/kill.ts";
+export { set } from "./set/set.ts";
+export { read } from "./read/read.ts";
+export { exportCmd as export, exportCmd } from "./export/export.ts";
+export { readonly } from "./readonly/readonly.ts";
+export { unset } from "./unset/unset.ts";
+export { shift } from "./shift/shift.ts";
+export { env } from "./env/env.ts";
+export { printenv } from "./printenv/printenv.ts";
+export { trap } from "./trap/trap.ts";
+export { execCmd as exec, execCmd } from "./exec/exec.ts";
+export { declare } from "./declare/declare.ts";
+export { command } from "./command/command.ts";
+export { type } from "./type/type.ts";
+export { hash } from "./hash/hash.ts";
+export { alias, unalias } from "./alias/alias.ts";
+export { shopt } from "./shopt/shopt.ts";
+export { timeout } from "./timeout/timeout.ts";
 
 // Re-export all commands as a bundle
 import { echo } from "./echo/echo.ts";
@@ -64,6 +86,28 @@ import { cut } from "./cut/cut.ts";
 import { od } from "./od/od.ts";
 import { sh, evalCmd, source, dot } from "./sh/sh.ts";
 import { exitCmd } from "./exit/exit.ts";
+import { returnCmd } from "./return/return.ts";
+import { local } from "./local/local.ts";
+import { wait } from "./wait/wait.ts";
+import { jobs } from "./jobs/jobs.ts";
+import { kill } from "./kill/kill.ts";
+import { set } from "./set/set.ts";
+import { read } from "./read/read.ts";
+import { exportCmd } from "./export/export.ts";
+import { readonly } from "./readonly/readonly.ts";
+import { unset } from "./unset/unset.ts";
+import { shift } from "./shift/shift.ts";
+import { env } from "./env/env.ts";
+import { printenv } from "./printenv/printenv.ts";
+import { trap } from "./trap/trap.ts";
+import { execCmd } from "./exec/exec.ts";
+import { declare } from "./declare/declare.ts";
+import { command } from "./command/command.ts";
+import { type } from "./type/type.ts";
+import { hash } from "./hash/hash.ts";
+import { alias, unalias } from "./alias/alias.ts";
+import { shopt } from "./shopt/shopt.ts";
+import { timeout } from "./timeout/timeout.ts";
 
 export const builtinCommands: Record<string, Command> = {
   echo,
@@ -103,4 +147,28 @@ export const builtinCommands: Record<string, Command> = {
   source,
   ".": dot,
   exit: exitCmd,
+  return: returnCmd,
+  local,
+  wait,
+  jobs,
+  kill,
+  set,
+  read,
+  export: exportCmd,
+  readonly,
+  unset,
+  shift,
+  env,
+  printenv,
+  trap,
+  exec: execCmd,
+  declare,
+  typeset: declare,
+  command,
+  type,
+  hash,
+  alias,
+  unalias,
+  shopt,
+  timeout,
 };
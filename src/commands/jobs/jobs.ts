@@ -0,0 +1,71 @@
+import type { Command, ShellJob } from "../../types.ts";
+
+const SIGNAL_DESCRIPTIONS: Record<number, string> = {
+  1: "Hangup",
+  2: "Interrupt",
+  3: "Quit",
+  9: "Killed",
+  15: "Terminated",
+};
+
+function describeStatus(job: ShellJob): string {
+  if (job.status === "running") {
+    return "Running";
+  }
+  if (job.status === "killed") {
+    return SIGNAL_DESCRIPTIONS[job.signal ?? 15] ?? `Signal ${job.signal}`;
+  }
+  return job.exitCode === 0 ? "Done" : `Exit ${job.exitCode}`;
+}
+
+export const jobs: Command = async (ctx) => {
+  if (!ctx.shell) {
+    await ctx.stderr.writeText("jobs: job control not supported\n");
+    return 1;
+  }
+
+  let showPids = false;
+  let pidsOnly = false;
+  const specs: string[] = [];
+  for (const arg of ctx.args) {
+    if (arg === "-l") {
+      showPids = true;
+    } else if (arg === "-p") {
+      pidsOnly = true;
+    } else if (arg.startsWith("-") && arg !== "-") {
+      await ctx.stderr.writeText(`jobs: ${arg}: invalid option\n`);
+      return 2;
+    } else {
+      specs.push(arg);
+    }
+  }
+
+  const all = ctx.shell.jobs();
+  let selected = all;
+  if (specs.length > 0) {
+    selected = [];
+    for (const spec of specs) {
+      const job = ctx.shell.findJob(spec);
+      if (!job) {
+        await ctx.stderr.writeText(`jobs: ${spec}: no such job\n`);
+        return 1;
+      }
+      selected.push(job);
+    }
+  }
+
+  const current = all[all.length - 1]?.id;
+  const previous = all[all.length - 2]?.id;
+  for (const job of selected) {
+    if (pidsOnly) {
+      await ctx.stdout.writeText(`${job.pid}\n`);
+      continue;
+    }
+    const marker = job.id === current ? "+" : job.id === previous ? "-" : " ";
+    const pid = showPids ? `${job.pid} ` : "";
+    const command = job.status === "running" ? `${job.command} &` : job.command;
+    await ctx.stdout.writeText(`[${job.id}]${marker}  ${pid}${describeStatus(job).padEnd(24)}${command}\n`);
+  }
+
+  return 0;
+};
@@ -0,0 +1,74 @@
+import type { Command } from "../../types.ts";
+import { SIGNALS } from "../../interpreter/jobs.ts";
+
+function parseSignal(value: string): number | null {
+  if (/^\d+$/.test(value)) {
+    const signal = Number(value);
+    return signal === 0 || Object.values(SIGNALS).includes(signal) ? signal : null;
+  }
+  const name = value.toUpperCase().replace(/^SIG/, "");
+  return SIGNALS[name] ?? null;
+}
+
+export const kill: Command = async (ctx) => {
+  if (!ctx.shell) {
+    await ctx.stderr.writeText("kill: job control not supported\n");
+    return 1;
+  }
+
+  const args = [...ctx.args];
+  let signal = SIGNALS.TERM!;
+
+  if (args[0] === "-l") {
+    await ctx.stdout.writeText(`${Object.keys(SIGNALS).join(" ")}\n`);
+    return 0;
+  }
+
+  if (args[0] === "-s" || args[0] === "-n") {
+    const value = args[1];
+    const parsed = value === undefined ? null : parseSignal(value);
+    if (parsed === null) {
+      await ctx.stderr.writeText(`kill: ${value ?? ""}: invalid signal specification\n`);
+      return 1;
+    }
+    signal = parsed;
+    args.splice(0, 2);
+  } else if (args[0]?.startsWith("-") && args[0] !== "--") {
+    const parsed = parseSignal(args[0].slice(1));
+    if (parsed === null) {
+      await ctx.stderr.writeText(`kill: ${args[0].slice(1)}: invalid signal specification\n`);
+      return 1;
+    }
+    signal = parsed;
+    args.shift();
+  }
+  if (args[0] === "--") {
+    args.shift();
+  }
+
+  if (args.length === 0) {
+    await ctx.stderr.writeText("kill: usage: kill [-s sigspec | -n signum | -sigspec] pid | jobspec ...\n");
+    return 2;
+  }
+
+  let exitCode = 0;
+  for (const spec of args) {
+    const job = ctx.shell.findJob(spec);
+    if (!job) {
+      if (spec.startsWith("%")) {
+        await ctx.stderr.writeText(`kill: ${spec}: no such job\n`);
+      } else if (/^\d+$/.test(spec)) {
+        await ctx.stderr.writeText(`kill: (${spec}) - No such process\n`);
+      } else {
+        await ctx.stderr.writeText(`kill: ${spec}: arguments must be process or job IDs\n`);
+      }
+      exitCode = 1;
+      continue;
+    }
+    if (signal !== 0) {
+      ctx.shell.killJob(job.id, signal);
+    }
+  }
+
+  return exitCode;
+};
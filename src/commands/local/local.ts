@@ -0,0 +1,47 @@
+import type { Command } from "../../types.ts";
+
+const NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+// `name=(...)`, passed through as source text by the parser
+const ARRAY_LITERAL = /^([A-Za-z_][A-Za-z0-9_]*)\+?=\(.*\)$/s;
+
+export const local: Command = async (ctx) => {
+  if (!ctx.shell) {
+    await ctx.stderr.writeText("local: shell evaluation not supported\n");
+    return 1;
+  }
+
+  // -a and -A declare indexed and associative arrays
+  let arrayKind: "a" | "A" | null = null;
+  let args = ctx.args;
+  while (args[0] === "-a" || args[0] === "-A") {
+    arrayKind = args[0] === "-A" ? "A" : "a";
+    args = args.slice(1);
+  }
+
+  let exitCode = 0;
+  for (const arg of args) {
+    const literal = arg.match(ARRAY_LITERAL);
+    const eqIndex = arg.indexOf("=");
+    const name = literal ? literal[1]! : eqIndex === -1 ? arg : arg.slice(0, eqIndex);
+    if (!NAME_PATTERN.test(name)) {
+      await ctx.stderr.writeText(`local: \`${arg}': not a valid identifier\n`);
+      exitCode = 1;
+      continue;
+    }
+    if (!literal) {
+      const value = eqIndex === -1 ? undefined : arg.slice(eqIndex + 1);
+      ctx.shell.local(name, value);
+      if (arrayKind) {
+        // A scalar value becomes element 0
+        const entries: Array<[string, string]> = value === undefined ? [] : [["0", value]];
+        ctx.shell.setArray(name, { associative: arrayKind === "A", entries });
+      }
+      continue;
+    }
+    ctx.shell.local(name);
+    ctx.shell.setArray(name, { associative: arrayKind === "A", entries: [] });
+    exitCode = (await ctx.shell.eval(arg)) || exitCode;
+  }
+
+  return exitCode;
+};
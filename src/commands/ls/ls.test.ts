@@ -177,6 +177,17 @@ describe("ls command", () => {
     expect(result).toContain("bottom.txt");
   });
 
+  test("-R stops quietly with status 141 when the reader goes away", async () => {
+    for (let i = 0; i < 200; i++) {
+      vol.mkdirSync(`/many/d${i}`, { recursive: true });
+      vol.writeFileSync(`/many/d${i}/file.txt`, "x");
+    }
+    const result = await sh`set -o pipefail; ls -R /many | head -n 1`.nothrow();
+    expect(result.stdout.toString()).toBe("/many:\n");
+    expect(result.stderr.toString()).toBe("");
+    expect(result.exitCode).toBe(141);
+  });
+
   test("default (non-TTY) outputs one entry per line", async () => {
     const result = await sh`ls /dir`.text();
     const lines = result.trim().split("\n");
@@ -87,6 +87,7 @@ export const ls: Command = async (ctx) => {
     if (longFormat) {
       for (const entry of entries) {
         const entryPath = ctx.fs.resolve(dirPath, entry);
+        let line: string;
         try {
           const entryStat = await ctx.fs.stat(entryPath);
           const isDir = entryStat.isDirectory();
@@ -95,10 +96,11 @@ export const ls: Command = async (ctx) => {
           const size = formatSize(entryStat.size, humanReadable);
           const date = entryStat.mtime.toISOString().slice(0, 10);
           const name = colorize(entry, isDir, isTTY);
-          await ctx.stdout.writeText(`${type}${perms} ${size} ${date} ${name}\n`);
+          line = `${type}${perms} ${size} ${date} ${name}\n`;
         } catch {
-          await ctx.stdout.writeText(`?????????? ${entry}\n`);
+          line = `?????????? ${entry}\n`;
         }
+        await ctx.stdout.writeText(line);
       }
     } else if (onePerLine || !isTTY) {
       if (isTTY) {
@@ -136,15 +138,16 @@ export const ls: Command = async (ctx) => {
     if (recursive) {
       for (const entry of entries) {
         const entryPath = ctx.fs.resolve(dirPath, entry);
+        let isDir = false;
         try {
-          const entryStat = await ctx.fs.stat(entryPath);
-          if (entryStat.isDirectory()) {
-            const subDisplay = displayPath === "." ? entry : `${displayPath}/${entry}`;
-            await listDir(entryPath, subDisplay, true);
-          }
+          isDir = (await ctx.fs.stat(entryPath)).isDirectory();
         } catch {
           // skip entries we can't stat
         }
+        if (isDir) {
+          const subDisplay = displayPath === "." ? entry : `${displayPath}/${entry}`;
+          await listDir(entryPath, subDisplay, true);
+        }
       }
     }
   };
@@ -153,20 +156,21 @@ export const ls: Command = async (ctx) => {
     const pathArg = paths[i]!;
     const path = ctx.fs.resolve(ctx.cwd, pathArg);
 
+    let isFile: boolean;
     try {
-      const stat = await ctx.fs.stat(path);
-
-      if (stat.isFile()) {
-        await ctx.stdout.writeText(ctx.fs.basename(path) + "\n");
-        continue;
-      }
-
-      const showHeader = recursive || paths.length > 1;
-      await listDir(path, pathArg, showHeader);
+      isFile = (await ctx.fs.stat(path)).isFile();
     } catch (err) {
       await ctx.stderr.writeText(`ls: cannot access '${pathArg}': No such file or directory\n`);
       return 1;
     }
+
+    if (isFile) {
+      await ctx.stdout.writeText(ctx.fs.basename(path) + "\n");
+      continue;
+    }
+
+    const showHeader = recursive || paths.length > 1;
+    await listDir(path, pathArg, showHeader);
   }
 
   return 0;
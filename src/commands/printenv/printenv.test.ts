@@ -0,0 +1,37 @@
+import { test, expect, describe, beforeEach } from "bun:test";
+import { createFsFromVolume, Volume } from "memfs";
+import { createVirtualFS, createShellDSL } from "../../index.ts";
+import { builtinCommands } from "../index.ts";
+
+describe("printenv command", () => {
+  let sh: ReturnType<typeof createShellDSL>;
+
+  beforeEach(() => {
+    const vol = new Volume();
+    const memfs = createFsFromVolume(vol);
+    const fs = createVirtualFS(memfs);
+
+    sh = createShellDSL({
+      fs,
+      cwd: "/",
+      env: { HOME: "/home/user", LANG: "C" },
+      commands: builtinCommands,
+    });
+  });
+
+  test("prints every exported variable", async () => {
+    const result = await sh`HIDDEN=1; printenv`.text();
+    expect(result).toBe("HOME=/home/user\nLANG=C\n");
+  });
+
+  test("prints the values of named variables", async () => {
+    const result = await sh`printenv LANG HOME`.text();
+    expect(result).toBe("C\n/home/user\n");
+  });
+
+  test("fails when a named variable is not exported", async () => {
+    const result = await sh`HIDDEN=1; printenv HIDDEN LANG`.nothrow();
+    expect(result.exitCode).toBe(1);
+    expect(result.stdout.toString()).toBe("C\n");
+  });
+});
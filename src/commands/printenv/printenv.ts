@@ -0,0 +1,23 @@
+import type { Command } from "../../types.ts";
+
+export const printenv: Command = async (ctx) => {
+  if (ctx.args.length === 0) {
+    for (const [name, value] of Object.entries(ctx.env)) {
+      await ctx.stdout.writeText(`${name}=${value}\n`);
+    }
+    return 0;
+  }
+
+  // Like coreutils, missing variables print nothing but fail the command
+  let exitCode = 0;
+  for (const name of ctx.args) {
+    const value = ctx.env[name];
+    if (value === undefined) {
+      exitCode = 1;
+      continue;
+    }
+    await ctx.stdout.writeText(`${value}\n`);
+  }
+
+  return exitCode;
+};
@@ -0,0 +1,129 @@
+import { test, expect, describe, beforeEach } from "bun:test";
+import { createFsFromVolume, Volume } from "memfs";
+import { createVirtualFS, createShellDSL, createShellSession, createShellInput } from "../../index.ts";
+import { builtinCommands } from "../index.ts";
+
+describe("read command", () => {
+  let vol: InstanceType<typeof Volume>;
+  let sh: ReturnType<typeof createShellDSL>;
+
+  beforeEach(() => {
+    vol = new Volume();
+    vol.fromJSON({
+      "/users.txt": "alice 30 admin\nbob 25\ncarol\n",
+      "/passwd": "root:x:0:0::/root:/bin/sh\n",
+    });
+    const memfs = createFsFromVolume(vol);
+    const fs = createVirtualFS(memfs);
+
+    sh = createShellDSL({
+      fs,
+      cwd: "/",
+      env: {},
+      commands: builtinCommands,
+    });
+  });
+
+  test("reads one line per iteration of a while loop", async () => {
+    const result = await sh`cat /users.txt | while read -r name age rest; do echo "$name|$age|$rest"; done`.text();
+    expect(result).toBe("alice|30|admin\nbob|25|\ncarol||\n");
+  });
+
+  test("leaves the rest of the input for later commands", async () => {
+    const result = await sh`{ read first; read second; cat; } < /users.txt`.text();
+    expect(result).toBe("carol\n");
+  });
+
+  test("assigns to REPLY without trimming when no names are given", async () => {
+    const result = await sh`printf '  padded  \n' | { read; echo "[$REPLY]"; }`.text();
+    expect(result).toBe("[  padded  ]\n");
+  });
+
+  test("splits on IFS, keeping empty fields between non-whitespace separators", async () => {
+    const result = await sh`IFS=: read user pass uid gid gecos home shell < /passwd; echo "$user $uid [$gecos] $shell"`.text();
+    expect(result).toBe("root 0 [] /bin/sh\n");
+  });
+
+  test("handles backslashes unless -r is given", async () => {
+    const result = await sh`printf 'a\\ b c\\\nd\n' | { read x y; echo "[$x][$y]"; }; printf 'a\\ b\n' | { read -r x y; echo "[$x][$y]"; }`.text();
+    expect(result).toBe("[a b][cd]\n[a\\][b]\n");
+  });
+
+  test("returns 1 at end of input but still assigns a partial line", async () => {
+    const result = await sh`printf 'no newline' | { read line; echo "$? $line"; read line; echo "$? [$line]"; }`.text();
+    expect(result).toBe("1 no newline\n1 []\n");
+  });
+
+  test("-d reads up to a custom delimiter", async () => {
+    const result = await sh`printf 'a,b;c;' | while read -d ';' item; do echo "<$item>"; done`.text();
+    expect(result).toBe("<a,b>\n<c>\n");
+  });
+
+  test("-n reads a fixed number of characters", async () => {
+    const result = await sh`printf 'héllo world\n' | { read -n 3 head; read tail; echo "$head|$tail"; }`.text();
+    expect(result).toBe("hél|lo world\n");
+  });
+
+  test("-p writes a prompt to stderr", async () => {
+    const result = await sh`echo yes | { read -p "Continue? " answer; echo "$answer"; }`.nothrow();
+    expect(result.stdout.toString()).toBe("yes\n");
+    expect(result.stderr.toString()).toBe("Continue? ");
+  });
+
+  test("reads from heredocs", async () => {
+    const result = await sh`read -r greeting name <<EOF
+hello world
+EOF
+echo "$name"`.text();
+    expect(result).toBe("world\n");
+  });
+
+  test("rejects invalid names and options", async () => {
+    const result = await sh`echo x | read 1x; echo x | read -z`.nothrow();
+    expect(result.exitCode).toBe(2);
+    expect(result.stderr.toString()).toBe(
+      "read: `1x': not a valid identifier\n" +
+        "read: invalid option -- 'z'\n" +
+        "usage: read [-r] [-d delim] [-n nchars] [-p prompt] [-t timeout] [name ...]\n"
+    );
+  });
+
+  test("-t times out without losing input that arrives later", async () => {
+    const session = createShellSession({
+      fs: createVirtualFS(createFsFromVolume(vol)),
+      cwd: "/",
+      env: {},
+      commands: builtinCommands,
+    });
+    const stdin = createShellInput();
+
+    const execution = session.run('read -t 0.02 first; echo "$? [$first]"; read second; echo "$? [$second]"', {
+      stdin,
+    });
+    setTimeout(async () => {
+      await stdin.write("late\n");
+      stdin.close();
+    }, 60);
+
+    const result = await execution.exit;
+    expect(result.stdout.toString()).toBe("142 []\n0 [late]\n");
+  });
+
+  test("reads lines split across input chunks", async () => {
+    const session = createShellSession({
+      fs: createVirtualFS(createFsFromVolume(vol)),
+      cwd: "/",
+      env: {},
+      commands: builtinCommands,
+    });
+    const stdin = createShellInput();
+
+    const execution = session.run('while read -r line; do echo "<$line>"; done', { stdin });
+    await stdin.write("one\ntw");
+    await stdin.write("o\nthree\n");
+    stdin.close();
+
+    const result = await execution.exit;
+    expect(result.stdout.toString()).toBe("<one>\n<two>\n<three>\n");
+  });
+});
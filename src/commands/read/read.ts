@@ -0,0 +1,201 @@
+import type { Command } from "../../types.ts";
+import { createFlagParser, type FlagDefinition } from "../../utils/flag-parser.ts";
+
+interface ReadFlags {
+  raw: boolean;
+  delimiter: string;
+  count?: string;
+  timeout?: string;
+  prompt?: string;
+}
+
+interface InputChar {
+  char: string;
+  escaped: boolean;
+}
+
+const NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const IFS_WHITESPACE = " \t\n";
+// 128 + SIGALRM, like bash
+const TIMEOUT_EXIT_CODE = 142;
+
+const spec = {
+  name: "read",
+  flags: [
+    { short: "r" },
+    { short: "d", takesValue: true },
+    { short: "n", takesValue: true },
+    { short: "t", takesValue: true },
+    { short: "p", takesValue: true },
+  ] as FlagDefinition[],
+  usage: "read [-r] [-d delim] [-n nchars] [-p prompt] [-t timeout] [name ...]",
+};
+
+const defaults: ReadFlags = { raw: false, delimiter: "\n" };
+
+const handler = (flags: ReadFlags, flag: FlagDefinition, value?: string) => {
+  switch (flag.short) {
+    case "r":
+      flags.raw = true;
+      break;
+    case "d":
+      // An empty delimiter reads up to a NUL byte
+      flags.delimiter = value?.[0] ?? "\0";
+      break;
+    case "n":
+      flags.count = value;
+      break;
+    case "t":
+      flags.timeout = value;
+      break;
+    case "p":
+      flags.prompt = value;
+      break;
+  }
+};
+
+const parser = createFlagParser(spec, defaults, handler);
+
+/**
+ * Without -r, a backslash quotes the next character (so it never separates
+ * fields) and a backslash-newline pair continues the line.
+ */
+function parseInput(input: string, raw: boolean): InputChar[] {
+  const chars: InputChar[] = [];
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]!;
+    if (char === "\\" && !raw) {
+      const next = input[i + 1];
+      if (next !== undefined && next !== "\n") {
+        chars.push({ char: next, escaped: true });
+      }
+      i++;
+      continue;
+    }
+    chars.push({ char, escaped: false });
+  }
+  return chars;
+}
+
+function endsWithLineContinuation(input: string): boolean {
+  const backslashes = input.length - input.replace(/\\+$/, "").length;
+  return backslashes % 2 === 1;
+}
+
+/**
+ * Split a line into at most `count` fields. The last field gets the rest of
+ * the line, minus surrounding IFS whitespace.
+ */
+function splitFields(chars: InputChar[], ifs: string, count: number): string[] {
+  const isSeparator = (c: InputChar) => !c.escaped && ifs.includes(c.char);
+  const isWhitespace = (c: InputChar) => isSeparator(c) && IFS_WHITESPACE.includes(c.char);
+  const text = (from: number, to: number) => chars.slice(from, to).map((c) => c.char).join("");
+
+  let pos = 0;
+  let end = chars.length;
+  while (pos < end && isWhitespace(chars[pos]!)) pos++;
+  while (end > pos && isWhitespace(chars[end - 1]!)) end--;
+
+  const fields: string[] = [];
+  while (fields.length < count - 1 && pos < end) {
+    let fieldEnd = pos;
+    while (fieldEnd < end && !isSeparator(chars[fieldEnd]!)) fieldEnd++;
+    fields.push(text(pos, fieldEnd));
+
+    // A separator is IFS whitespace around at most one other IFS character
+    pos = fieldEnd;
+    while (pos < end && isWhitespace(chars[pos]!)) pos++;
+    if (pos < end && isSeparator(chars[pos]!)) {
+      pos++;
+      while (pos < end && isWhitespace(chars[pos]!)) pos++;
+    }
+  }
+  if (pos < end) {
+    fields.push(text(pos, end));
+  }
+  return fields;
+}
+
+export const read: Command = async (ctx) => {
+  if (!ctx.shell) {
+    await ctx.stderr.writeText("read: shell variables not supported\n");
+    return 1;
+  }
+
+  const result = parser.parse(ctx.args);
+  if (result.error) {
+    await parser.writeError(result.error, ctx.stderr);
+    return 2;
+  }
+
+  const { raw, delimiter, prompt } = result.flags;
+  const names = result.args;
+  for (const name of names) {
+    if (!NAME_PATTERN.test(name)) {
+      await ctx.stderr.writeText(`read: \`${name}': not a valid identifier\n`);
+      return 1;
+    }
+  }
+
+  let maxChars: number | undefined;
+  if (result.flags.count !== undefined) {
+    if (!/^\d+$/.test(result.flags.count)) {
+      await ctx.stderr.writeText(`read: ${result.flags.count}: invalid number\n`);
+      return 1;
+    }
+    maxChars = Number(result.flags.count);
+  }
+
+  let signal = ctx.signal;
+  if (result.flags.timeout !== undefined) {
+    if (!/^(\d+\.?\d*|\.\d+)$/.test(result.flags.timeout)) {
+      await ctx.stderr.writeText(`read: ${result.flags.timeout}: invalid timeout specification\n`);
+      return 1;
+    }
+    signal = AbortSignal.any([ctx.signal, AbortSignal.timeout(Number(result.flags.timeout) * 1000)]);
+  }
+
+  if (prompt !== undefined) {
+    await ctx.stderr.writeText(prompt);
+  }
+
+  let input = "";
+  let terminated = false;
+  while (true) {
+    let chunk: string | null;
+    try {
+      chunk = await ctx.stdin.readUntil(delimiter, {
+        maxChars: maxChars === undefined ? undefined : maxChars - [...input].length,
+        signal,
+      });
+    } catch (err) {
+      if (ctx.signal.aborted) {
+        throw err;
+      }
+      return TIMEOUT_EXIT_CODE;
+    }
+    if (chunk === null) {
+      break;
+    }
+
+    terminated = chunk.endsWith(delimiter);
+    input += terminated ? chunk.slice(0, -delimiter.length) : chunk;
+    if (terminated && !raw && delimiter === "\n" && endsWithLineContinuation(input)) {
+      input = input.slice(0, -1);
+      continue;
+    }
+    // Stopping after -n characters counts as a complete read
+    terminated ||= maxChars !== undefined && [...input].length >= maxChars;
+    break;
+  }
+
+  const chars = parseInput(input, raw);
+  if (names.length === 0) {
+    ctx.shell.setVariable("REPLY", chars.map((c) => c.char).join(""));
+  } else {
+    const fields = splitFields(chars, ctx.env.IFS ?? ctx.shell.getVariable("IFS") ?? IFS_WHITESPACE, names.length);
+    names.forEach((name, i) => ctx.shell!.setVariable(name, fields[i] ?? ""));
+  }
+
+  return terminated ? 0 : 1;
+};
@@ -0,0 +1,56 @@
+import type { Command } from "../../types.ts";
+import { createFlagParser, type FlagDefinition } from "../../utils/flag-parser.ts";
+import { escape } from "../../utils/escape.ts";
+
+const NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+const spec = {
+  name: "readonly",
+  flags: [{ short: "p" }] as FlagDefinition[],
+  usage: "readonly [-p] [name[=value] ...]",
+  stopAfterFirstPositional: true,
+};
+
+// -p only selects the listing, which is also the default without operands
+const parser = createFlagParser(spec, {}, () => {});
+
+export const readonly: Command = async (ctx) => {
+  if (!ctx.shell) {
+    await ctx.stderr.writeText("readonly: shell variables not supported\n");
+    return 1;
+  }
+
+  const result = parser.parse(ctx.args);
+  if (result.error) {
+    await parser.writeError(result.error, ctx.stderr);
+    return 2;
+  }
+
+  if (result.args.length === 0) {
+    for (const name of ctx.shell.getReadonlyNames().sort()) {
+      const value = ctx.shell.getVariable(name);
+      await ctx.stdout.writeText(value === undefined ? `readonly ${name}\n` : `readonly ${name}=${escape(value)}\n`);
+    }
+    return 0;
+  }
+
+  let exitCode = 0;
+  for (const arg of result.args) {
+    const eqIndex = arg.indexOf("=");
+    const name = eqIndex === -1 ? arg : arg.slice(0, eqIndex);
+    if (!NAME_PATTERN.test(name)) {
+      await ctx.stderr.writeText(`readonly: \`${arg}': not a valid identifier\n`);
+      exitCode = 1;
+      continue;
+    }
+
+    try {
+      ctx.shell.setReadonly(name, eqIndex === -1 ? undefined : arg.slice(eqIndex + 1));
+    } catch (err) {
+      await ctx.stderr.writeText(`readonly: ${err instanceof Error ? err.message : String(err)}\n`);
+      exitCode = 1;
+    }
+  }
+
+  return exitCode;
+};
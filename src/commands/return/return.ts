@@ -0,0 +1,28 @@
+import type { Command } from "../../types.ts";
+
+export const returnCmd: Command = async (ctx) => {
+  if (!ctx.shell) {
+    await ctx.stderr.writeText("return: shell control not supported\n");
+    return 1;
+  }
+
+  if (ctx.args.length === 0) {
+    ctx.shell.return(ctx.shell.getLastExitCode());
+    return 0;
+  }
+
+  const rawExitCode = ctx.args[0]!;
+  if (!/^[+-]?\d+$/.test(rawExitCode)) {
+    await ctx.stderr.writeText(`return: ${rawExitCode}: numeric argument required\n`);
+    ctx.shell.return(2);
+    return 0;
+  }
+
+  if (ctx.args.length > 1) {
+    await ctx.stderr.writeText("return: too many arguments\n");
+    return 1;
+  }
+
+  ctx.shell.return(Number(rawExitCode));
+  return 0;
+};
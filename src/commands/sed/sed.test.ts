@@ -631,4 +631,12 @@ describe("sed command", () => {
       expect(result).toBe("bar\\baz\n");
     });
   });
+
+  test("stops quietly with status 141 when the reader goes away", async () => {
+    vol.writeFileSync("/big.txt", Array.from({ length: 10000 }, (_, i) => `foo ${i}`).join("\n") + "\n");
+    const result = await sh`set -o pipefail; sed s/foo/bar/ /big.txt | head -n 1`.nothrow();
+    expect(result.stdout.toString()).toBe("bar 0\n");
+    expect(result.stderr.toString()).toBe("");
+    expect(result.exitCode).toBe(141);
+  });
 });
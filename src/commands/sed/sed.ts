@@ -746,18 +746,19 @@ export const sed: Command = async (ctx) => {
     }
   } else {
     for (const file of files) {
+      let outputLines: string[];
       try {
         const path = ctx.fs.resolve(ctx.cwd, file);
         const content = await ctx.fs.readFile(path);
-        const outputLines = await processContent(content.toString());
-        for (const line of outputLines) {
-          await ctx.stdout.writeText(line + "\n");
-        }
+        outputLines = await processContent(content.toString());
       } catch (err) {
         const message = err instanceof Error ? err.message : String(err);
         await ctx.stderr.writeText(`sed: ${file}: ${message}\n`);
         return 1;
       }
+      for (const line of outputLines) {
+        await ctx.stdout.writeText(line + "\n");
+      }
     }
   }
 
@@ -0,0 +1,77 @@
+import type { Command, CommandContext, ShellOptions } from "../../types.ts";
+import { SHELL_OPTION_FLAGS } from "../../interpreter/interpreter.ts";
+
+const FLAG_OPTIONS = new Map(SHELL_OPTION_FLAGS);
+
+function quoteValue(value: string): string {
+  return /^[A-Za-z0-9_@%+=:,./-]*$/.test(value) ? value : `'${value.replaceAll("'", "'\\''")}'`;
+}
+
+async function printOptions(ctx: CommandContext, options: Required<ShellOptions>, asCommands: boolean): Promise<void> {
+  for (const [name, enabled] of Object.entries(options)) {
+    await ctx.stdout.writeText(
+      asCommands ? `set ${enabled ? "-" : "+"}o ${name}\n` : `${name.padEnd(15)}\t${enabled ? "on" : "off"}\n`
+    );
+  }
+}
+
+export const set: Command = async (ctx) => {
+  if (!ctx.shell) {
+    await ctx.stderr.writeText("set: shell options not supported\n");
+    return 1;
+  }
+
+  if (ctx.args.length === 0) {
+    const variables = ctx.shell.getVariables();
+    for (const name of Object.keys(variables).sort()) {
+      await ctx.stdout.writeText(`${name}=${quoteValue(variables[name]!)}\n`);
+    }
+    return 0;
+  }
+
+  for (let i = 0; i < ctx.args.length; i++) {
+    const arg = ctx.args[i]!;
+    const enable = arg.startsWith("-");
+
+    // `--` or the first operand starts the new positional parameters
+    if (arg === "--" || !/^[-+]/.test(arg)) {
+      ctx.shell.setPositionalParameters(ctx.args.slice(arg === "--" ? i + 1 : i));
+      return 0;
+    }
+
+    if (!/^[-+][A-Za-z]+$/.test(arg)) {
+      await ctx.stderr.writeText(`set: ${arg}: invalid option\n`);
+      await ctx.stderr.writeText("set: usage: set [-efux] [-o option-name]\n");
+      return 2;
+    }
+
+    for (const flag of arg.slice(1)) {
+      // `-o name` may be combined with other flags, as in `set -euo pipefail`
+      if (flag === "o") {
+        const name = ctx.args[i + 1];
+        const options = ctx.shell.getOptions();
+        if (name === undefined) {
+          await printOptions(ctx, options, !enable);
+          continue;
+        }
+        if (!(name in options)) {
+          await ctx.stderr.writeText(`set: ${name}: invalid option name\n`);
+          return 2;
+        }
+        ctx.shell.setOptions({ [name]: enable });
+        i++;
+        continue;
+      }
+
+      const option = FLAG_OPTIONS.get(flag);
+      if (!option) {
+        await ctx.stderr.writeText(`set: ${arg[0]}${flag}: invalid option\n`);
+        await ctx.stderr.writeText("set: usage: set [-efux] [-o option-name]\n");
+        return 2;
+      }
+      ctx.shell.setOptions({ [option]: enable });
+    }
+  }
+
+  return 0;
+};
@@ -0,0 +1,29 @@
+import type { Command } from "../../types.ts";
+
+export const shift: Command = async (ctx) => {
+  if (!ctx.shell) {
+    await ctx.stderr.writeText("shift: positional parameters not supported\n");
+    return 1;
+  }
+
+  if (ctx.args.length > 1) {
+    await ctx.stderr.writeText("shift: too many arguments\n");
+    return 1;
+  }
+
+  const rawCount = ctx.args[0] ?? "1";
+  if (!/^\d+$/.test(rawCount)) {
+    await ctx.stderr.writeText(`shift: ${rawCount}: numeric argument required\n`);
+    return 1;
+  }
+
+  const count = Number(rawCount);
+  const parameters = ctx.shell.getPositionalParameters();
+  if (count > parameters.length) {
+    await ctx.stderr.writeText(`shift: ${rawCount}: shift count out of range\n`);
+    return 1;
+  }
+
+  ctx.shell.setPositionalParameters(parameters.slice(count));
+  return 0;
+};
@@ -0,0 +1,89 @@
+import type { Command } from "../../types.ts";
+import { createFlagParser, type FlagDefinition } from "../../utils/flag-parser.ts";
+
+interface ShoptFlags {
+  set: boolean;
+  unset: boolean;
+  print: boolean;
+  quiet: boolean;
+  setOptions: boolean;
+}
+
+const parser = createFlagParser<ShoptFlags>(
+  {
+    name: "shopt",
+    flags: [{ short: "s" }, { short: "u" }, { short: "p" }, { short: "q" }, { short: "o" }] as FlagDefinition[],
+    usage: "shopt [-pqsu] [-o] [optname ...]",
+  },
+  { set: false, unset: false, print: false, quiet: false, setOptions: false },
+  (flags, flag) => {
+    if (flag.short === "s") flags.set = true;
+    else if (flag.short === "u") flags.unset = true;
+    else if (flag.short === "p") flags.print = true;
+    else if (flag.short === "q") flags.quiet = true;
+    else if (flag.short === "o") flags.setOptions = true;
+  }
+);
+
+export const shopt: Command = async (ctx) => {
+  if (!ctx.shell) {
+    await ctx.stderr.writeText("shopt: shell options not supported\n");
+    return 1;
+  }
+  const shell = ctx.shell;
+
+  const result = parser.parse(ctx.args);
+  if (result.error) {
+    await parser.writeError(result.error, ctx.stderr);
+    return 2;
+  }
+  const { flags, args: names } = result;
+
+  if (flags.set && flags.unset) {
+    await ctx.stderr.writeText("shopt: cannot set and unset shell options simultaneously\n");
+    return 1;
+  }
+
+  // `-o` works on the `set -o` options instead
+  const options: Record<string, boolean> = flags.setOptions ? shell.getOptions() : shell.getShoptOptions();
+  const update = (changes: Record<string, boolean>) =>
+    flags.setOptions ? shell.setOptions(changes) : shell.setShoptOptions(changes);
+
+  let exitCode = 0;
+  const valid: string[] = [];
+  for (const name of names) {
+    if (name in options) {
+      valid.push(name);
+    } else {
+      await ctx.stderr.writeText(`shopt: ${name}: invalid shell option name\n`);
+      exitCode = 1;
+    }
+  }
+
+  if ((flags.set || flags.unset) && names.length > 0) {
+    update(Object.fromEntries(valid.map((name) => [name, flags.set])));
+    return exitCode;
+  }
+
+  // Without names, -s and -u list the options that are on or off
+  const listed =
+    names.length > 0
+      ? valid
+      : Object.keys(options).filter((name) => !(flags.set || flags.unset) || options[name] === flags.set);
+  for (const name of listed) {
+    const enabled = options[name]!;
+    if (!enabled && names.length > 0) {
+      exitCode = 1;
+    }
+    if (flags.quiet) {
+      continue;
+    }
+    if (flags.print) {
+      const command = flags.setOptions ? `set ${enabled ? "-" : "+"}o` : `shopt ${enabled ? "-s" : "-u"}`;
+      await ctx.stdout.writeText(`${command} ${name}\n`);
+    } else {
+      await ctx.stdout.writeText(`${name.padEnd(15)}\t${enabled ? "on" : "off"}\n`);
+    }
+  }
+  return exitCode;
+};
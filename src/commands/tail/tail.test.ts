@@ -129,4 +129,12 @@ describe("tail command", () => {
     expect(result.stderr.toString()).toContain("unrecognized option");
     expect(result.stderr.toString()).toContain("usage:");
   });
+
+  test("stops quietly with status 141 when the reader goes away", async () => {
+    vol.writeFileSync("/big.txt", Array.from({ length: 10000 }, (_, i) => `foo ${i}`).join("\n") + "\n");
+    const result = await sh`set -o pipefail; tail -n 5000 /big.txt | head -n 1`.nothrow();
+    expect(result.stdout.toString()).toBe("foo 5000\n");
+    expect(result.stderr.toString()).toBe("");
+    expect(result.exitCode).toBe(141);
+  });
 });
@@ -68,18 +68,19 @@ export const tail: Command = async (ctx) => {
   } else {
     for (let i = 0; i < files.length; i++) {
       const file = files[i]!;
+      if (files.length > 1) {
+        if (i > 0) await ctx.stdout.writeText("\n");
+        await ctx.stdout.writeText(`==> ${file} <==\n`);
+      }
+      let content: string;
       try {
-        if (files.length > 1) {
-          if (i > 0) await ctx.stdout.writeText("\n");
-          await ctx.stdout.writeText(`==> ${file} <==\n`);
-        }
         const path = ctx.fs.resolve(ctx.cwd, file);
-        const content = (await ctx.fs.readFile(path)).toString();
-        await outputLines(content);
+        content = (await ctx.fs.readFile(path)).toString();
       } catch (err) {
         await ctx.stderr.writeText(`tail: ${file}: No such file or directory\n`);
         return 1;
       }
+      await outputLines(content);
     }
   }
 
@@ -0,0 +1,65 @@
+import { test, expect, describe, beforeEach } from "bun:test";
+import { createFsFromVolume, Volume } from "memfs";
+import { createVirtualFS, createShellDSL } from "../../index.ts";
+import { builtinCommands } from "../index.ts";
+
+describe("timeout command", () => {
+  let sh: ReturnType<typeof createShellDSL>;
+
+  beforeEach(() => {
+    const vol = new Volume();
+    const memfs = createFsFromVolume(vol);
+    const fs = createVirtualFS(memfs);
+
+    sh = createShellDSL({
+      fs,
+      cwd: "/",
+      env: {},
+      commands: builtinCommands,
+    });
+  });
+
+  test("runs a command that finishes in time", async () => {
+    const result = await sh`timeout 5 echo fast; echo "status $?"`.text();
+    expect(result).toBe("fast\nstatus 0\n");
+  });
+
+  test("passes on the command's status and stdin", async () => {
+    const result = await sh`echo input | timeout 1m cat; timeout 10s sh -c 'exit 3'; echo "status $?"`.text();
+    expect(result).toBe("input\nstatus 3\n");
+  });
+
+  test("stops a command that runs too long with status 124", async () => {
+    const result = await sh`timeout 0.05 sh -c 'echo start; while true; do :; done'; echo "status $?"`.text();
+    expect(result).toBe("start\nstatus 124\n");
+  });
+
+  test("-s KILL and --preserve-status report the signal", async () => {
+    const result = await sh`
+      timeout -s KILL 0.02 sh -c 'while :; do :; done'; echo "kill $?"
+      timeout --preserve-status 0.02 sh -c 'while :; do :; done'; echo "term $?"
+      timeout --signal=INT --preserve-status 0.02 sh -c 'while :; do :; done'; echo "int $?"
+    `.text();
+    expect(result).toBe("kill 137\nterm 143\nint 130\n");
+  });
+
+  test("runs the command in a subshell", async () => {
+    const result = await sh`mkdir /tmp; x=1; f() { x=2; }; timeout 1 f; timeout 1 cd /tmp; echo "$x"; pwd`.text();
+    expect(result).toBe("1\n/\n");
+  });
+
+  test("fails with status 125 on bad arguments", async () => {
+    const result = await sh`timeout soon echo; echo $?; timeout 1; echo $?; timeout -s NOPE 1 echo; echo $?`.nothrow();
+    expect(result.stdout.toString()).toBe("125\n125\n125\n");
+    expect(result.stderr.toString()).toBe(
+      "timeout: invalid time interval 'soon'\n" +
+        "timeout: missing operand\nusage: timeout [-s signal] [--preserve-status] duration command [arg ...]\n" +
+        "timeout: NOPE: invalid signal\n"
+    );
+  });
+
+  test("reports unknown commands with status 127", async () => {
+    const result = await sh`timeout 1 nosuch; echo $?`.nothrow();
+    expect(result.stdout.toString()).toBe("127\n");
+  });
+});
@@ -0,0 +1,102 @@
+import type { Command } from "../../types.ts";
+import { SIGNALS } from "../../interpreter/jobs.ts";
+import { createFlagParser, type FlagDefinition } from "../../utils/flag-parser.ts";
+
+interface TimeoutFlags {
+  signal: string;
+  preserveStatus: boolean;
+}
+
+const spec = {
+  name: "timeout",
+  flags: [
+    { short: "s", long: "signal", takesValue: true },
+    { long: "preserve-status" },
+  ] as FlagDefinition[],
+  usage: "timeout [-s signal] [--preserve-status] duration command [arg ...]",
+  stopAfterFirstPositional: true,
+};
+
+const defaults: TimeoutFlags = { signal: "TERM", preserveStatus: false };
+
+const handler = (flags: TimeoutFlags, flag: FlagDefinition, value?: string) => {
+  if (flag.short === "s") {
+    flags.signal = value!;
+  } else if (flag.long === "preserve-status") {
+    flags.preserveStatus = true;
+  }
+};
+
+const parser = createFlagParser(spec, defaults, handler);
+
+// Status of a command that timed out, unless --preserve-status is given
+const TIMED_OUT = 124;
+// Status when timeout itself fails
+const FAILED = 125;
+
+const UNITS: Record<string, number> = { "": 1, s: 1, m: 60, h: 60 * 60, d: 24 * 60 * 60 };
+
+// Milliseconds in a duration such as `5`, `0.5s`, `2m` or `1h`
+function parseDuration(value: string): number | null {
+  const match = /^(\d+\.?\d*|\.\d+)([smhd]?)$/.exec(value);
+  return match ? Number(match[1]) * UNITS[match[2]!]! * 1000 : null;
+}
+
+function parseSignal(value: string): string | null {
+  if (/^\d+$/.test(value)) {
+    return Object.keys(SIGNALS).find((name) => SIGNALS[name] === Number(value)) ?? null;
+  }
+  const name = value.toUpperCase().replace(/^SIG/, "");
+  return SIGNALS[name] === undefined ? null : name;
+}
+
+/**
+ * Run a command in a subshell and stop it if it is still running after the
+ * duration, with status 124. A duration of 0 never times out.
+ */
+export const timeout: Command = async (ctx) => {
+  if (!ctx.shell) {
+    await ctx.stderr.writeText("timeout: shell control not supported\n");
+    return FAILED;
+  }
+
+  const result = parser.parse(ctx.args);
+  if (result.error) {
+    await parser.writeError(result.error, ctx.stderr);
+    return FAILED;
+  }
+
+  const [duration, name, ...args] = result.args;
+  if (duration === undefined || name === undefined) {
+    await ctx.stderr.writeText(`timeout: missing operand\nusage: ${spec.usage}\n`);
+    return FAILED;
+  }
+  const milliseconds = parseDuration(duration);
+  if (milliseconds === null) {
+    await ctx.stderr.writeText(`timeout: invalid time interval '${duration}'\n`);
+    return FAILED;
+  }
+  const signal = parseSignal(result.flags.signal);
+  if (signal === null) {
+    await ctx.stderr.writeText(`timeout: ${result.flags.signal}: invalid signal\n`);
+    return FAILED;
+  }
+
+  const controller = new AbortController();
+  const timer = milliseconds > 0 ? setTimeout(() => controller.abort(`SIG${signal}`), milliseconds) : undefined;
+  // Like GNU timeout, a command killed with KILL reports that even without --preserve-status
+  const timedOut = () =>
+    result.flags.preserveStatus || signal === "KILL" ? 128 + SIGNALS[signal]! : TIMED_OUT;
+
+  try {
+    const exitCode = await ctx.shell.runCommand(name, args, undefined, { signal: controller.signal });
+    return controller.signal.aborted ? timedOut() : exitCode;
+  } catch (err) {
+    if (!controller.signal.aborted || ctx.signal.aborted) {
+      throw err;
+    }
+    return timedOut();
+  } finally {
+    clearTimeout(timer);
+  }
+};
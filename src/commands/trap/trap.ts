@@ -0,0 +1,86 @@
+import type { Command } from "../../types.ts";
+import { SIGNALS } from "../../interpreter/jobs.ts";
+
+// Listing order for `trap -p`, like the shell's signal numbering
+const CONDITIONS = ["EXIT", ...Object.keys(SIGNALS), "ERR"];
+
+function parseCondition(value: string): string | null {
+  if (/^\d+$/.test(value)) {
+    const signal = Number(value);
+    if (signal === 0) {
+      return "EXIT";
+    }
+    return Object.keys(SIGNALS).find((name) => SIGNALS[name] === signal) ?? null;
+  }
+  const name = value.toUpperCase().replace(/^SIG/, "");
+  return CONDITIONS.includes(name) ? name : null;
+}
+
+function quoteAction(action: string): string {
+  return `'${action.replaceAll("'", "'\\''")}'`;
+}
+
+export const trap: Command = async (ctx) => {
+  if (!ctx.shell) {
+    await ctx.stderr.writeText("trap: shell traps not supported\n");
+    return 1;
+  }
+
+  const args = [...ctx.args];
+
+  if (args[0] === "-l") {
+    const names = Object.entries(SIGNALS).map(([name, signal]) => `${signal}) SIG${name}`);
+    await ctx.stdout.writeText(`${names.join(" ")}\n`);
+    return 0;
+  }
+
+  if (args.length === 0 || args[0] === "-p") {
+    const traps = ctx.shell.getTraps();
+    let exitCode = 0;
+    let conditions = CONDITIONS;
+    if (args.length > 1) {
+      conditions = [];
+      for (const arg of args.slice(1)) {
+        const condition = parseCondition(arg);
+        if (condition === null) {
+          await ctx.stderr.writeText(`trap: ${arg}: invalid signal specification\n`);
+          exitCode = 1;
+        } else {
+          conditions.push(condition);
+        }
+      }
+    }
+    for (const condition of conditions) {
+      const action = traps[condition];
+      if (action !== undefined) {
+        await ctx.stdout.writeText(`trap -- ${quoteAction(action)} ${condition}\n`);
+      }
+    }
+    return exitCode;
+  }
+
+  if (args[0] === "--") {
+    args.shift();
+  } else if (args[0]!.startsWith("-") && args[0] !== "-") {
+    await ctx.stderr.writeText(`trap: ${args[0]}: invalid option\n`);
+    await ctx.stderr.writeText("trap: usage: trap [-lp] [[action] condition ...]\n");
+    return 2;
+  }
+
+  // `trap INT` and `trap 2 15` reset conditions, as if the action were `-`
+  const resets = args.length === 1 || /^\d+$/.test(args[0]!);
+  const action = resets ? null : args.shift()!;
+
+  let exitCode = 0;
+  for (const arg of args) {
+    const condition = parseCondition(arg);
+    if (condition === null) {
+      await ctx.stderr.writeText(`trap: ${arg}: invalid signal specification\n`);
+      exitCode = 1;
+      continue;
+    }
+    ctx.shell.setTrap(condition, action === "-" ? null : action);
+  }
+
+  return exitCode;
+};
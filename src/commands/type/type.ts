@@ -0,0 +1,89 @@
+import type { Command, CommandResolution } from "../../types.ts";
+import { createFlagParser, type FlagDefinition } from "../../utils/flag-parser.ts";
+
+interface TypeFlags {
+  kindOnly: boolean;
+  pathOnly: boolean;
+}
+
+const spec = {
+  name: "type",
+  flags: [{ short: "t" }, { short: "p" }] as FlagDefinition[],
+  usage: "type [-tp] name [name ...]",
+};
+
+const defaults: TypeFlags = { kindOnly: false, pathOnly: false };
+
+const handler = (flags: TypeFlags, flag: FlagDefinition) => {
+  if (flag.short === "t") {
+    flags.kindOnly = true;
+  } else {
+    flags.pathOnly = true;
+  }
+};
+
+const parser = createFlagParser(spec, defaults, handler);
+
+// The word `type -t` prints; bash calls scripts on PATH files
+const KIND_WORDS: Record<CommandResolution["kind"], string> = {
+  alias: "alias",
+  keyword: "keyword",
+  function: "function",
+  builtin: "builtin",
+  command: "command",
+  script: "file",
+  external: "external",
+};
+
+function describe(name: string, resolution: CommandResolution): string {
+  switch (resolution.kind) {
+    case "alias":
+      return `${name} is aliased to \`${resolution.value}'`;
+    case "keyword":
+      return `${name} is a shell keyword`;
+    case "function":
+      return `${name} is a function`;
+    case "builtin":
+      return `${name} is a shell builtin`;
+    case "command":
+      return `${name} is a registered command`;
+    case "script":
+      return `${name} is ${resolution.path}`;
+    case "external":
+      return `${name} is handled by the external command fallback`;
+  }
+}
+
+export const type: Command = async (ctx) => {
+  if (!ctx.shell) {
+    await ctx.stderr.writeText("type: shell control not supported\n");
+    return 1;
+  }
+
+  const result = parser.parse(ctx.args);
+  if (result.error) {
+    await parser.writeError(result.error, ctx.stderr);
+    return 2;
+  }
+
+  let exitCode = 0;
+  for (const name of result.args) {
+    const resolution = await ctx.shell.resolveCommand(name);
+    if (resolution === undefined) {
+      // Like bash, -t and -p fail quietly
+      if (!result.flags.kindOnly && !result.flags.pathOnly) {
+        await ctx.stderr.writeText(`type: ${name}: not found\n`);
+      }
+      exitCode = 1;
+    } else if (result.flags.kindOnly) {
+      await ctx.stdout.writeText(`${KIND_WORDS[resolution.kind]}\n`);
+    } else if (result.flags.pathOnly) {
+      if (resolution.path !== undefined) {
+        await ctx.stdout.writeText(`${resolution.path}\n`);
+      }
+    } else {
+      await ctx.stdout.writeText(`${describe(name, resolution)}\n`);
+    }
+  }
+  return exitCode;
+};
@@ -0,0 +1,59 @@
+import type { Command } from "../../types.ts";
+import { createFlagParser, type FlagDefinition } from "../../utils/flag-parser.ts";
+
+interface UnsetFlags {
+  functions: boolean;
+}
+
+// A variable name, or `name[subscript]` for one array element
+const NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*(\[.+\])?$/s;
+
+const spec = {
+  name: "unset",
+  flags: [{ short: "f" }, { short: "v" }] as FlagDefinition[],
+  usage: "unset [-f] [-v] [name ...]",
+  stopAfterFirstPositional: true,
+};
+
+const defaults: UnsetFlags = { functions: false };
+
+const handler = (flags: UnsetFlags, flag: FlagDefinition) => {
+  flags.functions = flag.short === "f";
+};
+
+const parser = createFlagParser(spec, defaults, handler);
+
+export const unset: Command = async (ctx) => {
+  if (!ctx.shell) {
+    await ctx.stderr.writeText("unset: shell variables not supported\n");
+    return 1;
+  }
+
+  const result = parser.parse(ctx.args);
+  if (result.error) {
+    await parser.writeError(result.error, ctx.stderr);
+    return 2;
+  }
+
+  let exitCode = 0;
+  for (const name of result.args) {
+    if (result.flags.functions) {
+      ctx.shell.unsetFunction(name);
+      continue;
+    }
+    if (!NAME_PATTERN.test(name)) {
+      await ctx.stderr.writeText(`unset: \`${name}': not a valid identifier\n`);
+      exitCode = 1;
+      continue;
+    }
+
+    try {
+      ctx.shell.unsetVariable(name);
+    } catch (err) {
+      await ctx.stderr.writeText(`unset: ${err instanceof Error ? err.message : String(err)}\n`);
+      exitCode = 1;
+    }
+  }
+
+  return exitCode;
+};
@@ -0,0 +1,27 @@
+import type { Command } from "../../types.ts";
+
+export const wait: Command = async (ctx) => {
+  if (!ctx.shell) {
+    await ctx.stderr.writeText("wait: job control not supported\n");
+    return 1;
+  }
+
+  if (ctx.args.length === 0) {
+    return ctx.shell.waitForJob();
+  }
+
+  let exitCode = 0;
+  for (const spec of ctx.args) {
+    const job = ctx.shell.findJob(spec);
+    if (!job) {
+      await ctx.stderr.writeText(
+        spec.startsWith("%") ? `wait: ${spec}: no such job\n` : `wait: pid ${spec} is not a child of this shell\n`
+      );
+      exitCode = 127;
+      continue;
+    }
+    exitCode = await ctx.shell.waitForJob(job.id);
+  }
+
+  return exitCode;
+};
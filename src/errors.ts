@@ -1,14 +1,31 @@
+import type { SourceSpan } from "./lexer/tokens.ts";
+import type { PipelineStage, ShellLimits } from "./types.ts";
+
 export class ShellError extends Error {
   stdout: Buffer;
   stderr: Buffer;
   exitCode: number;
+  // Where the command that failed the script is, when it is known
+  location?: SourceSpan;
+  frame?: string;
+  // The stages of the last pipeline the script ran
+  stages?: PipelineStage[];
 
-  constructor(message: string, stdout: Buffer, stderr: Buffer, exitCode: number) {
+  constructor(
+    message: string,
+    stdout: Buffer,
+    stderr: Buffer,
+    exitCode: number,
+    location?: SourceSpan,
+    stages?: PipelineStage[]
+  ) {
     super(message);
     this.name = "ShellError";
     this.stdout = stdout;
     this.stderr = stderr;
     this.exitCode = exitCode;
+    this.location = location;
+    this.stages = stages;
   }
 }
 
@@ -16,6 +33,7 @@ export class LexError extends Error {
   position: number;
   line: number;
   column: number;
+  frame?: string;
 
   constructor(message: string, position: number, line: number, column: number) {
     super(`Lex error at line ${line}, column ${column}: ${message}`);
@@ -28,6 +46,9 @@ export class LexError extends Error {
 
 export class ParseError extends Error {
   position?: number;
+  // The token parsing stopped at, set by the Parser
+  span?: SourceSpan;
+  frame?: string;
 
   constructor(message: string, position?: number) {
     super(message);
@@ -35,3 +56,95 @@ export class ParseError extends Error {
     this.position = position;
   }
 }
+
+/**
+ * Thrown by writes to a pipe whose reader has gone, like EPIPE. The shell
+ * ends the writing pipeline stage with status 141, as SIGPIPE would.
+ */
+export class BrokenPipeError extends Error {
+  readonly code = "EPIPE";
+
+  constructor() {
+    super("Broken pipe");
+    this.name = "BrokenPipeError";
+  }
+}
+
+/**
+ * Raised when an execution goes over one of its `ShellLimits`. The execution
+ * stops without running traps and ends with status 152, as a process killed
+ * by SIGXCPU for going over a resource limit would; its promise rejects with
+ * this error whether or not it throws on failure.
+ */
+export class ShellLimitError extends Error {
+  readonly exitCode = 152;
+  readonly limit: keyof ShellLimits;
+  readonly value: number;
+  // The output the execution wrote before it was stopped
+  stdout: Buffer = Buffer.alloc(0);
+  stderr: Buffer = Buffer.alloc(0);
+
+  constructor(message: string, limit: keyof ShellLimits, value: number) {
+    super(message);
+    this.name = "ShellLimitError";
+    this.limit = limit;
+    this.value = value;
+  }
+}
+
+/**
+ * The lines of `source` around `span`, numbered, with the spanned text
+ * underlined:
+ *
+ *   2 | for f in *.txt; do
+ * > 3 |   cat "$f" | frobnicate
+ *     |              ^^^^^^^^^^
+ *   4 | done
+ */
+export function codeFrame(source: string, span: SourceSpan, describe: (text: string) => string = (text) => text): string {
+  const lines = source.split("\n");
+  const line = Math.min(Math.max(span.line, 1), lines.length);
+  const first = Math.max(line - 1, 1);
+  const last = Math.min(line + 1, lines.length);
+  const width = String(last).length;
+
+  const frame: string[] = [];
+  for (let n = first; n <= last; n++) {
+    const text = lines[n - 1]!;
+    const gutter = `${String(n).padStart(width)} |`;
+    frame.push(`${n === line ? ">" : " "} ${gutter}${text === "" ? "" : ` ${describe(text)}`}`);
+    if (n === line) {
+      // Tabs are kept so the marker lines up however they are displayed
+      const indent = describe(text.slice(0, span.column - 1)).replace(/[^\t]/g, " ");
+      const spanned = text.slice(span.column - 1, span.column - 1 + Math.max(span.end - span.start, 0));
+      frame.push(`  ${" ".repeat(width)} | ${indent}${"^".repeat(Math.max(describe(spanned).length, 1))}`);
+    }
+  }
+  return frame.join("\n");
+}
+
+/**
+ * Add a code frame of where the error happened in `source` to its message
+ * and `frame`. Errors that have no location get no frame. `describe`
+ * rewrites the message and the source lines shown, such as to spell out what
+ * a marker in the source stands for, and the underline follows it.
+ */
+export function attachCodeFrame<E extends ShellError | LexError | ParseError>(
+  error: E,
+  source: string,
+  describe?: (text: string) => string
+): E {
+  const span = error instanceof ShellError
+    ? error.location
+    : error instanceof LexError
+      ? { start: error.position, end: error.position, line: error.line, column: error.column }
+      : error.span;
+  if (describe && error.frame === undefined) {
+    error.message = describe(error.message);
+  }
+  if (span && error.frame === undefined) {
+    error.frame = codeFrame(source, span, describe);
+    error.message = `${error.message}\n\n${error.frame}`;
+  }
+  return error;
+}
@@ -1,5 +1,5 @@
 import type { IFs } from "memfs";
-import type { VirtualFS, VirtualFSWritable, FileStat } from "../types.ts";
+import type { VirtualFS, VirtualFSWritable, FileStat, GlobOptions } from "../types.ts";
 import * as pathModule from "path";
 import { globVirtualFS } from "../utils/glob.ts";
 import {
@@ -145,7 +145,7 @@ export function createVirtualFS(memfs: IFs): VirtualFS {
       return pathModule.basename(path);
     },
 
-    async glob(pattern: string, opts?: { cwd?: string }): Promise<string[]> {
+    async glob(pattern: string, opts?: GlobOptions): Promise<string[]> {
       const cwd = opts?.cwd ?? "/";
       return globVirtualFS(
         {
@@ -154,7 +154,7 @@ export function createVirtualFS(memfs: IFs): VirtualFS {
           resolve: (...paths: string[]) => this.resolve(...paths),
         },
         pattern,
-        { cwd }
+        { ...opts, cwd }
       );
     },
   };
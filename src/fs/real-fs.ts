@@ -1,7 +1,7 @@
 import * as path from "path";
 import * as nodeStreamFs from "node:fs";
 import * as nodeFs from "node:fs/promises";
-import type { VirtualFS, VirtualFSWritable, FileStat } from "../types.ts";
+import type { VirtualFS, VirtualFSWritable, FileStat, GlobOptions } from "../types.ts";
 import { globVirtualFS } from "../utils/glob.ts";
 import {
   discardsSpecialFileWrites,
@@ -332,10 +332,10 @@ export class FileSystem implements VirtualFS {
   }
 
   // Glob expansion
-  async glob(pattern: string, opts?: { cwd?: string }): Promise<string[]> {
+  async glob(pattern: string, opts?: GlobOptions): Promise<string[]> {
     const cwd = opts?.cwd ?? "/";
     this.checkPermission(cwd, "read");
-    return globVirtualFS(this, pattern, { cwd });
+    return globVirtualFS(this, pattern, { ...opts, cwd });
   }
 }
 
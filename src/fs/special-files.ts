@@ -10,6 +10,12 @@ export function isDevNullPath(path: string): boolean {
   return normalizeSpecialPath(path) === DEV_NULL_PATH;
 }
 
+// The descriptor number of a `/dev/fd/N` path
+export function parseDevFdPath(path: string): number | undefined {
+  const match = /^\/dev\/fd\/(\d+)$/.exec(normalizeSpecialPath(path));
+  return match ? Number(match[1]) : undefined;
+}
+
 export function readSpecialFile(
   path: string,
   encoding?: BufferEncoding
@@ -11,41 +11,57 @@ export type {
   Command,
   CommandCompleter,
   CommandContext,
+  FileDescriptor,
   CompletionContext,
   CompletionResult,
   Stdin,
+  StdinReadOptions,
   Stdout,
   Stderr,
   OutputCollector,
   ExecResult,
+  PipelineStage,
   ShellConfig,
   ShellCommandApi,
   ShellCommandFallback,
   ExternalCommandContext,
   ShellRunOptions,
+  RunCommandOptions,
+  CommandResolution,
+  ShellArray,
+  ShellJob,
+  ShellJobStatus,
+  ShellOptions,
+  ShoptOptions,
   TerminalInfo,
   ShellInputController,
   ShellInputSource,
   ShellExecutionOptions,
   ShellExecution,
   ShellOutputEvent,
+  ShellLimits,
+  RedirectObject,
+  RedirectCallback,
   RawValue,
 } from "./types.ts";
 export { isRawValue } from "./types.ts";
 
 // Errors
-export { ShellError, LexError, ParseError } from "./errors.ts";
+export { ShellError, LexError, ParseError, BrokenPipeError, ShellLimitError, codeFrame } from "./errors.ts";
 
 // Lexer
 export { Lexer, lex, tokenToString } from "./lexer/index.ts";
-export type { Token, RedirectMode } from "./lexer/index.ts";
+export type { Token, LexerOptions, SourceSpan } from "./lexer/index.ts";
 
 // Parser
-export { Parser, parse } from "./parser/index.ts";
+export { Parser, parse, parseArithmetic, type ParserOptions } from "./parser/index.ts";
 export type {
   ASTNode,
   Redirect,
+  RedirectOp,
   CommandNode,
+  Assignment,
+  ArrayElement,
   PipelineNode,
   AndNode,
   OrNode,
@@ -54,14 +70,32 @@ export type {
   WordPart,
   TextPart,
   VariablePart,
+  ParameterExpansionPart,
+  ParameterOperator,
   SubstitutionPart,
+  ProcessSubstitutionPart,
   ArithmeticPart,
+  TildePart,
   IfNode,
   ForNode,
   WhileNode,
   UntilNode,
   CaseNode,
   CaseClause,
+  FunctionNode,
+  SubshellNode,
+  GroupNode,
+  BackgroundNode,
+  ArithmeticCommandNode,
+  ArithmeticForNode,
+  ArithmeticExpression,
+  ArithmeticVariable,
+  ArithmeticBinaryOperator,
+  ArithmeticAssignmentOperator,
+  ConditionalCommandNode,
+  ConditionalExpression,
+  ConditionalUnaryOperator,
+  ConditionalBinaryOperator,
 } from "./parser/index.ts";
 export {
   isWordNode,
@@ -75,10 +109,17 @@ export {
   isWhileNode,
   isUntilNode,
   isCaseNode,
+  isFunctionNode,
+  isSubshellNode,
+  isGroupNode,
+  isBackgroundNode,
+  isArithmeticCommandNode,
+  isArithmeticForNode,
+  isConditionalCommandNode,
 } from "./parser/index.ts";
 
 // Interpreter
-export { Interpreter, type InterpreterOptions, BreakException, ContinueException, ExitException } from "./interpreter/index.ts";
+export { Interpreter, type InterpreterOptions, BreakException, ContinueException, ExitException, ReturnException } from "./interpreter/index.ts";
 
 // Filesystem
 export { createVirtualFS } from "./fs/index.ts";
@@ -103,11 +144,16 @@ export {
   OutputCollectorImpl,
   PipeBuffer,
   ShellInputControllerImpl,
+  type PipeOptions,
 } from "./io/index.ts";
 
 // Interactive input analysis
 export { analyzeInput } from "./input-analysis.ts";
-export type { InputAnalysis, InputIncompleteReason } from "./input-analysis.ts";
+export type { InputAnalysis, InputAnalysisOptions, InputIncompleteReason } from "./input-analysis.ts";
+
+// Static analysis
+export { lintScript } from "./lint.ts";
+export type { LintDiagnostic, LintOptions, LintRule, LintSeverity } from "./lint.ts";
 
 // Utilities
 export { escape, escapeForInterpolation, globVirtualFS } from "./utils/index.ts";
@@ -3,15 +3,29 @@ import type { Token, KeywordValue } from "./lexer/tokens.ts";
 import { Lexer } from "./lexer/lexer.ts";
 import { Parser } from "./parser/parser.ts";
 import { LexError, ParseError } from "./errors.ts";
+import { lintScript, type LintDiagnostic, type LintOptions } from "./lint.ts";
 
 export type InputIncompleteReason = "quote" | "heredoc" | "compound" | "pipeline";
 
+// With `lint`, complete and invalid input also carries `lintScript()` diagnostics
 export type InputAnalysis =
-  | { kind: "complete"; ast: ASTNode }
+  | { kind: "complete"; ast: ASTNode; diagnostics?: LintDiagnostic[] }
   | { kind: "incomplete"; reason: InputIncompleteReason }
-  | { kind: "invalid"; error: LexError | ParseError | Error };
+  | { kind: "invalid"; error: LexError | ParseError | Error; diagnostics?: LintDiagnostic[] };
 
-export function analyzeInput(source: string): InputAnalysis {
+export interface InputAnalysisOptions {
+  lint?: LintOptions;
+}
+
+export function analyzeInput(source: string, options?: InputAnalysisOptions): InputAnalysis {
+  const analysis = analyzeSyntax(source);
+  if (options?.lint && analysis.kind !== "incomplete") {
+    return { ...analysis, diagnostics: lintScript(source, options.lint) };
+  }
+  return analysis;
+}
+
+function analyzeSyntax(source: string): InputAnalysis {
   const heredoc = findIncompleteHeredoc(source);
   if (heredoc) {
     return { kind: "incomplete", reason: "heredoc" };
@@ -106,7 +120,10 @@ function isIncompleteParseMessage(message: string): boolean {
     message.includes("Expected 'done'") ||
     message.includes("Expected 'esac'") ||
     message.includes("Expected 'then'") ||
-    message.includes("Expected 'do'")
+    message.includes("Expected 'do'") ||
+    message.includes("Expected '}'") ||
+    message.includes("Expected ')' to close subshell") ||
+    message.includes("Expected function body")
   );
 }
 
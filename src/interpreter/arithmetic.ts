@@ -0,0 +1,152 @@
+import type { ArithmeticExpression, ArithmeticVariable } from "../parser/ast.ts";
+import { parseArithmetic, parseArithmeticNumber } from "../parser/arithmetic.ts";
+
+// Where an arithmetic expression reads and assigns shell variables
+export interface ArithmeticScope {
+  get(variable: ArithmeticVariable): string | undefined;
+  set(variable: ArithmeticVariable, value: string): void;
+}
+
+export class ArithmeticError extends Error {}
+
+// How deeply variables may refer to other expressions, as in `a=b; b=a`
+const MAX_RECURSION_DEPTH = 1024;
+
+const wrap = (value: bigint): bigint => BigInt.asIntN(64, value);
+
+const toBoolean = (value: boolean): bigint => (value ? 1n : 0n);
+
+// Exponentiation by squaring, wrapping at every step like 64-bit integers
+function power(base: bigint, exponent: bigint): bigint {
+  if (exponent < 0n) {
+    throw new ArithmeticError("exponent less than 0");
+  }
+  let result = 1n;
+  while (exponent > 0n) {
+    if (exponent & 1n) {
+      result = wrap(result * base);
+    }
+    base = wrap(base * base);
+    exponent >>= 1n;
+  }
+  return result;
+}
+
+function applyOperator(operator: string, left: bigint, right: bigint): bigint {
+  switch (operator) {
+    case "+":
+      return wrap(left + right);
+    case "-":
+      return wrap(left - right);
+    case "*":
+      return wrap(left * right);
+    case "/":
+    case "%":
+      if (right === 0n) {
+        throw new ArithmeticError("division by 0");
+      }
+      return wrap(operator === "/" ? left / right : left % right);
+    case "**":
+      return power(left, right);
+    case "<<":
+      return wrap(left << (right & 63n));
+    case ">>":
+      return left >> (right & 63n);
+    case "&":
+      return left & right;
+    case "|":
+      return left | right;
+    case "^":
+      return left ^ right;
+    case "==":
+      return toBoolean(left === right);
+    case "!=":
+      return toBoolean(left !== right);
+    case "<":
+      return toBoolean(left < right);
+    case ">":
+      return toBoolean(left > right);
+    case "<=":
+      return toBoolean(left <= right);
+    case ">=":
+      return toBoolean(left >= right);
+    default:
+      throw new ArithmeticError(`unknown operator ${operator}`);
+  }
+}
+
+/**
+ * Evaluates parsed arithmetic with 64-bit wrapping integers. `&&`, `||` and
+ * `?:` only evaluate the operands they need, so their side effects do too.
+ */
+export class ArithmeticEvaluator {
+  private depth = 0;
+
+  constructor(private scope: ArithmeticScope) {}
+
+  evaluate(node: ArithmeticExpression): bigint {
+    switch (node.type) {
+      case "number":
+        return node.value;
+      case "variable":
+        return this.readVariable(node);
+      case "unary": {
+        const operand = this.evaluate(node.operand);
+        if (node.operator === "-") return wrap(-operand);
+        if (node.operator === "!") return toBoolean(operand === 0n);
+        if (node.operator === "~") return ~operand;
+        return operand;
+      }
+      case "update": {
+        const before = this.readVariable(node.target);
+        const after = wrap(node.operator === "++" ? before + 1n : before - 1n);
+        this.scope.set(node.target, String(after));
+        return node.prefix ? after : before;
+      }
+      case "binary":
+        if (node.operator === "&&") {
+          return toBoolean(this.evaluate(node.left) !== 0n && this.evaluate(node.right) !== 0n);
+        }
+        if (node.operator === "||") {
+          return toBoolean(this.evaluate(node.left) !== 0n || this.evaluate(node.right) !== 0n);
+        }
+        if (node.operator === ",") {
+          this.evaluate(node.left);
+          return this.evaluate(node.right);
+        }
+        return applyOperator(node.operator, this.evaluate(node.left), this.evaluate(node.right));
+      case "conditional":
+        return this.evaluate(node.test) !== 0n ? this.evaluate(node.consequent) : this.evaluate(node.alternate);
+      case "assignment": {
+        let value = this.evaluate(node.value);
+        if (node.operator !== "=") {
+          value = applyOperator(node.operator.slice(0, -1), this.readVariable(node.target), value);
+        }
+        this.scope.set(node.target, String(value));
+        return value;
+      }
+    }
+  }
+
+  // A variable's value is itself an expression; unset and empty are zero
+  private readVariable(variable: ArithmeticVariable): bigint {
+    const value = this.scope.get(variable)?.trim() ?? "";
+    if (value === "") {
+      return 0n;
+    }
+    const number = /^[0-9]/.test(value) && !/[^0-9a-zA-Z@_#]/.test(value) ? parseArithmeticNumber(value) : null;
+    if (number !== null) {
+      return number;
+    }
+
+    if (this.depth >= MAX_RECURSION_DEPTH) {
+      throw new ArithmeticError(`expression recursion level exceeded (error token is "${value}")`);
+    }
+    this.depth++;
+    try {
+      return this.evaluate(parseArithmetic(value));
+    } finally {
+      this.depth--;
+    }
+  }
+}
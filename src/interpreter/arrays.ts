@@ -0,0 +1,44 @@
+import type { ShellArray } from "../types.ts";
+
+/**
+ * An array variable. Indexed arrays are keyed by decimal indices and may be
+ * sparse; associative arrays keep their keys in insertion order.
+ */
+export interface ArrayVariable {
+  associative: boolean;
+  values: Map<string, string>;
+}
+
+export function cloneArray(array: ArrayVariable): ArrayVariable {
+  return { associative: array.associative, values: new Map(array.values) };
+}
+
+// Keys in expansion order: ascending indices, or insertion order
+export function arrayKeys(array: ArrayVariable): string[] {
+  const keys = [...array.values.keys()];
+  return array.associative ? keys : keys.sort((a, b) => Number(a) - Number(b));
+}
+
+export function arrayValues(array: ArrayVariable): string[] {
+  return arrayKeys(array).map((key) => array.values.get(key)!);
+}
+
+// The index `arr+=(x)` appends at: one past the highest index
+export function nextArrayIndex(array: ArrayVariable): number {
+  let next = 0;
+  for (const key of array.values.keys()) {
+    next = Math.max(next, Number(key) + 1);
+  }
+  return next;
+}
+
+export function toShellArray(array: ArrayVariable): ShellArray {
+  return {
+    associative: array.associative,
+    entries: arrayKeys(array).map((key) => [key, array.values.get(key)!]),
+  };
+}
+
+export function fromShellArray(array: ShellArray): ArrayVariable {
+  return { associative: array.associative, values: new Map(array.entries) };
+}
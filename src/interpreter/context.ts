@@ -7,7 +7,9 @@ import type {
   ExecResult,
   ShellCommandApi,
   TerminalInfo,
+  FileDescriptor,
 } from "../types.ts";
+import { BrokenPipeError } from "../errors.ts";
 
 export interface ContextOptions {
   args: string[];
@@ -22,6 +24,7 @@ export interface ContextOptions {
   setCwd: (path: string) => void;
   exec?: (name: string, args: string[]) => Promise<ExecResult>;
   shell?: ShellCommandApi;
+  fds?: ReadonlyMap<number, FileDescriptor>;
 }
 
 export function createCommandContext(options: ContextOptions): CommandContext {
@@ -36,6 +39,7 @@ export function createCommandContext(options: ContextOptions): CommandContext {
     terminal: options.terminal,
     signal: options.signal,
     setCwd: options.setCwd,
+    fds: options.fds ?? new Map(),
   };
   if (options.exec) {
     ctx.exec = options.exec;
@@ -45,3 +49,36 @@ export function createCommandContext(options: ContextOptions): CommandContext {
   }
   return ctx;
 }
+
+export interface WatchedOutput extends Stdout {
+  // Set once a write has failed because the pipe's reader is gone
+  brokenPipe: boolean;
+}
+
+/**
+ * `output` as handed to a command, noting writes that fail with
+ * BrokenPipeError, so the command can be ended as SIGPIPE would end it
+ * even when it catches the error.
+ */
+export function watchBrokenPipe(output: Stdout): WatchedOutput {
+  const watched: WatchedOutput = {
+    brokenPipe: false,
+    get isTTY() {
+      return output.isTTY;
+    },
+    async write(chunk: Uint8Array): Promise<void> {
+      try {
+        await output.write(chunk);
+      } catch (err) {
+        if (err instanceof BrokenPipeError) {
+          watched.brokenPipe = true;
+        }
+        throw err;
+      }
+    },
+    writeText(str: string): Promise<void> {
+      return watched.write(new TextEncoder().encode(str));
+    },
+  };
+  return watched;
+}
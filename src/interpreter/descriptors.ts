@@ -0,0 +1,163 @@
+import type { OutputCollector, VirtualFS } from "../types.ts";
+import { createStdout } from "../io/stdout.ts";
+import { isDevNullPath } from "../fs/special-files.ts";
+
+// An entry in a descriptor table; `<>` opens one for both reading and writing
+export interface OpenFileDescriptor {
+  input?: AsyncIterable<Uint8Array> | null;
+  output?: OutputCollector;
+  // The file an output redirect writes, so `exec` can keep writing to it
+  path?: string;
+}
+
+/**
+ * The descriptor table of one redirect scope: a simple command, a group or
+ * subshell with redirects, or the top level of a shell. `exec` changes the
+ * scope that encloses it.
+ */
+export interface DescriptorFrame {
+  fds: Map<number, OpenFileDescriptor>;
+  parent: DescriptorFrame | null;
+  // Descriptors set or closed by the scope's own redirects
+  changed: Set<number>;
+  done: boolean;
+}
+
+export function inputOf(data: Uint8Array): AsyncIterable<Uint8Array> {
+  return (async function* () {
+    yield data;
+  })();
+}
+
+/**
+ * The chunks of a JS stream or async iterable as they arrive, with strings
+ * encoded, so input is read only as fast as commands take it.
+ */
+export async function* inputOfIterable(source: AsyncIterable<Uint8Array | string>): AsyncIterable<Uint8Array> {
+  const encoder = new TextEncoder();
+  for await (const chunk of source) {
+    yield typeof chunk === "string" ? encoder.encode(chunk) : chunk;
+  }
+}
+
+// Stands in for a closed descriptor, so writes to it fail
+export function createClosedOutput(): OutputCollector {
+  const output = createStdout();
+  output.close();
+  return output;
+}
+
+/**
+ * Stdout or stderr of a frame, looked up on every write so that output
+ * follows `exec >file` run later in the same frame.
+ */
+export class DescriptorOutput implements OutputCollector {
+  constructor(
+    private fds: Map<number, OpenFileDescriptor>,
+    private fd: number
+  ) {}
+
+  resolve(): OpenFileDescriptor | undefined {
+    return this.fds.get(this.fd);
+  }
+
+  private get target(): OutputCollector {
+    const output = this.resolve()?.output;
+    if (!output) {
+      throw new Error("Bad file descriptor");
+    }
+    return output;
+  }
+
+  get isTTY(): boolean {
+    return this.resolve()?.output?.isTTY ?? false;
+  }
+
+  async write(chunk: Uint8Array): Promise<void> {
+    await this.target.write(chunk);
+  }
+
+  async writeText(str: string): Promise<void> {
+    await this.write(new TextEncoder().encode(str));
+  }
+
+  close(): void {
+    // The target belongs to the frame that opened it
+  }
+
+  collect(): Promise<Buffer> {
+    return this.target.collect();
+  }
+
+  getReadableStream(): AsyncIterable<Uint8Array> {
+    return this.target.getReadableStream();
+  }
+}
+
+// Stdin of a frame; commands read from whatever descriptor 0 is when they start
+export class DescriptorInput implements AsyncIterable<Uint8Array> {
+  constructor(private fds: Map<number, OpenFileDescriptor>) {}
+
+  resolve(): OpenFileDescriptor | undefined {
+    return this.fds.get(0);
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<Uint8Array> {
+    const input = this.resolve()?.input;
+    if (input) {
+      yield* input;
+    }
+  }
+}
+
+// The descriptor entry a stream passed between frames stands for
+export function resolveOutputEntry(output: OutputCollector): OpenFileDescriptor | undefined {
+  return output instanceof DescriptorOutput ? output.resolve() : { output };
+}
+
+export function resolveInputEntry(input: AsyncIterable<Uint8Array> | null): OpenFileDescriptor | undefined {
+  return input instanceof DescriptorInput ? input.resolve() : { input };
+}
+
+export function resolveInput(input: AsyncIterable<Uint8Array> | null): AsyncIterable<Uint8Array> | null {
+  return resolveInputEntry(input)?.input ?? null;
+}
+
+/**
+ * Writes each chunk straight to a file, for descriptors `exec` keeps open
+ * after the command that opened them. The file was already truncated, if
+ * the redirect asked for it, when that command finished.
+ */
+export class FileOutput implements OutputCollector {
+  public readonly isTTY: boolean = false;
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(
+    private fs: VirtualFS,
+    private path: string
+  ) {}
+
+  write(chunk: Uint8Array): Promise<void> {
+    if (isDevNullPath(this.path)) {
+      return Promise.resolve();
+    }
+    // Appends are chained so concurrent writers keep their order
+    const write = this.pending.then(() => this.fs.appendFile(this.path, Buffer.from(chunk)));
+    this.pending = write.catch(() => {});
+    return write;
+  }
+
+  async writeText(str: string): Promise<void> {
+    await this.write(new TextEncoder().encode(str));
+  }
+
+  close(): void {
+    // Kept descriptors stay open for the life of the shell
+  }
+
+  async collect(): Promise<Buffer> {
+    return Buffer.alloc(0);
+  }
+
+  async *getReadableStream(): AsyncIterable<Uint8Array> {}
+}
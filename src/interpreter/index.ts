@@ -1,2 +1,2 @@
-export { Interpreter, type InterpreterOptions, BreakException, ContinueException, ExitException } from "./interpreter.ts";
+export { Interpreter, type InterpreterOptions, BreakException, ContinueException, ExitException, ReturnException } from "./interpreter.ts";
 export { createCommandContext, type ContextOptions } from "./context.ts";
@@ -1,5 +1,6 @@
 import type {
   ASTNode,
+  Assignment,
   CommandNode,
   Redirect,
   IfNode,
@@ -7,6 +8,17 @@ import type {
   WhileNode,
   UntilNode,
   CaseNode,
+  FunctionNode,
+  SubshellNode,
+  GroupNode,
+  BackgroundNode,
+  ArithmeticCommandNode,
+  ArithmeticForNode,
+  ConditionalCommandNode,
+  ConditionalExpression,
+  ParameterExpansionPart,
+  ProcessSubstitutionPart,
+  VariablePart,
   WordNode,
   WordPart,
 } from "../parser/ast.ts";
@@ -15,22 +27,73 @@ import type {
   VirtualFS,
   ExecResult,
   OutputCollector,
+  RedirectObject,
   RedirectObjectMap,
   ShellCommandApi,
+  CommandResolution,
   TerminalInfo,
   ShellExecutionOptions,
   ShellExecution,
   ShellInputSource,
   ShellOutputEvent,
   ShellCommandFallback,
+  ShellJob,
+  ShellOptions,
+  ShoptOptions,
+  ShellArray,
+  FileDescriptor,
+  PipelineStage,
+  ShellLimits,
+  RunCommandOptions,
 } from "../types.ts";
-import { createCommandContext } from "./context.ts";
+import { describeRedirectObjects, isAsyncIterable } from "../types.ts";
+import { createCommandContext, watchBrokenPipe, type WatchedOutput } from "./context.ts";
 import { Lexer } from "../lexer/lexer.ts";
+import { KEYWORDS, type SourceSpan } from "../lexer/tokens.ts";
 import { Parser } from "../parser/parser.ts";
+import { parseArithmetic } from "../parser/arithmetic.ts";
+import { ParseError, BrokenPipeError, ShellLimitError } from "../errors.ts";
 import { createStdin } from "../io/stdin.ts";
-import { createStdout, createStderr, createPipe, PipeBuffer, createBufferTargetCollector } from "../io/stdout.ts";
+import {
+  createStdout,
+  createStderr,
+  createPipe,
+  PipeBuffer,
+  createBufferTargetCollector,
+  createSinkCollector,
+  type OutputSink,
+  type PipeOptions,
+} from "../io/stdout.ts";
 import { AsyncQueue } from "../io/async-queue.ts";
 import { isDevNullPath } from "../fs/special-files.ts";
+import { globToRegExpSource } from "../utils/match-glob.ts";
+import { expandBraces } from "../utils/brace-expansion.ts";
+import { JobTable, JobOutput, SIGNALS } from "./jobs.ts";
+import { type ProcessSubstitution, ProcessSubstitutionFS, ProcessSubstitutionTable } from "./process-substitutions.ts";
+import { LimitedFS, ResourceUsage, limitOutput } from "./limits.ts";
+import {
+  type OpenFileDescriptor,
+  type DescriptorFrame,
+  DescriptorInput,
+  DescriptorOutput,
+  FileOutput,
+  inputOf,
+  inputOfIterable,
+  createClosedOutput,
+  resolveInput,
+  resolveInputEntry,
+  resolveOutputEntry,
+} from "./descriptors.ts";
+import {
+  type ArrayVariable,
+  arrayKeys,
+  arrayValues,
+  cloneArray,
+  fromShellArray,
+  nextArrayIndex,
+  toShellArray,
+} from "./arrays.ts";
+import { ArithmeticEvaluator, ArithmeticError } from "./arithmetic.ts";
 
 export interface InterpreterOptions {
   fs: VirtualFS;
@@ -41,10 +104,38 @@ export interface InterpreterOptions {
   isTTY?: boolean;
   terminal?: TerminalInfo;
   externalCommand?: ShellCommandFallback;
+  // Run files found in the `$PATH` directories by bare name
+  scriptPath?: boolean;
   signal?: AbortSignal;
   argv0?: string;
   positionalParameters?: string[];
   lastExitCode?: number;
+  functions?: Map<string, FunctionNode>;
+  // Aliases, copied into the new shell
+  aliases?: ReadonlyMap<string, string>;
+  // Let background jobs outlive the execution that started them (ShellSession prompts)
+  jobControl?: boolean;
+  shellOptions?: ShellOptions;
+  shoptOptions?: ShoptOptions;
+  // Run as part of a condition, where `set -e` does not apply
+  errexitExempt?: boolean;
+  // Names of exported variables; every variable in `env` when omitted
+  exportedVariables?: Iterable<string>;
+  readonlyVariables?: Iterable<string>;
+  // Array variables, copied into the new shell
+  arrays?: ReadonlyMap<string, ArrayVariable>;
+  // Descriptors above 2 inherited from the parent shell
+  fileDescriptors?: ReadonlyMap<number, OpenFileDescriptor>;
+  // The parent shell's process substitutions; `fs` already serves their paths
+  processSubstitutions?: ProcessSubstitutionTable;
+  pipes?: PipeOptions;
+  // Limits of each execution, over which it is stopped
+  limits?: ShellLimits;
+  // The parent shell's execution, whose limits this shell counts against
+  usage?: ResourceUsage;
+  // Command and process substitutions this shell runs inside, each of which
+  // repeats the first character of PS4 once more in `set -x` traces
+  traceDepth?: number;
 }
 
 interface ExpandedSegment {
@@ -56,8 +147,64 @@ interface ExpandedField {
   segments: ExpandedSegment[];
 }
 
+// A variable's value as saved by `local`; undefined when it was unset
+type SavedVariable = string | ArrayVariable | undefined;
+
 const DEFAULT_IFS = " \t\n";
-const GLOB_META_CHARS = /[*?[{]/;
+const GLOB_META_CHARS = /[*?[]/;
+// The pattern lists `shopt -s extglob` adds, other than `?(` and `*(`
+const EXTGLOB_LIST_OPENERS = /[+@!]\(/;
+// 128 + SIGPIPE, the status of a pipeline stage that wrote after its reader was gone
+const BROKEN_PIPE_EXIT_CODE = 141;
+// How long a script may run before it lets timers and other tasks run
+const YIELD_INTERVAL_MS = 10;
+// Nodes that set the status themselves, rather than through the commands inside them
+const STATUS_NODE_TYPES = new Set<ASTNode["type"]>(["command", "subshell", "arithmeticCommand", "conditionalCommand"]);
+// How pipeline stages that are not simple commands are named
+const STAGE_KEYWORDS: Partial<Record<ASTNode["type"], string>> = {
+  subshell: "(",
+  group: "{",
+  if: "if",
+  for: "for",
+  arithmeticFor: "for",
+  while: "while",
+  until: "until",
+  case: "case",
+  arithmeticCommand: "((",
+  conditionalCommand: "[[",
+};
+
+// A pipeline stage while it runs; a simple command fills in its words once they are expanded
+interface RunningStage {
+  command: string;
+  args: string[];
+  started: number;
+}
+
+// An output a redirect opened, and the write to its target that ends once it closes
+interface OpenedOutput {
+  target: string;
+  collector: OutputCollector;
+  promise?: Promise<void>;
+}
+
+// Single-letter `set` flags, in the order `$-` lists them
+export const SHELL_OPTION_FLAGS: ReadonlyArray<[string, keyof ShellOptions]> = [
+  ["e", "errexit"],
+  ["f", "noglob"],
+  ["u", "nounset"],
+  ["x", "xtrace"],
+];
+
+// Words `type` reports as keywords, including the ones the lexer reads as words
+const SHELL_KEYWORDS = new Set([...KEYWORDS, "[[", "]]", "{", "}", "!"]);
+
+// Registered command names that are builtins in bash, reported as such by `type`
+const SHELL_BUILTINS = new Set([
+  ".", ":", "[", "alias", "break", "cd", "command", "continue", "declare", "echo", "eval", "exec", "exit",
+  "export", "false", "hash", "jobs", "kill", "local", "printf", "pwd", "read", "readonly", "return",
+  "set", "shift", "shopt", "source", "test", "trap", "true", "type", "typeset", "unalias", "unset", "wait",
+]);
 
 // Loop control flow exceptions
 export class BreakException extends Error {
@@ -78,10 +225,41 @@ export class ExitException extends Error {
   }
 }
 
+export class ReturnException extends Error {
+  constructor(public exitCode: number) {
+    super("return");
+  }
+}
+
+// Raised when a `${...}` expansion or an assignment fails; the shell reports it and exits
+class ExpansionError extends Error {}
+
+// A `[[ ]]` regex that does not compile, which makes the test fail with status 2
+class InvalidRegexError extends Error {}
+
+// Bracket-expression classes of POSIX regexes, in JavaScript syntax
+const POSIX_CLASSES: Record<string, string> = {
+  alpha: "a-zA-Z",
+  digit: "0-9",
+  alnum: "a-zA-Z0-9",
+  upper: "A-Z",
+  lower: "a-z",
+  space: "\\s",
+  blank: " \\t",
+  xdigit: "0-9A-Fa-f",
+  punct: "!-\\/:-@\\[-`{-~",
+  word: "\\w",
+};
+
 export class Interpreter {
   private fs: VirtualFS;
   private cwd: string;
   private env: Record<string, string>;
+  // Array variables live apart from `env`, so they are never exported
+  private arrays: Map<string, ArrayVariable>;
+  // Only exported variables are passed on to commands and scripts
+  private exportedNames: Set<string>;
+  private readonlyNames: Set<string>;
   private commands: Record<string, Command>;
   private redirectObjects: RedirectObjectMap;
   private loopDepth: number = 0;
@@ -89,23 +267,115 @@ export class Interpreter {
   private terminal: TerminalInfo;
   private activeSignal: AbortSignal;
   private externalCommand?: ShellCommandFallback;
+  private scriptPath: boolean;
+  // Scripts found on `$PATH`, name to path, and the PATH they were found on
+  private commandHash = new Map<string, string>();
+  private commandHashPath: string | undefined;
   private argv0: string;
   private positionalParameters: string[];
   private lastExitCode: number;
+  private functions: Map<string, FunctionNode>;
+  // Expanded when this shell parses source, by `eval`, `source` or a session
+  private aliases: Map<string, string>;
+  // Saved values of variables declared with `local`, one frame per active function call
+  private localFrames: Array<Map<string, SavedVariable>> = [];
+  private returnDepth: number = 0;
+  private jobs = new JobTable();
+  private jobControl: boolean;
+  private lastBackgroundPid: number | null = null;
+  // With job control, where jobs that outlive their run write: the current run's
+  // stdout and stderr, or while none is running, output kept for the next run
+  private runOutputs?: [OutputCollector, OutputCollector];
+  private lateJobOutput: Array<{ fd: 1 | 2; chunk: Uint8Array }> = [];
+  private shellOptions: Required<ShellOptions>;
+  private shoptOptions: Required<ShoptOptions>;
+  // Depth of conditions being evaluated; `set -e` is ignored while non-zero
+  private errexitExemptDepth: number;
+  // Status of the last command substitution in the current simple command
+  private substitutionExitCode: number | null = null;
+  private traceDepth: number;
+  // Actions set with `trap`, keyed by EXIT, ERR or a signal name; "" ignores the condition
+  private traps = new Map<string, string>();
+  private runningErrTrap: boolean = false;
+  // Descriptors of the innermost redirect scope
+  private frame: DescriptorFrame;
+  // Descriptors changed by `exec` at the top level, which every run starts
+  // from. A number stands for that descriptor of the current run, and null
+  // for a closed descriptor.
+  private keptDescriptors: Map<number, OpenFileDescriptor | number | null>;
+  private runDescriptors: OpenFileDescriptor[] = [];
+  // Outputs `exec` moved into an enclosing frame
+  private execOutputs = new WeakSet<OutputCollector>();
+  // Redirects to JS objects that `exec` kept open, closed when this shell ends
+  private heldOutputs: OpenedOutput[] = [];
+  // `<(cmd)` and `>(cmd)` paths open in this shell and its subshells
+  private processSubstitutions: ProcessSubstitutionTable;
+  // Substitutions started by commands still running, finished when the command that expanded them ends
+  private pendingProcessSubstitutions: ProcessSubstitution[] = [];
+  // Depth of pipelines whose stages run concurrently and leave their substitutions to the pipeline
+  private pipelineDepth: number = 0;
+  private pipeOptions: PipeOptions;
+  // The command whose status the script's status is so far, reported when the script fails
+  private statusSpan?: SourceSpan;
+  // Above zero while running text parsed at run time (`eval`, `source`, traps), whose spans are not into the script
+  private runtimeSourceDepth: number = 0;
+  private runtimeFunctions = new WeakSet<FunctionNode>();
+  // The stages of the last pipeline run in the current execution
+  private lastPipeline: PipelineStage[] = [];
+  private limits: ShellLimits;
+  // What the current execution has used of its limits; subshells share their parent's
+  private usage: ResourceUsage;
+  private inheritsUsage: boolean;
+  // When the shell last let timers and other tasks run
+  private lastYield = performance.now();
 
   constructor(options: InterpreterOptions) {
-    this.fs = options.fs;
+    this.processSubstitutions = options.processSubstitutions ?? new ProcessSubstitutionTable();
+    this.fs = options.processSubstitutions
+      ? options.fs
+      : new ProcessSubstitutionFS(new LimitedFS(options.fs, () => this.usage), this.processSubstitutions);
     this.cwd = options.cwd;
     this.env = { ...options.env };
+    this.arrays = new Map([...(options.arrays ?? [])].map(([name, array]) => [name, cloneArray(array)]));
+    this.exportedNames = new Set(options.exportedVariables ?? Object.keys(options.env));
+    this.readonlyNames = new Set(options.readonlyVariables);
     this.commands = options.commands;
     this.redirectObjects = options.redirectObjects ?? {};
     this.terminal = options.terminal ?? { isTTY: options.isTTY ?? false };
     this.isTTY = this.terminal.isTTY;
     this.activeSignal = options.signal ?? new AbortController().signal;
     this.externalCommand = options.externalCommand;
+    this.scriptPath = options.scriptPath ?? false;
     this.argv0 = options.argv0 ?? "sh";
     this.positionalParameters = [...(options.positionalParameters ?? [])];
     this.lastExitCode = options.lastExitCode ?? 0;
+    this.functions = new Map(options.functions);
+    this.aliases = new Map(options.aliases);
+    this.jobControl = options.jobControl ?? false;
+    this.traceDepth = options.traceDepth ?? 0;
+    this.shellOptions = {
+      errexit: options.shellOptions?.errexit ?? false,
+      nounset: options.shellOptions?.nounset ?? false,
+      xtrace: options.shellOptions?.xtrace ?? false,
+      pipefail: options.shellOptions?.pipefail ?? false,
+      noglob: options.shellOptions?.noglob ?? false,
+    };
+    this.shoptOptions = {
+      extglob: options.shoptOptions?.extglob ?? false,
+      nullglob: options.shoptOptions?.nullglob ?? false,
+      failglob: options.shoptOptions?.failglob ?? false,
+      dotglob: options.shoptOptions?.dotglob ?? false,
+      nocaseglob: options.shoptOptions?.nocaseglob ?? false,
+      // On, unlike in bash, so `**` keeps recursing as it always has
+      globstar: options.shoptOptions?.globstar ?? true,
+    };
+    this.errexitExemptDepth = options.errexitExempt ? 1 : 0;
+    this.pipeOptions = { ...options.pipes };
+    this.limits = { ...options.limits };
+    this.usage = options.usage ?? new ResourceUsage();
+    this.inheritsUsage = options.usage !== undefined;
+    this.keptDescriptors = new Map(options.fileDescriptors);
+    this.frame = { fds: new Map(options.fileDescriptors), parent: null, changed: new Set(), done: false };
   }
 
   getLoopDepth(): number {
@@ -119,6 +389,8 @@ export class Interpreter {
   executeStreaming(ast: ASTNode, options: ShellExecutionOptions = {}): ShellExecution {
     const terminal = options.terminal ?? this.terminal;
     const controller = new AbortController();
+    // Traps run after an abort under their own signal, so a second kill() still stops them
+    const trapController = new AbortController();
     const eventQueue = new AsyncQueue<ShellOutputEvent>();
 
     if (options.signal) {
@@ -142,25 +414,65 @@ export class Interpreter {
     const previousTerminal = this.terminal;
     const previousIsTTY = this.isTTY;
     const stdinSource = this.normalizeInputSource(options.stdin);
+    // Command substitutions count against the execution they are part of
+    const usage = this.inheritsUsage
+      ? this.usage
+      : new ResourceUsage({ ...this.limits, ...options.limits }, (error) => controller.abort(error));
 
     const exit = (async (): Promise<ExecResult> => {
       this.activeSignal = controller.signal;
+      this.statusSpan = undefined;
+      this.lastPipeline = [];
       this.terminal = terminal;
       this.isTTY = terminal.isTTY;
+      this.usage = usage;
 
+      const runOutputs: [OutputCollector, OutputCollector] = this.inheritsUsage
+        ? [stdout, stderr]
+        : [limitOutput(stdout, usage, "stdout"), limitOutput(stderr, usage, "stderr")];
+      const [input, output, errors] = this.openRootFrame(stdinSource, ...runOutputs);
       let exitCode: number;
       try {
-        this.throwIfAborted();
-        exitCode = await this.executeNode(ast, stdinSource, stdout, stderr);
+        try {
+          if (this.jobControl) {
+            await this.openRunOutputs(runOutputs);
+          }
+          this.throwIfAborted();
+          exitCode = await this.executeNode(ast, input, output, errors);
+        } catch (err) {
+          if (usage.exceeded) {
+            exitCode = usage.exceeded.exitCode;
+          } else if (err instanceof ExitException) {
+            exitCode = err.exitCode;
+          } else if (err instanceof BrokenPipeError) {
+            exitCode = BROKEN_PIPE_EXIT_CODE;
+          } else if (controller.signal.aborted) {
+            this.activeSignal = trapController.signal;
+            exitCode = await this.handleAbort(controller.signal.reason, input, output, errors);
+          } else {
+            throw err;
+          }
+        }
+        // A limit stops the shell without running traps, which could run on past it
+        if (!usage.exceeded) {
+          exitCode = await this.runExitTrap(exitCode, input, output, errors);
+        }
       } catch (err) {
-        if (err instanceof ExitException) {
-          exitCode = err.exitCode;
-        } else if (controller.signal.aborted) {
-          exitCode = 130;
-        } else {
+        if (!usage.exceeded) {
           throw err;
         }
+        exitCode = usage.exceeded.exitCode;
       } finally {
+        if (!this.jobControl) {
+          // Like a pipe held open by background writers, output ends when every job has
+          await this.jobs.settle();
+          await this.closeHeldOutputs(runOutputs[1]);
+        } else if (this.runOutputs === runOutputs) {
+          this.runOutputs = undefined;
+        }
+        if (!this.inheritsUsage) {
+          usage.dispose();
+        }
         stdout.close();
         stderr.close();
         eventQueue.close();
@@ -169,12 +481,25 @@ export class Interpreter {
         this.isTTY = previousIsTTY;
       }
 
+      if (usage.exceeded) {
+        exitCode = usage.exceeded.exitCode;
+      }
       this.lastExitCode = exitCode;
 
+      if (usage.exceeded) {
+        if (!this.inheritsUsage) {
+          usage.exceeded.stdout = await stdout.collect();
+          usage.exceeded.stderr = await stderr.collect();
+        }
+        throw usage.exceeded;
+      }
+
       return {
         stdout: await stdout.collect(),
         stderr: await stderr.collect(),
         exitCode,
+        ...(exitCode !== 0 && this.statusSpan ? { location: this.statusSpan } : {}),
+        stages: this.lastPipeline,
       };
     })();
 
@@ -183,10 +508,32 @@ export class Interpreter {
       stderr: stderr.getReadableStream(),
       output: eventQueue,
       exit,
-      kill: (reason?: unknown) => controller.abort(reason ?? new Error("Shell execution killed")),
+      kill: (reason?: unknown) => {
+        const target = controller.signal.aborted ? trapController : controller;
+        target.abort(reason ?? new Error("Shell execution killed"));
+      },
     };
   }
 
+  // Deliver what jobs wrote since the last run ended, then send jobs' late output to this run
+  private async openRunOutputs(outputs: [OutputCollector, OutputCollector]): Promise<void> {
+    this.runOutputs = outputs;
+    const pending = this.lateJobOutput;
+    this.lateJobOutput = [];
+    for (const { fd, chunk } of pending) {
+      await outputs[fd - 1]!.write(chunk);
+    }
+  }
+
+  private async writeLateJobOutput(fd: 1 | 2, chunk: Uint8Array): Promise<void> {
+    const output = this.runOutputs?.[fd - 1];
+    if (output) {
+      await output.write(chunk).catch(() => {});
+    } else {
+      this.lateJobOutput.push({ fd, chunk });
+    }
+  }
+
   private normalizeInputSource(source: ShellInputSource | undefined): AsyncIterable<Uint8Array> | null {
     if (source === undefined || source === null) {
       return null;
@@ -208,150 +555,527 @@ export class Interpreter {
     node: ASTNode,
     stdinSource: AsyncIterable<Uint8Array> | null,
     stdout: OutputCollector,
-    stderr: OutputCollector
+    stderr: OutputCollector,
+    checkErrexit: boolean = true,
+    stage?: RunningStage
   ): Promise<number> {
     this.throwIfAborted();
+    if (performance.now() - this.lastYield > YIELD_INTERVAL_MS) {
+      await this.yieldToEventLoop();
+    }
+    const pendingSubstitutions = this.pendingProcessSubstitutions.length;
+    // Outside a pipeline, a simple command or subshell is a pipeline of one
+    let ownStage: RunningStage | undefined;
+    if (this.pipelineDepth === 0 && STATUS_NODE_TYPES.has(node.type)) {
+      this.recordStatusNode(node);
+      ownStage = this.startStage(node);
+    }
     let exitCode: number;
-    switch (node.type) {
-      case "command":
-        exitCode = await this.executeCommand(node, stdinSource, stdout, stderr);
-        break;
-      case "pipeline":
-        exitCode = await this.executePipeline(node.commands, stdinSource, stdout, stderr);
-        break;
-      case "sequence":
-        exitCode = await this.executeSequence(node.commands, stdinSource, stdout, stderr);
-        break;
-      case "and":
-        exitCode = await this.executeAnd(node.left, node.right, stdinSource, stdout, stderr);
-        break;
-      case "or":
-        exitCode = await this.executeOr(node.left, node.right, stdinSource, stdout, stderr);
-        break;
-      case "if":
-        exitCode = await this.executeIf(node, stdinSource, stdout, stderr);
-        break;
-      case "for":
-        exitCode = await this.executeFor(node, stdinSource, stdout, stderr);
-        break;
-      case "while":
-        exitCode = await this.executeWhile(node, stdinSource, stdout, stderr);
-        break;
-      case "until":
-        exitCode = await this.executeUntil(node, stdinSource, stdout, stderr);
-        break;
-      case "case":
-        exitCode = await this.executeCase(node, stdinSource, stdout, stderr);
-        break;
-      default:
-        throw new Error("Cannot execute unknown node type");
+    try {
+      switch (node.type) {
+        case "command":
+          exitCode = await this.executeCommand(node, stdinSource, stdout, stderr, stage ?? ownStage);
+          break;
+        case "pipeline":
+          exitCode = await this.executePipeline(node.commands, stdinSource, stdout, stderr);
+          break;
+        case "sequence":
+          exitCode = await this.executeSequence(node.commands, stdinSource, stdout, stderr);
+          break;
+        case "and":
+          exitCode = await this.executeAnd(node.left, node.right, stdinSource, stdout, stderr);
+          break;
+        case "or":
+          exitCode = await this.executeOr(node.left, node.right, stdinSource, stdout, stderr);
+          break;
+        case "if":
+          exitCode = await this.executeIf(node, stdinSource, stdout, stderr);
+          break;
+        case "for":
+          exitCode = await this.executeFor(node, stdinSource, stdout, stderr);
+          break;
+        case "while":
+          exitCode = await this.executeWhile(node, stdinSource, stdout, stderr);
+          break;
+        case "until":
+          exitCode = await this.executeUntil(node, stdinSource, stdout, stderr);
+          break;
+        case "case":
+          exitCode = await this.executeCase(node, stdinSource, stdout, stderr);
+          break;
+        case "function":
+          this.functions.set(node.name, node);
+          if (this.runtimeSourceDepth > 0) {
+            this.runtimeFunctions.add(node);
+          }
+          exitCode = 0;
+          break;
+        case "subshell":
+          exitCode = await this.executeSubshell(node, stdinSource, stdout, stderr);
+          break;
+        case "group":
+          exitCode = await this.executeGroup(node, stdinSource, stdout, stderr);
+          break;
+        case "background":
+          exitCode = this.executeBackground(node, stdout, stderr);
+          break;
+        case "arithmeticCommand":
+          exitCode = await this.executeArithmeticCommand(node, stderr);
+          break;
+        case "arithmeticFor":
+          exitCode = await this.executeArithmeticFor(node, stdinSource, stdout, stderr);
+          break;
+        case "conditionalCommand":
+          exitCode = await this.executeConditionalCommand(node, stderr);
+          break;
+        default:
+          throw new Error("Cannot execute unknown node type");
+      }
+    } catch (err) {
+      if (err instanceof ExpansionError) {
+        await stderr.writeText(`sh: ${err.message}\n`);
+        throw new ExitException(1);
+      }
+      throw err;
+    } finally {
+      if (this.pipelineDepth === 0) {
+        await this.finishProcessSubstitutions(pendingSubstitutions);
+      }
+    }
+    this.lastExitCode = exitCode;
+    if (ownStage) {
+      this.setLastPipeline([this.finishStage(ownStage, exitCode)]);
+    }
+    if (exitCode !== 0 && checkErrexit && this.isErrorCheckpoint(node)) {
+      await this.runErrTrap(stdinSource, stdout, stderr);
+      if (this.shellOptions.errexit) {
+        throw new ExitException(exitCode);
+      }
+    }
+    return exitCode;
+  }
+
+  private startStage(node: ASTNode): RunningStage {
+    return { command: STAGE_KEYWORDS[node.type] ?? "", args: [], started: performance.now() };
+  }
+
+  private finishStage(stage: RunningStage, exitCode: number): PipelineStage {
+    return { command: stage.command, args: stage.args, exitCode, duration: performance.now() - stage.started };
+  }
+
+  // Record a finished pipeline for the execution's result and `$PIPESTATUS`
+  private setLastPipeline(stages: PipelineStage[]): void {
+    this.lastPipeline = stages;
+    delete this.env.PIPESTATUS;
+    this.arrays.set("PIPESTATUS", {
+      associative: false,
+      values: new Map(stages.map((stage, index) => [String(index), String(stage.exitCode)])),
+    });
+  }
+
+  // Spans of text parsed at run time point into that text, so they are not recorded
+  private recordStatusNode(node: ASTNode): void {
+    if (this.runtimeSourceDepth === 0 && node.span) {
+      this.statusSpan = node.span;
+    }
+  }
+
+  /**
+   * `set -e` and the ERR trap apply to a failed simple command, pipeline or
+   * subshell. Compound commands only fail through the commands inside them,
+   * which are checked on their own.
+   */
+  private isErrorCheckpoint(node: ASTNode): boolean {
+    return (
+      this.errexitExemptDepth === 0 &&
+      (node.type === "command" ||
+        node.type === "pipeline" ||
+        node.type === "subshell" ||
+        node.type === "arithmeticCommand" ||
+        node.type === "conditionalCommand")
+    );
+  }
+
+  /**
+   * Run a trap action in the current shell. `$?` holds the status that
+   * triggered the trap and is restored afterwards.
+   */
+  private async runTrap(
+    action: string | undefined,
+    stdinSource: AsyncIterable<Uint8Array> | null,
+    stdout: OutputCollector,
+    stderr: OutputCollector
+  ): Promise<void> {
+    if (!action) {
+      return;
+    }
+    const exitCode = this.lastExitCode;
+    try {
+      await this.executeSourceInCurrentFrame(action, stdinSource, stdout, stderr, "trap");
+    } finally {
+      this.lastExitCode = exitCode;
+    }
+  }
+
+  private async runErrTrap(
+    stdinSource: AsyncIterable<Uint8Array> | null,
+    stdout: OutputCollector,
+    stderr: OutputCollector
+  ): Promise<void> {
+    // Failures inside the ERR trap do not trigger it again, and like bash
+    // without `set -E`, function bodies do not inherit it
+    if (this.runningErrTrap || this.localFrames.length > 0) {
+      return;
+    }
+    this.runningErrTrap = true;
+    try {
+      await this.runTrap(this.traps.get("ERR"), stdinSource, stdout, stderr);
+    } finally {
+      this.runningErrTrap = false;
     }
+  }
+
+  // The EXIT trap runs once, as the shell finishes; `exit` inside it replaces the status
+  private async runExitTrap(
+    exitCode: number,
+    stdinSource: AsyncIterable<Uint8Array> | null,
+    stdout: OutputCollector,
+    stderr: OutputCollector
+  ): Promise<number> {
+    const action = this.traps.get("EXIT");
+    this.traps.delete("EXIT");
     this.lastExitCode = exitCode;
+    try {
+      await this.runTrap(action, stdinSource, stdout, stderr);
+    } catch (err) {
+      if (err instanceof ExitException) {
+        return err.exitCode;
+      }
+      if (this.activeSignal.aborted) {
+        return exitCode;
+      }
+      throw err;
+    }
     return exitCode;
   }
 
+  /**
+   * An aborted execution stops like a shell killed by a signal: SIGINT, or
+   * the signal named by the abort reason (e.g. `kill("SIGTERM")`). The trap
+   * for that signal runs before the shell exits.
+   */
+  private async handleAbort(
+    reason: unknown,
+    stdinSource: AsyncIterable<Uint8Array> | null,
+    stdout: OutputCollector,
+    stderr: OutputCollector
+  ): Promise<number> {
+    const name = typeof reason === "string" ? reason.toUpperCase().replace(/^SIG/, "") : "";
+    const signal = SIGNALS[name] === undefined ? "INT" : name;
+    const exitCode = 128 + SIGNALS[signal]!;
+    this.lastExitCode = exitCode;
+    try {
+      await this.runTrap(this.traps.get(signal), stdinSource, stdout, stderr);
+    } catch (err) {
+      if (err instanceof ExitException) {
+        return err.exitCode;
+      }
+      if (!this.activeSignal.aborted) {
+        throw err;
+      }
+    }
+    return exitCode;
+  }
+
+  // Conditions of `if`/`while`/`until` and the left side of `&&`/`||` are exempt from `set -e`
+  private async executeCondition(
+    node: ASTNode,
+    stdinSource: AsyncIterable<Uint8Array> | null,
+    stdout: OutputCollector,
+    stderr: OutputCollector
+  ): Promise<number> {
+    this.errexitExemptDepth++;
+    try {
+      return await this.executeNode(node, stdinSource, stdout, stderr);
+    } finally {
+      this.errexitExemptDepth--;
+    }
+  }
+
   private throwIfAborted(): void {
     if (this.activeSignal.aborted) {
       throw this.activeSignal.reason ?? new Error("Shell execution aborted");
     }
   }
 
+  // A script that never waits would otherwise starve timers, such as a `kill()` or `timeout` due to stop it
+  private async yieldToEventLoop(): Promise<void> {
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    this.lastYield = performance.now();
+    this.throwIfAborted();
+  }
+
   private async executeCommand(
     node: CommandNode,
     stdinSource: AsyncIterable<Uint8Array> | null,
     stdout: OutputCollector,
-    stderr: OutputCollector
+    stderr: OutputCollector,
+    stage?: RunningStage
   ): Promise<number> {
+    this.usage.countCommand();
+    this.substitutionExitCode = null;
     const assignmentEnv = { ...this.env };
+    const assignmentWords: string[] = [];
+    // Scalar assignments go to the command's environment when there is a command
+    const scalarAssignments: Assignment[] = [];
     for (const assignment of node.assignments) {
-      assignmentEnv[assignment.name] = await this.expandWordScalar(assignment.value, assignmentEnv);
+      this.assertWritable(assignment.name);
+      if (assignment.index || assignment.elements) {
+        // Arrays are never exported, so array assignments always apply to the shell
+        assignmentWords.push(await this.assignArray(assignment, assignmentEnv));
+        continue;
+      }
+      let value = await this.expandWordScalar(assignment.value, assignmentEnv);
+      if (assignment.append) {
+        value = this.getVariableValue(assignment.name, assignmentEnv) + value;
+      }
+      assignmentEnv[assignment.name] = value;
+      scalarAssignments.push(assignment);
+      assignmentWords.push(`${assignment.name}=${this.formatTraceWord(value)}`);
     }
 
     const expandedWords = await this.expandCommandWords(node, this.env);
     const [name, ...args] = expandedWords;
+    if (stage) {
+      stage.command = name ?? "";
+      stage.args = args;
+    }
 
     if (name === undefined || name === "") {
       if (node.assignments.length > 0) {
-        for (const assignment of node.assignments) {
-          this.env[assignment.name] = assignmentEnv[assignment.name] ?? "";
+        for (const assignment of scalarAssignments) {
+          this.assignVariable(assignment.name, assignmentEnv[assignment.name] ?? "");
+        }
+        for (const word of assignmentWords) {
+          await this.writeTrace([word], assignmentEnv, stderr);
         }
       }
-      return 0;
+      // With no command, the status is that of the last command substitution
+      return this.substitutionExitCode ?? 0;
+    }
+
+    await this.writeTrace([...assignmentWords, ...expandedWords.map((word) => this.formatTraceWord(word))], assignmentEnv, stderr);
+
+    // Prefix assignments are exported to the command they precede
+    const commandEnv = this.getExportedEnv();
+    for (const assignment of scalarAssignments) {
+      commandEnv[assignment.name] = assignmentEnv[assignment.name] ?? "";
+    }
+
+    return this.executeWithRedirects(node.redirects, stdinSource, stdout, stderr, (cmdStdin, cmdStdout, cmdStderr, frame) =>
+      this.invokeCommand(name, args, cmdStdin, cmdStdout, cmdStderr, commandEnv, frame)
+    );
+  }
+
+  private async writeTrace(words: string[], env: Record<string, string>, stderr: OutputCollector): Promise<void> {
+    if (this.shellOptions.xtrace) {
+      const ps4 = env.PS4 ?? "+ ";
+      await stderr.writeText(`${ps4.slice(0, 1).repeat(this.traceDepth)}${ps4}${words.join(" ")}\n`);
+    }
+  }
+
+  private formatTraceWord(word: string): string {
+    return /^[A-Za-z0-9_@%+=:,./-]+$/.test(word) ? word : `'${word.replaceAll("'", "'\\''")}'`;
+  }
+
+  private async executeWithRedirects(
+    redirects: Redirect[],
+    stdinSource: AsyncIterable<Uint8Array> | null,
+    stdout: OutputCollector,
+    stderr: OutputCollector,
+    run: (
+      stdinSource: AsyncIterable<Uint8Array> | null,
+      stdout: OutputCollector,
+      stderr: OutputCollector,
+      frame?: DescriptorFrame
+    ) => Promise<number>
+  ): Promise<number> {
+    if (redirects.length === 0) {
+      return run(stdinSource, stdout, stderr);
     }
 
-    // Handle redirects
-    let actualStdin = stdinSource;
-    let actualStdout: OutputCollector = stdout;
-    let actualStderr: OutputCollector = stderr;
-    let stderrToStdout = false;
-    let stdoutToStderr = false;
-    const fileWritePromises: Promise<void>[] = [];
+    // Redirects apply left to right, so `2>&1 >file` keeps stderr on the old stdout
+    const fds = new Map(this.frame.fds);
+    this.setStreamDescriptors(fds, stdinSource, stdout, stderr);
+    const frame: DescriptorFrame = { fds, parent: this.frame, changed: new Set(), done: false };
+    const opened: OpenedOutput[] = [];
 
-    for (const redirect of node.redirects) {
+    for (const redirect of redirects) {
       try {
-        const result = await this.handleRedirect(
-          redirect,
-          actualStdin,
-          actualStdout,
-          actualStderr,
-          this.env
-        );
-        actualStdin = result.stdin;
-        actualStdout = result.stdout;
-        actualStderr = result.stderr;
-        stderrToStdout = result.stderrToStdout || stderrToStdout;
-        stdoutToStderr = result.stdoutToStderr || stdoutToStderr;
-        if (result.fileWritePromise) {
-          fileWritePromises.push(result.fileWritePromise);
+        const result = await this.handleRedirect(redirect, frame, this.env);
+        if (result.collector) {
+          opened.push({ target: result.target, collector: result.collector, promise: result.fileWritePromise });
         }
       } catch (err) {
-        const target = await this.expandWordScalar(redirect.target, this.env);
+        for (const { collector } of opened) {
+          collector.close();
+        }
+        const target = describeRedirectObjects(await this.expandWordScalar(redirect.target, this.env), this.redirectObjects);
         const message = err instanceof Error ? err.message : String(err);
         await stderr.writeText(`sh: ${target}: ${message}\n`);
         return 1;
       }
     }
 
-    // Handle stderr->stdout redirect
-    if (stderrToStdout) {
-      actualStderr = actualStdout;
+    // Outputs that `exec` kept open are left for the shell to close when it ends
+    const closeCollectors = (): OpenedOutput[] => {
+      const closed = opened.filter(({ collector }) => !this.execOutputs.has(collector));
+      this.heldOutputs.push(...opened.filter(({ collector }) => this.execOutputs.has(collector)));
+      for (const { collector } of closed) {
+        collector.close();
+      }
+      return closed;
+    };
+
+    let exitCode: number;
+    this.enterFrame(frame);
+    try {
+      exitCode = await run(new DescriptorInput(fds), new DescriptorOutput(fds, 1), new DescriptorOutput(fds, 2), frame);
+    } catch (err) {
+      // Flush redirected output before `exit`/`return` unwind past this command
+      await Promise.allSettled(closeCollectors().map((output) => output.promise));
+      throw err;
+    } finally {
+      this.leaveFrame(frame);
     }
-    if (stdoutToStderr) {
-      actualStdout = actualStderr;
+
+    // Wait for all file write operations to complete
+    for (const { target, promise } of closeCollectors()) {
+      try {
+        await promise;
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        await stderr.writeText(`sh: ${describeRedirectObjects(target, this.redirectObjects)}: ${message}\n`);
+        exitCode = 1;
+      }
     }
 
-    let exitCode = await this.invokeCommand(
-      name,
-      args,
-      actualStdin,
-      actualStdout,
-      actualStderr,
-      assignmentEnv
-    );
+    return exitCode;
+  }
+
+  private setStreamDescriptors(
+    fds: Map<number, OpenFileDescriptor>,
+    stdinSource: AsyncIterable<Uint8Array> | null,
+    stdout: OutputCollector,
+    stderr: OutputCollector
+  ): void {
+    const entries = [resolveInputEntry(stdinSource), resolveOutputEntry(stdout), resolveOutputEntry(stderr)];
+    entries.forEach((entry, fd) => {
+      if (entry) {
+        fds.set(fd, entry);
+      } else {
+        fds.delete(fd);
+      }
+    });
+  }
 
-    // Close redirect collectors and wait for file writes
-    if (actualStdout !== stdout) {
-      actualStdout.close();
+  private enterFrame(frame: DescriptorFrame): void {
+    this.frame = frame;
+  }
+
+  private leaveFrame(frame: DescriptorFrame): void {
+    frame.done = true;
+    // Pipeline stages enter and leave frames concurrently, so skip frames that already ended
+    if (this.frame === frame) {
+      let current = frame.parent;
+      while (current?.done && current.parent) {
+        current = current.parent;
+      }
+      this.frame = current ?? frame;
     }
-    if (actualStderr !== stderr && actualStderr !== actualStdout) {
-      actualStderr.close();
+  }
+
+  /**
+   * Start a new top-level frame whose descriptors 0-2 are the given streams,
+   * plus whatever `exec` kept open, and return the streams commands should use.
+   */
+  private openRootFrame(
+    stdinSource: AsyncIterable<Uint8Array> | null,
+    stdout: OutputCollector,
+    stderr: OutputCollector
+  ): [AsyncIterable<Uint8Array>, OutputCollector, OutputCollector] {
+    const fds = new Map<number, OpenFileDescriptor>();
+    this.setStreamDescriptors(fds, stdinSource, stdout, stderr);
+    this.runDescriptors = [fds.get(0), fds.get(1), fds.get(2)].filter((entry) => entry !== undefined);
+    const base = new Map(fds);
+    for (const [fd, entry] of this.keptDescriptors) {
+      const resolved = typeof entry === "number" ? base.get(entry) : entry;
+      if (resolved) {
+        fds.set(fd, resolved);
+      } else {
+        fds.delete(fd);
+      }
     }
+    this.frame = { fds, parent: null, changed: new Set(), done: false };
+    return [new DescriptorInput(fds), new DescriptorOutput(fds, 1), new DescriptorOutput(fds, 2)];
+  }
 
-    // Wait for all file write operations to complete
-    try {
-      await Promise.all(fileWritePromises);
-    } catch (err) {
-      const message = err instanceof Error ? err.message : String(err);
-      // Find the redirect target for the error message
-      const writeRedirects = node.redirects.filter(r => r.mode !== "<" && r.mode !== "2>&1" && r.mode !== "1>&2");
-      const target = writeRedirects.length > 0
-        ? await this.expandWordScalar(writeRedirects[writeRedirects.length - 1]!.target, this.env)
-        : "unknown";
-      await stderr.writeText(`sh: ${target}: ${message}\n`);
-      exitCode = 1;
+  // Move the descriptors a command's redirects opened into the enclosing frame, as `exec >file` does
+  private keepRedirects(frame: DescriptorFrame): void {
+    const target = frame.parent;
+    if (!target) {
+      return;
     }
+    // Output files switch to writing through, as the command's own collectors close when it ends
+    const reopened = new Map<OpenFileDescriptor, OpenFileDescriptor>();
+    const keep = (entry: OpenFileDescriptor): OpenFileDescriptor => {
+      if (entry.path === undefined) {
+        if (entry.output) {
+          this.execOutputs.add(entry.output);
+        }
+        return entry;
+      }
+      let kept = reopened.get(entry);
+      if (!kept) {
+        kept = { ...entry, output: new FileOutput(this.fs, entry.path) };
+        reopened.set(entry, kept);
+      }
+      return kept;
+    };
 
-    return exitCode;
+    for (const fd of frame.changed) {
+      const entry = frame.fds.get(fd);
+      const kept = entry ? keep(entry) : undefined;
+      if (kept) {
+        target.fds.set(fd, kept);
+      } else {
+        target.fds.delete(fd);
+      }
+      if (!target.parent) {
+        const runFd = this.runDescriptors.findIndex((runEntry) => runEntry === kept);
+        this.keptDescriptors.set(fd, runFd >= 0 ? runFd : (kept ?? null));
+      }
+    }
+  }
+
+  // Close the redirects to JS objects that `exec` kept open, once the shell that ran it ends
+  private async closeHeldOutputs(stderr: OutputCollector): Promise<void> {
+    const held = this.heldOutputs.splice(0);
+    for (const { collector } of held) {
+      collector.close();
+    }
+    for (const { target, promise } of held) {
+      try {
+        await promise;
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        await stderr.writeText(`sh: ${describeRedirectObjects(target, this.redirectObjects)}: ${message}\n`);
+      }
+    }
+  }
+
+  private getInheritedDescriptors(): Map<number, OpenFileDescriptor> {
+    return new Map([...this.frame.fds].filter(([fd]) => fd > 2));
   }
 
   private async invokeCommand(
@@ -360,11 +1084,29 @@ export class Interpreter {
     stdinSource: AsyncIterable<Uint8Array> | null,
     stdout: OutputCollector,
     stderr: OutputCollector,
-    env: Record<string, string>
+    env: Record<string, string>,
+    redirectFrame?: DescriptorFrame
+  ): Promise<number> {
+    const fn = this.functions.get(name);
+    if (fn) {
+      return this.invokeFunction(fn, args, stdinSource, stdout, stderr, env);
+    }
+    return this.invokeNonFunction(name, args, stdinSource, stdout, stderr, env, redirectFrame);
+  }
+
+  // Run a registered command, script or external command, passing over functions
+  private async invokeNonFunction(
+    name: string,
+    args: string[],
+    stdinSource: AsyncIterable<Uint8Array> | null,
+    stdout: OutputCollector,
+    stderr: OutputCollector,
+    env: Record<string, string>,
+    redirectFrame?: DescriptorFrame
   ): Promise<number> {
     const command = this.commands[name];
     if (command) {
-      return this.invokeRegisteredCommand(name, command, args, stdinSource, stdout, stderr, env);
+      return this.invokeRegisteredCommand(name, command, args, stdinSource, stdout, stderr, env, redirectFrame);
     }
 
     if (name.includes("/")) {
@@ -378,6 +1120,11 @@ export class Interpreter {
       return this.executeExecutableFile(name, args, stdinSource, stdout, stderr, env);
     }
 
+    const script = await this.findScript(name, env);
+    if (script) {
+      return this.executeExecutableFile(script, args, stdinSource, stdout, stderr, env);
+    }
+
     if (this.externalCommand) {
       return this.invokeExternalCommand(name, args, stdinSource, stdout, stderr, env);
     }
@@ -386,6 +1133,343 @@ export class Interpreter {
     return 127;
   }
 
+  // What running `name` would do, in the order invokeCommand looks
+  private async resolveCommand(name: string, env: Record<string, string>): Promise<CommandResolution | undefined> {
+    const alias = this.aliases.get(name);
+    if (alias !== undefined) {
+      return { kind: "alias", value: alias };
+    }
+    if (SHELL_KEYWORDS.has(name)) {
+      return { kind: "keyword" };
+    }
+    if (this.functions.has(name)) {
+      return { kind: "function" };
+    }
+    if (this.commands[name]) {
+      return { kind: SHELL_BUILTINS.has(name) ? "builtin" : "command" };
+    }
+    const script = name.includes("/")
+      ? ((await this.isFile(this.fs.resolve(this.cwd, name))) ? name : undefined)
+      : await this.findScript(name, env);
+    if (script) {
+      return { kind: "script", path: script };
+    }
+    return this.externalCommand ? { kind: "external" } : undefined;
+  }
+
+  /**
+   * The first file called `name` in the `$PATH` directories, when scripts
+   * are looked up there. Found paths are remembered until PATH changes,
+   * `hash -r` clears them or the file goes away.
+   */
+  private async findScript(name: string, env: Record<string, string>): Promise<string | undefined> {
+    if (!this.scriptPath || name === "" || name.includes("/")) {
+      return undefined;
+    }
+    const searchPath = env.PATH ?? "";
+    if (searchPath !== this.commandHashPath) {
+      this.commandHash.clear();
+      this.commandHashPath = searchPath;
+    }
+    const hashed = this.commandHash.get(name);
+    if (hashed !== undefined && (await this.isFile(hashed))) {
+      return hashed;
+    }
+    this.commandHash.delete(name);
+
+    for (const directory of searchPath.split(":")) {
+      // An empty entry is the working directory
+      const path = this.fs.resolve(this.cwd, directory || ".", name);
+      if (await this.isFile(path)) {
+        this.commandHash.set(name, path);
+        return path;
+      }
+    }
+    return undefined;
+  }
+
+  private async isFile(path: string): Promise<boolean> {
+    try {
+      return (await this.fs.stat(path)).isFile();
+    } catch {
+      return false;
+    }
+  }
+
+  private async invokeFunction(
+    fn: FunctionNode,
+    args: string[],
+    stdinSource: AsyncIterable<Uint8Array> | null,
+    stdout: OutputCollector,
+    stderr: OutputCollector,
+    env: Record<string, string>
+  ): Promise<number> {
+    const frame = new Map<string, SavedVariable>();
+    // Prefix assignments (`FOO=1 fn`) are scoped to the call like locals
+    for (const [name, value] of Object.entries(env)) {
+      if (this.env[name] !== value) {
+        frame.set(name, this.saveVariable(name));
+        this.restoreVariable(name, value);
+      }
+    }
+
+    const previousPositionals = this.positionalParameters;
+    this.usage.enter();
+    this.positionalParameters = [...args];
+    this.localFrames.push(frame);
+    this.returnDepth++;
+    const runtimeFunction = this.runtimeFunctions.has(fn);
+    if (runtimeFunction) {
+      this.runtimeSourceDepth++;
+    }
+
+    try {
+      return await this.executeNode(fn.body, stdinSource, stdout, stderr);
+    } catch (err) {
+      if (err instanceof ReturnException) {
+        return err.exitCode;
+      }
+      throw err;
+    } finally {
+      if (runtimeFunction) {
+        this.runtimeSourceDepth--;
+      }
+      this.returnDepth--;
+      this.localFrames.pop();
+      this.positionalParameters = previousPositionals;
+      this.usage.leave();
+      for (const [name, value] of frame) {
+        this.restoreVariable(name, value);
+      }
+    }
+  }
+
+  private declareLocal(name: string, value?: string): void {
+    const frame = this.localFrames[this.localFrames.length - 1];
+    if (!frame) {
+      throw new Error("can only be used in a function");
+    }
+    this.assertWritable(name);
+    if (!frame.has(name)) {
+      frame.set(name, this.saveVariable(name));
+    }
+    this.restoreVariable(name, value);
+  }
+
+  private saveVariable(name: string): SavedVariable {
+    return this.arrays.get(name) ?? this.env[name];
+  }
+
+  private restoreVariable(name: string, value: SavedVariable): void {
+    this.arrays.delete(name);
+    delete this.env[name];
+    if (typeof value === "string") {
+      this.env[name] = value;
+    } else if (value) {
+      this.arrays.set(name, value);
+    }
+  }
+
+  private assertWritable(name: string): void {
+    if (this.readonlyNames.has(name)) {
+      throw new ExpansionError(`${name}: readonly variable`);
+    }
+  }
+
+  // `name[key]` sets one element; assigning to an array's bare name sets element 0
+  private assignVariable(name: string, value: string): void {
+    const element = this.parseElementName(name);
+    if (element) {
+      this.setArrayElement(element.name, this.resolveArrayKey(element.name, element.subscript, this.env), value);
+      return;
+    }
+    this.assertWritable(name);
+    if (this.arrays.has(name)) {
+      this.setArrayElement(name, "0", value);
+      return;
+    }
+    this.env[name] = value;
+  }
+
+  private unsetVariable(name: string): void {
+    const element = this.parseElementName(name);
+    const variable = element?.name ?? name;
+    if (this.readonlyNames.has(variable)) {
+      throw new Error(`${variable}: cannot unset: readonly variable`);
+    }
+    if (element) {
+      const array = this.arrays.get(element.name);
+      if (array) {
+        array.values.delete(this.resolveArrayKey(element.name, element.subscript, this.env));
+      } else if (this.resolveArrayKey(element.name, element.subscript, this.env) === "0") {
+        delete this.env[element.name];
+      }
+      return;
+    }
+    delete this.env[name];
+    this.arrays.delete(name);
+    this.exportedNames.delete(name);
+  }
+
+  // Split `name[subscript]`, as builtins such as `unset` and `read` receive it
+  private parseElementName(name: string): { name: string; subscript: string } | null {
+    const match = name.match(/^([a-zA-Z_][a-zA-Z0-9_]*)\[(.+)\]$/s);
+    return match ? { name: match[1]!, subscript: match[2]! } : null;
+  }
+
+  // The value `$name` or `name[key]` reads, or undefined when it is unset
+  private lookupVariable(name: string): string | undefined {
+    const element = this.parseElementName(name);
+    if (element) {
+      return this.getArrayElement(element.name, this.resolveArrayKey(element.name, element.subscript, this.env));
+    }
+    return this.env[name] ?? this.arrays.get(name)?.values.get("0");
+  }
+
+  private getArrayElement(name: string, key: string): string | undefined {
+    const array = this.arrays.get(name);
+    if (array) {
+      return array.values.get(key);
+    }
+    // A scalar is an array with only element 0
+    return key === "0" ? this.env[name] : undefined;
+  }
+
+  private getArrayValues(name: string): string[] {
+    const array = this.arrays.get(name);
+    if (array) {
+      return arrayValues(array);
+    }
+    return this.env[name] === undefined ? [] : [this.env[name]];
+  }
+
+  private getArrayKeys(name: string): string[] {
+    const array = this.arrays.get(name);
+    if (array) {
+      return arrayKeys(array);
+    }
+    return this.env[name] === undefined ? [] : ["0"];
+  }
+
+  // The array `name` refers to, turning a scalar into element 0 of a new indexed array
+  private ensureArray(name: string): ArrayVariable {
+    let array = this.arrays.get(name);
+    if (!array) {
+      array = { associative: false, values: new Map() };
+      if (this.env[name] !== undefined) {
+        array.values.set("0", this.env[name]);
+      }
+      delete this.env[name];
+      this.arrays.set(name, array);
+    }
+    return array;
+  }
+
+  private setArrayElement(name: string, key: string, value: string): void {
+    this.assertWritable(name);
+    this.ensureArray(name).values.set(key, value);
+  }
+
+  private setArray(name: string, array: ShellArray): void {
+    this.assertWritable(name);
+    delete this.env[name];
+    this.arrays.set(name, fromShellArray(array));
+  }
+
+  /**
+   * Resolve an expanded subscript to an element key. Associative arrays use it
+   * as is; indexed arrays evaluate it arithmetically, counting negative
+   * indices back from the end.
+   */
+  private resolveArrayKey(name: string, subscript: string, env: Record<string, string>): string {
+    const array = this.arrays.get(name);
+    if (array?.associative) {
+      if (subscript === "") {
+        throw new ExpansionError(`${name}: bad array subscript`);
+      }
+      return subscript;
+    }
+    let index = Number(this.evaluateArithmetic(subscript, env));
+    if (index < 0) {
+      index += array ? nextArrayIndex(array) : this.env[name] === undefined ? 0 : 1;
+      if (index < 0) {
+        throw new ExpansionError(`${name}[${subscript}]: bad array subscript`);
+      }
+    }
+    return String(index);
+  }
+
+  // The key a `[index]` subscript selects, or `@`/`*` for every element
+  private async resolveSubscript(name: string, index: WordNode, env: Record<string, string>): Promise<string> {
+    const all = this.getAllElementsSubscript(index);
+    if (all) {
+      return all;
+    }
+    return this.resolveArrayKey(name, await this.expandWordScalar(index, env), env);
+  }
+
+  /**
+   * Apply `name[index]=value` or `name=(...)`, returning the assignment as
+   * `set -x` traces it. Unindexed words of a literal are split and globbed
+   * like command arguments.
+   */
+  private async assignArray(assignment: Assignment, env: Record<string, string>): Promise<string> {
+    const { name } = assignment;
+    this.assertWritable(name);
+    if (assignment.index) {
+      const key = await this.resolveSubscript(name, assignment.index, env);
+      if (key === "@" || key === "*") {
+        throw new ExpansionError(`${name}[${key}]: bad array subscript`);
+      }
+      let value = await this.expandWordScalar(assignment.value, env);
+      if (assignment.append) {
+        value = (this.getArrayElement(name, key) ?? "") + value;
+      }
+      this.setArrayElement(name, key, value);
+      return `${name}[${key}]=${this.formatTraceWord(value)}`;
+    }
+
+    const existing = this.arrays.get(name);
+    const array: ArrayVariable = {
+      associative: existing?.associative ?? false,
+      values: assignment.append ? new Map(this.ensureArray(name).values) : new Map(),
+    };
+    let next = array.associative ? 0 : nextArrayIndex(array);
+    for (const element of assignment.elements ?? []) {
+      if (element.index) {
+        const subscript = await this.expandWordScalar(element.index, env);
+        const key = array.associative ? subscript : String(this.evaluateArithmetic(subscript, env));
+        array.values.set(key, await this.expandWordScalar(element.value, env));
+        if (!array.associative) {
+          next = Number(key) + 1;
+        }
+        continue;
+      }
+      if (array.associative) {
+        throw new ExpansionError(`${name}: must use subscript when assigning associative array`);
+      }
+      for (const value of await this.expandWordForCommand(element.value, env)) {
+        array.values.set(String(next++), value);
+      }
+    }
+
+    delete this.env[name];
+    this.arrays.set(name, array);
+    const words = arrayKeys(array).map((key) => this.formatTraceWord(array.values.get(key)!));
+    return `${name}=(${words.join(" ")})`;
+  }
+
+  private getExportedEnv(): Record<string, string> {
+    const env: Record<string, string> = {};
+    for (const name of this.exportedNames) {
+      const value = this.env[name];
+      if (value !== undefined) {
+        env[name] = value;
+      }
+    }
+    return env;
+  }
+
   private async invokeExternalCommand(
     name: string,
     args: string[],
@@ -398,11 +1482,12 @@ export class Interpreter {
       return 127;
     }
 
+    const outputs = [watchBrokenPipe(stdout), watchBrokenPipe(stderr)] as const;
     const ctx = createCommandContext({
       args,
-      stdin: createStdin(stdinSource),
-      stdout,
-      stderr,
+      stdin: createStdin(resolveInput(stdinSource)),
+      stdout: outputs[0],
+      stderr: outputs[1],
       fs: this.fs,
       cwd: this.cwd,
       env,
@@ -411,12 +1496,16 @@ export class Interpreter {
       setCwd: (path: string) => this.setCwd(path),
       exec: this.createExec(env),
       shell: this.createShellApi(stdinSource, stdout, stderr, env),
+      fds: this.getCommandFileDescriptors(),
     });
 
     try {
-      return await this.externalCommand({ ...ctx, name });
+      const exitCode = await this.externalCommand({ ...ctx, name });
+      this.throwIfBrokenPipe(outputs);
+      return exitCode;
     } catch (err) {
-      if (err instanceof BreakException || err instanceof ContinueException || err instanceof ExitException) {
+      this.throwIfBrokenPipe(outputs);
+      if (this.isControlFlowException(err)) {
         throw err;
       }
       if (this.activeSignal.aborted) {
@@ -435,15 +1524,17 @@ export class Interpreter {
     stdinSource: AsyncIterable<Uint8Array> | null,
     stdout: OutputCollector,
     stderr: OutputCollector,
-    env: Record<string, string>
+    env: Record<string, string>,
+    redirectFrame?: DescriptorFrame
   ): Promise<number> {
     const exec = this.createExec(env);
-    const shell = this.createShellApi(stdinSource, stdout, stderr, env);
+    const shell = this.createShellApi(stdinSource, stdout, stderr, env, redirectFrame);
+    const outputs = [watchBrokenPipe(stdout), watchBrokenPipe(stderr)] as const;
     const ctx = createCommandContext({
       args,
-      stdin: createStdin(stdinSource),
-      stdout,
-      stderr,
+      stdin: createStdin(resolveInput(stdinSource)),
+      stdout: outputs[0],
+      stderr: outputs[1],
       fs: this.fs,
       cwd: this.cwd,
       env,
@@ -452,12 +1543,16 @@ export class Interpreter {
       setCwd: (path: string) => this.setCwd(path),
       exec,
       shell,
+      fds: this.getCommandFileDescriptors(),
     });
 
     try {
-      return await command(ctx);
+      const exitCode = await command(ctx);
+      this.throwIfBrokenPipe(outputs);
+      return exitCode;
     } catch (err) {
-      if (err instanceof BreakException || err instanceof ContinueException || err instanceof ExitException) {
+      this.throwIfBrokenPipe(outputs);
+      if (this.isControlFlowException(err) || this.activeSignal.aborted) {
         throw err;
       }
       const message = err instanceof Error ? err.message : String(err);
@@ -466,6 +1561,28 @@ export class Interpreter {
     }
   }
 
+  // A command that wrote to a pipe with no reader ends as SIGPIPE would end it, even if it caught the error
+  private throwIfBrokenPipe(outputs: readonly WatchedOutput[]): void {
+    if (outputs.some((output) => output.brokenPipe)) {
+      throw new BrokenPipeError();
+    }
+  }
+
+  private getCommandFileDescriptors(): Map<number, FileDescriptor> {
+    const fds = new Map<number, FileDescriptor>();
+    for (const [fd, entry] of this.getInheritedDescriptors()) {
+      const descriptor: FileDescriptor = {};
+      if (entry.input !== undefined) {
+        descriptor.input = createStdin(entry.input);
+      }
+      if (entry.output) {
+        descriptor.output = entry.output;
+      }
+      fds.set(fd, descriptor);
+    }
+    return fds;
+  }
+
   private createExec(env: Record<string, string>): (name: string, args: string[]) => Promise<ExecResult> {
     return async (name: string, args: string[]) => {
       const subStdout = createStdout();
@@ -487,7 +1604,8 @@ export class Interpreter {
     stdinSource: AsyncIterable<Uint8Array> | null,
     stdout: OutputCollector,
     stderr: OutputCollector,
-    env: Record<string, string>
+    env: Record<string, string>,
+    redirectFrame?: DescriptorFrame
   ): ShellCommandApi {
     return {
       eval: (source: string) =>
@@ -506,13 +1624,103 @@ export class Interpreter {
           stderr,
           env
         ),
+      runCommand: (name: string, args: string[], commandEnv = env, options = {}) =>
+        options.signal
+          ? this.invokeCommandInSubshell(name, args, options, stdinSource, stdout, stderr, { ...commandEnv })
+          : options.functions === false
+            ? this.invokeNonFunction(name, args, stdinSource, stdout, stderr, { ...commandEnv })
+            : this.invokeCommand(name, args, stdinSource, stdout, stderr, { ...commandEnv }),
+      resolveCommand: (name: string) => this.resolveCommand(name, env),
+      getCommandHash: () => Object.fromEntries(this.commandHash),
+      getAliases: () => Object.fromEntries(this.aliases),
+      setAlias: (name: string, value: string) => {
+        this.aliases.set(name, value);
+      },
+      unsetAlias: (name: string) => this.aliases.delete(name),
+      clearCommandHash: () => this.commandHash.clear(),
       getLastExitCode: () => this.lastExitCode,
       exit: (exitCode = this.lastExitCode) => {
         throw new ExitException(this.normalizeExitCode(exitCode));
       },
+      return: (exitCode = this.lastExitCode) => {
+        if (this.returnDepth === 0) {
+          throw new Error("can only `return' from a function or sourced script");
+        }
+        throw new ReturnException(this.normalizeExitCode(exitCode));
+      },
+      local: (name: string, value?: string) => this.declareLocal(name, value),
+      isInFunction: () => this.localFrames.length > 0,
+      getVariable: (name: string) => this.lookupVariable(name),
+      getVariables: () => ({ ...this.env }),
+      setVariable: (name: string, value: string) => this.assignVariable(name, value),
+      getArrayNames: () => [...this.arrays.keys()],
+      getArray: (name: string) => {
+        const array = this.arrays.get(name);
+        return array ? toShellArray(array) : undefined;
+      },
+      setArray: (name: string, array: ShellArray) => this.setArray(name, array),
+      unsetVariable: (name: string) => this.unsetVariable(name),
+      unsetFunction: (name: string) => {
+        this.functions.delete(name);
+      },
+      exportVariable: (name: string, value?: string) => {
+        if (value !== undefined) {
+          this.assignVariable(name, value);
+        }
+        this.exportedNames.add(name);
+      },
+      unexportVariable: (name: string) => {
+        this.exportedNames.delete(name);
+      },
+      getExportedNames: () => [...this.exportedNames],
+      setReadonly: (name: string, value?: string) => {
+        if (value !== undefined) {
+          this.assignVariable(name, value);
+        }
+        this.readonlyNames.add(name);
+      },
+      getReadonlyNames: () => [...this.readonlyNames],
+      getPositionalParameters: () => [...this.positionalParameters],
+      setPositionalParameters: (args: string[]) => {
+        this.positionalParameters = [...args];
+      },
+      jobs: () => this.jobs.list(),
+      findJob: (spec: string) => this.jobs.find(spec),
+      waitForJob: (id?: number) => this.jobs.wait(id),
+      killJob: (id: number, signal?: number) => this.jobs.kill(id, signal),
+      getOptions: () => this.getOptions(),
+      setOptions: (options: ShellOptions) => this.setOptions(options),
+      getShoptOptions: () => this.getShoptOptions(),
+      setShoptOptions: (options: ShoptOptions) => this.setShoptOptions(options),
+      getTraps: () => Object.fromEntries(this.traps),
+      setTrap: (condition: string, action: string | null) => {
+        if (action === null) {
+          this.traps.delete(condition);
+        } else {
+          this.traps.set(condition, action);
+        }
+      },
+      keepRedirects: () => {
+        if (redirectFrame) {
+          this.keepRedirects(redirectFrame);
+        }
+      },
     };
   }
 
+  // Exceptions that unwind the shell rather than fail a command, including a
+  // write to a pipe with no reader, which ends the pipeline stage
+  private isControlFlowException(err: unknown): boolean {
+    return (
+      err instanceof BreakException ||
+      err instanceof ContinueException ||
+      err instanceof ExitException ||
+      err instanceof ReturnException ||
+      err instanceof BrokenPipeError ||
+      err instanceof ShellLimitError
+    );
+  }
+
   private async executeExecutableFile(
     pathName: string,
     args: string[],
@@ -553,9 +1761,14 @@ export class Interpreter {
       redirectObjects: this.redirectObjects,
       terminal: this.terminal,
       externalCommand: this.externalCommand,
+      scriptPath: this.scriptPath,
       signal: this.activeSignal,
       argv0: shebang.command,
       positionalParameters: [],
+      fileDescriptors: this.getInheritedDescriptors(),
+      processSubstitutions: this.processSubstitutions,
+      pipes: this.pipeOptions,
+      usage: this.usage,
     });
 
     return child.invokeRegisteredCommand(
@@ -581,14 +1794,24 @@ export class Interpreter {
       return loaded.exitCode;
     }
 
-    return this.executeSourceInCurrentFrame(
-      loaded.source,
-      stdinSource,
-      stdout,
-      stderr,
-      pathName,
-      args.length > 0 ? { args } : undefined
-    );
+    this.returnDepth++;
+    try {
+      return await this.executeSourceInCurrentFrame(
+        loaded.source,
+        stdinSource,
+        stdout,
+        stderr,
+        pathName,
+        args.length > 0 ? { args } : undefined
+      );
+    } catch (err) {
+      if (err instanceof ReturnException) {
+        return err.exitCode;
+      }
+      throw err;
+    } finally {
+      this.returnDepth--;
+    }
   }
 
   private async executeIsolatedShellSource(
@@ -608,18 +1831,30 @@ export class Interpreter {
       redirectObjects: this.redirectObjects,
       terminal: this.terminal,
       externalCommand: this.externalCommand,
+      scriptPath: this.scriptPath,
       signal: this.activeSignal,
       argv0,
       positionalParameters: args,
+      fileDescriptors: this.getInheritedDescriptors(),
+      processSubstitutions: this.processSubstitutions,
+      pipes: this.pipeOptions,
+      usage: this.usage,
     });
 
+    const [input, output, errors] = interpreter.openRootFrame(stdinSource, stdout, stderr);
     try {
-      return await interpreter.executeSourceInCurrentFrame(source, stdinSource, stdout, stderr, argv0);
-    } catch (err) {
-      if (err instanceof ExitException) {
-        return err.exitCode;
+      let exitCode: number;
+      try {
+        exitCode = await interpreter.executeSourceInCurrentFrame(source, input, output, errors, argv0);
+      } catch (err) {
+        if (!(err instanceof ExitException)) {
+          throw err;
+        }
+        exitCode = err.exitCode;
       }
-      throw err;
+      return await interpreter.runExitTrap(exitCode, input, output, errors);
+    } finally {
+      await interpreter.closeHeldOutputs(stderr);
     }
   }
 
@@ -631,6 +1866,7 @@ export class Interpreter {
     errorName: string,
     positionalOverride?: { argv0?: string; args?: string[] }
   ): Promise<number> {
+    this.usage.enter();
     const previousArgv0 = this.argv0;
     const previousPositionals = this.positionalParameters;
 
@@ -641,6 +1877,7 @@ export class Interpreter {
       this.positionalParameters = [...positionalOverride.args];
     }
 
+    this.runtimeSourceDepth++;
     try {
       const ast = this.parseSource(source);
       if (!ast) {
@@ -648,13 +1885,15 @@ export class Interpreter {
       }
       return await this.executeNode(ast, stdinSource, stdout, stderr);
     } catch (err) {
-      if (err instanceof BreakException || err instanceof ContinueException || err instanceof ExitException) {
+      if (this.isControlFlowException(err) || this.activeSignal.aborted) {
         throw err;
       }
       const message = err instanceof Error ? err.message : String(err);
       await stderr.writeText(`${errorName}: ${message}\n`);
       return 2;
     } finally {
+      this.usage.leave();
+      this.runtimeSourceDepth--;
       if (positionalOverride?.argv0 !== undefined) {
         this.argv0 = previousArgv0;
       }
@@ -665,11 +1904,11 @@ export class Interpreter {
   }
 
   private parseSource(source: string): ASTNode | null {
-    const tokens = new Lexer(source, { preserveNewlines: true }).tokenize();
+    const tokens = new Lexer(source, { preserveNewlines: true, aliases: this.aliases }).tokenize();
     if (tokens.every((token) => token.type === "newline" || token.type === "eof")) {
       return null;
     }
-    return new Parser(tokens).parse();
+    return new Parser(tokens, { aliases: this.aliases }).parse();
   }
 
   private async loadScriptSource(
@@ -737,217 +1976,192 @@ export class Interpreter {
     };
   }
 
+  // Apply one redirect to the descriptor table, returning any collector it opened
   private async handleRedirect(
     redirect: Redirect,
-    stdin: AsyncIterable<Uint8Array> | null,
-    stdout: OutputCollector,
-    stderr: OutputCollector,
+    frame: DescriptorFrame,
     env: Record<string, string>
-  ): Promise<{
-    stdin: AsyncIterable<Uint8Array> | null;
-    stdout: OutputCollector;
-    stderr: OutputCollector;
-    stderrToStdout?: boolean;
-    stdoutToStderr?: boolean;
-    fileWritePromise?: Promise<void>;
-  }> {
+  ): Promise<{ target: string; collector?: OutputCollector; fileWritePromise?: Promise<void> }> {
+    const { fd, op } = redirect;
+    const { fds } = frame;
     const target = await this.expandWordScalar(redirect.target, env);
+    frame.changed.add(fd);
+    if (op === "&>" || op === "&>>") {
+      frame.changed.add(2);
+    }
+
+    switch (op) {
+      case "<<":
+        // Heredoc: target is already the content
+        fds.set(fd, { input: inputOf(new TextEncoder().encode(target)) });
+        return { target };
+      case "<<<":
+        fds.set(fd, { input: inputOf(new TextEncoder().encode(`${target}\n`)) });
+        return { target };
+      case ">&":
+      case "<&": {
+        if (target === "-") {
+          fds.delete(fd);
+          return { target };
+        }
+        if (!/^[0-9]+$/.test(target)) {
+          throw new Error("ambiguous redirect");
+        }
+        const source = fds.get(Number(target));
+        if (!source || (op === ">&" ? source.output === undefined : source.input === undefined)) {
+          throw new Error("Bad file descriptor");
+        }
+        fds.set(fd, source);
+        return { target };
+      }
+    }
 
     // Check if target is a redirect object marker
     if (target in this.redirectObjects) {
-      return this.handleObjectRedirect(redirect.mode, this.redirectObjects[target]!, stdin, stdout, stderr);
-    }
-
-    switch (redirect.mode) {
-      case "<": {
-        if (redirect.heredocContent) {
-          // Heredoc: target is already the content
-          return {
-            stdin: (async function* () {
-              yield new TextEncoder().encode(target);
-            })(),
-            stdout,
-            stderr,
-          };
-        }
-        // /dev/null: empty input
-        if (isDevNullPath(target)) {
-          return {
-            stdin: (async function* () {})(),
-            stdout,
-            stderr,
-          };
-        }
-        // Input redirect from file
-        const path = this.fs.resolve(this.cwd, target);
-        const content = await this.fs.readFile(path);
-        return {
-          stdin: (async function* () {
-            yield new Uint8Array(content);
-          })(),
-          stdout,
-          stderr,
-        };
+      return this.handleObjectRedirect(redirect, target, this.redirectObjects[target]!, fds);
+    }
+
+    if (op === "<") {
+      // /dev/null: empty input
+      if (isDevNullPath(target)) {
+        fds.set(fd, { input: inputOf(new Uint8Array()) });
+        return { target };
       }
-      case ">": {
-        // Output redirect (overwrite)
-        const collector = createStdout();
-        if (isDevNullPath(target)) {
-          return { stdin, stdout: collector, stderr };
-        }
-        const path = this.fs.resolve(this.cwd, target);
-        const fileWritePromise = (async () => {
-          const data = await collector.collect();
-          await this.fs.writeFile(path, data);
-        })();
-        return { stdin, stdout: collector, stderr, fileWritePromise };
-      }
-      case ">>": {
-        // Output redirect (append)
-        const collector = createStdout();
-        if (isDevNullPath(target)) {
-          return { stdin, stdout: collector, stderr };
-        }
-        const path = this.fs.resolve(this.cwd, target);
-        const fileWritePromise = (async () => {
-          const data = await collector.collect();
-          await this.fs.appendFile(path, data);
-        })();
-        return { stdin, stdout: collector, stderr, fileWritePromise };
-      }
-      case "2>": {
-        // Stderr redirect (overwrite)
-        const collector = createStderr();
-        if (isDevNullPath(target)) {
-          return { stdin, stdout, stderr: collector };
-        }
-        const path = this.fs.resolve(this.cwd, target);
-        const fileWritePromise = (async () => {
-          const data = await collector.collect();
-          await this.fs.writeFile(path, data);
-        })();
-        return { stdin, stdout, stderr: collector, fileWritePromise };
-      }
-      case "2>>": {
-        // Stderr redirect (append)
-        const collector = createStderr();
-        if (isDevNullPath(target)) {
-          return { stdin, stdout, stderr: collector };
-        }
-        const path = this.fs.resolve(this.cwd, target);
-        const fileWritePromise = (async () => {
-          const data = await collector.collect();
-          await this.fs.appendFile(path, data);
-        })();
-        return { stdin, stdout, stderr: collector, fileWritePromise };
-      }
-      case "&>": {
-        // Both to file (overwrite)
-        const collector = createStdout();
-        if (isDevNullPath(target)) {
-          return { stdin, stdout: collector, stderr: collector };
-        }
-        const path = this.fs.resolve(this.cwd, target);
-        const fileWritePromise = (async () => {
-          const data = await collector.collect();
-          await this.fs.writeFile(path, data);
-        })();
-        return { stdin, stdout: collector, stderr: collector, fileWritePromise };
-      }
-      case "&>>": {
-        // Both to file (append)
-        const collector = createStdout();
-        if (isDevNullPath(target)) {
-          return { stdin, stdout: collector, stderr: collector };
-        }
-        const path = this.fs.resolve(this.cwd, target);
-        const fileWritePromise = (async () => {
-          const data = await collector.collect();
-          await this.fs.appendFile(path, data);
-        })();
-        return { stdin, stdout: collector, stderr: collector, fileWritePromise };
-      }
-      case "2>&1":
-        return { stdin, stdout, stderr, stderrToStdout: true };
-      case "1>&2":
-        return { stdin, stdout, stderr, stdoutToStderr: true };
-      default:
-        return { stdin, stdout, stderr };
+      // Input redirect from file
+      const content = await this.fs.readFile(this.fs.resolve(this.cwd, target));
+      fds.set(fd, { input: inputOf(new Uint8Array(content)) });
+      return { target };
+    }
+
+    const collector = createStdout();
+    const entry: OpenFileDescriptor = { output: collector };
+    fds.set(fd, entry);
+    if (op === "&>" || op === "&>>") {
+      fds.set(2, entry);
+    }
+    if (isDevNullPath(target)) {
+      entry.path = target;
+      if (op === "<>") {
+        entry.input = inputOf(new Uint8Array());
+      }
+      return { target, collector };
     }
-  }
 
-  private async handleObjectRedirect(
-    mode: string,
-    obj: Buffer | Blob | Response | string,
-    stdin: AsyncIterable<Uint8Array> | null,
-    stdout: OutputCollector,
-    stderr: OutputCollector
-  ): Promise<{
-    stdin: AsyncIterable<Uint8Array> | null;
-    stdout: OutputCollector;
-    stderr: OutputCollector;
-    stderrToStdout?: boolean;
-    stdoutToStderr?: boolean;
-    fileWritePromise?: Promise<void>;
-  }> {
-    switch (mode) {
-      case "<": {
-        // Input from object
-        const data = await this.readFromObject(obj);
-        return {
-          stdin: (async function* () {
-            yield data;
-          })(),
-          stdout,
-          stderr,
-        };
+    const path = this.fs.resolve(this.cwd, target);
+    entry.path = path;
+    if (op === "<>") {
+      // Read-write: nothing is truncated, and writes start at the beginning of the file
+      const existing = (await this.fs.exists(path)) ? new Uint8Array(await this.fs.readFile(path)) : null;
+      if (!existing) {
+        await this.fs.writeFile(path, "");
       }
-      case ">":
-      case ">>": {
-        // Output to object (only Buffer supported)
-        if (!Buffer.isBuffer(obj)) {
-          throw new Error("Output redirection only supports Buffer targets");
-        }
-        const collector = createBufferTargetCollector(obj);
-        return { stdin, stdout: collector, stderr };
-      }
-      case "2>":
-      case "2>>": {
-        // Stderr to object (only Buffer supported)
-        if (!Buffer.isBuffer(obj)) {
-          throw new Error("Stderr redirection only supports Buffer targets");
+      entry.input = inputOf(existing ?? new Uint8Array());
+      const fileWritePromise = (async () => {
+        const data = await collector.collect();
+        if (data.length > 0) {
+          const rest = existing ? existing.subarray(data.length) : new Uint8Array();
+          await this.fs.writeFile(path, Buffer.concat([data, rest]));
         }
-        const collector = createBufferTargetCollector(obj);
-        return { stdin, stdout, stderr: collector };
-      }
-      case "&>":
-      case "&>>": {
-        // Both to object (only Buffer supported)
-        if (!Buffer.isBuffer(obj)) {
-          throw new Error("Combined redirection only supports Buffer targets");
-        }
-        const collector = createBufferTargetCollector(obj);
-        return { stdin, stdout: collector, stderr: collector };
+      })();
+      return { target, collector, fileWritePromise };
+    }
+
+    const append = op === ">>" || op === "&>>";
+    const fileWritePromise = (async () => {
+      const data = await collector.collect();
+      if (append) {
+        await this.fs.appendFile(path, data);
+      } else {
+        await this.fs.writeFile(path, data);
       }
-      default:
-        return { stdin, stdout, stderr };
+    })();
+    return { target, collector, fileWritePromise };
+  }
+
+  private async handleObjectRedirect(
+    redirect: Redirect,
+    target: string,
+    obj: RedirectObject,
+    fds: Map<number, OpenFileDescriptor>
+  ): Promise<{ target: string; collector?: OutputCollector; fileWritePromise?: Promise<void> }> {
+    if (redirect.op === "<") {
+      // Input from object
+      fds.set(redirect.fd, { input: this.readFromObject(obj) });
+      return { target };
+    }
+
+    // Output to object: a Buffer is filled in place, and other sinks are written as output arrives
+    const append = redirect.op === ">>" || redirect.op === "&>>";
+    const collector = Buffer.isBuffer(obj) ? createBufferTargetCollector(obj) : createSinkCollector(this.openSink(obj, append));
+    const entry: OpenFileDescriptor = { output: collector };
+    fds.set(redirect.fd, entry);
+    if (redirect.op === "&>" || redirect.op === "&>>") {
+      fds.set(2, entry);
+    }
+    if (Buffer.isBuffer(obj)) {
+      return { target, collector };
     }
+    // Ending the sink, such as closing a WritableStream, can fail like a file write
+    return { target, collector, fileWritePromise: collector.collect().then(() => {}) };
   }
 
-  private async readFromObject(obj: Buffer | Blob | Response | string): Promise<Uint8Array> {
+  private readFromObject(obj: RedirectObject): AsyncIterable<Uint8Array> {
     if (Buffer.isBuffer(obj)) {
-      return new Uint8Array(obj);
+      return inputOf(new Uint8Array(obj));
+    }
+    if (typeof obj === "string") {
+      return inputOf(new TextEncoder().encode(obj));
+    }
+    if (Array.isArray(obj)) {
+      return inputOf(new TextEncoder().encode(obj.map((line) => `${line}\n`).join("")));
     }
     if (obj instanceof Blob) {
-      return new Uint8Array(await obj.arrayBuffer());
+      return inputOfIterable(obj.stream());
     }
     if (obj instanceof Response) {
-      return new Uint8Array(await obj.arrayBuffer());
+      return obj.body ? inputOfIterable(obj.body) : inputOf(new Uint8Array());
     }
-    if (typeof obj === "string") {
-      return new TextEncoder().encode(obj);
+    if (obj instanceof ReadableStream || isAsyncIterable(obj)) {
+      return inputOfIterable(obj);
+    }
+    throw new Error("Input redirection does not support functions or WritableStream sources");
+  }
+
+  // Where `>` or `>>` into an array, callback or WritableStream writes
+  private openSink(obj: RedirectObject, append: boolean): OutputSink {
+    if (Array.isArray(obj)) {
+      // Complete lines are pushed as they are written, and a last unterminated one when the redirect ends
+      const decoder = new TextDecoder();
+      let partial = "";
+      if (!append) {
+        obj.length = 0;
+      }
+      return {
+        write: (chunk) => {
+          const lines = (partial + decoder.decode(chunk, { stream: true })).split("\n");
+          partial = lines.pop()!;
+          obj.push(...lines);
+        },
+        end: () => {
+          partial += decoder.decode();
+          if (partial !== "") {
+            obj.push(partial);
+          }
+        },
+      };
+    }
+    if (typeof obj === "function") {
+      return { write: (chunk) => obj(chunk) };
+    }
+    if (obj instanceof WritableStream) {
+      // `>` closes the stream when the redirect ends; `>>` leaves it open for later writes
+      const writer = obj.getWriter();
+      return {
+        write: (chunk) => writer.write(chunk),
+        end: () => (append ? writer.releaseLock() : writer.close()),
+      };
     }
-    throw new Error("Unsupported redirect object type");
+    throw new Error("Output redirection only supports Buffer, array, function and WritableStream targets");
   }
 
   private async executePipeline(
@@ -957,6 +2171,7 @@ export class Interpreter {
     stderr: OutputCollector
   ): Promise<number> {
     if (commands.length === 0) return 0;
+    this.usage.checkPipeline(commands.length);
     if (commands.length === 1) {
       return this.executeNode(commands[0]!, stdinSource, stdout, stderr);
     }
@@ -964,11 +2179,14 @@ export class Interpreter {
     // Create pipes between commands
     const pipes: PipeBuffer[] = [];
     for (let i = 0; i < commands.length - 1; i++) {
-      pipes.push(createPipe());
+      pipes.push(createPipe(this.pipeOptions));
     }
 
     // Execute all commands concurrently
     const promises: Promise<number>[] = [];
+    const stages = commands.map((command) => this.startStage(command));
+    const finished: PipelineStage[] = [];
+    this.pipelineDepth++;
 
     for (let i = 0; i < commands.length; i++) {
       const command = commands[i]!;
@@ -976,19 +2194,42 @@ export class Interpreter {
       const cmdStdout = i === commands.length - 1 ? stdout : pipes[i]!;
 
       promises.push(
-        this.executeNode(command, cmdStdin, cmdStdout, stderr).then((code) => {
-          // Close pipe when command finishes
-          if (i < commands.length - 1) {
-            pipes[i]!.close();
+        (async () => {
+          try {
+            // Each stage runs in a subshell, so stages running at once keep their own
+            // positional parameters, locals and variables
+            return await this.createSubshell(this.activeSignal).executeSubshellBody(command, cmdStdin, cmdStdout, stderr, stages[i]);
+          } catch (err) {
+            if (err instanceof BrokenPipeError) {
+              return BROKEN_PIPE_EXIT_CODE;
+            }
+            throw err;
+          } finally {
+            // Close the stage's output, and its input so writers still feeding it stop
+            if (i < commands.length - 1) {
+              pipes[i]!.close();
+            }
+            if (i > 0) {
+              pipes[i - 1]!.closeReadEnd();
+            }
           }
+        })().then((code) => {
+          finished[i] = this.finishStage(stages[i]!, code);
           return code;
         })
       );
     }
 
-    // Wait for all commands and return last exit code
-    const results = await Promise.all(promises);
-    return results[results.length - 1]!;
+    // Wait for all commands and return last exit code, or with pipefail the last failing one
+    const results = await Promise.all(promises).finally(() => this.pipelineDepth--);
+    const deciding = this.shellOptions.pipefail ? results.findLastIndex((code) => code !== 0) : -1;
+    const stage = deciding === -1 ? results.length - 1 : deciding;
+    // Stages run concurrently, so the one the status came from is recorded once they all finish
+    if (this.pipelineDepth === 0) {
+      this.recordStatusNode(commands[stage]!);
+      this.setLastPipeline(finished);
+    }
+    return results[stage]!;
   }
 
   private async executeSequence(
@@ -1013,7 +2254,7 @@ export class Interpreter {
     stdout: OutputCollector,
     stderr: OutputCollector
   ): Promise<number> {
-    const leftCode = await this.executeNode(left, stdinSource, stdout, stderr);
+    const leftCode = await this.executeCondition(left, stdinSource, stdout, stderr);
     if (leftCode !== 0) {
       return leftCode;
     }
@@ -1027,7 +2268,7 @@ export class Interpreter {
     stdout: OutputCollector,
     stderr: OutputCollector
   ): Promise<number> {
-    const leftCode = await this.executeNode(left, stdinSource, stdout, stderr);
+    const leftCode = await this.executeCondition(left, stdinSource, stdout, stderr);
     if (leftCode === 0) {
       return 0;
     }
@@ -1041,7 +2282,7 @@ export class Interpreter {
     stderr: OutputCollector
   ): Promise<number> {
     // Execute condition
-    const conditionCode = await this.executeNode(node.condition, stdinSource, stdout, stderr);
+    const conditionCode = await this.executeCondition(node.condition, stdinSource, stdout, stderr);
 
     if (conditionCode === 0) {
       // Condition succeeded, execute then branch
@@ -1050,7 +2291,7 @@ export class Interpreter {
 
     // Check elif branches
     for (const elif of node.elifBranches) {
-      const elifConditionCode = await this.executeNode(elif.condition, stdinSource, stdout, stderr);
+      const elifConditionCode = await this.executeCondition(elif.condition, stdinSource, stdout, stderr);
       if (elifConditionCode === 0) {
         return this.executeNode(elif.body, stdinSource, stdout, stderr);
       }
@@ -1085,8 +2326,58 @@ export class Interpreter {
 
     try {
       for (const value of expandedItems) {
+        this.usage.countIteration();
         // Set the loop variable
-        this.env[node.variable] = value;
+        this.assignVariable(node.variable, value);
+
+        try {
+          lastExitCode = await this.executeNode(node.body, stdinSource, stdout, stderr);
+        } catch (e) {
+          if (e instanceof ContinueException) {
+            if (e.levels > 1) {
+              e.levels--;
+              throw e;
+            }
+            continue;
+          }
+          if (e instanceof BreakException) {
+            if (e.levels > 1) {
+              e.levels--;
+              throw e;
+            }
+            break;
+          }
+          throw e;
+        }
+      }
+    } finally {
+      this.loopDepth--;
+    }
+
+    return lastExitCode;
+  }
+
+  private async executeArithmeticCommand(node: ArithmeticCommandNode, stderr: OutputCollector): Promise<number> {
+    await this.writeTrace(["((", node.expression.trim(), "))"], this.env, stderr);
+    return this.evaluateArithmetic(node.expression, this.env) === 0n ? 1 : 0;
+  }
+
+  private async executeArithmeticFor(
+    node: ArithmeticForNode,
+    stdinSource: AsyncIterable<Uint8Array> | null,
+    stdout: OutputCollector,
+    stderr: OutputCollector
+  ): Promise<number> {
+    let lastExitCode = 0;
+    this.loopDepth++;
+
+    try {
+      this.evaluateArithmetic(node.init, this.env);
+      for (; ; this.evaluateArithmetic(node.update, this.env)) {
+        if (node.test.trim() !== "" && this.evaluateArithmetic(node.test, this.env) === 0n) {
+          break;
+        }
+        this.usage.countIteration();
 
         try {
           lastExitCode = await this.executeNode(node.body, stdinSource, stdout, stderr);
@@ -1115,6 +2406,135 @@ export class Interpreter {
     return lastExitCode;
   }
 
+  private async executeConditionalCommand(node: ConditionalCommandNode, stderr: OutputCollector): Promise<number> {
+    const traceWords: string[] = [];
+    let exitCode: number;
+    try {
+      exitCode = (await this.evaluateConditional(node.expression, traceWords)) ? 0 : 1;
+    } catch (err) {
+      if (!(err instanceof InvalidRegexError)) {
+        throw err;
+      }
+      exitCode = 2;
+    }
+    await this.writeTrace(["[[", ...traceWords, "]]"], this.env, stderr);
+    return exitCode;
+  }
+
+  // Evaluate a `[[ ]]` expression; `traceWords` collects the expanded words for
+  // `set -x`, with patterns shown as written rather than quoted
+  private async evaluateConditional(expression: ConditionalExpression, traceWords: string[]): Promise<boolean> {
+    switch (expression.type) {
+      case "and":
+        return (
+          (await this.evaluateConditional(expression.left, traceWords)) &&
+          (await this.evaluateConditional(expression.right, traceWords))
+        );
+      case "or":
+        return (
+          (await this.evaluateConditional(expression.left, traceWords)) ||
+          (await this.evaluateConditional(expression.right, traceWords))
+        );
+      case "not":
+        traceWords.push("!");
+        return !(await this.evaluateConditional(expression.expression, traceWords));
+      case "string": {
+        const value = await this.expandWordScalar(expression.word, this.env);
+        traceWords.push(this.formatTraceWord(value));
+        return value !== "";
+      }
+      case "unary": {
+        const operand = await this.expandWordScalar(expression.operand, this.env);
+        traceWords.push(expression.operator, this.formatTraceWord(operand));
+        return this.evaluateUnaryTest(expression.operator, operand);
+      }
+      case "binary": {
+        const left = await this.expandWordScalar(expression.left, this.env);
+        const { operator } = expression;
+        if (operator === "==" || operator === "=" || operator === "!=") {
+          const pattern = await this.expandPatternWord(expression.right, this.env);
+          traceWords.push(this.formatTraceWord(left), operator, pattern);
+          // As in bash, `[[ ]]` patterns always understand extglob lists
+          return this.matchCasePattern(left, pattern, true) === (operator !== "!=");
+        }
+        if (operator === "=~") {
+          const source = await this.expandRegexWord(expression.right, this.env);
+          traceWords.push(this.formatTraceWord(left), operator, source);
+          return this.matchConditionalRegex(left, source);
+        }
+        const right = await this.expandWordScalar(expression.right, this.env);
+        traceWords.push(this.formatTraceWord(left), operator, this.formatTraceWord(right));
+        if (operator === "<") return left < right;
+        if (operator === ">") return left > right;
+        const a = this.evaluateArithmetic(left, this.env);
+        const b = this.evaluateArithmetic(right, this.env);
+        switch (operator) {
+          case "-eq":
+            return a === b;
+          case "-ne":
+            return a !== b;
+          case "-lt":
+            return a < b;
+          case "-le":
+            return a <= b;
+          case "-gt":
+            return a > b;
+          default:
+            return a >= b;
+        }
+      }
+    }
+  }
+
+  private async evaluateUnaryTest(operator: string, operand: string): Promise<boolean> {
+    if (operator === "-n") return operand !== "";
+    if (operator === "-z") return operand === "";
+    try {
+      const path = this.fs.resolve(this.cwd, operand);
+      switch (operator) {
+        case "-f":
+          return (await this.fs.stat(path)).isFile();
+        case "-d":
+          return (await this.fs.stat(path)).isDirectory();
+        case "-s":
+          return (await this.fs.stat(path)).size > 0;
+        default:
+          // -e, and -r, -w and -x, which any existing virtual file passes
+          return await this.fs.exists(path);
+      }
+    } catch {
+      return false;
+    }
+  }
+
+  // The source of an `=~` regex: quoted parts match literally
+  private async expandRegexWord(word: WordNode, env: Record<string, string>): Promise<string> {
+    let source = "";
+    for (const part of word.parts) {
+      const value = await this.expandWordPart(part, env);
+      source += part.quoted
+        ? value.replace(/[\\^$.*+?()[\]{}|\/]/g, "\\$&")
+        : value.replace(/\[:([a-z]+):\]/g, (match, name: string) => POSIX_CLASSES[name] ?? match);
+    }
+    return source;
+  }
+
+  // Match an `=~` regex, storing the match and its groups in BASH_REMATCH
+  private matchConditionalRegex(value: string, source: string): boolean {
+    let regex: RegExp;
+    try {
+      regex = new RegExp(source, "s");
+    } catch {
+      throw new InvalidRegexError(source);
+    }
+    const match = regex.exec(value);
+    this.setArray("BASH_REMATCH", {
+      associative: false,
+      entries: match ? match.map((group, index) => [String(index), group ?? ""]) : [],
+    });
+    return match !== null;
+  }
+
   private async executeWhile(
     node: WhileNode,
     stdinSource: AsyncIterable<Uint8Array> | null,
@@ -1127,10 +2547,11 @@ export class Interpreter {
     try {
       while (true) {
         // Check condition
-        const conditionCode = await this.executeNode(node.condition, stdinSource, stdout, stderr);
+        const conditionCode = await this.executeCondition(node.condition, stdinSource, stdout, stderr);
         if (conditionCode !== 0) {
           break;
         }
+        this.usage.countIteration();
 
         try {
           lastExitCode = await this.executeNode(node.body, stdinSource, stdout, stderr);
@@ -1171,36 +2592,167 @@ export class Interpreter {
     try {
       while (true) {
         // Check condition - loop until condition succeeds
-        const conditionCode = await this.executeNode(node.condition, stdinSource, stdout, stderr);
+        const conditionCode = await this.executeCondition(node.condition, stdinSource, stdout, stderr);
         if (conditionCode === 0) {
           break;
         }
+        this.usage.countIteration();
+
+        try {
+          lastExitCode = await this.executeNode(node.body, stdinSource, stdout, stderr);
+        } catch (e) {
+          if (e instanceof ContinueException) {
+            if (e.levels > 1) {
+              e.levels--;
+              throw e;
+            }
+            continue;
+          }
+          if (e instanceof BreakException) {
+            if (e.levels > 1) {
+              e.levels--;
+              throw e;
+            }
+            break;
+          }
+          throw e;
+        }
+      }
+    } finally {
+      this.loopDepth--;
+    }
+
+    return lastExitCode;
+  }
+
+  private async executeSubshell(
+    node: SubshellNode,
+    stdinSource: AsyncIterable<Uint8Array> | null,
+    stdout: OutputCollector,
+    stderr: OutputCollector
+  ): Promise<number> {
+    return this.executeWithRedirects(node.redirects, stdinSource, stdout, stderr, (subStdin, subStdout, subStderr) =>
+      this.createSubshell(this.activeSignal).executeSubshellBody(node.body, subStdin, subStdout, subStderr)
+    );
+  }
+
+  private executeBackground(node: BackgroundNode, stdout: OutputCollector, stderr: OutputCollector): number {
+    // In a session, output written after the job's run has finished goes to later runs
+    const late = (fd: 1 | 2) => (this.jobControl ? (chunk: Uint8Array) => this.writeLateJobOutput(fd, chunk) : undefined);
+    const jobStdout = new JobOutput(stdout, late(1));
+    const jobStderr = new JobOutput(stderr, late(2));
+    const job = this.jobs.start(
+      node.command,
+      async (signal) => {
+        try {
+          return await this.createSubshell(signal).executeSubshellBody(node.body, null, jobStdout, jobStderr);
+        } catch (err) {
+          if (!signal.aborted) {
+            await jobStderr.writeText(`sh: ${err instanceof Error ? err.message : String(err)}\n`);
+          }
+          throw err;
+        }
+      },
+      this.jobControl ? undefined : this.activeSignal
+    );
+    this.lastBackgroundPid = job.pid;
+    return 0;
+  }
+
+  private createSubshell(signal: AbortSignal, traceDepth = this.traceDepth): Interpreter {
+    // Like ./script execution, cwd/env/function changes stay inside the subshell
+    return new Interpreter({
+      fs: this.fs,
+      cwd: this.cwd,
+      env: { ...this.env },
+      commands: this.commands,
+      redirectObjects: this.redirectObjects,
+      terminal: this.terminal,
+      externalCommand: this.externalCommand,
+      scriptPath: this.scriptPath,
+      signal,
+      argv0: this.argv0,
+      positionalParameters: this.positionalParameters,
+      lastExitCode: this.lastExitCode,
+      functions: this.functions,
+      aliases: this.aliases,
+      shellOptions: this.shellOptions,
+      shoptOptions: this.shoptOptions,
+      errexitExempt: this.errexitExemptDepth > 0,
+      exportedVariables: this.exportedNames,
+      readonlyVariables: this.readonlyNames,
+      arrays: this.arrays,
+      fileDescriptors: this.getInheritedDescriptors(),
+      processSubstitutions: this.processSubstitutions,
+      pipes: this.pipeOptions,
+      usage: this.usage,
+      traceDepth,
+    });
+  }
+
+  // Run a command in a subshell that also stops when `options.signal` aborts, as `timeout` does
+  private async invokeCommandInSubshell(
+    name: string,
+    args: string[],
+    options: RunCommandOptions,
+    stdinSource: AsyncIterable<Uint8Array> | null,
+    stdout: OutputCollector,
+    stderr: OutputCollector,
+    env: Record<string, string>
+  ): Promise<number> {
+    const signal = options.signal ? AbortSignal.any([this.activeSignal, options.signal]) : this.activeSignal;
+    const subshell = this.createSubshell(signal);
+    const [input, output, errors] = subshell.openRootFrame(stdinSource, stdout, stderr);
+    try {
+      return options.functions === false
+        ? await subshell.invokeNonFunction(name, args, input, output, errors, env)
+        : await subshell.invokeCommand(name, args, input, output, errors, env);
+    } catch (err) {
+      if (!(err instanceof ExitException)) {
+        throw err;
+      }
+      return err.exitCode;
+    } finally {
+      await subshell.jobs.settle();
+      await subshell.closeHeldOutputs(stderr);
+    }
+  }
 
-        try {
-          lastExitCode = await this.executeNode(node.body, stdinSource, stdout, stderr);
-        } catch (e) {
-          if (e instanceof ContinueException) {
-            if (e.levels > 1) {
-              e.levels--;
-              throw e;
-            }
-            continue;
-          }
-          if (e instanceof BreakException) {
-            if (e.levels > 1) {
-              e.levels--;
-              throw e;
-            }
-            break;
-          }
-          throw e;
+  private async executeSubshellBody(
+    body: ASTNode,
+    stdinSource: AsyncIterable<Uint8Array> | null,
+    stdout: OutputCollector,
+    stderr: OutputCollector,
+    stage?: RunningStage
+  ): Promise<number> {
+    const [input, output, errors] = this.openRootFrame(stdinSource, stdout, stderr);
+    try {
+      let exitCode: number;
+      try {
+        // A pipeline stage's failure is checked by `set -e` once the whole pipeline ends
+        exitCode = await this.executeNode(body, input, output, errors, stage === undefined, stage);
+      } catch (err) {
+        if (!(err instanceof ExitException)) {
+          throw err;
         }
+        exitCode = err.exitCode;
       }
+      return await this.runExitTrap(exitCode, input, output, errors);
     } finally {
-      this.loopDepth--;
+      await this.jobs.settle();
+      await this.closeHeldOutputs(stderr);
     }
+  }
 
-    return lastExitCode;
+  private async executeGroup(
+    node: GroupNode,
+    stdinSource: AsyncIterable<Uint8Array> | null,
+    stdout: OutputCollector,
+    stderr: OutputCollector
+  ): Promise<number> {
+    return this.executeWithRedirects(node.redirects, stdinSource, stdout, stderr, (groupStdin, groupStdout, groupStderr) =>
+      this.executeNode(node.body, groupStdin, groupStdout, groupStderr)
+    );
   }
 
   private async executeCase(
@@ -1224,40 +2776,9 @@ export class Interpreter {
     return 0;
   }
 
-  private matchCasePattern(word: string, pattern: string): boolean {
-    // Convert shell glob pattern to regex
-    // * matches any string, ? matches any single character
-    let regexStr = "^";
-    for (let i = 0; i < pattern.length; i++) {
-      const char = pattern[i];
-      if (char === "*") {
-        regexStr += ".*";
-      } else if (char === "?") {
-        regexStr += ".";
-      } else if (char === "[") {
-        // Character class - find closing bracket
-        let j = i + 1;
-        while (j < pattern.length && pattern[j] !== "]") {
-          j++;
-        }
-        if (j < pattern.length) {
-          regexStr += pattern.slice(i, j + 1);
-          i = j;
-        } else {
-          regexStr += "\\[";
-        }
-      } else if (/[.+^${}()|\\]/.test(char!)) {
-        // Escape regex special characters
-        regexStr += "\\" + char;
-      } else {
-        regexStr += char;
-      }
-    }
-    regexStr += "$";
-
+  private matchCasePattern(word: string, pattern: string, extglob: boolean = this.shoptOptions.extglob): boolean {
     try {
-      const regex = new RegExp(regexStr);
-      return regex.test(word);
+      return new RegExp(`^(?:${globToRegExpSource(pattern, extglob)})$`, "s").test(word);
     } catch {
       // If regex fails, fall back to exact match
       return word === pattern;
@@ -1273,14 +2794,42 @@ export class Interpreter {
   }
 
   private async expandWordForCommand(word: WordNode, env: Record<string, string>): Promise<string[]> {
-    const fields = await this.expandWordFields(word, env);
     const expanded: string[] = [];
-    for (const field of fields) {
-      expanded.push(...(await this.expandPathname(field)));
+    for (const braceWord of this.expandWordBraces(word)) {
+      for (const field of await this.expandWordFields(braceWord, env)) {
+        expanded.push(...(await this.expandPathname(field)));
+      }
     }
     return expanded;
   }
 
+  /**
+   * Brace expansion, the first expansion: `{a,b}` and `{1..3}` in unquoted
+   * text become separate words before any parameter is expanded.
+   */
+  private expandWordBraces(word: WordNode): WordNode[] {
+    if (!word.parts.some((part) => part.type === "text" && !part.quoted && part.value.includes("{"))) {
+      return [word];
+    }
+    const items = word.parts.flatMap((part): Array<string | WordPart> =>
+      part.type === "text" && !part.quoted ? [...part.value] : [part]
+    );
+    return expandBraces(items).map((expanded) => {
+      const parts: WordPart[] = [];
+      for (const item of expanded) {
+        const last = parts[parts.length - 1];
+        if (typeof item !== "string") {
+          parts.push(item);
+        } else if (last?.type === "text" && !last.quoted) {
+          last.value += item;
+        } else {
+          parts.push({ type: "text", value: item, quoted: false });
+        }
+      }
+      return { type: "word", parts };
+    });
+  }
+
   private async expandWordScalar(word: WordNode, env: Record<string, string>): Promise<string> {
     let result = "";
     for (const part of word.parts) {
@@ -1292,34 +2841,83 @@ export class Interpreter {
   private async expandWordFields(word: WordNode, env: Record<string, string>): Promise<ExpandedField[]> {
     const fields: ExpandedField[] = [this.createExpandedField()];
     const ifs = this.getIFS(env);
+    const pending = [...word.parts];
+    // Unquoted text spliced in from a ${NAME:-word} operand is split like an expansion
+    const splitText = new Set<WordPart>();
+    let fieldBreak = false;
+
+    const currentField = () => {
+      if (fieldBreak) {
+        fields.push(this.createExpandedField());
+        fieldBreak = false;
+      }
+      return fields[fields.length - 1]!;
+    };
 
-    for (const part of word.parts) {
-      if (part.type === "text") {
-        this.appendSegment(fields[fields.length - 1]!, part.value, part.quoted);
+    while (pending.length > 0) {
+      const part = pending.shift()!;
+
+      if (part.type === "text" && (part.quoted || !splitText.has(part))) {
+        this.appendSegment(currentField(), part.value, part.quoted);
         continue;
       }
 
       if (part.type === "variable" && part.name === "@" && part.quoted) {
-        this.appendQuotedPositionalParameters(fields);
+        currentField();
+        this.appendQuotedFields(fields, this.positionalParameters);
+        continue;
+      }
+
+      if (part.type === "parameterExpansion" && part.name === "@" && part.operator === ":" && part.quoted) {
+        const values = await this.slicePositionalParameters(part, env);
+        currentField();
+        this.appendQuotedFields(fields, values);
         continue;
       }
 
+      // Quoted `${name[@]}` expands to one field per element, like "$@"
+      if ((part.type === "variable" || part.type === "parameterExpansion") && part.quoted && this.getAllElementsSubscript(part.index) === "@") {
+        const values = await this.expandArrayElements(part, env);
+        if (values) {
+          currentField();
+          this.appendQuotedFields(fields, values);
+          continue;
+        }
+      }
+
+      if (part.type === "parameterExpansion" && !part.quoted) {
+        const alternate = await this.selectAlternateWord(part, env);
+        if (alternate) {
+          for (const alternatePart of alternate.parts) {
+            if (alternatePart.type === "text" && !alternatePart.quoted) {
+              splitText.add(alternatePart);
+            }
+          }
+          pending.unshift(...alternate.parts);
+          continue;
+        }
+      }
+
       const value = await this.expandWordPart(part, env);
       if (part.quoted) {
-        this.appendSegment(fields[fields.length - 1]!, value, true);
+        this.appendSegment(currentField(), value, true);
         continue;
       }
 
       const splitFields = this.splitUnquotedExpansion(value, ifs);
-      if (splitFields.length === 0) {
-        continue;
+      if (splitFields.length > 0) {
+        if (this.isIfsWhitespace(value[0]!, ifs)) {
+          fieldBreak = true;
+        }
+        this.appendSegment(currentField(), splitFields[0]!, false);
+        for (let i = 1; i < splitFields.length; i++) {
+          const field = this.createExpandedField();
+          this.appendSegment(field, splitFields[i]!, false);
+          fields.push(field);
+        }
       }
-
-      this.appendSegment(fields[fields.length - 1]!, splitFields[0]!, false);
-      for (let i = 1; i < splitFields.length; i++) {
-        const field = this.createExpandedField();
-        this.appendSegment(field, splitFields[i]!, false);
-        fields.push(field);
+      if (value.length > 0 && this.isIfsWhitespace(value[value.length - 1]!, ifs)) {
+        fieldBreak = true;
       }
     }
 
@@ -1330,18 +2928,37 @@ export class Interpreter {
     switch (part.type) {
       case "text":
         return part.value;
-      case "variable":
-        return this.getVariableValue(part.name, env);
+      case "variable": {
+        const key = part.index ? await this.resolveSubscript(part.name, part.index, env) : undefined;
+        this.assertParameterSet(part.name, env, key);
+        return this.getVariableValue(part.name, env, key);
+      }
+      case "parameterExpansion":
+        return this.expandParameter(part, env);
       case "substitution":
         return this.executeSubstitution(part.command, env);
+      case "processSubstitution":
+        return this.startProcessSubstitution(part);
       case "arithmetic":
         return String(this.evaluateArithmetic(part.expression, env));
+      case "tilde": {
+        // An unset HOME or OLDPWD leaves the tilde as written
+        const directory = part.prefix === "+" ? this.cwd : env[part.prefix === "-" ? "OLDPWD" : "HOME"];
+        return directory ?? `~${part.prefix}`;
+      }
       default:
         throw new Error("Cannot expand unknown word part");
     }
   }
 
-  private getVariableValue(name: string, env: Record<string, string>): string {
+  // With a key, the value of `${name[key]}`; `@` and `*` join every element
+  private getVariableValue(name: string, env: Record<string, string>, key?: string): string {
+    if (key !== undefined) {
+      if (key === "@" || key === "*") {
+        return this.getArrayValues(name).join(key === "*" ? this.getIFS(env).slice(0, 1) : " ");
+      }
+      return this.getArrayElement(name, key) ?? "";
+    }
     if (name === "0") {
       return this.argv0;
     }
@@ -1351,24 +2968,301 @@ export class Interpreter {
     if (name === "?") {
       return String(this.lastExitCode);
     }
+    if (name === "!") {
+      return this.lastBackgroundPid === null ? "" : String(this.lastBackgroundPid);
+    }
+    if (name === "-") {
+      return SHELL_OPTION_FLAGS.filter(([, option]) => this.shellOptions[option])
+        .map(([flag]) => flag)
+        .join("");
+    }
     if (name === "*" || name === "@") {
       return this.positionalParameters.join(" ");
     }
-    if (/^[1-9]$/.test(name)) {
+    if (/^[1-9][0-9]*$/.test(name)) {
       return this.positionalParameters[Number(name) - 1] ?? "";
     }
-    return env[name] ?? "";
+    return env[name] ?? this.arrays.get(name)?.values.get("0") ?? "";
+  }
+
+  private isParameterSet(name: string, env: Record<string, string>, key?: string): boolean {
+    if (key !== undefined) {
+      return key === "@" || key === "*" ? this.getArrayKeys(name).length > 0 : this.getArrayElement(name, key) !== undefined;
+    }
+    if (name === "*" || name === "@") {
+      return this.positionalParameters.length > 0;
+    }
+    if (/^[1-9][0-9]*$/.test(name)) {
+      return Number(name) <= this.positionalParameters.length;
+    }
+    if (name === "!") {
+      return this.lastBackgroundPid !== null;
+    }
+    return (
+      name === "0" ||
+      name === "#" ||
+      name === "?" ||
+      name === "-" ||
+      env[name] !== undefined ||
+      this.arrays.get(name)?.values.has("0") === true
+    );
+  }
+
+  // With `set -u`, expanding an unset parameter (other than `$@`/`$*` and `${name[@]}`) is an error
+  private assertParameterSet(name: string, env: Record<string, string>, key?: string): void {
+    if (key === "@" || key === "*") {
+      return;
+    }
+    if (this.shellOptions.nounset && name !== "@" && name !== "*" && !this.isParameterSet(name, env, key)) {
+      throw new ExpansionError(`${key === undefined ? name : `${name}[${key}]`}: unbound variable`);
+    }
+  }
+
+  // `@` or `*` when a subscript selects every element of an array
+  private getAllElementsSubscript(index: WordNode | undefined): "@" | "*" | null {
+    const part = index?.parts.length === 1 ? index.parts[0] : undefined;
+    if (part?.type === "text" && !part.quoted && (part.value === "@" || part.value === "*")) {
+      return part.value;
+    }
+    return null;
+  }
+
+  /**
+   * Expand `${name[@]}` or `${name[*]}` element by element, applying pattern
+   * and substring operators to each. Returns null for operators that apply to
+   * the expansion as a whole.
+   */
+  private async expandArrayElements(
+    part: VariablePart | ParameterExpansionPart,
+    env: Record<string, string>
+  ): Promise<string[] | null> {
+    const values = this.getArrayValues(part.name);
+    if (part.type === "variable") {
+      return values;
+    }
+
+    const { operator } = part;
+    switch (operator) {
+      case "keys":
+        return this.getArrayKeys(part.name);
+      case ":": {
+        const { start, end } = await this.resolveSubstringRange(part, values.length, env);
+        return values.slice(start, end);
+      }
+      case "#":
+      case "##":
+      case "%":
+      case "%%": {
+        const pattern = await this.expandPatternWord(part.operand, env);
+        return values.map((value) => this.removeParameterPattern(value, pattern, operator));
+      }
+      case "/":
+      case "//":
+      case "/#":
+      case "/%": {
+        const pattern = await this.expandPatternWord(part.operand, env);
+        const replacement = part.replacement ? await this.expandWordScalar(part.replacement, env) : "";
+        return values.map((value) => this.replaceParameterPattern(value, pattern, replacement, operator));
+      }
+      default:
+        return null;
+    }
+  }
+
+  private async expandParameter(part: ParameterExpansionPart, env: Record<string, string>): Promise<string> {
+    const { name, operator } = part;
+    const key = part.index ? await this.resolveSubscript(name, part.index, env) : undefined;
+    if (key === "@" || key === "*") {
+      const values = await this.expandArrayElements(part, env);
+      if (values) {
+        return values.join(key === "*" ? this.getIFS(env).slice(0, 1) : " ");
+      }
+    }
+    const value = this.getVariableValue(name, env, key);
+    if (!/^:?[-=?+]$/.test(operator)) {
+      this.assertParameterSet(name, env, key);
+    }
+
+    switch (operator) {
+      case "length":
+        if (key === "@" || key === "*") {
+          return String(this.getArrayKeys(name).length);
+        }
+        return String(name === "*" || name === "@" ? this.positionalParameters.length : [...value].length);
+      case "keys":
+        return this.getArrayKeys(name).join(" ");
+      case ":-":
+      case "-":
+      case ":+":
+      case "+": {
+        const alternate = await this.selectAlternateWord(part, env);
+        return alternate ? this.expandWordScalar(alternate, env) : operator.endsWith("+") ? "" : value;
+      }
+      case ":=":
+      case "=": {
+        if (this.isParameterSet(name, env, key) && (operator === "=" || value !== "")) {
+          return value;
+        }
+        if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(name) || key === "@" || key === "*") {
+          throw new ExpansionError(`$${name}: cannot assign in this way`);
+        }
+        const assigned = part.operand ? await this.expandWordScalar(part.operand, env) : "";
+        if (key !== undefined) {
+          this.setArrayElement(name, key, assigned);
+          return assigned;
+        }
+        this.assignVariable(name, assigned);
+        env[name] = assigned;
+        return assigned;
+      }
+      case ":?":
+      case "?": {
+        if (this.isParameterSet(name, env, key) && (operator === "?" || value !== "")) {
+          return value;
+        }
+        const message = part.operand ? await this.expandWordScalar(part.operand, env) : "";
+        throw new ExpansionError(
+          `${name}: ${message || (operator === ":?" ? "parameter null or not set" : "parameter not set")}`
+        );
+      }
+      case "#":
+      case "##":
+      case "%":
+      case "%%":
+        return this.removeParameterPattern(value, await this.expandPatternWord(part.operand, env), operator);
+      case "/":
+      case "//":
+      case "/#":
+      case "/%": {
+        const pattern = await this.expandPatternWord(part.operand, env);
+        const replacement = part.replacement ? await this.expandWordScalar(part.replacement, env) : "";
+        return this.replaceParameterPattern(value, pattern, replacement, operator);
+      }
+      case ":": {
+        if (name === "*" || name === "@") {
+          return (await this.slicePositionalParameters(part, env)).join(" ");
+        }
+        const chars = [...value];
+        const { start, end } = await this.resolveSubstringRange(part, chars.length, env);
+        return chars.slice(start, end).join("");
+      }
+    }
+  }
+
+  /**
+   * For `${NAME-word}` and `${NAME+word}` (and their `:` forms), return the
+   * operand word when it replaces the parameter's value, or null otherwise.
+   */
+  private async selectAlternateWord(part: ParameterExpansionPart, env: Record<string, string>): Promise<WordNode | null> {
+    const { name, operator } = part;
+    if (operator !== ":-" && operator !== "-" && operator !== ":+" && operator !== "+") {
+      return null;
+    }
+    const key = part.index ? await this.resolveSubscript(name, part.index, env) : undefined;
+    const isSet =
+      this.isParameterSet(name, env, key) && (!operator.startsWith(":") || this.getVariableValue(name, env, key) !== "");
+    const useOperand = operator.endsWith("+") ? isSet : !isSet;
+    return useOperand ? (part.operand ?? { type: "word", parts: [] }) : null;
+  }
+
+  private async expandPatternWord(word: WordNode | undefined, env: Record<string, string>): Promise<string> {
+    let pattern = "";
+    for (const part of word?.parts ?? []) {
+      const value = await this.expandWordPart(part, env);
+      pattern += part.quoted ? this.escapePatternChars(value) : value;
+    }
+    return pattern;
+  }
+
+  // Backslash-quote the characters that mean something in a pattern, so that
+  // quoted text, such as `\*` in `${x/\*/-}`, matches itself even in a class
+  private escapePatternChars(value: string): string {
+    return value.replace(/[\\[\]*?()|]/g, "\\$&");
+  }
+
+  private removeParameterPattern(value: string, pattern: string, operator: "#" | "##" | "%" | "%%"): string {
+    const regex = new RegExp(`^(?:${globToRegExpSource(pattern, this.shoptOptions.extglob)})$`, "s");
+    const length = value.length;
+
+    if (operator === "#" || operator === "##") {
+      for (let i = 0; i <= length; i++) {
+        const end = operator === "#" ? i : length - i;
+        if (regex.test(value.slice(0, end))) {
+          return value.slice(end);
+        }
+      }
+    } else {
+      for (let i = 0; i <= length; i++) {
+        const start = operator === "%" ? length - i : i;
+        if (regex.test(value.slice(start))) {
+          return value.slice(0, start);
+        }
+      }
+    }
+
+    return value;
+  }
+
+  private replaceParameterPattern(
+    value: string,
+    pattern: string,
+    replacement: string,
+    operator: "/" | "//" | "/#" | "/%"
+  ): string {
+    if (pattern === "") {
+      return value;
+    }
+    const source = globToRegExpSource(pattern, this.shoptOptions.extglob);
+    if (operator === "/#") {
+      return value.replace(new RegExp(`^(?:${source})`, "s"), () => replacement);
+    }
+    if (operator === "/%") {
+      return value.replace(new RegExp(`(?:${source})$`, "s"), () => replacement);
+    }
+    return value.replace(
+      new RegExp(source, operator === "//" ? "gs" : "s"),
+      (match) => (match === "" ? "" : replacement)
+    );
+  }
+
+  private async resolveSubstringRange(
+    part: ParameterExpansionPart,
+    length: number,
+    env: Record<string, string>
+  ): Promise<{ start: number; end: number }> {
+    const offset = Number(this.evaluateArithmetic(part.operand ? await this.expandWordScalar(part.operand, env) : "0", env));
+    const start = offset < 0 ? length + offset : offset;
+    if (start < 0 || start > length) {
+      return { start: 0, end: 0 };
+    }
+    if (!part.replacement) {
+      return { start, end: length };
+    }
+
+    const count = Number(this.evaluateArithmetic(await this.expandWordScalar(part.replacement, env), env));
+    const end = count < 0 ? length + count : start + count;
+    if (end < start) {
+      throw new ExpansionError(`${count}: substring expression < 0`);
+    }
+    return { start, end: Math.min(end, length) };
+  }
+
+  private async slicePositionalParameters(part: ParameterExpansionPart, env: Record<string, string>): Promise<string[]> {
+    // Offsets count from $0, so ${@:1} is every positional parameter
+    const values = [this.argv0, ...this.positionalParameters];
+    const { start, end } = await this.resolveSubstringRange(part, values.length, env);
+    return values.slice(start, end);
   }
 
-  private appendQuotedPositionalParameters(fields: ExpandedField[]): void {
-    if (this.positionalParameters.length === 0) {
+  private appendQuotedFields(fields: ExpandedField[], values: string[]): void {
+    if (values.length === 0) {
       return;
     }
 
-    this.appendSegment(fields[fields.length - 1]!, this.positionalParameters[0]!, true);
-    for (let i = 1; i < this.positionalParameters.length; i++) {
+    this.appendSegment(fields[fields.length - 1]!, values[0]!, true);
+    for (let i = 1; i < values.length; i++) {
       const field = this.createExpandedField();
-      this.appendSegment(field, this.positionalParameters[i]!, true);
+      this.appendSegment(field, values[i]!, true);
       fields.push(field);
     }
   }
@@ -1382,19 +3276,82 @@ export class Interpreter {
       redirectObjects: this.redirectObjects,
       isTTY: false,
       externalCommand: this.externalCommand,
+      scriptPath: this.scriptPath,
       signal: this.activeSignal,
       argv0: this.argv0,
       positionalParameters: this.positionalParameters,
       lastExitCode: this.lastExitCode,
+      functions: this.functions,
+      aliases: this.aliases,
+      shellOptions: this.shellOptions,
+      shoptOptions: this.shoptOptions,
+      errexitExempt: this.errexitExemptDepth > 0,
+      exportedVariables: this.exportedNames,
+      readonlyVariables: this.readonlyNames,
+      arrays: this.arrays,
+      fileDescriptors: this.getInheritedDescriptors(),
+      processSubstitutions: this.processSubstitutions,
+      pipes: this.pipeOptions,
+      usage: this.usage,
+      traceDepth: this.traceDepth + 1,
     });
-    const result = await interpreter.execute(command);
+    // Only stdout is captured; the substitution's errors and traces go to the shell's stderr
+    const result = await interpreter.executeStreaming(command, { stderr: this.frame.fds.get(2)?.output }).exit;
+    this.substitutionExitCode = result.exitCode;
     return result.stdout.toString("utf-8").replace(/\n+$/, "");
   }
 
+  /**
+   * Start `<(cmd)` or `>(cmd)` in a subshell and return the `/dev/fd` path
+   * that reads its output or writes its input. `>(cmd)` writes to the
+   * shell's stdout, as it is started before the command's redirects apply.
+   */
+  private startProcessSubstitution(part: ProcessSubstitutionPart): string {
+    const pipe = createPipe(this.pipeOptions);
+    const stdout = this.frame.fds.get(1)?.output ?? createClosedOutput();
+    const stderr = this.frame.fds.get(2)?.output ?? createClosedOutput();
+    const subshell = this.createSubshell(this.activeSignal, this.traceDepth + 1);
+    const run =
+      part.op === "<"
+        ? subshell.executeSubshellBody(part.command, null, pipe, stderr).finally(() => pipe.close())
+        : subshell.executeSubshellBody(part.command, pipe.getReadableStream(), stdout, stderr).finally(() => pipe.closeReadEnd());
+    const exit = run.catch(async (err) => {
+      if (!this.activeSignal.aborted && !(err instanceof BrokenPipeError)) {
+        await stderr.writeText(`sh: ${err instanceof Error ? err.message : String(err)}\n`);
+      }
+    });
+
+    const substitution: ProcessSubstitution = { fd: this.processSubstitutions.nextFd(), op: part.op, pipe, exit };
+    this.processSubstitutions.add(substitution);
+    this.pendingProcessSubstitutions.push(substitution);
+    return `/dev/fd/${substitution.fd}`;
+  }
+
+  // Close the input of each `>(cmd)` and the output of each `<(cmd)` started
+  // since `from`, and wait for all of them to end
+  private async finishProcessSubstitutions(from: number): Promise<void> {
+    const finished = this.pendingProcessSubstitutions.splice(from);
+    for (const substitution of finished) {
+      if (substitution.op === ">") {
+        substitution.pipe.close();
+      } else {
+        substitution.pipe.closeReadEnd();
+      }
+    }
+    await Promise.all(finished.map((substitution) => substitution.exit));
+    for (const substitution of finished) {
+      this.processSubstitutions.delete(substitution);
+    }
+  }
+
   private getIFS(env: Record<string, string>): string {
     return env.IFS ?? DEFAULT_IFS;
   }
 
+  private isIfsWhitespace(char: string, ifs: string): boolean {
+    return ifs.includes(char) && (char === " " || char === "\t" || char === "\n");
+  }
+
   private splitUnquotedExpansion(value: string, ifs: string): string[] {
     if (value.length === 0) {
       return [];
@@ -1477,17 +3434,29 @@ export class Interpreter {
   }
 
   private async expandPathname(field: ExpandedField): Promise<string[]> {
-    if (!this.hasUnquotedGlobMeta(field)) {
+    if (this.shellOptions.noglob || !this.hasUnquotedGlobMeta(field)) {
       return [this.fieldToString(field)];
     }
 
     const pattern = this.fieldToGlobPattern(field);
-    const matches = await this.fs.glob(pattern, { cwd: this.cwd });
-    return matches.length > 0 ? matches : [this.fieldToString(field)];
+    const { extglob, dotglob, nocaseglob, globstar, nullglob, failglob } = this.shoptOptions;
+    const matches = await this.fs.glob(pattern, { cwd: this.cwd, extglob, dotglob, nocaseglob, globstar });
+    if (matches.length > 0) {
+      return matches;
+    }
+    if (failglob) {
+      throw new ExpansionError(`no match: ${this.fieldToString(field)}`);
+    }
+    return nullglob ? [] : [this.fieldToString(field)];
   }
 
   private hasUnquotedGlobMeta(field: ExpandedField): boolean {
-    return field.segments.some((segment) => !segment.quoted && GLOB_META_CHARS.test(segment.value));
+    return field.segments.some(
+      (segment) =>
+        !segment.quoted &&
+        (GLOB_META_CHARS.test(segment.value) ||
+          (this.shoptOptions.extglob && EXTGLOB_LIST_OPENERS.test(segment.value)))
+    );
   }
 
   private fieldToString(field: ExpandedField): string {
@@ -1495,8 +3464,13 @@ export class Interpreter {
   }
 
   private fieldToGlobPattern(field: ExpandedField): string {
+    // Braces were expanded before any other expansion, so the ones left are literal
     return field.segments
-      .map((segment) => (segment.quoted ? this.escapeLiteralGlobChars(segment.value) : segment.value))
+      .map((segment) =>
+        segment.quoted
+          ? this.escapeLiteralGlobChars(segment.value)
+          : segment.value.replaceAll("{", "[{]").replaceAll("}", "[}]")
+      )
       .join("");
   }
 
@@ -1507,183 +3481,56 @@ export class Interpreter {
       .replaceAll("*", "[*]")
       .replaceAll("?", "[?]")
       .replaceAll("{", "[{]")
-      .replaceAll("}", "[}]");
+      .replaceAll("}", "[}]")
+      .replaceAll("(", "[(]")
+      .replaceAll(")", "[)]")
+      .replaceAll("|", "[|]");
   }
 
-  private evaluateArithmetic(expression: string, env: Record<string, string>): number {
-    // Expand variables in the expression
+  /**
+   * Evaluate `$(( ))` or `(( ))` text. `$` expansions are substituted first;
+   * bare names stay variables, so `i++` and `x = y * 2` assign to them.
+   */
+  private evaluateArithmetic(expression: string, env: Record<string, string>): bigint {
     let expandedExpr = expression;
-    // Replace $VAR and ${VAR} with their values
+    expandedExpr = expandedExpr.replace(/\$\{#([a-zA-Z_][a-zA-Z0-9_]*)\[[@*]\]\}/g, (_, name) =>
+      String(this.getArrayKeys(name).length)
+    );
+    expandedExpr = expandedExpr.replace(/\$\{([a-zA-Z_][a-zA-Z0-9_]*)\[([^\]]*)\]\}/g, (_, name, subscript) => {
+      const key = this.resolveArrayKey(name, subscript, env);
+      this.assertParameterSet(name, env, key);
+      return this.getArrayElement(name, key) || "0";
+    });
     expandedExpr = expandedExpr.replace(/\$\{([a-zA-Z_][a-zA-Z0-9_]*)\}/g, (_, name) => {
-      return env[name] ?? "0";
+      this.assertParameterSet(name, env);
+      return this.getVariableValue(name, env) || "0";
     });
     expandedExpr = expandedExpr.replace(/\$([a-zA-Z_][a-zA-Z0-9_]*|[0-9#*@?])/g, (_, name) => {
+      this.assertParameterSet(name, env);
       return this.getVariableValue(name, env) || "0";
     });
-    // Also handle bare variable names (in arithmetic, variables can be referenced without $)
-    expandedExpr = expandedExpr.replace(/\b([a-zA-Z_][a-zA-Z0-9_]*)\b/g, (match) => {
-      // Don't replace if it looks like a number
-      if (/^\d+$/.test(match)) return match;
-      return env[match] ?? "0";
-    });
-
-    // Parse and evaluate the expression
-    return this.parseArithmeticExpr(expandedExpr.trim());
-  }
-
-  private parseArithmeticExpr(expr: string): number {
-    // Simple arithmetic expression parser
-    // Supports: +, -, *, /, %, ==, !=, <, >, <=, >=, &&, ||, parentheses
-    // Uses a simple recursive descent parser
-
-    let pos = 0;
-
-    const skipWhitespace = () => {
-      while (pos < expr.length && /\s/.test(expr[pos]!)) pos++;
-    };
-
-    const parseNumber = (): number => {
-      skipWhitespace();
-      let numStr = "";
-      const negative = expr[pos] === "-";
-      if (negative) {
-        pos++;
-        skipWhitespace();
-      }
-      while (pos < expr.length && /[0-9]/.test(expr[pos]!)) {
-        numStr += expr[pos];
-        pos++;
-      }
-      if (numStr === "") return 0;
-      return negative ? -parseInt(numStr, 10) : parseInt(numStr, 10);
-    };
-
-    const parsePrimary = (): number => {
-      skipWhitespace();
-      if (expr[pos] === "(") {
-        pos++; // consume (
-        const result = parseOr();
-        skipWhitespace();
-        if (expr[pos] === ")") pos++; // consume )
-        return result;
-      }
-      return parseNumber();
-    };
-
-    const parseUnary = (): number => {
-      skipWhitespace();
-      if (expr[pos] === "-" && !/[0-9]/.test(expr[pos + 1] ?? "")) {
-        pos++;
-        return -parseUnary();
-      }
-      if (expr[pos] === "!") {
-        pos++;
-        return parseUnary() === 0 ? 1 : 0;
-      }
-      return parsePrimary();
-    };
-
-    const parseMulDiv = (): number => {
-      let left = parseUnary();
-      while (true) {
-        skipWhitespace();
-        const op = expr[pos];
-        if (op === "*" || op === "/" || op === "%") {
-          pos++;
-          const right = parseUnary();
-          if (op === "*") left = left * right;
-          else if (op === "/") left = right === 0 ? 0 : Math.trunc(left / right);
-          else left = right === 0 ? 0 : left % right;
-        } else {
-          break;
-        }
-      }
-      return left;
-    };
-
-    const parseAddSub = (): number => {
-      let left = parseMulDiv();
-      while (true) {
-        skipWhitespace();
-        const op = expr[pos];
-        if (op === "+" || (op === "-" && !/[0-9]/.test(expr[pos + 1] ?? ""))) {
-          pos++;
-          const right = parseMulDiv();
-          if (op === "+") left = left + right;
-          else left = left - right;
-        } else {
-          break;
-        }
-      }
-      return left;
-    };
-
-    const parseComparison = (): number => {
-      let left = parseAddSub();
-      while (true) {
-        skipWhitespace();
-        if (expr.slice(pos, pos + 2) === "<=") {
-          pos += 2;
-          const right = parseAddSub();
-          left = left <= right ? 1 : 0;
-        } else if (expr.slice(pos, pos + 2) === ">=") {
-          pos += 2;
-          const right = parseAddSub();
-          left = left >= right ? 1 : 0;
-        } else if (expr.slice(pos, pos + 2) === "==") {
-          pos += 2;
-          const right = parseAddSub();
-          left = left === right ? 1 : 0;
-        } else if (expr.slice(pos, pos + 2) === "!=") {
-          pos += 2;
-          const right = parseAddSub();
-          left = left !== right ? 1 : 0;
-        } else if (expr[pos] === "<") {
-          pos++;
-          const right = parseAddSub();
-          left = left < right ? 1 : 0;
-        } else if (expr[pos] === ">") {
-          pos++;
-          const right = parseAddSub();
-          left = left > right ? 1 : 0;
-        } else {
-          break;
-        }
-      }
-      return left;
-    };
-
-    const parseAnd = (): number => {
-      let left = parseComparison();
-      while (true) {
-        skipWhitespace();
-        if (expr.slice(pos, pos + 2) === "&&") {
-          pos += 2;
-          const right = parseComparison();
-          left = (left !== 0 && right !== 0) ? 1 : 0;
-        } else {
-          break;
-        }
-      }
-      return left;
-    };
 
-    const parseOr = (): number => {
-      let left = parseAnd();
-      while (true) {
-        skipWhitespace();
-        if (expr.slice(pos, pos + 2) === "||") {
-          pos += 2;
-          const right = parseAnd();
-          left = (left !== 0 || right !== 0) ? 1 : 0;
-        } else {
-          break;
+    const evaluator = new ArithmeticEvaluator({
+      get: (variable) => {
+        const key = variable.subscript === undefined ? undefined : this.resolveArrayKey(variable.name, variable.subscript, env);
+        this.assertParameterSet(variable.name, env, key);
+        return key === undefined ? this.getVariableValue(variable.name, env) : this.getArrayElement(variable.name, key);
+      },
+      set: (variable, value) => {
+        this.assignVariable(variable.subscript === undefined ? variable.name : `${variable.name}[${variable.subscript}]`, value);
+        if (env !== this.env && variable.subscript === undefined) {
+          env[variable.name] = value;
         }
+      },
+    });
+    try {
+      return evaluator.evaluate(parseArithmetic(expandedExpr));
+    } catch (err) {
+      if (err instanceof ParseError || err instanceof ArithmeticError) {
+        throw new ExpansionError(`${expandedExpr.trim()}: ${err.message}`);
       }
-      return left;
-    };
-
-    return parseOr();
+      throw err;
+    }
   }
 
   private normalizeExitCode(exitCode: number): number {
@@ -1695,11 +3542,15 @@ export class Interpreter {
 
   setCwd(cwd: string): void {
     this.env.OLDPWD = this.cwd;
+    this.exportedNames.add("OLDPWD");
     this.cwd = cwd;
   }
 
   setEnv(vars: Record<string, string>): void {
     Object.assign(this.env, vars);
+    for (const name of Object.keys(vars)) {
+      this.exportedNames.add(name);
+    }
   }
 
   getCwd(): string {
@@ -1713,4 +3564,56 @@ export class Interpreter {
   getLastExitCode(): number {
     return this.lastExitCode;
   }
+
+  getFunctionNames(): string[] {
+    return [...this.functions.keys()];
+  }
+
+  getAliases(): ReadonlyMap<string, string> {
+    return this.aliases;
+  }
+
+  getJobs(): ShellJob[] {
+    return this.jobs.list();
+  }
+
+  getOptions(): Required<ShellOptions> {
+    return { ...this.shellOptions };
+  }
+
+  setOptions(options: ShellOptions): void {
+    for (const [name, enabled] of Object.entries(options) as Array<[keyof ShellOptions, boolean | undefined]>) {
+      if (enabled !== undefined && name in this.shellOptions) {
+        this.shellOptions[name] = enabled;
+      }
+    }
+  }
+
+  getShoptOptions(): Required<ShoptOptions> {
+    return { ...this.shoptOptions };
+  }
+
+  setShoptOptions(options: ShoptOptions): void {
+    for (const [name, enabled] of Object.entries(options) as Array<[keyof ShoptOptions, boolean | undefined]>) {
+      if (enabled !== undefined && name in this.shoptOptions) {
+        this.shoptOptions[name] = enabled;
+      }
+    }
+  }
+
+  waitForJob(id?: number): Promise<number> {
+    return this.jobs.wait(id);
+  }
+
+  killJob(id: number, signal?: number): void {
+    this.jobs.kill(id, signal);
+  }
+
+  killAllJobs(reason?: unknown): void {
+    this.jobs.killAll(reason);
+  }
+
+  takeFinishedJobs(): ShellJob[] {
+    return this.jobs.takeFinished();
+  }
 }
@@ -0,0 +1,226 @@
+import type { OutputCollector, ShellJob, ShellJobStatus } from "../types.ts";
+import { BrokenPipeError } from "../errors.ts";
+
+// Signals understood by `kill` and `trap`
+export const SIGNALS: Record<string, number> = {
+  HUP: 1,
+  INT: 2,
+  QUIT: 3,
+  KILL: 9,
+  TERM: 15,
+};
+
+const SIGTERM = SIGNALS.TERM!;
+
+interface JobEntry {
+  id: number;
+  pid: number;
+  command: string;
+  status: ShellJobStatus;
+  exitCode: number | null;
+  signal: number | null;
+  controller: AbortController;
+  done: Promise<number>;
+}
+
+export class JobTable {
+  private jobs = new Map<number, JobEntry>();
+  private nextPid = 1000;
+
+  /**
+   * Start `run` as a background job. The job gets its own AbortSignal, which
+   * is also aborted when `parentSignal` aborts.
+   */
+  start(command: string, run: (signal: AbortSignal) => Promise<number>, parentSignal?: AbortSignal): ShellJob {
+    const controller = new AbortController();
+    if (parentSignal) {
+      if (parentSignal.aborted) {
+        controller.abort(parentSignal.reason);
+      } else {
+        const onAbort = () => controller.abort(parentSignal.reason);
+        parentSignal.addEventListener("abort", onAbort, { once: true });
+        controller.signal.addEventListener(
+          "abort",
+          () => parentSignal.removeEventListener("abort", onAbort),
+          { once: true }
+        );
+      }
+    }
+
+    const job: JobEntry = {
+      id: Math.max(0, ...this.jobs.keys()) + 1,
+      pid: this.nextPid++,
+      command,
+      status: "running",
+      exitCode: null,
+      signal: null,
+      controller,
+      done: Promise.resolve(0),
+    };
+
+    // A killed job ends right away, even if a command never observes the signal
+    const killed = new Promise<never>((_, reject) => {
+      controller.signal.addEventListener("abort", () => reject(controller.signal.reason), { once: true });
+    });
+    killed.catch(() => {});
+
+    job.done = (async () => {
+      let exitCode: number;
+      try {
+        // Yield first so `$!` is set before the job does any work
+        await Promise.resolve();
+        controller.signal.throwIfAborted();
+        exitCode = await Promise.race([run(controller.signal), killed]);
+      } catch {
+        exitCode = 1;
+      }
+      if (controller.signal.aborted) {
+        job.status = "killed";
+        job.signal ??= SIGTERM;
+        exitCode = 128 + job.signal;
+      } else {
+        job.status = "done";
+      }
+      job.exitCode = exitCode;
+      return exitCode;
+    })();
+
+    this.jobs.set(job.id, job);
+    return toShellJob(job);
+  }
+
+  list(): ShellJob[] {
+    return [...this.jobs.values()].map(toShellJob);
+  }
+
+  /**
+   * Resolve a job spec: `%n`, `%%`/`%+` (current job), `%-` (previous job),
+   * `%prefix` (command prefix), or a `$!` process id.
+   */
+  find(spec: string): ShellJob | undefined {
+    const jobs = [...this.jobs.values()];
+    let job: JobEntry | undefined;
+
+    if (!spec.startsWith("%")) {
+      job = /^\d+$/.test(spec) ? jobs.find((entry) => entry.pid === Number(spec)) : undefined;
+    } else if (spec === "%" || spec === "%%" || spec === "%+") {
+      job = jobs[jobs.length - 1];
+    } else if (spec === "%-") {
+      job = jobs[jobs.length - 2];
+    } else if (/^%\d+$/.test(spec)) {
+      job = this.jobs.get(Number(spec.slice(1)));
+    } else {
+      job = jobs.find((entry) => entry.command.startsWith(spec.slice(1)));
+    }
+
+    return job ? toShellJob(job) : undefined;
+  }
+
+  /**
+   * Wait for one job and remove it from the table, or for every job when no
+   * id is given. Waiting for all jobs resolves to 0.
+   */
+  async wait(id?: number): Promise<number> {
+    if (id === undefined) {
+      while (this.jobs.size > 0) {
+        const jobs = [...this.jobs.values()];
+        await Promise.all(jobs.map((job) => job.done));
+        for (const job of jobs) {
+          this.jobs.delete(job.id);
+        }
+      }
+      return 0;
+    }
+
+    const job = this.jobs.get(id);
+    if (!job) {
+      return 127;
+    }
+    const exitCode = await job.done;
+    this.jobs.delete(id);
+    return exitCode;
+  }
+
+  /** Wait for running jobs without removing them from the table. */
+  async settle(): Promise<void> {
+    await Promise.all([...this.jobs.values()].map((job) => job.done));
+  }
+
+  kill(id: number, signal: number = SIGTERM, reason?: unknown): void {
+    const job = this.jobs.get(id);
+    if (!job || job.status !== "running") {
+      return;
+    }
+    job.signal = signal;
+    job.controller.abort(reason ?? new Error(`Job ${id} killed`));
+  }
+
+  killAll(reason?: unknown): void {
+    for (const job of this.jobs.values()) {
+      this.kill(job.id, SIGTERM, reason);
+    }
+  }
+
+  /** Remove and return jobs that have finished since they were last reported. */
+  takeFinished(): ShellJob[] {
+    const finished = [...this.jobs.values()].filter((job) => job.status !== "running");
+    for (const job of finished) {
+      this.jobs.delete(job.id);
+    }
+    return finished.map(toShellJob);
+  }
+}
+
+/**
+ * Output for a background job. A job can outlive the collectors it was started
+ * with (e.g. when a ShellSession prompt returns first); later writes go to
+ * `late` when there is one, and are dropped otherwise.
+ */
+export class JobOutput implements OutputCollector {
+  constructor(
+    private target: OutputCollector,
+    private late?: (chunk: Uint8Array) => Promise<void>
+  ) {}
+
+  get isTTY(): boolean {
+    return this.target.isTTY;
+  }
+
+  async write(chunk: Uint8Array): Promise<void> {
+    try {
+      await this.target.write(chunk);
+    } catch (err) {
+      // The collector closed before the job finished
+      if (this.late && !(err instanceof BrokenPipeError)) {
+        await this.late(chunk);
+      }
+    }
+  }
+
+  async writeText(str: string): Promise<void> {
+    await this.write(new TextEncoder().encode(str));
+  }
+
+  close(): void {
+    // The target belongs to the shell that started the job
+  }
+
+  collect(): Promise<Buffer> {
+    return this.target.collect();
+  }
+
+  getReadableStream(): AsyncIterable<Uint8Array> {
+    return this.target.getReadableStream();
+  }
+}
+
+function toShellJob(job: JobEntry): ShellJob {
+  return {
+    id: job.id,
+    pid: job.pid,
+    command: job.command,
+    status: job.status,
+    exitCode: job.exitCode,
+    signal: job.signal,
+  };
+}
@@ -0,0 +1,220 @@
+import type { FileStat, GlobOptions, OutputCollector, ShellLimits, VirtualFS, VirtualFSWritable } from "../types.ts";
+import { ShellLimitError } from "../errors.ts";
+
+// How deeply calls nest when `maxRecursionDepth` is not set, so that runaway recursion still stops
+export const DEFAULT_MAX_RECURSION_DEPTH = 1000;
+
+/**
+ * What one execution has used of its `ShellLimits`, shared by the shell and
+ * every subshell it starts. Going over a limit aborts the execution with a
+ * ShellLimitError, which the counting method also throws.
+ */
+export class ResourceUsage {
+  // Set once a limit has been exceeded
+  exceeded?: ShellLimitError;
+  private commands = 0;
+  private iterations = 0;
+  private depth = 0;
+  private bytesWritten = 0;
+  private output = { stdout: 0, stderr: 0 };
+  private deadline = Infinity;
+  private timer?: ReturnType<typeof setTimeout>;
+
+  private limits: ShellLimits;
+
+  constructor(
+    limits: ShellLimits = {},
+    private abort: (error: ShellLimitError) => void = () => {}
+  ) {
+    this.limits = { ...limits, maxRecursionDepth: limits.maxRecursionDepth ?? DEFAULT_MAX_RECURSION_DEPTH };
+    const { timeout } = limits;
+    if (timeout !== undefined) {
+      this.deadline = performance.now() + timeout;
+      this.timer = setTimeout(() => this.exceed("timeout", `Timed out after ${timeout}ms`), timeout);
+    }
+  }
+
+  countCommand(): void {
+    this.checkDeadline();
+    this.count("maxCommands", ++this.commands, "Ran more than {} commands");
+  }
+
+  countIteration(): void {
+    this.checkDeadline();
+    this.count("maxLoopIterations", ++this.iterations, "Ran more than {} loop iterations");
+  }
+
+  checkPipeline(width: number): void {
+    const max = this.limits.maxPipelineWidth;
+    if (max !== undefined && width > max) {
+      throw this.exceed("maxPipelineWidth", `Pipeline of ${width} commands is over the limit of ${max}`);
+    }
+  }
+
+  enter(): void {
+    const max = this.limits.maxRecursionDepth;
+    if (max !== undefined && this.depth >= max) {
+      throw this.exceed("maxRecursionDepth", `Nested more than ${max} calls deep`);
+    }
+    this.depth++;
+  }
+
+  leave(): void {
+    this.depth--;
+  }
+
+  /**
+   * Count a write of `bytes` to the stream, returning how many of them fit
+   * under `maxOutputBytes`. When not all of them do, the limit is exceeded.
+   */
+  claimOutput(stream: "stdout" | "stderr", bytes: number): number {
+    const max = this.limits.maxOutputBytes ?? Infinity;
+    const allowed = Math.min(bytes, Math.max(max - this.output[stream], 0));
+    this.output[stream] += allowed;
+    if (allowed < bytes) {
+      this.exceed("maxOutputBytes", `Wrote more than ${max} bytes to ${stream}`);
+    }
+    return allowed;
+  }
+
+  countWrite(bytes: number): void {
+    this.bytesWritten += bytes;
+    this.count("maxBytesWritten", this.bytesWritten, "Wrote more than {} bytes to files");
+  }
+
+  // Stop the execution; the first limit exceeded is the one reported
+  exceed(limit: keyof ShellLimits, message: string): ShellLimitError {
+    if (!this.exceeded) {
+      this.exceeded = new ShellLimitError(message, limit, this.limits[limit] ?? 0);
+      this.dispose();
+      this.abort(this.exceeded);
+    }
+    return this.exceeded;
+  }
+
+  dispose(): void {
+    clearTimeout(this.timer);
+  }
+
+  // The timer cannot fire while a script runs without waiting, so commands check the clock too
+  private checkDeadline(): void {
+    if (performance.now() > this.deadline) {
+      throw this.exceed("timeout", `Timed out after ${this.limits.timeout}ms`);
+    }
+  }
+
+  // `message` has `{}` where the limit goes
+  private count(limit: "maxCommands" | "maxLoopIterations" | "maxBytesWritten", used: number, message: string): void {
+    const max = this.limits[limit];
+    if (max !== undefined && used > max) {
+      throw this.exceed(limit, message.replace("{}", String(max)));
+    }
+  }
+}
+
+/**
+ * `output` with writes counted against `maxOutputBytes`. The write that
+ * goes over the limit is cut short and then fails.
+ */
+export function limitOutput(output: OutputCollector, usage: ResourceUsage, stream: "stdout" | "stderr"): OutputCollector {
+  const limited: OutputCollector = {
+    get isTTY() {
+      return output.isTTY;
+    },
+    async write(chunk: Uint8Array): Promise<void> {
+      const allowed = usage.claimOutput(stream, chunk.length);
+      if (allowed > 0) {
+        await output.write(allowed < chunk.length ? chunk.subarray(0, allowed) : chunk);
+      }
+      if (allowed < chunk.length) {
+        throw usage.exceeded!;
+      }
+    },
+    writeText(str: string): Promise<void> {
+      return limited.write(new TextEncoder().encode(str));
+    },
+    close: () => output.close(),
+    collect: () => output.collect(),
+    getReadableStream: () => output.getReadableStream(),
+  };
+  return limited;
+}
+
+/**
+ * Counts the bytes written through it against the `maxBytesWritten` of
+ * whatever execution is running, and passes everything through.
+ */
+export class LimitedFS implements VirtualFS {
+  constructor(
+    private fs: VirtualFS,
+    private usage: () => ResourceUsage
+  ) {}
+
+  readFile(path: string): Promise<Buffer>;
+  readFile(path: string, encoding: BufferEncoding): Promise<string>;
+  readFile(path: string, encoding?: BufferEncoding): Promise<Buffer | string> {
+    return encoding ? this.fs.readFile(path, encoding) : this.fs.readFile(path);
+  }
+
+  readStream(path: string): AsyncIterable<Uint8Array> {
+    return this.fs.readStream(path);
+  }
+
+  readdir(path: string): Promise<string[]> {
+    return this.fs.readdir(path);
+  }
+
+  stat(path: string): Promise<FileStat> {
+    return this.fs.stat(path);
+  }
+
+  exists(path: string): Promise<boolean> {
+    return this.fs.exists(path);
+  }
+
+  async writeFile(path: string, data: Buffer | string): Promise<void> {
+    this.usage().countWrite(Buffer.byteLength(data));
+    return this.fs.writeFile(path, data);
+  }
+
+  async appendFile(path: string, data: Buffer | string): Promise<void> {
+    this.usage().countWrite(Buffer.byteLength(data));
+    return this.fs.appendFile(path, data);
+  }
+
+  async writeStream(path: string, opts?: { append?: boolean }): Promise<VirtualFSWritable> {
+    const writable = await this.fs.writeStream(path, opts);
+    return {
+      write: async (chunk) => {
+        this.usage().countWrite(chunk.length);
+        return writable.write(chunk);
+      },
+      close: () => writable.close(),
+      ...(writable.abort ? { abort: (reason?: unknown) => writable.abort!(reason) } : {}),
+    };
+  }
+
+  mkdir(path: string, opts?: { recursive?: boolean }): Promise<void> {
+    return this.fs.mkdir(path, opts);
+  }
+
+  rm(path: string, opts?: { recursive?: boolean; force?: boolean }): Promise<void> {
+    return this.fs.rm(path, opts);
+  }
+
+  resolve(...paths: string[]): string {
+    return this.fs.resolve(...paths);
+  }
+
+  dirname(path: string): string {
+    return this.fs.dirname(path);
+  }
+
+  basename(path: string): string {
+    return this.fs.basename(path);
+  }
+
+  glob(pattern: string, opts?: GlobOptions): Promise<string[]> {
+    return this.fs.glob(pattern, opts);
+  }
+}
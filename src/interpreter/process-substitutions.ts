@@ -0,0 +1,155 @@
+import type { FileStat, GlobOptions, VirtualFS, VirtualFSWritable } from "../types.ts";
+import type { PipeBuffer } from "../io/stdout.ts";
+import { parseDevFdPath } from "../fs/special-files.ts";
+
+/**
+ * A running `<(cmd)` or `>(cmd)`. For `<` the pipe carries the command's
+ * output to whoever reads the path; for `>` it carries what is written to
+ * the path into the command's stdin.
+ */
+export interface ProcessSubstitution {
+  fd: number;
+  op: "<" | ">";
+  pipe: PipeBuffer;
+  // Settles when the command ends; it never rejects
+  exit: Promise<unknown>;
+}
+
+// Like bash, number substitutions down from 63, clear of the descriptors scripts use
+const FIRST_FD = 63;
+
+// The process substitutions of a shell and the subshells it starts
+export class ProcessSubstitutionTable {
+  private entries = new Map<number, ProcessSubstitution>();
+
+  nextFd(): number {
+    let fd = FIRST_FD;
+    while (this.entries.has(fd)) {
+      fd--;
+    }
+    return fd;
+  }
+
+  add(substitution: ProcessSubstitution): void {
+    this.entries.set(substitution.fd, substitution);
+  }
+
+  delete(substitution: ProcessSubstitution): void {
+    if (this.entries.get(substitution.fd) === substitution) {
+      this.entries.delete(substitution.fd);
+    }
+  }
+
+  find(path: string): ProcessSubstitution | undefined {
+    const fd = parseDevFdPath(path);
+    return fd === undefined ? undefined : this.entries.get(fd);
+  }
+}
+
+const PIPE_STAT: FileStat = {
+  isFile: () => true,
+  isDirectory: () => false,
+  size: 0,
+  mtime: new Date(0),
+  mtimeMs: 0,
+};
+
+/**
+ * Serves the `/dev/fd/N` paths of running process substitutions, as the
+ * filesystem adapters serve `/dev/null`, and passes everything else through.
+ */
+export class ProcessSubstitutionFS implements VirtualFS {
+  constructor(
+    private fs: VirtualFS,
+    private table: ProcessSubstitutionTable
+  ) {}
+
+  readFile(path: string): Promise<Buffer>;
+  readFile(path: string, encoding: BufferEncoding): Promise<string>;
+  async readFile(path: string, encoding?: BufferEncoding): Promise<Buffer | string> {
+    const pipe = this.pipe(path, "<");
+    if (!pipe) {
+      return encoding ? this.fs.readFile(path, encoding) : this.fs.readFile(path);
+    }
+    const chunks: Uint8Array[] = [];
+    for await (const chunk of pipe.getReadableStream()) {
+      chunks.push(chunk);
+    }
+    const data = Buffer.concat(chunks);
+    return encoding ? data.toString(encoding) : data;
+  }
+
+  readStream(path: string): AsyncIterable<Uint8Array> {
+    return this.pipe(path, "<")?.getReadableStream() ?? this.fs.readStream(path);
+  }
+
+  readdir(path: string): Promise<string[]> {
+    return this.fs.readdir(path);
+  }
+
+  async stat(path: string): Promise<FileStat> {
+    return this.table.find(path) ? PIPE_STAT : this.fs.stat(path);
+  }
+
+  async exists(path: string): Promise<boolean> {
+    return this.table.find(path) ? true : this.fs.exists(path);
+  }
+
+  async writeFile(path: string, data: Buffer | string): Promise<void> {
+    const pipe = this.pipe(path, ">");
+    return pipe ? pipe.write(Buffer.from(data)) : this.fs.writeFile(path, data);
+  }
+
+  async appendFile(path: string, data: Buffer | string): Promise<void> {
+    const pipe = this.pipe(path, ">");
+    return pipe ? pipe.write(Buffer.from(data)) : this.fs.appendFile(path, data);
+  }
+
+  async writeStream(path: string, opts?: { append?: boolean }): Promise<VirtualFSWritable> {
+    const pipe = this.pipe(path, ">");
+    if (!pipe) {
+      return this.fs.writeStream(path, opts);
+    }
+    return {
+      write: (chunk) => pipe.write(chunk),
+      // The pipe stays open until the command that expanded the path finishes
+      close: async () => {},
+    };
+  }
+
+  mkdir(path: string, opts?: { recursive?: boolean }): Promise<void> {
+    return this.fs.mkdir(path, opts);
+  }
+
+  rm(path: string, opts?: { recursive?: boolean; force?: boolean }): Promise<void> {
+    return this.fs.rm(path, opts);
+  }
+
+  resolve(...paths: string[]): string {
+    return this.fs.resolve(...paths);
+  }
+
+  dirname(path: string): string {
+    return this.fs.dirname(path);
+  }
+
+  basename(path: string): string {
+    return this.fs.basename(path);
+  }
+
+  glob(pattern: string, opts?: GlobOptions): Promise<string[]> {
+    return this.fs.glob(pattern, opts);
+  }
+
+  // The pipe behind `path`, which must be open in the direction being used
+  private pipe(path: string, op: "<" | ">"): PipeBuffer | undefined {
+    const substitution = this.table.find(path);
+    if (!substitution) {
+      return undefined;
+    }
+    if (substitution.op !== op) {
+      throw new Error(`Bad file descriptor, ${op === "<" ? "read" : "write"} '${path}'`);
+    }
+    return substitution.pipe;
+  }
+}
@@ -1,3 +1,3 @@
 export { StdinImpl, createStdin } from "./stdin.ts";
-export { OutputCollectorImpl, PipeBuffer, createStdout, createStderr, createPipe } from "./stdout.ts";
+export { OutputCollectorImpl, PipeBuffer, createStdout, createStderr, createPipe, type PipeOptions } from "./stdout.ts";
 export { ShellInputControllerImpl, createShellInput } from "./input-controller.ts";
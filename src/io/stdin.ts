@@ -1,11 +1,98 @@
-import type { Stdin } from "../types.ts";
+import type { Stdin, StdinReadOptions } from "../types.ts";
+
+/**
+ * An input source that commands take turns reading, like a file descriptor
+ * shared by every `read` in a `while read` loop. Bytes one reader leaves
+ * unconsumed are buffered for the next.
+ */
+class SharedInput {
+  private iterator: AsyncIterator<Uint8Array> | null = null;
+  private buffered: Uint8Array[] = [];
+  // A pull that outlived an aborted read; its chunk belongs to the next reader
+  private pendingPull: Promise<IteratorResult<Uint8Array>> | null = null;
+  private ended: boolean = false;
+
+  constructor(private source: AsyncIterable<Uint8Array>) {}
+
+  async read(signal?: AbortSignal): Promise<Uint8Array | null> {
+    const chunk = this.buffered.shift();
+    if (chunk) {
+      return chunk;
+    }
+    if (this.ended) {
+      return null;
+    }
+
+    this.iterator ??= this.source[Symbol.asyncIterator]();
+    this.pendingPull ??= this.iterator.next();
+    const result = await (signal ? abortable(this.pendingPull, signal) : this.pendingPull);
+    this.pendingPull = null;
+    if (result.done) {
+      this.ended = true;
+      return null;
+    }
+    return result.value;
+  }
+
+  unread(chunk: Uint8Array): void {
+    if (chunk.length > 0) {
+      this.buffered.unshift(chunk);
+    }
+  }
+}
+
+const sharedInputs = new WeakMap<AsyncIterable<Uint8Array>, SharedInput>();
+
+function getSharedInput(source: AsyncIterable<Uint8Array>): SharedInput {
+  let shared = sharedInputs.get(source);
+  if (!shared) {
+    shared = new SharedInput(source);
+    sharedInputs.set(source, shared);
+  }
+  return shared;
+}
+
+function abortable<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) {
+    return Promise.reject(signal.reason);
+  }
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener("abort", onAbort);
+        resolve(value);
+      },
+      (err) => {
+        signal.removeEventListener("abort", onAbort);
+        reject(err);
+      }
+    );
+  });
+}
+
+// Byte length of a UTF-8 character from its first byte
+function utf8CharLength(lead: number): number {
+  if (lead < 0xc0) return 1;
+  if (lead < 0xe0) return 2;
+  if (lead < 0xf0) return 3;
+  return 4;
+}
+
+function concatBytes(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const result = new Uint8Array(a.length + b.length);
+  result.set(a);
+  result.set(b, a.length);
+  return result;
+}
 
 export class StdinImpl implements Stdin {
-  private source: AsyncIterable<Uint8Array> | null;
+  private source: SharedInput | null;
   private consumed: boolean = false;
 
   constructor(source: AsyncIterable<Uint8Array> | null = null) {
-    this.source = source;
+    this.source = source === null ? null : getSharedInput(source);
   }
 
   async *stream(): AsyncIterable<Uint8Array> {
@@ -18,7 +105,8 @@ export class StdinImpl implements Stdin {
       return;
     }
 
-    for await (const chunk of this.source) {
+    let chunk: Uint8Array | null;
+    while ((chunk = await this.source.read()) !== null) {
       yield chunk;
     }
   }
@@ -54,6 +142,79 @@ export class StdinImpl implements Stdin {
       yield buffer;
     }
   }
+
+  async read(options: StdinReadOptions = {}): Promise<Uint8Array | null> {
+    if (this.source === null) {
+      return null;
+    }
+    return this.source.read(options.signal);
+  }
+
+  unread(chunk: Uint8Array): void {
+    this.source?.unread(chunk);
+  }
+
+  async readUntil(delimiter: string, options: StdinReadOptions = {}): Promise<string | null> {
+    if (this.source === null) {
+      return null;
+    }
+
+    const source = this.source;
+    const delimiterBytes = new TextEncoder().encode(delimiter);
+    const maxChars = options.maxChars ?? Infinity;
+    // The unread input, scanned in place; chunks are only joined when a line spans them
+    let buffer: Uint8Array = new Uint8Array(0);
+    let scanned = 0;
+    let chars = 0;
+    let charEnd = 0;
+
+    const take = (end: number): string => {
+      source.unread(buffer.subarray(end));
+      return new TextDecoder().decode(buffer.subarray(0, end));
+    };
+
+    while (true) {
+      // A one-byte delimiter without a character limit is found directly, as an
+      // ASCII byte never occurs inside a multi-byte character
+      if (maxChars === Infinity && delimiterBytes.length === 1) {
+        const end = buffer.indexOf(delimiterBytes[0]!, scanned);
+        if (end !== -1) {
+          return take(end + 1);
+        }
+        scanned = buffer.length;
+      }
+      while (true) {
+        if (chars >= maxChars && charEnd <= buffer.length) {
+          return take(charEnd);
+        }
+        if (scanned + Math.max(delimiterBytes.length, 1) > buffer.length) {
+          break;
+        }
+        const byte = buffer[scanned]!;
+        // Only character boundaries can start a delimiter or count towards maxChars
+        if ((byte & 0xc0) !== 0x80) {
+          if (delimiterBytes.length > 0 && delimiterBytes.every((b, i) => buffer[scanned + i] === b)) {
+            return take(scanned + delimiterBytes.length);
+          }
+          chars++;
+          charEnd = scanned + utf8CharLength(byte);
+        }
+        scanned++;
+      }
+
+      let chunk: Uint8Array | null;
+      try {
+        chunk = await source.read(options.signal);
+      } catch (err) {
+        source.unread(buffer);
+        throw err;
+      }
+      if (chunk === null) {
+        return buffer.length > 0 ? new TextDecoder().decode(buffer) : null;
+      }
+      buffer = buffer.length === 0 ? chunk : concatBytes(buffer, chunk);
+    }
+  }
 }
 
 export function createStdin(source: AsyncIterable<Uint8Array> | Buffer | string | null): Stdin {
@@ -1,4 +1,5 @@
 import type { Stdout, Stderr, OutputCollector } from "../types.ts";
+import { BrokenPipeError } from "../errors.ts";
 
 export class OutputCollectorImpl implements OutputCollector {
   private chunks: Uint8Array[] = [];
@@ -79,57 +80,102 @@ export class OutputCollectorImpl implements OutputCollector {
   }
 }
 
+export interface PipeOptions {
+  // Bytes a pipe holds before writes wait for the reader to catch up
+  highWaterMark?: number;
+}
+
+// The capacity of a Linux pipe
+export const DEFAULT_PIPE_HIGH_WATER_MARK = 64 * 1024;
+
 export class PipeBuffer implements OutputCollector, Stdout {
   private chunks: Uint8Array[] = [];
+  private bufferedBytes: number = 0;
   private closed: boolean = false;
+  // Set when the reading end is closed; writes then fail with BrokenPipeError
+  private broken: boolean = false;
   private waitingReaders: Array<() => void> = [];
-  private readIndex: number = 0;
+  private waitingWriters: Array<() => void> = [];
   public readonly isTTY: boolean = false;
+  public readonly highWaterMark: number;
+
+  constructor(options: PipeOptions = {}) {
+    this.highWaterMark = options.highWaterMark ?? DEFAULT_PIPE_HIGH_WATER_MARK;
+  }
 
   async write(chunk: Uint8Array): Promise<void> {
+    // Like write(2) of zero bytes, an empty write does nothing, even on a broken pipe
+    if (chunk.length === 0) {
+      return;
+    }
+    if (this.broken) {
+      throw new BrokenPipeError();
+    }
     if (this.closed) {
       throw new Error("Pipe is closed");
     }
     this.chunks.push(chunk);
-    // Wake up any waiting readers
-    for (const resolve of this.waitingReaders) {
-      resolve();
+    this.bufferedBytes += chunk.length;
+    this.wakeReaders();
+
+    // Like a full pipe, hold the writer until the reader has taken enough
+    while (this.bufferedBytes > this.highWaterMark && !this.broken) {
+      await new Promise<void>((resolve) => {
+        this.waitingWriters.push(resolve);
+      });
+    }
+    if (this.broken) {
+      throw new BrokenPipeError();
     }
-    this.waitingReaders = [];
   }
 
   async writeText(str: string): Promise<void> {
     await this.write(new TextEncoder().encode(str));
   }
 
+  // Close the writing end; readers get what is left, then the end of the stream
   close(): void {
     this.closed = true;
-    // Wake up any waiting readers
-    for (const resolve of this.waitingReaders) {
-      resolve();
-    }
-    this.waitingReaders = [];
+    this.wakeReaders();
+  }
+
+  /**
+   * Close the reading end, once nothing will read the pipe again. Unread
+   * data is dropped, and waiting and later writes fail with BrokenPipeError.
+   */
+  closeReadEnd(): void {
+    this.broken = true;
+    this.chunks = [];
+    this.bufferedBytes = 0;
+    this.wakeWriters();
+    this.wakeReaders();
+  }
+
+  // Whether the reading end was closed
+  get isBroken(): boolean {
+    return this.broken;
   }
 
   async collect(): Promise<Buffer> {
-    // Wait until closed
-    while (!this.closed) {
-      await new Promise<void>((resolve) => {
-        this.waitingReaders.push(resolve);
-      });
+    const chunks: Uint8Array[] = [];
+    for await (const chunk of this.getReadableStream()) {
+      chunks.push(chunk);
     }
-    return Buffer.concat(this.chunks);
+    return Buffer.concat(chunks);
   }
 
   async *getReadableStream(): AsyncIterable<Uint8Array> {
     while (true) {
-      // Yield any available chunks
-      while (this.readIndex < this.chunks.length) {
-        yield this.chunks[this.readIndex]!;
-        this.readIndex++;
+      // Take the next chunk, making room for waiting writers
+      const chunk = this.chunks.shift();
+      if (chunk) {
+        this.bufferedBytes -= chunk.length;
+        this.wakeWriters();
+        yield chunk;
+        continue;
       }
 
-      if (this.closed) {
+      if (this.closed || this.broken) {
         break;
       }
 
@@ -139,6 +185,22 @@ export class PipeBuffer implements OutputCollector, Stdout {
       });
     }
   }
+
+  private wakeReaders(): void {
+    const readers = this.waitingReaders;
+    this.waitingReaders = [];
+    for (const resolve of readers) {
+      resolve();
+    }
+  }
+
+  private wakeWriters(): void {
+    const writers = this.waitingWriters;
+    this.waitingWriters = [];
+    for (const resolve of writers) {
+      resolve();
+    }
+  }
 }
 
 export function createStdout(
@@ -155,8 +217,8 @@ export function createStderr(
   return new OutputCollectorImpl(isTTY, onWrite);
 }
 
-export function createPipe(): PipeBuffer {
-  return new PipeBuffer();
+export function createPipe(options?: PipeOptions): PipeBuffer {
+  return new PipeBuffer(options);
 }
 
 export class BufferTargetCollector implements OutputCollector {
@@ -209,3 +271,55 @@ export class BufferTargetCollector implements OutputCollector {
 export function createBufferTargetCollector(target: Buffer): OutputCollector {
   return new BufferTargetCollector(target);
 }
+
+// Where a SinkCollector sends what is written to it
+export interface OutputSink {
+  write(chunk: Uint8Array): void | Promise<void>;
+  // Called once when the redirect ends
+  end?(): void | Promise<void>;
+}
+
+/**
+ * Passes each write straight on to a JS sink, waiting for it so that a slow
+ * sink holds the writer back, and keeps none of the output. `collect()`
+ * resolves to an empty Buffer once the sink has ended.
+ */
+export class SinkCollector implements OutputCollector {
+  private closed: boolean = false;
+  private resolveClose!: () => void;
+  private ended: Promise<void>;
+  public readonly isTTY: boolean = false;
+
+  constructor(private sink: OutputSink) {
+    this.ended = new Promise<void>((resolve) => {
+      this.resolveClose = resolve;
+    }).then(() => this.sink.end?.());
+  }
+
+  async write(chunk: Uint8Array): Promise<void> {
+    if (this.closed) {
+      throw new Error("Output stream is closed");
+    }
+    await this.sink.write(chunk);
+  }
+
+  async writeText(str: string): Promise<void> {
+    await this.write(new TextEncoder().encode(str));
+  }
+
+  close(): void {
+    this.closed = true;
+    this.resolveClose();
+  }
+
+  async collect(): Promise<Buffer> {
+    await this.ended;
+    return Buffer.alloc(0);
+  }
+
+  async *getReadableStream(): AsyncIterable<Uint8Array> {}
+}
+
+export function createSinkCollector(sink: OutputSink): OutputCollector {
+  return new SinkCollector(sink);
+}
@@ -1,3 +1,4 @@
 export { Lexer, lex } from "./lexer.ts";
-export type { Token, RedirectMode, KeywordValue } from "./tokens.ts";
-export { tokenToString, KEYWORDS } from "./tokens.ts";
+export type { LexerOptions } from "./lexer.ts";
+export type { Token, RedirectOp, KeywordValue, ParameterOperator, SourceSpan } from "./tokens.ts";
+export { tokenToString, withSpan, KEYWORDS } from "./tokens.ts";
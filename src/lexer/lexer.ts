@@ -1,8 +1,12 @@
 import { LexError } from "../errors.ts";
-import type { Token, RedirectMode, KeywordValue } from "./tokens.ts";
-import { KEYWORDS } from "./tokens.ts";
+import type { Token, KeywordValue, ParameterOperator, SourceSpan } from "./tokens.ts";
+import { KEYWORDS, withSpan } from "./tokens.ts";
 
 const GLOB_CHARS = new Set(["*", "?", "[", "{", "}"]);
+// Characters that stay literal when escaped, so `\*` is not globbed and `\{a,b}` not brace-expanded
+const LITERAL_ESCAPES = new Set(["*", "?", "[", "]", "{", "}", ",", "~"]);
+// Characters that open an extglob pattern list when followed by `(`
+const EXTGLOB_OPERATORS = new Set(["?", "*", "+", "@", "!"]);
 const WORD_BREAK_CHARS = new Set([
   " ",
   "\t",
@@ -21,17 +25,55 @@ const WORD_BREAK_CHARS = new Set([
   "`",
 ]);
 
+export interface LexerOptions {
+  preserveNewlines?: boolean;
+  // Aliases to expand in command position, name to replacement text
+  aliases?: ReadonlyMap<string, string>;
+  // Where the source starts in an enclosing text, such as a `$(...)` body in a script, so spans point into that text
+  origin?: { offset: number; line: number; column: number };
+}
+
+// An alias being expanded; `end` is where its replacement text ends in the source
+interface ActiveAlias {
+  name: string;
+  end: number;
+}
+
+// An alias name at `start` replaced by `inserted` characters of its text
+interface AliasEdit {
+  start: number;
+  removed: number;
+  inserted: number;
+}
+
 export class Lexer {
   private source: string;
   private pos: number = 0;
-  private line: number = 1;
-  private column: number = 1;
   private tokenQueue: Token[] = [];
   private preserveNewlines: boolean;
-
-  constructor(source: string, options?: { preserveNewlines?: boolean }) {
+  // Inside `[[ ... ]]`, where `<`, `>` and `(` are operands and operators
+  private inConditional: boolean = false;
+  private expectRegex: boolean = false;
+  private commandStart: boolean = true;
+  private aliases: ReadonlyMap<string, string>;
+  private activeAliases: ActiveAlias[] = [];
+  // Outside command position, the next word starting at or after one of these may be an alias
+  private aliasCandidates: number[] = [];
+  // Alias expansions in the order they were made, to map offsets back to the source as given
+  private aliasEdits: AliasEdit[] = [];
+  // Offsets where each line of the source as given starts
+  private lineStarts: number[];
+  private origin: { offset: number; line: number; column: number };
+
+  constructor(source: string, options?: LexerOptions) {
     this.source = source;
     this.preserveNewlines = options?.preserveNewlines ?? false;
+    this.aliases = options?.aliases ?? new Map();
+    this.origin = options?.origin ?? { offset: 0, line: 1, column: 1 };
+    this.lineStarts = [0];
+    for (let i = source.indexOf("\n"); i !== -1; i = source.indexOf("\n", i + 1)) {
+      this.lineStarts.push(i + 1);
+    }
   }
 
   private isWordLikeToken(token: Token): boolean {
@@ -40,7 +82,9 @@ export class Lexer {
       token.type === "singleQuote" ||
       token.type === "doubleQuote" ||
       token.type === "variable" ||
+      token.type === "parameterExpansion" ||
       token.type === "substitution" ||
+      token.type === "processSubstitution" ||
       token.type === "arithmetic" ||
       token.type === "glob"
     );
@@ -48,6 +92,8 @@ export class Lexer {
 
   tokenize(): Token[] {
     const tokens: Token[] = [];
+    // Whitespace seen before a step that produced no token, such as an alias expansion
+    let separated = false;
 
     while (!this.isAtEnd() || this.tokenQueue.length > 0) {
       // Drain token queue first (for heredoc handling)
@@ -58,40 +104,135 @@ export class Lexer {
 
       const posBeforeWhitespace = this.pos;
       this.skipWhitespaceExceptNewlines();
-      const hadWhitespace = this.pos > posBeforeWhitespace;
+      const hadWhitespace: boolean = this.pos > posBeforeWhitespace || separated;
       if (this.isAtEnd()) break;
 
+      this.commandStart = this.commandStart || this.isCommandStart(tokens[tokens.length - 1]);
+      const tokenStart = this.pos;
       const token = this.nextToken();
+      separated = !token && hadWhitespace;
       if (token) {
+        this.commandStart = false;
+        this.aliasCandidates = this.aliasCandidates.filter((at) => at > tokenStart);
+        if (!token.span) {
+          withSpan(token, this.spanFrom(tokenStart));
+        }
         // Merge adjacent word-like tokens (no whitespace between them)
         const prev = tokens[tokens.length - 1];
         if (!hadWhitespace && prev && this.isWordLikeToken(token) && (Array.isArray(prev) || this.isWordLikeToken(prev))) {
           // Merge into an array token (concat)
-          if (Array.isArray(prev)) {
-            (prev as Token[]).push(token);
-          } else {
-            tokens[tokens.length - 1] = [prev, token] as unknown as Token;
-          }
+          const merged = Array.isArray(prev) ? (prev as Token[]) : [prev];
+          merged.push(token);
+          tokens[tokens.length - 1] = merged as unknown as Token;
+          withSpan(merged, { ...prev.span!, end: token.span!.end });
         } else {
           tokens.push(token);
         }
       }
     }
 
-    tokens.push({ type: "eof" });
+    tokens.push(withSpan({ type: "eof" }, this.spanFrom(this.pos)));
     return tokens;
   }
 
+  /**
+   * The span of the text read from `start` up to `end`. Offsets are mapped
+   * back through alias expansions, so anything read from an alias's text
+   * spans the alias name.
+   */
+  private spanFrom(start: number, end: number = this.pos): SourceSpan {
+    const from = this.sourceOffset(start, false);
+    const to = Math.max(this.sourceOffset(end, true), from);
+    let line = 0;
+    let high = this.lineStarts.length - 1;
+    while (line < high) {
+      const mid = Math.ceil((line + high) / 2);
+      if (this.lineStarts[mid]! <= from) {
+        line = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    const column = from - this.lineStarts[line]! + 1;
+    return {
+      start: this.origin.offset + from,
+      end: this.origin.offset + to,
+      line: this.origin.line + line,
+      column: line === 0 ? this.origin.column + column - 1 : column,
+    };
+  }
+
+  // An offset into the alias-expanded text as an offset into the source as given
+  private sourceOffset(offset: number, isEnd: boolean): number {
+    for (let i = this.aliasEdits.length - 1; i >= 0; i--) {
+      const edit = this.aliasEdits[i]!;
+      if (offset >= edit.start + edit.inserted) {
+        offset -= edit.inserted - edit.removed;
+      } else if (offset > edit.start) {
+        offset = isEnd ? edit.start + edit.removed : edit.start;
+      }
+    }
+    return offset;
+  }
+
+  private spanned<T extends Token>(start: number, token: T): T {
+    return withSpan(token, this.spanFrom(start));
+  }
+
+  private error(message: string): LexError {
+    const span = this.spanFrom(this.pos);
+    return new LexError(message, span.start, span.line, span.column);
+  }
+
+  // Whether a token after `prev` starts a command, where `[[` opens a conditional
+  private isCommandStart(prev: Token | undefined): boolean {
+    if (prev === undefined || Array.isArray(prev)) {
+      return prev === undefined;
+    }
+    switch (prev.type) {
+      case "semicolon":
+      case "newline":
+      case "and":
+      case "or":
+      case "pipe":
+      case "background":
+      case "openParen":
+      case "closeParen": // after a case pattern
+      case "doubleSemicolon":
+        return true;
+      case "keyword":
+        return prev.value !== "in" && prev.value !== "for" && prev.value !== "case";
+      case "word":
+        return prev.value === "!";
+      case "glob":
+        return prev.pattern === "{";
+      default:
+        return false;
+    }
+  }
+
   private nextToken(): Token | null {
     // Check token queue first (used for heredoc handling)
     if (this.tokenQueue.length > 0) {
       return this.tokenQueue.shift()!;
     }
 
+    if (this.inConditional) {
+      return this.nextConditionalToken();
+    }
+
     const char = this.peek();
 
+    if (this.commandStart && this.source.startsWith("[[", this.pos) && /[\s]/.test(this.peekAhead(2))) {
+      this.advance();
+      this.advance();
+      this.inConditional = true;
+      return { type: "word", value: "[[" };
+    }
+
     // Newlines - significant for control flow
     if (char === "\n") {
+      this.commandStart = true;
       this.advance();
       // Skip consecutive newlines
       while (this.peek() === "\n") {
@@ -109,6 +250,22 @@ export class Lexer {
       return null;
     }
 
+    // `(( expression ))`, unless the parentheses are nested subshells
+    if (char === "(" && this.peekAhead(1) === "(") {
+      const end = findArithmeticEnd(this.source, this.pos + 2);
+      if (end !== -1) {
+        this.advance();
+        this.advance();
+        let expression = "";
+        while (this.pos < end) {
+          expression += this.advance();
+        }
+        this.advance();
+        this.advance();
+        return { type: "arithmeticCommand", expression };
+      }
+    }
+
     // Parentheses - for case pattern grouping
     if (char === "(") {
       this.advance();
@@ -140,12 +297,11 @@ export class Lexer {
         this.advance();
         if (this.peek() === ">") {
           this.advance();
-          return { type: "redirect", mode: "&>>" };
+          return { type: "redirect", op: "&>>" };
         }
-        return { type: "redirect", mode: "&>" };
+        return { type: "redirect", op: "&>" };
       }
-      // Background execution (&) - treat as word for now
-      return { type: "word", value: "&" };
+      return { type: "background" };
     }
 
     if (char === ";") {
@@ -158,57 +314,20 @@ export class Lexer {
       return { type: "semicolon" };
     }
 
-    // Redirects
-    if (char === ">") {
+    // Process substitution, `<(cmd)` or `>(cmd)`
+    if (this.isAtProcessSubstitution()) {
       this.advance();
-      if (this.peek() === ">") {
-        this.advance();
-        return { type: "redirect", mode: ">>" };
-      }
-      return { type: "redirect", mode: ">" };
+      this.advance();
+      return { type: "processSubstitution", op: char as "<" | ">", command: this.readUntilMatchingParen() };
     }
 
-    if (char === "<") {
-      this.advance();
-      if (this.peek() === "<") {
-        this.advance();
-        return this.readHeredoc();
-      }
-      return { type: "redirect", mode: "<" };
-    }
-
-    // File descriptor redirects (2>, 2>>, 2>&1, 1>&2)
-    if (char === "1" || char === "2") {
-      const fd = char;
-      const nextChar = this.peekAhead(1);
-      if (nextChar === ">") {
-        this.advance(); // consume fd
-        this.advance(); // consume >
-        if (fd === "2") {
-          if (this.peek() === "&" && this.peekAhead(1) === "1") {
-            this.advance(); // consume &
-            this.advance(); // consume 1
-            return { type: "redirect", mode: "2>&1" };
-          }
-          if (this.peek() === ">") {
-            this.advance();
-            return { type: "redirect", mode: "2>>" };
-          }
-          return { type: "redirect", mode: "2>" };
-        } else {
-          // 1>&2
-          if (this.peek() === "&" && this.peekAhead(1) === "2") {
-            this.advance(); // consume &
-            this.advance(); // consume 2
-            return { type: "redirect", mode: "1>&2" };
-          }
-          if (this.peek() === ">") {
-            this.advance();
-            return { type: "redirect", mode: ">>" };
-          }
-          return { type: "redirect", mode: ">" };
-        }
-      }
+    // Redirects, optionally preceded by a descriptor number (2>, 3<, 10>&1)
+    if (char === ">" || char === "<") {
+      return this.readRedirect();
+    }
+
+    if (this.isAtDescriptorRedirect()) {
+      return this.readDescriptorRedirect();
     }
 
     // Variables and substitutions
@@ -226,18 +345,194 @@ export class Lexer {
       return this.readDoubleQuote();
     }
 
+    if (char === "`") {
+      throw this.error("Backtick command substitution is not supported, use $(...)");
+    }
+
     // Word (including potential globs and assignments)
-    return this.readWord();
+    const wordStart = this.pos;
+    const word = this.readWord();
+    if (word.type === "word" && this.expandAlias(word.value, wordStart)) {
+      return null;
+    }
+    return word;
+  }
+
+  /**
+   * Replace an alias name just read in command position with its text, which
+   * is then tokenized in its place. The first word of the text may be an alias
+   * too, though not the one being expanded, and when the text ends in a blank
+   * so may the word after it.
+   */
+  private expandAlias(name: string, start: number): boolean {
+    const candidate = this.commandStart || this.aliasCandidates.some((at) => at <= start);
+    const value = this.aliases.get(name);
+    // Quoted, escaped or partly expanded words are never alias names
+    if (!candidate || value === undefined || this.source.slice(start, this.pos) !== name || !this.isAtWordEnd()) {
+      return false;
+    }
+    this.activeAliases = this.activeAliases.filter((alias) => alias.end > start);
+    if (this.activeAliases.some((alias) => alias.name === name)) {
+      return false;
+    }
+
+    const delta = value.length - name.length;
+    this.aliasEdits.push({ start, removed: name.length, inserted: value.length });
+    this.source = this.source.slice(0, start) + value + this.source.slice(this.pos);
+    this.pos = start;
+    for (const alias of this.activeAliases) {
+      alias.end += delta;
+    }
+    this.activeAliases.push({ name, end: start + value.length });
+    this.aliasCandidates = this.aliasCandidates.filter((at) => at > start).map((at) => at + delta);
+    this.aliasCandidates.push(start);
+    if (/[ \t]$/.test(value)) {
+      this.aliasCandidates.push(start + value.length);
+    }
+    return true;
+  }
+
+  private isAtWordEnd(): boolean {
+    return this.isAtEnd() || /[\s;|&()<>]/.test(this.peek());
   }
 
-  private readVariable(): Token {
+  /**
+   * A token inside `[[ ... ]]`. Newlines are skipped, `<` and `>` are string
+   * operators rather than redirects, and the word after `=~` is a regex in
+   * which `(`, `)` and `|` are ordinary characters.
+   */
+  private nextConditionalToken(): Token | null {
+    const char = this.peek();
+
+    if (char === "\n") {
+      this.advance();
+      return null;
+    }
+
+    if (this.source.startsWith("]]", this.pos) && /^[\s;&|)]?$/.test(this.peekAhead(2))) {
+      this.advance();
+      this.advance();
+      this.inConditional = false;
+      this.expectRegex = false;
+      return { type: "word", value: "]]" };
+    }
+
+    if (this.expectRegex) {
+      this.expectRegex = false;
+      return this.readRegexWord();
+    }
+
+    if (this.source.startsWith("&&", this.pos) || this.source.startsWith("||", this.pos)) {
+      const type = char === "&" ? "and" : "or";
+      this.advance();
+      this.advance();
+      return { type };
+    }
+
+    if (char === "(" || char === ")") {
+      this.advance();
+      return { type: char === "(" ? "openParen" : "closeParen" };
+    }
+
+    if (char === "<" || char === ">") {
+      return { type: "word", value: this.advance() };
+    }
+
+    if (this.isWordBreak(char) && char !== "$" && char !== "'" && char !== '"') {
+      // A stray `;`, `|` or `&`, which the parser rejects
+      return { type: "word", value: this.advance() };
+    }
+
+    if (char === "\\") {
+      // An escaped character is literal, so `\*` is not a pattern
+      this.advance();
+      return { type: "singleQuote", value: this.isAtEnd() ? "\\" : this.advance() };
+    }
+
+    const token =
+      char === "$"
+        ? this.readVariable()
+        : char === "'"
+          ? this.readSingleQuote()
+          : char === '"'
+            ? this.readDoubleQuote()
+            : this.readConditionalWord();
+    if (token.type === "word" && token.value === "=~") {
+      this.expectRegex = true;
+    }
+    return token;
+  }
+
+  private readConditionalWord(): Token {
+    let value = "";
+    while (!this.isAtEnd() && this.peek() !== "\\") {
+      if (this.peek() === "(" && EXTGLOB_OPERATORS.has(value[value.length - 1]!)) {
+        const list = this.readPatternList();
+        if (list !== null) {
+          value += list;
+          continue;
+        }
+      }
+      if (this.isWordBreak(this.peek())) {
+        break;
+      }
+      value += this.advance();
+    }
+    return { type: "word", value };
+  }
+
+  // The right operand of `=~`; backslash-escaped characters match literally, like quoted ones
+  private readRegexWord(): Token {
+    const parts: Token[] = [];
+    let text = "";
+    let depth = 0;
+
+    const flushText = () => {
+      if (text !== "") {
+        parts.push({ type: "word", value: text });
+        text = "";
+      }
+    };
+
+    while (!this.isAtEnd()) {
+      const char = this.peek();
+      if (/\s/.test(char) || (char === ")" && depth === 0)) {
+        break;
+      }
+      if (char === "\\") {
+        this.advance();
+        flushText();
+        parts.push({ type: "singleQuote", value: this.isAtEnd() ? "\\" : this.advance() });
+      } else if (char === "'" || char === '"' || (char === "$" && /[{(a-zA-Z_0-9#?@*!-]/.test(this.peekAhead(1)))) {
+        flushText();
+        parts.push(char === "'" ? this.readSingleQuote() : char === '"' ? this.readDoubleQuote() : this.readVariable());
+      } else {
+        if (char === "(") depth++;
+        if (char === ")") depth--;
+        text += this.advance();
+      }
+    }
+    flushText();
+
+    if (parts.length === 0) {
+      return { type: "word", value: "" };
+    }
+    return parts.length === 1 ? parts[0]! : (parts as unknown as Token);
+  }
+
+  private readVariable(inDoubleQuote = false): Token {
+    const start = this.pos;
+    return this.spanned(start, this.readVariableToken(inDoubleQuote));
+  }
+
+  private readVariableToken(inDoubleQuote: boolean): Token {
     this.advance(); // consume $
 
     // Arithmetic expansion $((...)) or command substitution $(...)
     if (this.peek() === "(") {
       this.advance(); // consume first (
-      // Check for arithmetic expansion $((...))
-      if (this.peek() === "(") {
+      // Check for arithmetic expansion $((...)), rather than $( (subshell) )
+      if (this.peek() === "(" && findArithmeticEnd(this.source, this.pos + 1) !== -1) {
         this.advance(); // consume second (
         const expression = this.readUntilDoubleCloseParen();
         return { type: "arithmetic", expression };
@@ -246,20 +541,26 @@ export class Lexer {
       return { type: "substitution", command };
     }
 
-    // ${VAR} syntax
+    // ${VAR} and ${VAR<op>word} syntax
     if (this.peek() === "{") {
+      const end = findParameterExpansionEnd(this.source, this.pos + 1, inDoubleQuote);
+      if (end === -1) {
+        throw this.error("Unterminated parameter expansion");
+      }
       this.advance(); // consume {
-      let name = "";
-      while (!this.isAtEnd() && this.peek() !== "}") {
-        name += this.advance();
+      let body = "";
+      while (this.pos < end) {
+        body += this.advance();
       }
-      if (this.peek() === "}") {
-        this.advance(); // consume }
+      this.advance(); // consume }
+      const token = parseParameterExpansion(body);
+      if (!token) {
+        throw this.error(`Bad substitution: \${${body}}`);
       }
-      return { type: "variable", name };
+      return token;
     }
 
-    if (["#", "*", "@", "?"].includes(this.peek())) {
+    if (["#", "*", "@", "?", "!", "-"].includes(this.peek())) {
       return { type: "variable", name: this.advance() };
     }
 
@@ -281,29 +582,13 @@ export class Lexer {
   }
 
   private readUntilDoubleCloseParen(): string {
-    let depth = 1;
+    const end = findArithmeticEnd(this.source, this.pos);
     let result = "";
-
-    while (!this.isAtEnd() && depth > 0) {
-      const char = this.peek();
-      if (char === "(" && this.peekAhead(1) === "(") {
-        depth++;
-        result += this.advance();
-        result += this.advance();
-      } else if (char === ")" && this.peekAhead(1) === ")") {
-        depth--;
-        if (depth === 0) {
-          this.advance(); // consume first )
-          this.advance(); // consume second )
-          break;
-        }
-        result += this.advance();
-        result += this.advance();
-      } else {
-        result += this.advance();
-      }
+    while (this.pos < end) {
+      result += this.advance();
     }
-
+    this.advance(); // consume first )
+    this.advance(); // consume second )
     return result;
   }
 
@@ -329,6 +614,7 @@ export class Lexer {
   }
 
   private readSingleQuote(): Token {
+    const start = this.pos;
     this.advance(); // consume opening '
     let value = "";
 
@@ -339,16 +625,27 @@ export class Lexer {
     if (this.peek() === "'") {
       this.advance(); // consume closing '
     } else {
-      throw new LexError("Unterminated single quote", this.pos, this.line, this.column);
+      throw this.error("Unterminated single quote");
     }
 
-    return { type: "singleQuote", value };
+    return this.spanned(start, { type: "singleQuote", value });
   }
 
   private readDoubleQuote(): Token {
+    const start = this.pos;
     this.advance(); // consume opening "
     const parts: Array<string | Token> = [];
+    const textSpans: SourceSpan[] = [];
     let currentString = "";
+    let textStart = this.pos;
+
+    const pushText = () => {
+      if (currentString) {
+        parts.push(currentString);
+        textSpans.push(this.spanFrom(textStart));
+        currentString = "";
+      }
+    };
 
     while (!this.isAtEnd() && this.peek() !== '"') {
       const char = this.peek();
@@ -365,36 +662,65 @@ export class Lexer {
           }
         }
       } else if (char === "$") {
-        if (currentString) {
-          parts.push(currentString);
-          currentString = "";
-        }
-        parts.push(this.readVariable());
+        pushText();
+        parts.push(this.readVariable(true));
+        textStart = this.pos;
       } else {
         currentString += this.advance();
       }
     }
 
-    if (currentString) {
-      parts.push(currentString);
-    }
+    pushText();
 
     if (this.peek() === '"') {
       this.advance(); // consume closing "
     } else {
-      throw new LexError("Unterminated double quote", this.pos, this.line, this.column);
+      throw this.error("Unterminated double quote");
     }
 
-    return { type: "doubleQuote", parts };
+    const token = this.spanned(start, { type: "doubleQuote", parts });
+    Object.defineProperty(token, "textSpans", { value: textSpans, enumerable: false, writable: true, configurable: true });
+    return token;
   }
 
   private readWord(): Token {
+    const subscriptAssignment = this.readSubscriptAssignment();
+    if (subscriptAssignment) {
+      return subscriptAssignment;
+    }
+
+    if (this.peek() === "\\" && LITERAL_ESCAPES.has(this.peekAhead(1))) {
+      // An escaped pattern character, or a leading `~`, is quoted
+      this.advance();
+      return { type: "singleQuote", value: this.advance() };
+    }
+
+    const start = this.pos;
     let value = "";
     let hasGlobChars = false;
+    let escaped = false;
 
-    while (!this.isAtEnd() && !this.isWordBreak(this.peek())) {
+    while (!this.isAtEnd()) {
       const char = this.peek();
 
+      if (char === "(" && !escaped && EXTGLOB_OPERATORS.has(value[value.length - 1]!)) {
+        const list = this.readPatternList();
+        if (list !== null) {
+          value += list;
+          hasGlobChars = true;
+          continue;
+        }
+      }
+      if (this.isWordBreak(char)) {
+        break;
+      }
+      // End the word before an escaped pattern character, which is read as quoted;
+      // assignment values are neither globbed nor brace-expanded
+      if (char === "\\" && LITERAL_ESCAPES.has(this.peekAhead(1)) && !/^[a-zA-Z_][a-zA-Z0-9_]*\+?=/.test(value)) {
+        break;
+      }
+
+      escaped = char === "\\";
       if (char === "\\") {
         this.advance();
         if (!this.isAtEnd()) {
@@ -408,33 +734,49 @@ export class Lexer {
       }
     }
 
-    // Check if this looks like an assignment with value starting with $ or quote
-    // e.g., VAR=$(...) or VAR="..." or VAR='...'
-    const assignmentPrefixMatch = value.match(/^([a-zA-Z_][a-zA-Z0-9_]*)=$/);
-    if (assignmentPrefixMatch && (this.peek() === "$" || this.peek() === "'" || this.peek() === '"')) {
+    // Check if this looks like an assignment whose value goes on with $, a quote
+    // or a process substitution, e.g., VAR=$(...), VAR="...", PATH=/bin:$PATH or VAR=<(...)
+    const assignmentPrefixMatch = value.match(/^([a-zA-Z_][a-zA-Z0-9_]*)(\+?)=(.*)$/s);
+    if (assignmentPrefixMatch && (this.peek() === "$" || this.peek() === "'" || this.peek() === '"' || this.isAtProcessSubstitution())) {
       const name = assignmentPrefixMatch[1]!;
+      const prefixEnd = this.pos;
       // Read the value part
       const valueTokens = this.readAssignmentValueTokens();
+      if (assignmentPrefixMatch[3]) {
+        const prefixStart = start + name.length + assignmentPrefixMatch[2]!.length + 1;
+        valueTokens.unshift(withSpan({ type: "word", value: assignmentPrefixMatch[3] }, this.spanFrom(prefixStart, prefixEnd)));
+      }
       return {
         type: "assignment",
         name,
-        value: valueTokens.length === 1 && valueTokens[0]!.type === "word"
-          ? (valueTokens[0] as { type: "word"; value: string }).value
-          : valueTokens,
+        ...(assignmentPrefixMatch[2] ? { append: true } : {}),
+        value: this.toAssignmentValue(valueTokens),
       };
     }
 
-    // Check if this is an assignment (VAR=value)
-    const assignmentMatch = value.match(/^([a-zA-Z_][a-zA-Z0-9_]*)=(.*)$/);
+    // Array assignment: VAR=(a b c) or VAR+=(d)
+    if (assignmentPrefixMatch && assignmentPrefixMatch[3] === "" && this.peek() === "(") {
+      return {
+        type: "assignment",
+        name: assignmentPrefixMatch[1]!,
+        ...(assignmentPrefixMatch[2] ? { append: true } : {}),
+        value: "",
+        array: this.readArrayLiteral(),
+      };
+    }
+
+    // Check if this is an assignment (VAR=value or VAR+=value)
+    const assignmentMatch = value.match(/^([a-zA-Z_][a-zA-Z0-9_]*)(\+?)=(.*)$/);
     if (assignmentMatch) {
       const name = assignmentMatch[1]!;
-      const rawValue = assignmentMatch[2]!;
+      const rawValue = assignmentMatch[3]!;
 
       // Parse the value to handle variables and arithmetic
       const parsedValue = this.parseAssignmentValue(rawValue);
       return {
         type: "assignment",
         name,
+        ...(assignmentMatch[2] ? { append: true } : {}),
         value: parsedValue,
       };
     }
@@ -451,6 +793,147 @@ export class Lexer {
     return { type: "word", value };
   }
 
+  /**
+   * Read an extglob pattern list such as `(*.txt|*.md)`, which may contain
+   * spaces and `|`. Quoted characters become bracket expressions, so they
+   * match literally. Returns null, reading nothing, when the list does not
+   * close on this line.
+   */
+  private readPatternList(): string | null {
+    let depth = 0;
+    let end = this.pos;
+    while (end < this.source.length && this.source[end] !== "\n") {
+      const char = this.source[end]!;
+      if (char === "\\") {
+        end += 2;
+        continue;
+      }
+      if (char === "'" || char === '"') {
+        const close = this.source.indexOf(char, end + 1);
+        if (close === -1) {
+          return null;
+        }
+        end = close + 1;
+        continue;
+      }
+      if (char === "(") {
+        depth++;
+      } else if (char === ")" && --depth === 0) {
+        break;
+      }
+      end++;
+    }
+    if (end >= this.source.length || this.source[end] !== ")") {
+      return null;
+    }
+
+    let list = "";
+    let quote: string | null = null;
+    while (this.pos <= end) {
+      const char = this.advance();
+      if (quote) {
+        if (char === quote) {
+          quote = null;
+        } else {
+          const literal = char === "\\" && quote === '"' && /[\\"$`]/.test(this.peek()) ? this.advance() : char;
+          // Quoted pattern characters match themselves
+          list += /[*?[\]()|]/.test(literal) ? `[${literal}]` : literal;
+        }
+      } else if (char === "'" || char === '"') {
+        quote = char;
+      } else if (char === "\\") {
+        list += this.advance();
+      } else {
+        list += char;
+      }
+    }
+    return list;
+  }
+
+  // `name[index]=value` or `name[index]+=value`; the subscript may contain spaces and expansions
+  private readSubscriptAssignment(): Token | null {
+    const match = this.source.slice(this.pos).match(/^[a-zA-Z_][a-zA-Z0-9_]*\[/);
+    if (!match) {
+      return null;
+    }
+    const end = findSubscriptEnd(this.source, this.pos + match[0].length);
+    if (end === -1) {
+      return null;
+    }
+    const append = this.source[end + 1] === "+";
+    const valueStart = end + (append ? 3 : 2);
+    if (this.source[valueStart - 1] !== "=") {
+      return null;
+    }
+
+    const name = match[0].slice(0, -1);
+    const index = this.source.slice(this.pos + match[0].length, end);
+    while (this.pos < valueStart) {
+      this.advance();
+    }
+    return {
+      type: "assignment",
+      name,
+      index,
+      ...(append ? { append: true } : {}),
+      value: this.toAssignmentValue(this.readAssignmentValueTokens()),
+    };
+  }
+
+  // Read the body of `(...)` after `name=`, which may span lines
+  private readArrayLiteral(): string {
+    this.advance(); // consume (
+    let depth = 1;
+    let result = "";
+
+    while (!this.isAtEnd()) {
+      const char = this.peek();
+      if (char === "\\") {
+        result += this.advance();
+        if (!this.isAtEnd()) {
+          result += this.advance();
+        }
+        continue;
+      }
+      if (char === "'" || char === '"') {
+        const close = this.source.indexOf(char, this.pos + 1);
+        if (close === -1) {
+          break;
+        }
+        while (this.pos <= close) {
+          result += this.advance();
+        }
+        continue;
+      }
+      if (char === "(") {
+        depth++;
+      } else if (char === ")") {
+        depth--;
+        if (depth === 0) {
+          this.advance(); // consume )
+          return result;
+        }
+      }
+      result += this.advance();
+    }
+
+    throw this.error("Unterminated array assignment");
+  }
+
+  private toAssignmentValue(tokens: Token[]): string | Token[] {
+    if (tokens.length === 0) {
+      return "";
+    }
+    if (tokens.length === 1 && tokens[0]!.type === "word") {
+      return tokens[0]!.value;
+    }
+    return tokens;
+  }
+
+  private isAtProcessSubstitution(): boolean {
+    return (this.peek() === "<" || this.peek() === ">") && this.peekAhead(1) === "(";
+  }
+
   private readAssignmentValueTokens(): Token[] {
     const tokens: Token[] = [];
 
@@ -458,6 +941,14 @@ export class Lexer {
     while (!this.isAtEnd()) {
       const char = this.peek();
 
+      if (this.isAtProcessSubstitution()) {
+        const start = this.pos;
+        this.advance();
+        this.advance();
+        tokens.push(this.spanned(start, { type: "processSubstitution", op: char as "<" | ">", command: this.readUntilMatchingParen() }));
+        continue;
+      }
+
       // Stop at whitespace or command terminators
       if (char === " " || char === "\t" || char === "\n" || char === "\r" ||
           char === ";" || char === "|" || char === "&" || char === ">" || char === "<") {
@@ -472,12 +963,13 @@ export class Lexer {
         tokens.push(this.readDoubleQuote());
       } else {
         // Read until word break
+        const start = this.pos;
         let word = "";
         while (!this.isAtEnd() && !this.isWordBreak(this.peek())) {
           word += this.advance();
         }
         if (word) {
-          tokens.push({ type: "word", value: word });
+          tokens.push(this.spanned(start, { type: "word", value: word }));
         } else {
           break;
         }
@@ -512,45 +1004,25 @@ export class Lexer {
         }
 
         // Arithmetic expansion $((expr))
-        if (value[i] === "(" && value[i + 1] === "(") {
-          i += 2; // consume ((
-          let depth = 1;
-          let expr = "";
-          while (i < value.length && depth > 0) {
-            if (value[i] === "(" && value[i + 1] === "(") {
-              depth++;
-              expr += value[i]! + value[i + 1]!;
-              i += 2;
-            } else if (value[i] === ")" && value[i + 1] === ")") {
-              depth--;
-              if (depth > 0) {
-                expr += value[i]! + value[i + 1]!;
-                i += 2;
-              } else {
-                i += 2; // consume ))
-              }
-            } else {
-              expr += value[i];
-              i++;
-            }
-          }
+        if (value[i] === "(" && value[i + 1] === "(" && findArithmeticEnd(value, i + 2) !== -1) {
+          const close = findArithmeticEnd(value, i + 2);
+          const expr = value.slice(i + 2, close);
+          i = close + 2;
           tokens.push({ type: "arithmetic", expression: expr });
         }
-        // ${VAR} syntax
+        // ${VAR} and ${VAR<op>word} syntax
         else if (value[i] === "{") {
-          i++; // consume {
-          let varName = "";
-          while (i < value.length && value[i] !== "}") {
-            varName += value[i];
-            i++;
-          }
-          if (i < value.length && value[i] === "}") {
-            i++; // consume }
+          const end = findParameterExpansionEnd(value, i + 1);
+          const body = value.slice(i + 1, end === -1 ? value.length : end);
+          const token = end === -1 ? null : parseParameterExpansion(body);
+          if (!token) {
+            throw this.error(`Bad substitution: \${${body}}`);
           }
-          tokens.push({ type: "variable", name: varName });
+          tokens.push(token);
+          i = end + 1;
         }
         // Special and positional parameters
-        else if (["#", "*", "@", "?"].includes(value[i]!)) {
+        else if (["#", "*", "@", "?", "!", "-"].includes(value[i]!)) {
           tokens.push({ type: "variable", name: value[i]! });
           i++;
         }
@@ -603,7 +1075,83 @@ export class Lexer {
     return tokens.length > 0 ? tokens : value;
   }
 
-  private readHeredoc(): Token {
+  // Digits directly followed by a redirect operator, as in `2>` or `10<&0`
+  private isAtDescriptorRedirect(): boolean {
+    let length = 0;
+    while (/[0-9]/.test(this.peekAhead(length))) {
+      length++;
+    }
+    if (length === 0) {
+      return false;
+    }
+    // Heredocs (`<<`) take no descriptor, here-strings (`<<<`) do
+    const operator = this.source.slice(this.pos + length, this.pos + length + 3);
+    return operator.startsWith(">") || (operator.startsWith("<") && !/^<<(?!<)/.test(operator));
+  }
+
+  private readDescriptorRedirect(): Token | null {
+    const start = this.pos;
+    let digits = "";
+    while (/[0-9]/.test(this.peek())) {
+      digits += this.advance();
+    }
+    return this.readRedirect(Number(digits), start);
+  }
+
+  // Returns null when the tokens were queued instead, as for `2>&1`
+  private readRedirect(fd?: number, start: number = this.pos): Token | null {
+    const char = this.advance();
+    const next = this.peek();
+    let token: Token & { type: "redirect" };
+
+    if (char === "<") {
+      if (next === "<" && this.peekAhead(1) === "<") {
+        this.advance();
+        this.advance();
+        token = { type: "redirect", op: "<<<" };
+      } else if (next === "<") {
+        this.advance();
+        return this.readHeredoc(start);
+      } else if (next === ">" || next === "&") {
+        this.advance();
+        token = { type: "redirect", op: next === ">" ? "<>" : "<&" };
+      } else {
+        token = { type: "redirect", op: "<" };
+      }
+    } else if (next === ">" || next === "|" || next === "&") {
+      this.advance();
+      token = { type: "redirect", op: next === ">" ? ">>" : next === "|" ? ">|" : ">&" };
+    } else {
+      token = { type: "redirect", op: ">" };
+    }
+
+    if (fd !== undefined) {
+      token.fd = fd;
+    }
+    if (token.op !== ">&" && token.op !== "<&") {
+      return token;
+    }
+
+    // The `1` of `2>&1` (or the `-` of `3>&-`) is read here as its own word,
+    // so that a redirect written right after it, as in `2>&1>log`, still lexes
+    let descriptor = "";
+    while (/[0-9]/.test(this.peek())) {
+      descriptor += this.advance();
+    }
+    if (descriptor === "" && this.peek() === "-") {
+      descriptor = this.advance();
+    }
+    if (descriptor === "") {
+      return token;
+    }
+    const descriptorStart = this.pos - descriptor.length;
+    withSpan(token, this.spanFrom(start, descriptorStart));
+    this.tokenQueue.push(token, this.spanned(descriptorStart, { type: "word", value: descriptor }));
+    return null;
+  }
+
+  // The token spans `<<EOF`; the body follows the rest of the line
+  private readHeredoc(start: number): Token {
     // Check for tab-stripping variant (<<-)
     const stripTabs = this.peek() === "-";
     if (stripTabs) {
@@ -617,11 +1165,13 @@ export class Lexer {
 
     // Read delimiter and determine if expansion is enabled
     const { delimiter, expand } = this.readHeredocDelimiter();
+    const span = this.spanFrom(start);
 
     // Tokenize the rest of the current line and queue those tokens
     this.tokenizeRestOfLine();
 
     // Skip the newline that starts the heredoc content
+    const newlineStart = this.pos;
     if (this.peek() === "\n") {
       this.advance();
     }
@@ -660,7 +1210,12 @@ export class Lexer {
       }
     }
 
-    return { type: "heredoc", content, expand };
+    // The newline skipped above still ends the command line the heredoc was on
+    if (this.preserveNewlines && !this.isAtEnd()) {
+      this.tokenQueue.push(withSpan({ type: "newline" }, this.spanFrom(newlineStart, newlineStart + 1)));
+    }
+
+    return withSpan({ type: "heredoc", content, expand }, span);
   }
 
   private readHeredocDelimiter(): { delimiter: string; expand: boolean } {
@@ -704,9 +1259,10 @@ export class Lexer {
       }
       if (this.isAtEnd() || this.peek() === "\n") break;
 
+      const start = this.pos;
       const token = this.readRestOfLineToken();
       if (token) {
-        this.tokenQueue.push(token);
+        this.tokenQueue.push(token.span ? token : this.spanned(start, token));
       }
     }
   }
@@ -729,7 +1285,7 @@ export class Lexer {
         this.advance();
         return { type: "and" };
       }
-      return { type: "word", value: "&" };
+      return { type: "background" };
     }
 
     if (char === ";") {
@@ -737,18 +1293,17 @@ export class Lexer {
       return { type: "semicolon" };
     }
 
-    if (char === ">") {
-      this.advance();
-      if (this.peek() === ">") {
+    if (char === ">" || char === "<") {
+      // A second heredoc on the same line is not supported
+      if (/^<<(?!<)/.test(this.source.slice(this.pos, this.pos + 3))) {
         this.advance();
-        return { type: "redirect", mode: ">>" };
+        return { type: "redirect", op: "<" };
       }
-      return { type: "redirect", mode: ">" };
+      return this.readRedirect();
     }
 
-    if (char === "<") {
-      this.advance();
-      return { type: "redirect", mode: "<" };
+    if (this.isAtDescriptorRedirect()) {
+      return this.readDescriptorRedirect();
     }
 
     if (char === "$") {
@@ -815,15 +1370,7 @@ export class Lexer {
   }
 
   private advance(): string {
-    const char = this.source[this.pos]!;
-    this.pos++;
-    if (char === "\n") {
-      this.line++;
-      this.column = 1;
-    } else {
-      this.column++;
-    }
-    return char;
+    return this.source[this.pos++]!;
   }
 
   private isAtEnd(): boolean {
@@ -831,6 +1378,200 @@ export class Lexer {
   }
 }
 
-export function lex(source: string, options?: { preserveNewlines?: boolean }): Token[] {
+const PARAMETER_NAME = /^(?:[a-zA-Z_][a-zA-Z0-9_]*|[0-9]+|[#*@?!-])/;
+const PARAMETER_OPERATORS: ParameterOperator[] = [":-", ":=", ":?", ":+", "-", "=", "?", "+", "##", "#", "%%", "%"];
+
+/**
+ * Find the `}` closing a `${` expansion whose body starts at `start`, skipping
+ * nested braces, quotes, escapes and `$(...)` substitutions. Returns -1 when
+ * the expansion is unterminated.
+ */
+export function findParameterExpansionEnd(source: string, start: number, inDoubleQuote = false): number {
+  let depth = 1;
+  let i = start;
+
+  while (i < source.length) {
+    const char = source[i]!;
+    if (char === "\\") {
+      i += 2;
+    } else if (char === "'" && !inDoubleQuote) {
+      const close = source.indexOf("'", i + 1);
+      if (close === -1) return -1;
+      i = close + 1;
+    } else if (char === '"') {
+      i++;
+      while (i < source.length && source[i] !== '"') {
+        i += source[i] === "\\" ? 2 : 1;
+      }
+      if (i >= source.length) return -1;
+      i++;
+    } else if (char === "$" && source[i + 1] === "(") {
+      let parens = 1;
+      i += 2;
+      while (i < source.length && parens > 0) {
+        if (source[i] === "(") parens++;
+        else if (source[i] === ")") parens--;
+        i++;
+      }
+      if (parens > 0) return -1;
+    } else {
+      if (char === "{") {
+        depth++;
+      } else if (char === "}") {
+        depth--;
+        if (depth === 0) return i;
+      }
+      i++;
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * Parse the body of a `${...}` expansion into a variable or parameter
+ * expansion token. Returns null for a bad substitution.
+ */
+export function parseParameterExpansion(body: string): Token | null {
+  if (body.startsWith("!") && body.length > 1) {
+    const parameter = parseParameterName(body.slice(1));
+    if (!parameter || parameter.rest !== "" || (parameter.index !== "@" && parameter.index !== "*")) {
+      return null;
+    }
+    return { type: "parameterExpansion", name: parameter.name, index: parameter.index, operator: "keys" };
+  }
+
+  if (body.startsWith("#") && body.length > 1) {
+    const parameter = parseParameterName(body.slice(1));
+    return parameter && parameter.rest === ""
+      ? { type: "parameterExpansion", ...withIndex(parameter), operator: "length" }
+      : null;
+  }
+
+  const parameter = parseParameterName(body);
+  if (!parameter) return null;
+  const { rest } = parameter;
+
+  if (rest === "") {
+    return { type: "variable", ...withIndex(parameter) };
+  }
+
+  if (rest.startsWith("/")) {
+    const operator: ParameterOperator = rest[1] === "/" || rest[1] === "#" || rest[1] === "%"
+      ? (rest.slice(0, 2) as ParameterOperator)
+      : "/";
+    const [operand, replacement] = splitExpansionOperand(rest.slice(operator.length), "/");
+    return { type: "parameterExpansion", ...withIndex(parameter), operator, operand, replacement };
+  }
+
+  for (const operator of PARAMETER_OPERATORS) {
+    if (rest.startsWith(operator)) {
+      return { type: "parameterExpansion", ...withIndex(parameter), operator, operand: rest.slice(operator.length) };
+    }
+  }
+
+  if (rest.startsWith(":")) {
+    const [operand, replacement] = splitExpansionOperand(rest.slice(1), ":");
+    return { type: "parameterExpansion", ...withIndex(parameter), operator: ":", operand, replacement };
+  }
+
+  return null;
+}
+
+interface ParameterName {
+  name: string;
+  index?: string;
+  rest: string;
+}
+
+// The parameter at the start of an expansion body, with its `[index]` subscript if it has one
+function parseParameterName(body: string): ParameterName | null {
+  const match = body.match(PARAMETER_NAME);
+  if (!match) return null;
+  const name = match[0];
+  if (body[name.length] !== "[" || !/^[a-zA-Z_]/.test(name)) {
+    return { name, rest: body.slice(name.length) };
+  }
+  const end = findSubscriptEnd(body, name.length + 1);
+  if (end === -1) return null;
+  return { name, index: body.slice(name.length + 1, end), rest: body.slice(end + 1) };
+}
+
+function withIndex(parameter: ParameterName): { name: string; index?: string } {
+  return parameter.index === undefined ? { name: parameter.name } : { name: parameter.name, index: parameter.index };
+}
+
+/**
+ * Find the `]` closing a subscript that starts at `start`, skipping nested
+ * brackets, quotes and escapes. Returns -1 when the subscript is unterminated.
+ */
+/**
+ * Find the `))` that closes an arithmetic expression starting at `start`,
+ * just after its `((`. Returns -1 if a `)` closes it first, as in the nested
+ * subshells `((cd dir); ls)`, or if it is never closed.
+ */
+export function findArithmeticEnd(source: string, start: number): number {
+  let depth = 0;
+
+  for (let i = start; i < source.length; i++) {
+    const char = source[i];
+    if (char === "(") {
+      depth++;
+    } else if (char === ")") {
+      if (depth > 0) {
+        depth--;
+      } else {
+        return source[i + 1] === ")" ? i : -1;
+      }
+    }
+  }
+
+  return -1;
+}
+
+export function findSubscriptEnd(source: string, start: number): number {
+  let depth = 1;
+  let i = start;
+
+  while (i < source.length) {
+    const char = source[i]!;
+    if (char === "\\") {
+      i += 2;
+    } else if (char === "'" || char === '"') {
+      const close = source.indexOf(char, i + 1);
+      if (close === -1) return -1;
+      i = close + 1;
+    } else {
+      if (char === "[") {
+        depth++;
+      } else if (char === "]") {
+        depth--;
+        if (depth === 0) return i;
+      }
+      i++;
+    }
+  }
+
+  return -1;
+}
+
+function splitExpansionOperand(operand: string, separator: string): [string, string | undefined] {
+  let quote: string | null = null;
+  for (let i = 0; i < operand.length; i++) {
+    const char = operand[i]!;
+    if (char === "\\") {
+      i++;
+    } else if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === "'" || char === '"') {
+      quote = char;
+    } else if (char === separator) {
+      return [operand.slice(0, i), operand.slice(i + 1)];
+    }
+  }
+  return [operand, undefined];
+}
+
+export function lex(source: string, options?: LexerOptions): Token[] {
   return new Lexer(source, options).tokenize();
 }
@@ -1,13 +1,56 @@
-export type RedirectMode =
+// Redirect operators; the descriptor they apply to is carried separately
+export type RedirectOp =
+  | "<"
   | ">"
   | ">>"
-  | "<"
-  | "2>"
-  | "2>>"
+  | ">|"
+  | "<>"
+  | "<<<"
+  | ">&"
+  | "<&"
   | "&>"
-  | "&>>"
-  | "2>&1"
-  | "1>&2";
+  | "&>>";
+
+export type ParameterOperator =
+  | ":-"
+  | "-"
+  | ":="
+  | "="
+  | ":?"
+  | "?"
+  | ":+"
+  | "+"
+  | "#"
+  | "##"
+  | "%"
+  | "%%"
+  | "/"
+  | "//"
+  | "/#"
+  | "/%"
+  | ":"
+  | "length"
+  | "keys";
+
+/**
+ * Where a token or node was read from: offsets into the source from `start`
+ * up to but not including `end`, and the 1-based line and column of `start`.
+ */
+export interface SourceSpan {
+  start: number;
+  end: number;
+  line: number;
+  column: number;
+}
+
+/**
+ * Attach a span to a token or node. It is not enumerable, so it stays out of
+ * JSON, equality checks and spreads.
+ */
+export function withSpan<T extends object>(target: T, span: SourceSpan): T {
+  Object.defineProperty(target, "span", { value: span, enumerable: false, writable: true, configurable: true });
+  return target;
+}
 
 export type KeywordValue =
   | "if"
@@ -40,27 +83,44 @@ export const KEYWORDS = new Set<string>([
   "esac",
 ]);
 
-export type Token =
+export type Token = (
   | { type: "word"; value: string }
   | { type: "keyword"; value: KeywordValue }
   | { type: "pipe" }
   | { type: "and" }
   | { type: "or" }
+  | { type: "background" }
   | { type: "semicolon" }
   | { type: "newline" }
-  | { type: "redirect"; mode: RedirectMode }
-  | { type: "variable"; name: string }
+  | { type: "redirect"; op: RedirectOp; fd?: number }
+  // `index` is the raw subscript of `${name[index]}`
+  | { type: "variable"; name: string; index?: string }
+  | {
+      type: "parameterExpansion";
+      name: string;
+      index?: string;
+      operator: ParameterOperator;
+      operand?: string;
+      replacement?: string;
+    }
   | { type: "substitution"; command: string }
+  // `<(command)` or `>(command)`, which expands to a `/dev/fd` path
+  | { type: "processSubstitution"; op: "<" | ">"; command: string }
   | { type: "arithmetic"; expression: string }
+  // `(( expression ))` as a command
+  | { type: "arithmeticCommand"; expression: string }
   | { type: "glob"; pattern: string }
   | { type: "singleQuote"; value: string }
-  | { type: "doubleQuote"; parts: Array<string | Token> }
-  | { type: "assignment"; name: string; value: string | Token[] }
+  // `textSpans` locates the string parts in order; like `span`, it is not enumerable
+  | { type: "doubleQuote"; parts: Array<string | Token>; textSpans?: SourceSpan[] }
+  // `name[index]=value`, `name+=value`, or with `array` the raw body of `name=(...)`
+  | { type: "assignment"; name: string; value: string | Token[]; index?: string; append?: boolean; array?: string }
   | { type: "heredoc"; content: string; expand: boolean }
   | { type: "openParen" }
   | { type: "closeParen" }
   | { type: "doubleSemicolon" }
-  | { type: "eof" };
+  | { type: "eof" }
+) & { span?: SourceSpan };
 
 export function tokenToString(token: Token): string {
   switch (token.type) {
@@ -74,26 +134,51 @@ export function tokenToString(token: Token): string {
       return "&&";
     case "or":
       return "||";
+    case "background":
+      return "&";
     case "semicolon":
       return ";";
     case "newline":
       return "\n";
     case "redirect":
-      return token.mode;
+      return `${token.fd ?? ""}${token.op}`;
     case "variable":
-      return `$${token.name}`;
+      return token.index === undefined ? `$${token.name}` : `\${${token.name}[${token.index}]}`;
+    case "parameterExpansion": {
+      const name = token.index === undefined ? token.name : `${token.name}[${token.index}]`;
+      if (token.operator === "length") {
+        return `\${#${name}}`;
+      }
+      if (token.operator === "keys") {
+        return `\${!${name}}`;
+      }
+      if (token.replacement !== undefined) {
+        const separator = token.operator === ":" ? ":" : "/";
+        return `\${${name}${token.operator}${token.operand ?? ""}${separator}${token.replacement}}`;
+      }
+      return `\${${name}${token.operator}${token.operand ?? ""}}`;
+    }
     case "substitution":
       return `$(${token.command})`;
+    case "processSubstitution":
+      return `${token.op}(${token.command})`;
     case "arithmetic":
       return `$((${token.expression}))`;
+    case "arithmeticCommand":
+      return `((${token.expression}))`;
     case "glob":
       return token.pattern;
     case "singleQuote":
       return `'${token.value}'`;
     case "doubleQuote":
       return `"${token.parts.map((p) => (typeof p === "string" ? p : tokenToString(p))).join("")}"`;
-    case "assignment":
-      return `${token.name}=${typeof token.value === "string" ? token.value : token.value.map(tokenToString).join("")}`;
+    case "assignment": {
+      const target = `${token.name}${token.index === undefined ? "" : `[${token.index}]`}${token.append ? "+" : ""}`;
+      if (token.array !== undefined) {
+        return `${target}=(${token.array})`;
+      }
+      return `${target}=${typeof token.value === "string" ? token.value : token.value.map(tokenToString).join("")}`;
+    }
     case "heredoc":
       return `<<${token.expand ? "EOF" : "'EOF'"}\n${token.content}\nEOF`;
     case "openParen":
@@ -0,0 +1,482 @@
+import * as path from "path";
+import type { Command } from "./types.ts";
+import type { ASTNode, CommandNode, Redirect, WordNode, WordPart } from "./parser/ast.ts";
+import type { Token, SourceSpan } from "./lexer/tokens.ts";
+import { tokenToString } from "./lexer/tokens.ts";
+import { Lexer } from "./lexer/lexer.ts";
+import { Parser } from "./parser/parser.ts";
+import { LexError, ParseError } from "./errors.ts";
+import { FileSystem, type PermissionRules } from "./fs/real-fs.ts";
+import { isDevNullPath, parseDevFdPath } from "./fs/special-files.ts";
+
+export type LintRule =
+  | "syntax-error"
+  | "unsupported-syntax"
+  | "unknown-command"
+  | "unquoted-expansion"
+  | "unreachable-code"
+  | "break-outside-loop"
+  | "read-only-redirect";
+
+export type LintSeverity = "error" | "warning";
+
+/**
+ * A problem found in a script. Lines and columns count from 1, and the range
+ * ends just before `endLine`:`endColumn`.
+ */
+export interface LintDiagnostic {
+  rule: LintRule;
+  severity: LintSeverity;
+  message: string;
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+}
+
+export interface LintOptions {
+  // The commands the script will run with; without them commands are not checked
+  commands?: Record<string, Command>;
+  // The filesystem's permission rules, to check the paths redirects write to
+  permissions?: PermissionRules;
+  // The directory relative redirect targets are resolved against, `/` by default
+  cwd?: string;
+}
+
+const SEVERITIES: Record<LintRule, LintSeverity> = {
+  "syntax-error": "error",
+  "unsupported-syntax": "error",
+  "unknown-command": "error",
+  "unquoted-expansion": "warning",
+  "unreachable-code": "warning",
+  "break-outside-loop": "error",
+  "read-only-redirect": "error",
+};
+
+// Bash reserved words and commands that parse as ordinary commands here
+const UNSUPPORTED_COMMANDS: Record<string, string> = {
+  "!": "Negating a pipeline with `!` is not supported",
+  time: "`time` is not supported",
+  coproc: "`coproc` is not supported",
+};
+
+// Special parameters whose values never split
+const UNSPLIT_PARAMETERS = new Set(["#", "?", "$", "!", "-"]);
+
+const WRITE_REDIRECTS = new Set<Redirect["op"]>([">", ">>", ">|", "<>", "&>", "&>>"]);
+
+interface LintScope {
+  // Inside a loop, where `break` and `continue` apply
+  loop: boolean;
+  // Inside a function body, which may be called from a loop
+  function: boolean;
+}
+
+// The part of a span diagnostics need
+type SourceRange = Pick<SourceSpan, "start" | "end">;
+
+/**
+ * Check a script without running it: syntax errors and syntax this shell
+ * does not support, commands missing from `commands`, unquoted expansions
+ * that will be split and globbed, code after `exit`, `break` and `continue`
+ * outside loops, and redirects writing to paths `permissions` make read-only.
+ * Diagnostics come in source order.
+ */
+export function lintScript(source: string, options: LintOptions = {}): LintDiagnostic[] {
+  return new ScriptLinter(source, options).lint();
+}
+
+class ScriptLinter {
+  private diagnostics: Array<{ rule: LintRule; message: string; range: SourceRange }> = [];
+  private lineStarts: number[] = [0];
+  // Names the script defines as functions or aliases, which count as commands
+  private definedCommands = new Set<string>();
+  private permissions?: FileSystem;
+
+  constructor(
+    private source: string,
+    private options: LintOptions
+  ) {
+    for (let i = 0; i < source.length; i++) {
+      if (source[i] === "\n") {
+        this.lineStarts.push(i + 1);
+      }
+    }
+    if (options.permissions) {
+      this.permissions = new FileSystem(undefined, options.permissions);
+    }
+  }
+
+  lint(): LintDiagnostic[] {
+    const lexer = new Lexer(this.source, { preserveNewlines: true });
+    let tokens: Token[];
+    try {
+      tokens = lexer.tokenize();
+    } catch (err) {
+      if (!(err instanceof LexError)) {
+        throw err;
+      }
+      const message = err.message.replace(/^Lex error at line \d+, column \d+: /, "");
+      const rule = message.includes("not supported") ? "unsupported-syntax" : "syntax-error";
+      this.report(rule, message, { start: err.position, end: Math.min(err.position + 1, this.source.length) });
+      return this.results();
+    }
+
+    this.checkTokens(tokens);
+
+    let ast: ASTNode;
+    try {
+      ast = new Parser(tokens).parse();
+    } catch (err) {
+      if (!(err instanceof ParseError)) {
+        throw err;
+      }
+      // A parse error where unsupported syntax was already reported is the same problem
+      const position = err.position ?? this.source.length;
+      if (!this.diagnostics.some(({ range }) => range.start <= position && position < range.end)) {
+        this.report("syntax-error", err.message, { start: position, end: Math.min(position + 1, this.source.length) });
+      }
+      return this.results();
+    }
+
+    this.collectDefinitions(ast);
+    this.visit(ast, { loop: false, function: false });
+    return this.results();
+  }
+
+  // Operators and quoting that lex as something else here
+  private checkTokens(tokens: Token[]): void {
+    for (let i = 0; i < tokens.length - 1; i++) {
+      const token = tokens[i]!;
+      const next = tokens[i + 1]!;
+      if (Array.isArray(token)) {
+        this.checkWordTokens(token as Token[]);
+        continue;
+      }
+
+      const range = token.span;
+      const nextRange = next.span;
+      if (!range || !nextRange || range.end !== nextRange.start || Array.isArray(next) || next.type !== "background") {
+        continue;
+      }
+      const joined = { start: range.start, end: nextRange.end };
+      if (token.type === "pipe") {
+        this.report("unsupported-syntax", "`|&` is not supported, use `2>&1 |`", joined);
+      } else if (token.type === "semicolon" || token.type === "doubleSemicolon") {
+        this.report("unsupported-syntax", `\`${tokenToString(token)}&\` case fall-through is not supported`, joined);
+      }
+    }
+  }
+
+  // `$'...'`, `$"..."` and `$[...]`, which lex as a literal `$` before a quote or pattern
+  private checkWordTokens(tokens: Token[]): void {
+    for (let i = 0; i < tokens.length - 1; i++) {
+      const token = tokens[i]!;
+      const next = tokens[i + 1]!;
+      const range = token.span;
+      const nextRange = next.span;
+      if (token.type !== "word" || !token.value.endsWith("$") || !range || !nextRange) {
+        continue;
+      }
+      const dollar = range.end - 1;
+      if (this.source[dollar] !== "$" || this.source[dollar - 1] === "\\") {
+        continue;
+      }
+      const joined = { start: dollar, end: nextRange.end };
+      if (next.type === "singleQuote") {
+        this.report("unsupported-syntax", "`$'...'` quoting is not supported", joined);
+      } else if (next.type === "doubleQuote") {
+        this.report("unsupported-syntax", '`$"..."` quoting is not supported', joined);
+      } else if (next.type === "glob" && next.pattern.startsWith("[")) {
+        this.report("unsupported-syntax", "`$[...]` is not supported, use `$((...))`", joined);
+      }
+    }
+  }
+
+  private collectDefinitions(node: ASTNode): void {
+    if (node.type === "function") {
+      this.definedCommands.add(node.name);
+    } else if (node.type === "command" && staticText(node.name) === "alias") {
+      for (const arg of node.args) {
+        const name = staticText(arg)?.match(/^([^=]+)=/)?.[1];
+        if (name !== undefined) {
+          this.definedCommands.add(name);
+        }
+      }
+    }
+    for (const child of childNodes(node)) {
+      this.collectDefinitions(child);
+    }
+  }
+
+  private visit(node: ASTNode, scope: LintScope): void {
+    switch (node.type) {
+      case "command":
+        this.checkCommand(node, scope);
+        return;
+      case "sequence":
+        this.checkReachability(node.commands);
+        break;
+      case "for":
+        for (const item of node.items) {
+          this.checkWord(item, true, scope);
+        }
+        this.visit(node.body, { ...scope, loop: true });
+        return;
+      case "arithmeticFor":
+      case "while":
+      case "until":
+        for (const child of childNodes(node)) {
+          this.visit(child, { ...scope, loop: true });
+        }
+        return;
+      case "case":
+        this.checkWord(node.word, false, scope);
+        break;
+      case "function":
+        this.visit(node.body, { ...scope, loop: false, function: true });
+        return;
+      case "subshell":
+      case "group":
+        this.checkRedirects(node.redirects, scope);
+        break;
+      case "conditionalCommand":
+        for (const word of conditionalWords(node.expression)) {
+          this.checkWord(word, false, scope);
+        }
+        return;
+    }
+
+    for (const child of childNodes(node)) {
+      this.visit(child, scope);
+    }
+  }
+
+  private checkCommand(node: CommandNode, scope: LintScope): void {
+    for (const assignment of node.assignments) {
+      this.checkWord(assignment.value, false, scope);
+      for (const element of assignment.elements ?? []) {
+        this.checkWord(element.value, false, scope);
+      }
+    }
+    this.checkWord(node.name, true, scope);
+    for (const arg of node.args) {
+      this.checkWord(arg, true, scope);
+    }
+    this.checkRedirects(node.redirects, scope);
+
+    const name = staticText(node.name);
+    const range = node.name.span;
+    if (name === undefined || name === "" || !range) {
+      return;
+    }
+
+    if ((name === "break" || name === "continue") && !scope.loop && !scope.function) {
+      this.report("break-outside-loop", `\`${name}\` is only meaningful in a loop`, range);
+    }
+
+    const commands = this.options.commands;
+    if (commands?.[name] || this.definedCommands.has(name) || name.includes("/")) {
+      return;
+    }
+    const unsupported = UNSUPPORTED_COMMANDS[name];
+    if (unsupported !== undefined) {
+      this.report("unsupported-syntax", unsupported, range);
+    } else if (commands) {
+      this.report("unknown-command", `${name}: command not found`, range);
+    }
+  }
+
+  /**
+   * Warn about unquoted expansions in words that are split into fields, and
+   * check the commands of `$(...)` and `<(...)` wherever they appear.
+   */
+  private checkWord(word: WordNode, split: boolean, scope: LintScope): void {
+    const range = word.span;
+    let warned = false;
+    for (const part of word.parts) {
+      if (split && !warned && range && isSplitExpansion(part)) {
+        const expansion = part.type === "substitution" ? "command substitution" : `expansion of $${part.name}`;
+        this.report("unquoted-expansion", `Unquoted ${expansion} is split into words and globbed; quote it`, range);
+        warned = true;
+      }
+      if (part.type === "substitution" || part.type === "processSubstitution") {
+        this.visit(part.command, scope);
+      } else if (part.type === "parameterExpansion" || part.type === "variable") {
+        const words = part.type === "variable" ? [part.index] : [part.index, part.operand, part.replacement];
+        for (const inner of words) {
+          if (inner) {
+            this.checkWord(inner, false, scope);
+          }
+        }
+      }
+    }
+  }
+
+  private checkRedirects(redirects: Redirect[], scope: LintScope): void {
+    for (const redirect of redirects) {
+      if (redirect.op === "<<") {
+        continue;
+      }
+      this.checkWord(redirect.target, false, scope);
+
+      const target = staticText(redirect.target);
+      const range = redirect.target.span;
+      if (!this.permissions || !WRITE_REDIRECTS.has(redirect.op) || !target || !range) {
+        continue;
+      }
+      if (isDevNullPath(target) || parseDevFdPath(target) !== undefined) {
+        continue;
+      }
+      const resolved = path.posix.resolve(this.options.cwd ?? "/", target);
+      const permission = this.permissions.getPermission(resolved);
+      if (permission !== "read-write") {
+        this.report("read-only-redirect", `Redirect writes to ${resolved}, which is ${permission}`, range);
+      }
+    }
+  }
+
+  // Report the commands after one that always exits, once per list
+  private checkReachability(commands: ASTNode[]): void {
+    const exitAt = commands.findIndex(alwaysExits);
+    if (exitAt === -1 || exitAt === commands.length - 1) {
+      return;
+    }
+    const first = commands[exitAt + 1]!.span;
+    const last = commands[commands.length - 1]!.span;
+    if (first && last) {
+      this.report("unreachable-code", "Unreachable code after `exit`", { start: first.start, end: last.end });
+    }
+  }
+
+  private report(rule: LintRule, message: string, range: SourceRange): void {
+    this.diagnostics.push({ rule, message, range });
+  }
+
+  private results(): LintDiagnostic[] {
+    return this.diagnostics
+      .sort((a, b) => a.range.start - b.range.start)
+      .map(({ rule, message, range }) => {
+        const start = this.position(range.start);
+        const end = this.position(range.end);
+        return {
+          rule,
+          severity: SEVERITIES[rule],
+          message,
+          line: start.line,
+          column: start.column,
+          endLine: end.line,
+          endColumn: end.column,
+        };
+      });
+  }
+
+  private position(offset: number): { line: number; column: number } {
+    let line = this.lineStarts.length - 1;
+    while (line > 0 && this.lineStarts[line]! > offset) {
+      line--;
+    }
+    return { line: line + 1, column: offset - this.lineStarts[line]! + 1 };
+  }
+}
+
+// The nodes directly inside a node, not counting those in its words
+function childNodes(node: ASTNode): ASTNode[] {
+  switch (node.type) {
+    case "pipeline":
+    case "sequence":
+      return node.commands;
+    case "and":
+    case "or":
+      return [node.left, node.right];
+    case "if":
+      return [
+        node.condition,
+        node.thenBranch,
+        ...node.elifBranches.flatMap((branch) => [branch.condition, branch.body]),
+        ...(node.elseBranch ? [node.elseBranch] : []),
+      ];
+    case "while":
+    case "until":
+      return [node.condition, node.body];
+    case "case":
+      return node.clauses.map((clause) => clause.body);
+    case "for":
+    case "arithmeticFor":
+    case "function":
+    case "subshell":
+    case "group":
+    case "background":
+      return [node.body];
+    case "command":
+    case "arithmeticCommand":
+    case "conditionalCommand":
+      return [];
+  }
+}
+
+function conditionalWords(expression: Extract<ASTNode, { type: "conditionalCommand" }>["expression"]): WordNode[] {
+  switch (expression.type) {
+    case "unary":
+      return [expression.operand];
+    case "binary":
+      return [expression.left, expression.right];
+    case "string":
+      return [expression.word];
+    case "not":
+      return conditionalWords(expression.expression);
+    case "and":
+    case "or":
+      return [...conditionalWords(expression.left), ...conditionalWords(expression.right)];
+  }
+}
+
+// Whether running the node always exits the shell, so nothing after it runs
+function alwaysExits(node: ASTNode): boolean {
+  switch (node.type) {
+    case "command":
+      return staticText(node.name) === "exit";
+    case "sequence":
+      return node.commands.some(alwaysExits);
+    case "group":
+      return alwaysExits(node.body);
+    case "and":
+    case "or":
+      return alwaysExits(node.left);
+    case "if":
+      return (
+        node.elseBranch !== undefined &&
+        [node.thenBranch, ...node.elifBranches.map((branch) => branch.body), node.elseBranch].every(alwaysExits)
+      );
+    default:
+      return false;
+  }
+}
+
+function isSplitExpansion(part: WordPart): part is Extract<WordPart, { type: "variable" | "parameterExpansion" | "substitution" }> {
+  if (part.quoted) {
+    return false;
+  }
+  switch (part.type) {
+    case "variable":
+      return !UNSPLIT_PARAMETERS.has(part.name);
+    case "parameterExpansion":
+      return part.operator !== "length" && !UNSPLIT_PARAMETERS.has(part.name);
+    case "substitution":
+      return true;
+    default:
+      return false;
+  }
+}
+
+// The text of a word without expansions, or undefined when it has any
+function staticText(word: WordNode): string | undefined {
+  let text = "";
+  for (const part of word.parts) {
+    if (part.type !== "text") {
+      return undefined;
+    }
+    text += part.value;
+  }
+  return text;
+}
@@ -0,0 +1,310 @@
+import { ParseError } from "../errors.ts";
+import { findSubscriptEnd } from "../lexer/lexer.ts";
+import type {
+  ArithmeticAssignmentOperator,
+  ArithmeticBinaryOperator,
+  ArithmeticExpression,
+  ArithmeticVariable,
+} from "./ast.ts";
+
+type ArithmeticToken =
+  | { type: "number"; text: string; pos: number }
+  | { type: "variable"; name: string; subscript?: string; pos: number }
+  | { type: "operator"; value: string; pos: number }
+  | { type: "end"; pos: number };
+
+// Longest first, so `<<=` is not read as `<<` followed by `=`
+const OPERATORS = [
+  "<<=", ">>=", "**", "++", "--", "<<", ">>", "<=", ">=", "==", "!=", "&&", "||",
+  "*=", "/=", "%=", "+=", "-=", "&=", "^=", "|=",
+  "+", "-", "*", "/", "%", "<", ">", "=", "!", "~", "&", "^", "|", "?", ":", ",", "(", ")",
+];
+
+const ASSIGNMENT_OPERATORS = new Set(["=", "*=", "/=", "%=", "+=", "-=", "<<=", ">>=", "&=", "^=", "|="]);
+
+// Binary operators from loosest to tightest; `**` is right-associative
+const BINARY_PRECEDENCE: ArithmeticBinaryOperator[][] = [
+  ["||"],
+  ["&&"],
+  ["|"],
+  ["^"],
+  ["&"],
+  ["==", "!="],
+  ["<", ">", "<=", ">="],
+  ["<<", ">>"],
+  ["+", "-"],
+  ["*", "/", "%"],
+];
+
+const DIGITS = "0123456789abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ@_";
+
+/**
+ * Parse an integer constant: decimal, `0x` hex, leading-zero octal, or
+ * `base#digits` for bases 2 to 64. Returns null when `text` is not one.
+ */
+export function parseArithmeticNumber(text: string): bigint | null {
+  let base = 10;
+  let digits = text;
+  const hash = text.indexOf("#");
+  if (hash !== -1) {
+    if (!/^[0-9]+$/.test(text.slice(0, hash))) {
+      return null;
+    }
+    base = Number(text.slice(0, hash));
+    digits = text.slice(hash + 1);
+    if (base < 2 || base > 64) {
+      throw new ParseError(`invalid arithmetic base (error token is "${text}")`);
+    }
+  } else if (/^0[xX]/.test(text)) {
+    base = 16;
+    digits = text.slice(2);
+  } else if (/^0[0-9]/.test(text)) {
+    base = 8;
+    digits = text.slice(1);
+  } else if (!/^[0-9]/.test(text)) {
+    return null;
+  }
+  if (digits === "") {
+    throw new ParseError(`invalid integer constant (error token is "${text}")`);
+  }
+
+  let value = 0n;
+  for (const char of digits) {
+    // Up to base 36, letters of either case are the same digit
+    const digit = DIGITS.indexOf(base <= 36 ? char.toLowerCase() : char);
+    if (digit === -1) {
+      throw new ParseError(`invalid number (error token is "${text}")`);
+    }
+    if (digit >= base) {
+      throw new ParseError(`value too great for base (error token is "${text}")`);
+    }
+    value = BigInt.asIntN(64, value * BigInt(base) + BigInt(digit));
+  }
+  return value;
+}
+
+function tokenize(source: string): ArithmeticToken[] {
+  const tokens: ArithmeticToken[] = [];
+  let pos = 0;
+
+  while (pos < source.length) {
+    const char = source[pos]!;
+    if (/\s/.test(char)) {
+      pos++;
+      continue;
+    }
+
+    if (/[0-9]/.test(char)) {
+      const match = source.slice(pos).match(/^[0-9]+#[0-9a-zA-Z@_]*|^[0-9a-zA-Z_]+/)!;
+      tokens.push({ type: "number", text: match[0], pos });
+      pos += match[0].length;
+      continue;
+    }
+
+    if (/[a-zA-Z_]/.test(char)) {
+      const name = source.slice(pos).match(/^[a-zA-Z_][a-zA-Z0-9_]*/)![0];
+      const start = pos;
+      pos += name.length;
+      if (source[pos] === "[") {
+        const end = findSubscriptEnd(source, pos + 1);
+        if (end === -1) {
+          throw new ParseError(`missing \`]' (error token is "${source.slice(start)}")`);
+        }
+        tokens.push({ type: "variable", name, subscript: source.slice(pos + 1, end), pos: start });
+        pos = end + 1;
+      } else {
+        tokens.push({ type: "variable", name, pos: start });
+      }
+      continue;
+    }
+
+    const operator = OPERATORS.find((op) => source.startsWith(op, pos));
+    if (!operator) {
+      throw new ParseError(`syntax error: invalid arithmetic operator (error token is "${source.slice(pos)}")`);
+    }
+    tokens.push({ type: "operator", value: operator, pos });
+    pos += operator.length;
+  }
+
+  tokens.push({ type: "end", pos: source.length });
+  return tokens;
+}
+
+class ArithmeticParser {
+  private tokens: ArithmeticToken[];
+  private index = 0;
+
+  constructor(private source: string) {
+    this.tokens = tokenize(source);
+  }
+
+  parse(): ArithmeticExpression {
+    const expression = this.parseComma();
+    if (this.peek().type !== "end") {
+      throw this.error("syntax error in expression");
+    }
+    return expression;
+  }
+
+  private parseComma(): ArithmeticExpression {
+    let left = this.parseAssignment();
+    while (this.matchOperator(",")) {
+      left = { type: "binary", operator: ",", left, right: this.parseAssignment() };
+    }
+    return left;
+  }
+
+  // Assignment binds loosest of all but the comma, and to the right
+  private parseAssignment(): ArithmeticExpression {
+    const start = this.index;
+    const target = this.peek();
+    if (target.type === "variable") {
+      this.index++;
+      const operator = this.peek();
+      if (operator.type === "operator" && ASSIGNMENT_OPERATORS.has(operator.value)) {
+        this.index++;
+        return {
+          type: "assignment",
+          operator: operator.value as ArithmeticAssignmentOperator,
+          target: this.toVariable(target),
+          value: this.parseAssignment(),
+        };
+      }
+      this.index = start;
+    }
+
+    const expression = this.parseConditional();
+    const next = this.peek();
+    if (next.type === "operator" && ASSIGNMENT_OPERATORS.has(next.value)) {
+      throw this.error("attempted assignment to non-variable");
+    }
+    return expression;
+  }
+
+  private parseConditional(): ArithmeticExpression {
+    const test = this.parseBinary(0);
+    if (!this.matchOperator("?")) {
+      return test;
+    }
+    const consequent = this.parseComma();
+    if (!this.matchOperator(":")) {
+      throw this.error("expected `:' for conditional expression");
+    }
+    return { type: "conditional", test, consequent, alternate: this.parseAssignment() };
+  }
+
+  private parseBinary(level: number): ArithmeticExpression {
+    if (level === BINARY_PRECEDENCE.length) {
+      return this.parsePower();
+    }
+    const operators = BINARY_PRECEDENCE[level]!;
+    let left = this.parseBinary(level + 1);
+    while (true) {
+      const token = this.peek();
+      if (token.type !== "operator" || !operators.includes(token.value as ArithmeticBinaryOperator)) {
+        return left;
+      }
+      this.index++;
+      left = { type: "binary", operator: token.value as ArithmeticBinaryOperator, left, right: this.parseBinary(level + 1) };
+    }
+  }
+
+  private parsePower(): ArithmeticExpression {
+    const base = this.parseUnary();
+    if (this.matchOperator("**")) {
+      return { type: "binary", operator: "**", left: base, right: this.parsePower() };
+    }
+    return base;
+  }
+
+  private parseUnary(): ArithmeticExpression {
+    const token = this.peek();
+    if (token.type === "operator") {
+      if (token.value === "++" || token.value === "--") {
+        this.index++;
+        const target = this.peek();
+        if (target.type !== "variable") {
+          throw this.error("syntax error: operand expected");
+        }
+        this.index++;
+        return { type: "update", operator: token.value, prefix: true, target: this.toVariable(target) };
+      }
+      if (token.value === "-" || token.value === "+" || token.value === "!" || token.value === "~") {
+        this.index++;
+        return { type: "unary", operator: token.value, operand: this.parseUnary() };
+      }
+    }
+    return this.parsePostfix();
+  }
+
+  private parsePostfix(): ArithmeticExpression {
+    const token = this.peek();
+    if (token.type === "variable") {
+      this.index++;
+      const next = this.peek();
+      if (next.type === "operator" && (next.value === "++" || next.value === "--")) {
+        this.index++;
+        return { type: "update", operator: next.value, prefix: false, target: this.toVariable(token) };
+      }
+      return this.toVariable(token);
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): ArithmeticExpression {
+    const token = this.peek();
+    if (token.type === "number") {
+      this.index++;
+      const value = parseArithmeticNumber(token.text);
+      if (value === null) {
+        throw new ParseError(`invalid number (error token is "${token.text}")`);
+      }
+      return { type: "number", value };
+    }
+    if (this.matchOperator("(")) {
+      const expression = this.parseComma();
+      if (!this.matchOperator(")")) {
+        throw this.error("missing `)'");
+      }
+      return expression;
+    }
+    throw this.error("syntax error: operand expected");
+  }
+
+  private toVariable(token: ArithmeticToken & { type: "variable" }): ArithmeticVariable {
+    return token.subscript === undefined
+      ? { type: "variable", name: token.name }
+      : { type: "variable", name: token.name, subscript: token.subscript };
+  }
+
+  private matchOperator(value: string): boolean {
+    const token = this.peek();
+    if (token.type === "operator" && token.value === value) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private peek(): ArithmeticToken {
+    return this.tokens[this.index]!;
+  }
+
+  private error(message: string): ParseError {
+    // At the end of the expression, blame the last token
+    const token = this.peek().type === "end" && this.index > 0 ? this.tokens[this.index - 1]! : this.peek();
+    const pos = token.pos;
+    return new ParseError(`${message} (error token is "${this.source.slice(pos).trim()}")`, pos);
+  }
+}
+
+/**
+ * Parse the text of an arithmetic expression, after `$` expansions. An empty
+ * expression is zero.
+ */
+export function parseArithmetic(source: string): ArithmeticExpression {
+  if (source.trim() === "") {
+    return { type: "number", value: 0n };
+  }
+  return new ArithmeticParser(source).parse();
+}
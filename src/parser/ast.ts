@@ -1,49 +1,136 @@
-export type RedirectMode =
+import type { SourceSpan } from "../lexer/tokens.ts";
+
+/**
+ * Every node, word, word part, redirect and assignment from the Parser has a
+ * `span`: where it was read from in the source. Spans are not enumerable, so
+ * they stay out of JSON and equality checks. Parts parsed out of a token's
+ * text, such as the operand of `${x:-word}`, span the whole token.
+ */
+
+export type RedirectOp =
+  | "<"
   | ">"
   | ">>"
-  | "<"
-  | "2>"
-  | "2>>"
+  | ">|"
+  | "<>"
+  | "<<"
+  | "<<<"
+  | ">&"
+  | "<&"
   | "&>"
-  | "&>>"
-  | "2>&1"
-  | "1>&2";
+  | "&>>";
+
+export type ParameterOperator =
+  | ":-"
+  | "-"
+  | ":="
+  | "="
+  | ":?"
+  | "?"
+  | ":+"
+  | "+"
+  | "#"
+  | "##"
+  | "%"
+  | "%%"
+  | "/"
+  | "//"
+  | "/#"
+  | "/%"
+  | ":"
+  | "length"
+  | "keys";
 
 export interface TextPart {
   type: "text";
   value: string;
   quoted: boolean;
+  span?: SourceSpan;
 }
 
+// `$NAME`, or `${NAME[index]}` for an array element; an index of `@` or `*` selects every element
 export interface VariablePart {
   type: "variable";
   name: string;
+  index?: WordNode;
   quoted: boolean;
+  span?: SourceSpan;
 }
 
 export interface SubstitutionPart {
   type: "substitution";
   command: ASTNode;
   quoted: boolean;
+  span?: SourceSpan;
+}
+
+// `<(command)` reads the command's output and `>(command)` writes its input, through a `/dev/fd` path
+export interface ProcessSubstitutionPart {
+  type: "processSubstitution";
+  op: "<" | ">";
+  command: ASTNode;
+  quoted: boolean;
+  span?: SourceSpan;
+}
+
+// A leading `~`, `~+` or `~-`: the home directory, the working directory or the previous one
+export interface TildePart {
+  type: "tilde";
+  prefix: "" | "+" | "-";
+  // Always true: the directory is not split or globbed
+  quoted: boolean;
+  span?: SourceSpan;
 }
 
 export interface ArithmeticPart {
   type: "arithmetic";
   expression: string;
   quoted: boolean;
+  span?: SourceSpan;
 }
 
-export type WordPart = TextPart | VariablePart | SubstitutionPart | ArithmeticPart;
+/**
+ * A `${NAME<operator><operand>}` expansion. For the replacement operators the
+ * operand is the pattern and `replacement` the replacement string; for the
+ * substring operator (`${NAME:offset:length}`) they hold the offset and length.
+ * `keys` is `${!NAME[@]}`, the indices or keys of an array.
+ */
+export interface ParameterExpansionPart {
+  type: "parameterExpansion";
+  name: string;
+  index?: WordNode;
+  operator: ParameterOperator;
+  operand?: WordNode;
+  replacement?: WordNode;
+  quoted: boolean;
+  span?: SourceSpan;
+}
+
+export type WordPart =
+  | TextPart
+  | VariablePart
+  | ParameterExpansionPart
+  | SubstitutionPart
+  | ProcessSubstitutionPart
+  | ArithmeticPart
+  | TildePart;
 
 export interface WordNode {
   type: "word";
   parts: WordPart[];
+  span?: SourceSpan;
 }
 
+/**
+ * A redirect applied to descriptor `fd`. For `<<` the target is the heredoc
+ * body; for `>&` and `<&` it is a descriptor number or `-` to close `fd`.
+ * `&>` and `&>>` always apply to both stdout and stderr.
+ */
 export interface Redirect {
-  mode: RedirectMode;
+  fd: number;
+  op: RedirectOp;
   target: WordNode;
-  heredocContent?: boolean;
+  span?: SourceSpan;
 }
 
 export type ASTNode =
@@ -56,44 +143,78 @@ export type ASTNode =
   | ForNode
   | WhileNode
   | UntilNode
-  | CaseNode;
+  | CaseNode
+  | FunctionNode
+  | SubshellNode
+  | GroupNode
+  | BackgroundNode
+  | ArithmeticCommandNode
+  | ArithmeticForNode
+  | ConditionalCommandNode;
+
+/**
+ * A `NAME=value` assignment. `NAME[index]=value` sets one array element,
+ * `elements` holds the words of an array literal (`NAME=(a b [5]=c)`), and
+ * `append` marks `+=`.
+ */
+export interface Assignment {
+  name: string;
+  value: WordNode;
+  index?: WordNode;
+  elements?: ArrayElement[];
+  append?: boolean;
+  span?: SourceSpan;
+}
+
+// One word of an array literal; `[index]=value` gives its index or key
+export interface ArrayElement {
+  index?: WordNode;
+  value: WordNode;
+  span?: SourceSpan;
+}
 
 export interface CommandNode {
   type: "command";
   name: WordNode;
   args: WordNode[];
   redirects: Redirect[];
-  assignments: Array<{ name: string; value: WordNode }>;
+  assignments: Assignment[];
+  span?: SourceSpan;
 }
 
 export interface PipelineNode {
   type: "pipeline";
   commands: ASTNode[];
+  span?: SourceSpan;
 }
 
 export interface AndNode {
   type: "and";
   left: ASTNode;
   right: ASTNode;
+  span?: SourceSpan;
 }
 
 export interface OrNode {
   type: "or";
   left: ASTNode;
   right: ASTNode;
+  span?: SourceSpan;
 }
 
 export interface SequenceNode {
   type: "sequence";
   commands: ASTNode[];
+  span?: SourceSpan;
 }
 
 export interface IfNode {
   type: "if";
   condition: ASTNode;
   thenBranch: ASTNode;
-  elifBranches: Array<{ condition: ASTNode; body: ASTNode }>;
+  elifBranches: Array<{ condition: ASTNode; body: ASTNode; span?: SourceSpan }>;
   elseBranch?: ASTNode;
+  span?: SourceSpan;
 }
 
 export interface ForNode {
@@ -101,29 +222,169 @@ export interface ForNode {
   variable: string;
   items: WordNode[];
   body: ASTNode;
+  span?: SourceSpan;
 }
 
 export interface WhileNode {
   type: "while";
   condition: ASTNode;
   body: ASTNode;
+  span?: SourceSpan;
 }
 
 export interface UntilNode {
   type: "until";
   condition: ASTNode;
   body: ASTNode;
+  span?: SourceSpan;
 }
 
 export interface CaseClause {
   patterns: WordNode[];
   body: ASTNode;
+  span?: SourceSpan;
 }
 
 export interface CaseNode {
   type: "case";
   word: WordNode;
   clauses: CaseClause[];
+  span?: SourceSpan;
+}
+
+export interface FunctionNode {
+  type: "function";
+  name: string;
+  body: ASTNode;
+  span?: SourceSpan;
+}
+
+export interface SubshellNode {
+  type: "subshell";
+  body: ASTNode;
+  redirects: Redirect[];
+  span?: SourceSpan;
+}
+
+export interface GroupNode {
+  type: "group";
+  body: ASTNode;
+  redirects: Redirect[];
+  span?: SourceSpan;
+}
+
+export interface BackgroundNode {
+  type: "background";
+  body: ASTNode;
+  command: string;
+  span?: SourceSpan;
+}
+
+// `(( expression ))`, which succeeds when the expression is non-zero
+export interface ArithmeticCommandNode {
+  type: "arithmeticCommand";
+  expression: string;
+  span?: SourceSpan;
+}
+
+// `for (( init; test; update ))`; an empty test is always true
+export interface ArithmeticForNode {
+  type: "arithmeticFor";
+  init: string;
+  test: string;
+  update: string;
+  body: ASTNode;
+  span?: SourceSpan;
+}
+
+// `[[ expression ]]`, whose words are expanded without field splitting or globbing
+export interface ConditionalCommandNode {
+  type: "conditionalCommand";
+  expression: ConditionalExpression;
+  span?: SourceSpan;
+}
+
+export type ConditionalUnaryOperator = "-n" | "-z" | "-e" | "-f" | "-d" | "-s" | "-r" | "-w" | "-x";
+
+export type ConditionalBinaryOperator =
+  | "=="
+  | "="
+  | "!="
+  | "=~"
+  | "<"
+  | ">"
+  | "-eq"
+  | "-ne"
+  | "-lt"
+  | "-le"
+  | "-gt"
+  | "-ge";
+
+/**
+ * An expression inside `[[ ]]`. The right side of `==` and `!=` is a glob
+ * pattern and of `=~` a regular expression; quoted parts of either match
+ * literally. A lone word is true when it is non-empty.
+ */
+export type ConditionalExpression = (
+  | { type: "unary"; operator: ConditionalUnaryOperator; operand: WordNode }
+  | { type: "binary"; operator: ConditionalBinaryOperator; left: WordNode; right: WordNode }
+  | { type: "string"; word: WordNode }
+  | { type: "not"; expression: ConditionalExpression }
+  | { type: "and" | "or"; left: ConditionalExpression; right: ConditionalExpression }
+) & { span?: SourceSpan };
+
+export type ArithmeticBinaryOperator =
+  | ","
+  | "||"
+  | "&&"
+  | "|"
+  | "^"
+  | "&"
+  | "=="
+  | "!="
+  | "<"
+  | ">"
+  | "<="
+  | ">="
+  | "<<"
+  | ">>"
+  | "+"
+  | "-"
+  | "*"
+  | "/"
+  | "%"
+  | "**";
+
+export type ArithmeticAssignmentOperator = "=" | "*=" | "/=" | "%=" | "+=" | "-=" | "<<=" | ">>=" | "&=" | "^=" | "|=";
+
+/**
+ * A parsed arithmetic expression, as in `$(( ))` and `(( ))`. Variables keep
+ * the raw subscript of `name[subscript]`, which is only arithmetic for
+ * indexed arrays.
+ */
+export type ArithmeticExpression =
+  | { type: "number"; value: bigint }
+  | ArithmeticVariable
+  | { type: "unary"; operator: "-" | "+" | "!" | "~"; operand: ArithmeticExpression }
+  | { type: "update"; operator: "++" | "--"; prefix: boolean; target: ArithmeticVariable }
+  | { type: "binary"; operator: ArithmeticBinaryOperator; left: ArithmeticExpression; right: ArithmeticExpression }
+  | {
+      type: "conditional";
+      test: ArithmeticExpression;
+      consequent: ArithmeticExpression;
+      alternate: ArithmeticExpression;
+    }
+  | {
+      type: "assignment";
+      operator: ArithmeticAssignmentOperator;
+      target: ArithmeticVariable;
+      value: ArithmeticExpression;
+    };
+
+export interface ArithmeticVariable {
+  type: "variable";
+  name: string;
+  subscript?: string;
 }
 
 // Type guards
@@ -170,3 +431,31 @@ export function isUntilNode(node: ASTNode): node is UntilNode {
 export function isCaseNode(node: ASTNode): node is CaseNode {
   return node.type === "case";
 }
+
+export function isFunctionNode(node: ASTNode): node is FunctionNode {
+  return node.type === "function";
+}
+
+export function isSubshellNode(node: ASTNode): node is SubshellNode {
+  return node.type === "subshell";
+}
+
+export function isGroupNode(node: ASTNode): node is GroupNode {
+  return node.type === "group";
+}
+
+export function isBackgroundNode(node: ASTNode): node is BackgroundNode {
+  return node.type === "background";
+}
+
+export function isArithmeticCommandNode(node: ASTNode): node is ArithmeticCommandNode {
+  return node.type === "arithmeticCommand";
+}
+
+export function isArithmeticForNode(node: ASTNode): node is ArithmeticForNode {
+  return node.type === "arithmeticFor";
+}
+
+export function isConditionalCommandNode(node: ASTNode): node is ConditionalCommandNode {
+  return node.type === "conditionalCommand";
+}
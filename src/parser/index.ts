@@ -1,9 +1,11 @@
-export { Parser, parse } from "./parser.ts";
+export { Parser, parse, type ParserOptions } from "./parser.ts";
 export type {
   ASTNode,
   Redirect,
-  RedirectMode,
+  RedirectOp,
   CommandNode,
+  Assignment,
+  ArrayElement,
   PipelineNode,
   AndNode,
   OrNode,
@@ -12,14 +14,32 @@ export type {
   WordPart,
   TextPart,
   VariablePart,
+  ParameterExpansionPart,
+  ParameterOperator,
   SubstitutionPart,
+  ProcessSubstitutionPart,
   ArithmeticPart,
+  TildePart,
   IfNode,
   ForNode,
   WhileNode,
   UntilNode,
   CaseNode,
   CaseClause,
+  FunctionNode,
+  SubshellNode,
+  GroupNode,
+  BackgroundNode,
+  ArithmeticCommandNode,
+  ArithmeticForNode,
+  ArithmeticExpression,
+  ArithmeticVariable,
+  ArithmeticBinaryOperator,
+  ArithmeticAssignmentOperator,
+  ConditionalCommandNode,
+  ConditionalExpression,
+  ConditionalUnaryOperator,
+  ConditionalBinaryOperator,
 } from "./ast.ts";
 export {
   isWordNode,
@@ -33,4 +53,12 @@ export {
   isWhileNode,
   isUntilNode,
   isCaseNode,
+  isFunctionNode,
+  isSubshellNode,
+  isGroupNode,
+  isBackgroundNode,
+  isArithmeticCommandNode,
+  isArithmeticForNode,
+  isConditionalCommandNode,
 } from "./ast.ts";
+export { parseArithmetic } from "./arithmetic.ts";
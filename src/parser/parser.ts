@@ -1,44 +1,107 @@
 import { ParseError } from "../errors.ts";
-import { Lexer } from "../lexer/lexer.ts";
-import type { Token, KeywordValue } from "../lexer/tokens.ts";
+import { Lexer, findArithmeticEnd, findParameterExpansionEnd, parseParameterExpansion } from "../lexer/lexer.ts";
+import type { Token, KeywordValue, SourceSpan } from "../lexer/tokens.ts";
+import { tokenToString, withSpan } from "../lexer/tokens.ts";
 import type {
   ASTNode,
   Redirect,
-  RedirectMode,
   CommandNode,
+  Assignment,
+  ArrayElement,
   IfNode,
   ForNode,
   WhileNode,
   UntilNode,
   CaseNode,
   CaseClause,
+  FunctionNode,
+  SubshellNode,
+  GroupNode,
+  ArithmeticForNode,
+  ConditionalCommandNode,
+  ConditionalExpression,
+  ConditionalUnaryOperator,
+  ConditionalBinaryOperator,
   WordNode,
   WordPart,
+  TextPart,
+  TildePart,
 } from "./ast.ts";
 
+const CONDITIONAL_UNARY_OPERATORS = new Set<string>(["-n", "-z", "-e", "-f", "-d", "-s", "-r", "-w", "-x"]);
+const CONDITIONAL_BINARY_OPERATORS = new Set<string>([
+  "==", "=", "!=", "=~", "<", ">", "-eq", "-ne", "-lt", "-le", "-gt", "-ge",
+]);
+
+// Builtins whose `name=value` arguments are expanded like assignments (no field splitting)
+const DECLARATION_COMMANDS = new Set(["local", "declare", "typeset", "export", "readonly"]);
+
+export interface ParserOptions {
+  aliases?: ReadonlyMap<string, string>;
+}
+
 export class Parser {
   private tokens: Token[];
   private pos: number = 0;
-
-  constructor(tokens: Token[]) {
+  // Set when an and-or list ended with `&`, which also separates it from the next one
+  private backgroundSeparator: boolean = false;
+  // Aliases for the lexers of `$(...)` and `<(...)` bodies
+  private aliases?: ReadonlyMap<string, string>;
+  // The span of the token whose text is being turned into word parts
+  private tokenSpan?: SourceSpan;
+
+  constructor(tokens: Token[], options?: ParserOptions) {
     this.tokens = tokens;
+    this.aliases = options?.aliases;
   }
 
+  /**
+   * Parse the tokens. Nodes get their spans from the spans of the tokens
+   * they were parsed from, and a ParseError gets the span of the token
+   * parsing stopped at.
+   */
   parse(): ASTNode {
-    const result = this.parseSequence();
-    if (!this.isAtEnd()) {
-      throw new ParseError(`Unexpected token: ${JSON.stringify(this.peek())}`);
+    try {
+      const result = this.parseSequence();
+      if (!this.isAtEnd()) {
+        throw new ParseError(`Unexpected token: ${JSON.stringify(this.peek())}`);
+      }
+      fillSpans(result, undefined);
+      return result;
+    } catch (err) {
+      if (err instanceof ParseError && err.span === undefined) {
+        err.span = this.peek().span;
+        err.position ??= err.span?.start;
+      }
+      throw err;
     }
-    return result;
+  }
+
+  // Give `node` the span of the tokens from `start` up to the current one, less separators at either end
+  private located<T extends object>(start: number, node: T): T {
+    const isSeparator = (token: Token | undefined) =>
+      token !== undefined && !Array.isArray(token) && (token.type === "newline" || token.type === "semicolon");
+    let first = start;
+    while (first < this.pos && isSeparator(this.tokens[first])) first++;
+    let last = this.pos - 1;
+    while (last > first && isSeparator(this.tokens[last])) last--;
+
+    const from = this.tokens[first]?.span;
+    const to = this.tokens[last]?.span;
+    if (first <= last && from && to) {
+      withSpan(node, { ...from, end: Math.max(from.end, to.end) });
+    }
+    return node;
   }
 
   // sequence := and_or ((';'|'\n') and_or)*
   private parseSequence(): ASTNode {
     this.skipNewlines();
+    const start = this.pos;
     const commands: ASTNode[] = [];
     commands.push(this.parseAndOr());
 
-    while (this.match("semicolon") || this.match("newline")) {
+    while (this.matchSeparator()) {
       this.skipNewlines();
       if (this.isAtEnd() || this.check("semicolon") || this.check("newline") || this.isTerminatingKeyword()) continue;
       commands.push(this.parseAndOr());
@@ -48,7 +111,7 @@ export class Parser {
       return commands[0]!;
     }
 
-    return { type: "sequence", commands };
+    return this.located(start, { type: "sequence", commands });
   }
 
   private skipNewlines(): void {
@@ -63,17 +126,38 @@ export class Parser {
     return ["then", "elif", "else", "fi", "do", "done", "esac"].includes(token.value);
   }
 
-  // and_or := pipeline (('&&'|'||') pipeline)*
+  private matchSeparator(): boolean {
+    if (this.backgroundSeparator) {
+      this.backgroundSeparator = false;
+      return true;
+    }
+    return this.match("semicolon") || this.match("newline");
+  }
+
+  // and_or := pipeline (('&&'|'||') pipeline)* ['&']
   private parseAndOr(): ASTNode {
+    const start = this.pos;
+    const node = this.parseAndOrList();
+
+    if (this.match("background")) {
+      this.backgroundSeparator = true;
+      return this.located(start, { type: "background", body: node, command: this.sourceText(start, this.pos - 1) });
+    }
+
+    return node;
+  }
+
+  private parseAndOrList(): ASTNode {
+    const start = this.pos;
     let left = this.parsePipeline();
 
     while (this.check("and") || this.check("or")) {
       if (this.match("and")) {
         const right = this.parsePipeline();
-        left = { type: "and", left, right };
+        left = this.located(start, { type: "and", left, right });
       } else if (this.match("or")) {
         const right = this.parsePipeline();
-        left = { type: "or", left, right };
+        left = this.located(start, { type: "or", left, right });
       }
     }
 
@@ -82,6 +166,7 @@ export class Parser {
 
   // pipeline := command ('|' command)*
   private parsePipeline(): ASTNode {
+    const start = this.pos;
     const commands: ASTNode[] = [];
     commands.push(this.parseCompoundOrCommand());
 
@@ -94,12 +179,18 @@ export class Parser {
       return commands[0]!;
     }
 
-    return { type: "pipeline", commands };
+    return this.located(start, { type: "pipeline", commands });
   }
 
   // compound_or_command := compound_command | simple_command
   private parseCompoundOrCommand(): ASTNode {
     this.skipNewlines();
+    const start = this.pos;
+    return this.located(start, this.parseCommandByKind());
+  }
+
+  // The compound command the next token opens, or else a simple command
+  private parseCommandByKind(): ASTNode {
     const token = this.peek();
 
     if (token.type === "keyword") {
@@ -117,9 +208,167 @@ export class Parser {
       }
     }
 
+    if (this.check("openParen")) {
+      return this.parseSubshell();
+    }
+
+    if (this.isPlainWordToken(token) && token.value === "[[") {
+      return this.parseConditionalCommand();
+    }
+
+    if (token.type === "arithmeticCommand") {
+      this.advance();
+      return { type: "arithmeticCommand", expression: token.expression };
+    }
+
+    if (this.checkWordValue("{")) {
+      return this.parseGroup();
+    }
+
+    if (this.isFunctionDefinitionStart()) {
+      return this.parseFunction();
+    }
+
     return this.parseCommand();
   }
 
+  private isFunctionDefinitionStart(): boolean {
+    if (this.checkWordValue("function")) {
+      return this.isPlainWordToken(this.peekAt(1));
+    }
+    return (
+      this.isPlainWordToken(this.peek()) &&
+      this.peekAt(1).type === "openParen" &&
+      this.peekAt(2).type === "closeParen"
+    );
+  }
+
+  // function := ['function'] NAME ['(' ')'] newline* function_body
+  private parseFunction(): FunctionNode {
+    const hasKeyword = this.checkWordValue("function");
+    if (hasKeyword) {
+      this.advance();
+    }
+
+    const nameToken = this.advance() as Token & { type: "word" };
+    const name = nameToken.value;
+
+    if (this.match("openParen")) {
+      if (!this.match("closeParen")) {
+        throw new ParseError(`Expected ')' after function name '${name}'`);
+      }
+    } else if (!hasKeyword) {
+      throw new ParseError(`Expected '()' after function name '${name}'`);
+    }
+
+    this.skipNewlines();
+    return {
+      type: "function",
+      name,
+      body: this.parseFunctionBody(name),
+    };
+  }
+
+  // function_body := brace_group | subshell | compound_command
+  private parseFunctionBody(name: string): ASTNode {
+    const start = this.pos;
+    if (this.checkWordValue("{")) {
+      return this.located(start, this.parseGroup());
+    }
+
+    if (this.check("openParen")) {
+      return this.located(start, this.parseSubshell());
+    }
+
+    const token = this.peek();
+    if (token.type === "keyword" && ["if", "for", "while", "until", "case"].includes(token.value)) {
+      return this.parseCompoundOrCommand();
+    }
+
+    throw new ParseError(`Expected function body for '${name}'`);
+  }
+
+  // subshell := '(' compound_list ')' redirect*
+  private parseSubshell(): SubshellNode {
+    this.advance(); // consume (
+    const body = this.parseGroupBody(() => this.check("closeParen"));
+    if (!this.match("closeParen")) {
+      throw new ParseError("Expected ')' to close subshell");
+    }
+
+    return {
+      type: "subshell",
+      body,
+      redirects: this.parseCompoundRedirects(),
+    };
+  }
+
+  // brace_group := '{' compound_list '}' redirect*
+  private parseGroup(): GroupNode {
+    this.advance(); // consume {
+    const body = this.parseGroupBody(() => this.checkWordValue("}"));
+    if (!this.checkWordValue("}")) {
+      throw new ParseError("Expected '}'");
+    }
+    this.advance(); // consume }
+
+    return {
+      type: "group",
+      body,
+      redirects: this.parseCompoundRedirects(),
+    };
+  }
+
+  private parseGroupBody(isClosed: () => boolean): ASTNode {
+    this.skipNewlines();
+
+    const start = this.pos;
+    const commands: ASTNode[] = [];
+    while (!this.isAtEnd() && !isClosed()) {
+      commands.push(this.parseAndOr());
+      if (!this.matchSeparator()) {
+        break;
+      }
+      this.skipNewlines();
+    }
+
+    if (commands.length === 0) {
+      return this.createNoopCommand();
+    }
+    if (commands.length === 1) {
+      return commands[0]!;
+    }
+    return this.located(start, { type: "sequence", commands });
+  }
+
+  private parseCompoundRedirects(): Redirect[] {
+    const redirects: Redirect[] = [];
+
+    while (this.check("redirect") || this.check("heredoc")) {
+      if (this.check("heredoc")) {
+        const heredocToken = this.advance() as Token & { type: "heredoc" };
+        redirects.push(this.heredocRedirect(heredocToken));
+      } else {
+        redirects.push(this.parseRedirect());
+      }
+    }
+
+    return redirects;
+  }
+
+  // Matches reserved words such as `{`, `}` and `function`, which the lexer emits as plain words
+  private checkWordValue(value: string): boolean {
+    const token = this.peek();
+    return (
+      (token.type === "word" && token.value === value) ||
+      (token.type === "glob" && token.pattern === value)
+    );
+  }
+
+  private isPlainWordToken(token: Token): token is Token & { type: "word" } {
+    return !Array.isArray(token) && token.type === "word";
+  }
+
   // if := 'if' compound_list 'then' compound_list ('elif' compound_list 'then' compound_list)* ['else' compound_list] 'fi'
   private parseIf(): IfNode {
     this.expectKeyword("if");
@@ -129,11 +378,12 @@ export class Parser {
 
     const elifBranches: Array<{ condition: ASTNode; body: ASTNode }> = [];
     while (this.checkKeyword("elif")) {
+      const start = this.pos;
       this.expectKeyword("elif");
       const elifCondition = this.parseCompoundList(["then"]);
       this.expectKeyword("then");
       const elifBody = this.parseCompoundList(["elif", "else", "fi"]);
-      elifBranches.push({ condition: elifCondition, body: elifBody });
+      elifBranches.push(this.located(start, { condition: elifCondition, body: elifBody }));
     }
 
     let elseBranch: ASTNode | undefined;
@@ -154,10 +404,15 @@ export class Parser {
   }
 
   // for := 'for' NAME ['in' word*] (';'|'\n') 'do' compound_list 'done'
-  private parseFor(): ForNode {
+  //      | 'for' '((' expr ';' expr ';' expr '))' [';'|'\n'] 'do' compound_list 'done'
+  private parseFor(): ForNode | ArithmeticForNode {
     this.expectKeyword("for");
 
     const varToken = this.peek();
+    if (varToken.type === "arithmeticCommand") {
+      this.advance();
+      return this.parseArithmeticFor(varToken.expression);
+    }
     if (varToken.type !== "word") {
       throw new ParseError("Expected variable name after 'for'");
     }
@@ -189,6 +444,116 @@ export class Parser {
     };
   }
 
+  private parseArithmeticFor(expression: string): ArithmeticForNode {
+    const clauses = expression.split(";");
+    if (clauses.length !== 3) {
+      throw new ParseError("Expected 'for (( init; test; update ))'");
+    }
+
+    if (!this.match("semicolon")) {
+      this.match("newline");
+    }
+    this.skipNewlines();
+
+    this.expectKeyword("do");
+    const body = this.parseCompoundList(["done"]);
+    this.expectKeyword("done");
+
+    const [init, test, update] = clauses as [string, string, string];
+    return { type: "arithmeticFor", init, test, update, body };
+  }
+
+  // conditional := '[[' or_expr ']]'
+  private parseConditionalCommand(): ConditionalCommandNode {
+    this.advance(); // consume [[
+    const expression = this.parseConditionalOr();
+    if (!this.isConditionalEnd()) {
+      throw new ParseError(`Unexpected '${tokenToString(this.peek())}' in conditional expression`);
+    }
+    this.advance(); // consume ]]
+    return { type: "conditionalCommand", expression };
+  }
+
+  private parseConditionalOr(): ConditionalExpression {
+    const start = this.pos;
+    let left = this.parseConditionalAnd();
+    while (this.match("or")) {
+      left = this.located(start, { type: "or", left, right: this.parseConditionalAnd() });
+    }
+    return left;
+  }
+
+  private parseConditionalAnd(): ConditionalExpression {
+    const start = this.pos;
+    let left = this.parseConditionalNot();
+    while (this.match("and")) {
+      left = this.located(start, { type: "and", left, right: this.parseConditionalNot() });
+    }
+    return left;
+  }
+
+  private parseConditionalNot(): ConditionalExpression {
+    const start = this.pos;
+    const token = this.peek();
+    if (this.isPlainWordToken(token) && token.value === "!") {
+      this.advance();
+      return this.located(start, { type: "not", expression: this.parseConditionalNot() });
+    }
+    return this.parseConditionalPrimary();
+  }
+
+  private parseConditionalPrimary(): ConditionalExpression {
+    const start = this.pos;
+    if (this.match("openParen")) {
+      const expression = this.parseConditionalOr();
+      if (!this.match("closeParen")) {
+        throw new ParseError("Expected ')' in conditional expression");
+      }
+      return expression;
+    }
+
+    const token = this.peek();
+    if (this.isPlainWordToken(token) && CONDITIONAL_UNARY_OPERATORS.has(token.value) && this.isConditionalOperand(this.peekAt(1))) {
+      this.advance();
+      const operand = this.parseConditionalOperand();
+      return this.located(start, { type: "unary", operator: token.value as ConditionalUnaryOperator, operand });
+    }
+
+    const left = this.parseConditionalOperand();
+    const operator = this.peek();
+    if (this.isPlainWordToken(operator) && CONDITIONAL_BINARY_OPERATORS.has(operator.value)) {
+      this.advance();
+      const right = this.parseConditionalOperand();
+      return this.located(start, { type: "binary", operator: operator.value as ConditionalBinaryOperator, left, right });
+    }
+    return this.located(start, { type: "string", word: left });
+  }
+
+  private parseConditionalOperand(): WordNode {
+    const token = this.peek();
+    if (!this.isConditionalOperand(token)) {
+      throw new ParseError(`Expected operand in conditional expression, got '${tokenToString(token)}'`);
+    }
+    this.advance();
+    // Keywords such as `in` are plain words here
+    return token.type === "keyword" ? this.located(this.pos - 1, this.createTextWord(token.value)) : this.tokenToWord(token);
+  }
+
+  private isConditionalOperand(token: Token): boolean {
+    if (Array.isArray(token)) {
+      return true;
+    }
+    if (token.type === "word" && token.value === "]]") {
+      return false;
+    }
+    return token.type === "keyword" || this.isWordLike(token);
+  }
+
+  private isConditionalEnd(): boolean {
+    const token = this.peek();
+    return this.isPlainWordToken(token) && token.value === "]]";
+  }
+
   // while := 'while' compound_list 'do' compound_list 'done'
   private parseWhile(): WhileNode {
     this.expectKeyword("while");
@@ -229,6 +594,7 @@ export class Parser {
     const clauses: CaseClause[] = [];
 
     while (!this.isAtEnd() && !this.checkKeyword("esac")) {
+      const start = this.pos;
       this.match("openParen");
 
       const patterns: WordNode[] = [];
@@ -243,7 +609,7 @@ export class Parser {
       }
 
       const body = this.parseCaseBody();
-      clauses.push({ patterns, body });
+      clauses.push(this.located(start, { patterns, body }));
 
       this.match("doubleSemicolon");
       this.skipNewlines();
@@ -271,10 +637,11 @@ export class Parser {
   private parseCaseBody(): ASTNode {
     const commands: ASTNode[] = [];
     this.skipNewlines();
+    const start = this.pos;
 
     while (!this.isAtEnd() && !this.check("doubleSemicolon") && !this.checkKeyword("esac")) {
       commands.push(this.parseAndOr());
-      if (!this.match("semicolon") && !this.match("newline")) {
+      if (!this.matchSeparator()) {
         break;
       }
       this.skipNewlines();
@@ -289,12 +656,13 @@ export class Parser {
     if (commands.length === 1) {
       return commands[0]!;
     }
-    return { type: "sequence", commands };
+    return this.located(start, { type: "sequence", commands });
   }
 
   // compound_list := and_or ((';'|'\n') and_or)* [';'|'\n']
   private parseCompoundList(terminators: KeywordValue[]): ASTNode {
     this.skipNewlines();
+    const start = this.pos;
     const commands: ASTNode[] = [];
 
     if (this.isCompoundListTerminator(terminators)) {
@@ -303,7 +671,7 @@ export class Parser {
 
     commands.push(this.parseAndOr());
 
-    while ((this.match("semicolon") || this.match("newline")) && !this.isAtEnd()) {
+    while (this.matchSeparator() && !this.isAtEnd()) {
       this.skipNewlines();
       if (this.isCompoundListTerminator(terminators)) {
         break;
@@ -315,7 +683,7 @@ export class Parser {
       return commands[0]!;
     }
 
-    return { type: "sequence", commands };
+    return this.located(start, { type: "sequence", commands });
   }
 
   private createNoopCommand(): CommandNode {
@@ -355,46 +723,33 @@ export class Parser {
 
   // command := assignment* word+ redirect*
   private parseCommand(): CommandNode {
-    const assignments: Array<{ name: string; value: WordNode }> = [];
+    const assignments: Assignment[] = [];
     const args: WordNode[] = [];
     const redirects: Redirect[] = [];
 
     while (this.check("assignment")) {
-      const token = this.advance() as Token & { type: "assignment" };
-      assignments.push({
-        name: token.name,
-        value: this.tokenToWord(token.value),
-      });
+      assignments.push(this.parseAssignment(this.advance() as Token & { type: "assignment" }));
     }
 
-    while (this.isWordToken()) {
-      if (this.peek().type === "heredoc") {
-        const heredocToken = this.advance() as Token & { type: "heredoc" };
-        redirects.push({
-          mode: "<",
-          target: this.tokenToWord(heredocToken),
-          heredocContent: true,
-        });
-      } else {
-        args.push(this.parseWordArg());
-      }
-    }
-
-    while (this.check("redirect")) {
-      const redirect = this.parseRedirect();
-      redirects.push(redirect);
-      while (this.isWordToken()) {
+    const parseArgs = () => {
+      while (this.isWordToken() || (args.length > 0 && this.check("assignment"))) {
         if (this.peek().type === "heredoc") {
           const heredocToken = this.advance() as Token & { type: "heredoc" };
-          redirects.push({
-            mode: "<",
-            target: this.tokenToWord(heredocToken),
-            heredocContent: true,
-          });
+          redirects.push(this.heredocRedirect(heredocToken));
+        } else if (this.check("assignment")) {
+          args.push(this.parseAssignmentArg(args[0]!));
         } else {
           args.push(this.parseWordArg());
         }
       }
+    };
+
+    parseArgs();
+
+    while (this.check("redirect")) {
+      const redirect = this.parseRedirect();
+      redirects.push(redirect);
+      parseArgs();
     }
 
     if (args.length === 0 && assignments.length === 0 && redirects.length === 0) {
@@ -412,17 +767,188 @@ export class Parser {
     };
   }
 
+  private parseAssignment(token: Token & { type: "assignment" }): Assignment {
+    const valueSpan = assignmentValueSpan(token);
+    const value: WordNode = { type: "word", parts: this.tildeWordParts(token.value, false, true, valueSpan) };
+    const assignment: Assignment = {
+      name: token.name,
+      value: valueSpan ? withSpan(value, valueSpan) : value,
+    };
+    if (token.span) {
+      withSpan(assignment, token.span);
+    }
+    if (token.index !== undefined) {
+      const { head, span } = assignmentHead(token);
+      const indexStart = token.name.length + 1;
+      assignment.index = this.parseSubscript(token.index, span && spanWithin(span, head, indexStart, indexStart));
+    }
+    if (token.array !== undefined) {
+      // The literal starts after `name=(` or `name+=(`
+      const offset = token.name.length + (token.append ? 3 : 2);
+      assignment.elements = this.parseArrayElements(token.array, token.span && shiftSpan(token.span, offset));
+    }
+    if (token.append) {
+      assignment.append = true;
+    }
+    return assignment;
+  }
+
+  // The words of an array literal, each optionally prefixed with `[index]=`; `origin` is where the literal starts
+  private parseArrayElements(source: string, origin?: SourceSpan): ArrayElement[] {
+    const elements: ArrayElement[] = [];
+    for (const token of new Lexer(source, { origin: origin && toOrigin(origin) }).tokenize()) {
+      if (!Array.isArray(token) && token.type === "eof") {
+        break;
+      }
+      let parts: WordPart[];
+      if (!Array.isArray(token) && token.type === "keyword") {
+        parts = [{ type: "text", value: token.value, quoted: false }];
+      } else if (!Array.isArray(token) && token.type === "assignment") {
+        parts = this.assignmentArgParts(token, false);
+      } else if (Array.isArray(token) || this.isWordLike(token)) {
+        parts = this.tildeWordParts(token);
+      } else {
+        throw new ParseError(`Unexpected token in array assignment: ${tokenToString(token)}`);
+      }
+      const element = this.splitElementIndex(parts);
+      elements.push(token.span ? withSpan(element, token.span) : element);
+    }
+    return elements;
+  }
+
+  // Split `[index]=value` into its index and value; other words are plain values
+  private splitElementIndex(parts: WordPart[]): ArrayElement {
+    const first = parts[0];
+    if (!first || first.type !== "text" || first.quoted || !first.value.startsWith("[")) {
+      return { value: { type: "word", parts } };
+    }
+    for (let i = 0; i < parts.length; i++) {
+      const part = parts[i]!;
+      const close = part.type === "text" && !part.quoted ? part.value.indexOf("]=", i === 0 ? 1 : 0) : -1;
+      if (close === -1) {
+        continue;
+      }
+      const text = part as TextPart;
+      const indexParts = [...parts.slice(0, i), { ...text, value: text.value.slice(0, close) }];
+      indexParts[0] = { ...(indexParts[0] as TextPart), value: (indexParts[0] as TextPart).value.slice(1) };
+      const valueParts = [{ ...text, value: text.value.slice(close + 2) }, ...parts.slice(i + 1)];
+      const isEmptyText = (p: WordPart) => p.type === "text" && !p.quoted && p.value === "";
+      return {
+        index: { type: "word", parts: indexParts.filter((p) => !isEmptyText(p)) },
+        value: { type: "word", parts: valueParts.filter((p) => !isEmptyText(p)) },
+      };
+    }
+    return { value: { type: "word", parts } };
+  }
+
+  private parseSubscript(index: string, origin?: SourceSpan): WordNode {
+    return this.parseExpansionOperand(index, false, false, origin);
+  }
+
+  // `name=value` after the command name is an ordinary word; declaration builtins keep it one field
+  private parseAssignmentArg(commandName: WordNode): WordNode {
+    const start = this.pos;
+    const token = this.advance() as Token & { type: "assignment" };
+    const nameParts = commandName.parts;
+    const isDeclaration =
+      nameParts.length === 1 &&
+      nameParts[0]!.type === "text" &&
+      DECLARATION_COMMANDS.has(nameParts[0]!.value);
+    return this.located(start, {
+      type: "word",
+      parts: this.assignmentArgParts(token, isDeclaration),
+    });
+  }
+
+  /**
+   * An assignment token spelled out as an ordinary word. An array literal
+   * stays its source text, which declaration builtins evaluate themselves.
+   */
+  private assignmentArgParts(token: Token & { type: "assignment" }, quoted: boolean): WordPart[] {
+    const operator = token.append ? "+=" : "=";
+    if (token.array !== undefined) {
+      return [{ type: "text", value: `${token.name}${operator}(${token.array})`, quoted: true }];
+    }
+    const { head, span } = assignmentHead(token);
+    const at = (part: WordPart, from: number, to: number) => (span ? withSpan(part, spanWithin(span, head, from, to)) : part);
+    const indexStart = token.name.length + 1;
+    const target: WordPart[] = token.index === undefined
+      ? [at({ type: "text", value: `${token.name}${operator}`, quoted: false }, 0, head.length)]
+      : [
+          at({ type: "text", value: `${token.name}[`, quoted: false }, 0, indexStart),
+          ...this.parseSubscript(token.index, span && spanWithin(span, head, indexStart, indexStart)).parts,
+          at({ type: "text", value: `]${operator}`, quoted: false }, indexStart + token.index.length, head.length),
+        ];
+    return [...target, ...this.tildeWordParts(token.value, quoted, true, assignmentValueSpan(token))];
+  }
+
   private parseWordArg(): WordNode {
+    const start = this.pos;
     const token = this.advance();
-    return this.tokenToWord(token);
+    return this.located(start, this.tokenToWord(token));
   }
 
   private tokenToWord(token: Token | string | Token[]): WordNode {
-    const parts = this.tokenToWordParts(token);
-    return {
+    const parts = this.tildeWordParts(token);
+    const word: WordNode = {
       type: "word",
       parts,
     };
+    const span = typeof token === "string" ? undefined : (token as Token).span;
+    return span ? withSpan(word, span) : word;
+  }
+
+  /**
+   * The parts of a word, with a leading tilde prefix split out. In assignment
+   * values a prefix may also follow a `:`, as in `PATH=~/bin:~/lib`. Only
+   * unquoted text is searched, so quoted and escaped tildes stay literal.
+   */
+  private tildeWordParts(token: Token | string | Token[], quoted = false, assignment = false, textSpan?: SourceSpan): WordPart[] {
+    const tokens = Array.isArray(token) ? token : [token];
+    return tokens.flatMap((part, i) => {
+      const text = typeof part === "string"
+        ? part
+        : part.type === "word" ? part.value : part.type === "glob" ? part.pattern : undefined;
+      if (text === undefined || (i > 0 && !assignment)) {
+        return this.tokenToWordParts(part, quoted);
+      }
+      const span = typeof part === "string" ? textSpan : part.span;
+      return this.splitTildePrefixes(text, { atStart: i === 0, last: i === tokens.length - 1, assignment, quoted, span });
+    });
+  }
+
+  // `span` is where `text` was read from; parts get spans of their own when it was read character for character
+  private splitTildePrefixes(
+    text: string,
+    options: { atStart: boolean; last: boolean; assignment: boolean; quoted: boolean; span?: SourceSpan }
+  ): WordPart[] {
+    const { atStart, last, assignment, quoted, span } = options;
+    const prefix = assignment ? /^~([+-]?)(?=[/:]|$)/ : /^~([+-]?)(?=\/|$)/;
+    const parts: WordPart[] = [];
+    const push = (part: WordPart, from: number, to: number) => {
+      const exact = span && span.end - span.start === text.length;
+      parts.push(span ? withSpan(part, exact ? spanWithin(span, text, from, to) : span) : part);
+    };
+    let textStart = 0;
+    for (let i = 0; i < text.length; i++) {
+      if (text[i] !== "~" || !(i === 0 ? atStart : assignment && text[i - 1] === ":")) {
+        continue;
+      }
+      const match = text.slice(i).match(prefix);
+      // `~"name"` is not a prefix: the quoted part that follows belongs to it
+      if (!match || (i + match[0].length === text.length && !last)) {
+        continue;
+      }
+      if (i > textStart) {
+        push({ type: "text", value: text.slice(textStart, i), quoted }, textStart, i);
+      }
+      push({ type: "tilde", prefix: match[1] as TildePart["prefix"], quoted: true }, i, i + match[0].length);
+      textStart = i + match[0].length;
+    }
+    if (textStart < text.length || parts.length === 0) {
+      push({ type: "text", value: text.slice(textStart), quoted }, textStart, text.length);
+    }
+    return parts;
   }
 
   private tokenToWordParts(token: Token | string | Token[], quoted = false): WordPart[] {
@@ -434,21 +960,52 @@ export class Parser {
       return token.flatMap((part) => this.tokenToWordParts(part, quoted));
     }
 
+    const enclosingSpan = this.tokenSpan;
+    this.tokenSpan = token.span ?? enclosingSpan;
+    try {
+      return spanParts(this.convertToken(token, quoted), this.tokenSpan);
+    } finally {
+      this.tokenSpan = enclosingSpan;
+    }
+  }
+
+  private convertToken(token: Token, quoted: boolean): WordPart[] {
     switch (token.type) {
       case "word":
         return [{ type: "text", value: token.value, quoted }];
       case "singleQuote":
         return [{ type: "text", value: token.value, quoted: true }];
       case "doubleQuote":
-        return this.parseDoubleQuoteParts(token.parts);
+        return this.parseDoubleQuoteParts(token);
       case "variable":
-        return [{ type: "variable", name: token.name, quoted }];
-      case "substitution": {
-        const innerParser = new Parser(
-          new Lexer(token.command, { preserveNewlines: true }).tokenize()
-        );
-        return [{ type: "substitution", command: innerParser.parse(), quoted }];
+        return [{
+          type: "variable",
+          name: token.name,
+          ...(token.index === undefined ? {} : { index: this.parseSubscript(token.index) }),
+          quoted,
+        }];
+      case "parameterExpansion": {
+        // Patterns stay patterns inside double quotes unless quoted themselves
+        const isPattern = /^[#%/]/.test(token.operator);
+        const [operandOrigin, replacementOrigin] = operandOrigins(token);
+        return [{
+          type: "parameterExpansion",
+          name: token.name,
+          ...(token.index === undefined ? {} : { index: this.parseSubscript(token.index) }),
+          operator: token.operator,
+          operand: token.operand === undefined
+            ? undefined
+            : this.parseExpansionOperand(token.operand, quoted, isPattern ? false : quoted, operandOrigin),
+          replacement: token.replacement === undefined
+            ? undefined
+            : this.parseExpansionOperand(token.replacement, quoted, quoted, replacementOrigin),
+          quoted,
+        }];
       }
+      case "substitution":
+        return [{ type: "substitution", command: this.parseInner(token.command, token.span), quoted }];
+      case "processSubstitution":
+        return [{ type: "processSubstitution", op: token.op, command: this.parseInner(token.command, token.span), quoted }];
       case "arithmetic":
         return [{ type: "arithmetic", expression: token.expression, quoted }];
       case "glob":
@@ -464,12 +1021,39 @@ export class Parser {
     }
   }
 
-  private parseDoubleQuoteParts(parts: Array<string | Token>): WordPart[] {
-    if (parts.length === 0) {
+  /**
+   * Parse the body of a command or process substitution. `span` is the
+   * span of its `$(` or `<(` token; without it, where the body is in the
+   * source is not known, and everything in it spans the enclosing token.
+   */
+  private parseInner(command: string, span?: SourceSpan): ASTNode {
+    const origin = span && toOrigin(shiftSpan(span, 2));
+    const tokens = new Lexer(command, { preserveNewlines: true, aliases: this.aliases, origin }).tokenize();
+    const parser = new Parser(tokens, { aliases: this.aliases });
+    if (origin) {
+      return parser.parse();
+    }
+    try {
+      return fillSpans(parser.parse(), this.tokenSpan, true);
+    } catch (err) {
+      if (err instanceof ParseError && this.tokenSpan) {
+        err.span = this.tokenSpan;
+        err.position = this.tokenSpan.start;
+      }
+      throw err;
+    }
+  }
+
+  private parseDoubleQuoteParts(token: Token & { type: "doubleQuote" }): WordPart[] {
+    if (token.parts.length === 0) {
       return [{ type: "text", value: "", quoted: true }];
     }
 
-    return parts.flatMap((part) => this.tokenToWordParts(part, true));
+    let text = 0;
+    return token.parts.flatMap((part) => {
+      const parts = this.tokenToWordParts(part, true);
+      return typeof part === "string" ? spanParts(parts, token.textSpans?.[text++]) : parts;
+    });
   }
 
   private parseHeredocContent(content: string): WordNode {
@@ -485,150 +1069,239 @@ export class Parser {
     };
 
     while (i < content.length) {
-      if (content[i] !== "$") {
-        currentText += content[i];
-        i++;
-        continue;
+      if (content[i] === "$") {
+        const expansion = this.parseDollarExpansion(content, i, false);
+        if (expansion) {
+          pushText();
+          parts.push(expansion.part);
+          i = expansion.end;
+          continue;
+        }
       }
-
-      pushText();
+      currentText += content[i];
       i++;
+    }
 
-      if (i >= content.length) {
-        currentText += "$";
-        break;
+    pushText();
+
+    return {
+      type: "word",
+      parts,
+    };
+  }
+
+  /**
+   * Parse the raw operand of a `${NAME<op>operand}` expansion. Quotes and
+   * backslashes are removed here (single quotes are literal inside double
+   * quotes); quoted pieces become quoted parts so patterns treat them literally.
+   * `origin` is where the operand starts in the source, when it is known.
+   */
+  private parseExpansionOperand(operand: string, inDoubleQuote: boolean, quoted: boolean, origin?: SourceSpan): WordNode {
+    const parts: WordPart[] = [];
+    let currentText = "";
+    let i = 0;
+
+    // Add a part read from `from` up to `to` in the operand
+    const push = (part: WordPart, from: number, to: number) => {
+      parts.push(origin ? withSpan(part, spanWithin(origin, operand, from, Math.min(to, operand.length))) : part);
+    };
+    // Unquoted text is read character for character, so it ends where the operand is read up to
+    const pushText = () => {
+      if (currentText.length > 0) {
+        push({ type: "text", value: currentText, quoted }, i - currentText.length, i);
+        currentText = "";
       }
+    };
 
-      if (content[i] === "{") {
-        i++;
-        let name = "";
-        while (i < content.length && content[i] !== "}") {
-          name += content[i];
-          i++;
-        }
-        if (i < content.length && content[i] === "}") {
+    while (i < operand.length) {
+      const char = operand[i]!;
+
+      if (char === "\\" && i + 1 < operand.length) {
+        const escaped = operand[i + 1]!;
+        if (inDoubleQuote && !["$", '"', "\\", "`", "}"].includes(escaped)) {
+          currentText += char;
           i++;
+          continue;
         }
-        parts.push({ type: "variable", name, quoted: false });
-        continue;
-      }
-
-      if (["#", "*", "@", "?"].includes(content[i] ?? "")) {
-        parts.push({ type: "variable", name: content[i]!, quoted: false });
-        i++;
+        pushText();
+        push({ type: "text", value: escaped, quoted: true }, i, i + 2);
+        i += 2;
         continue;
       }
 
-      if (/[0-9]/.test(content[i] ?? "")) {
-        parts.push({ type: "variable", name: content[i]!, quoted: false });
-        i++;
+      if (char === "'" && !inDoubleQuote) {
+        const close = operand.indexOf("'", i + 1);
+        const end = close === -1 ? operand.length : close;
+        pushText();
+        push({ type: "text", value: operand.slice(i + 1, end), quoted: true }, i, end + 1);
+        i = end + 1;
         continue;
       }
 
-      if (content[i] === "(" && content[i + 1] === "(") {
-        i += 2;
-        let depth = 1;
-        let expression = "";
-        while (i < content.length && depth > 0) {
-          if (content[i] === "(" && content[i + 1] === "(") {
-            depth++;
-            expression += content[i]! + content[i + 1]!;
-            i += 2;
-            continue;
-          }
-          if (content[i] === ")" && content[i + 1] === ")") {
-            depth--;
-            if (depth === 0) {
-              i += 2;
-              break;
-            }
-            expression += content[i]! + content[i + 1]!;
-            i += 2;
-            continue;
-          }
-          expression += content[i]!;
-          i++;
+      if (char === '"') {
+        let end = i + 1;
+        while (end < operand.length && operand[end] !== '"') {
+          end += operand[end] === "\\" ? 2 : 1;
         }
-        parts.push({ type: "arithmetic", expression, quoted: false });
-        continue;
-      }
-
-      if (content[i] === "(") {
-        i++;
-        let depth = 1;
-        let command = "";
-        while (i < content.length && depth > 0) {
-          if (content[i] === "(") {
-            depth++;
-          } else if (content[i] === ")") {
-            depth--;
-            if (depth === 0) {
-              i++;
-              break;
-            }
-          }
-          command += content[i]!;
-          i++;
+        const innerOrigin = origin && spanWithin(origin, operand, i + 1, i + 1);
+        const inner = this.parseExpansionOperand(operand.slice(i + 1, end), true, true, innerOrigin);
+        pushText();
+        if (inner.parts.length > 0) {
+          parts.push(...inner.parts);
+        } else {
+          push({ type: "text", value: "", quoted: true }, i, end + 1);
         }
-        const innerParser = new Parser(
-          new Lexer(command, { preserveNewlines: true }).tokenize()
-        );
-        parts.push({ type: "substitution", command: innerParser.parse(), quoted: false });
+        i = end + 1;
         continue;
       }
 
-      if (/[a-zA-Z_]/.test(content[i] ?? "")) {
-        let name = "";
-        while (i < content.length && /[a-zA-Z0-9_]/.test(content[i] ?? "")) {
-          name += content[i];
-          i++;
+      if (char === "$") {
+        const expansion = this.parseDollarExpansion(operand, i, quoted, origin);
+        if (expansion) {
+          pushText();
+          push(expansion.part, i, expansion.end);
+          i = expansion.end;
+          continue;
         }
-        parts.push({ type: "variable", name, quoted: false });
-        continue;
       }
 
-      currentText += "$";
+      currentText += char;
+      i++;
     }
 
     pushText();
 
-    return {
+    const word: WordNode = {
       type: "word",
       parts,
     };
+    return origin ? withSpan(word, spanWithin(origin, operand, 0, operand.length)) : word;
   }
 
-  private parseRedirect(): Redirect {
-    const token = this.advance() as Token & { type: "redirect" };
-    const mode = token.mode as RedirectMode;
+  /**
+   * Parse the `$` expansion starting at `start` in raw text. Returns null when
+   * the `$` is literal. `origin` is where the text starts in the source, when
+   * it is known.
+   */
+  private parseDollarExpansion(
+    content: string,
+    start: number,
+    quoted: boolean,
+    origin?: SourceSpan
+  ): { part: WordPart; end: number } | null {
+    let i = start + 1;
+
+    if (i >= content.length) {
+      return null;
+    }
 
-    if (mode === "2>&1" || mode === "1>&2") {
-      return { mode, target: this.createTextWord("") };
+    if (content[i] === "{") {
+      const end = findParameterExpansionEnd(content, i + 1, true);
+      if (end === -1) {
+        throw new ParseError("Unterminated parameter expansion");
+      }
+      const body = content.slice(i + 1, end);
+      const token = parseParameterExpansion(body);
+      if (!token) {
+        throw new ParseError(`Bad substitution: \${${body}}`);
+      }
+      if (origin) {
+        withSpan(token, spanWithin(origin, content, start, end + 1));
+      }
+      return { part: this.tokenToWordParts(token, quoted)[0]!, end: end + 1 };
+    }
+
+    if (["#", "*", "@", "?", "!", "-"].includes(content[i] ?? "") || /[0-9]/.test(content[i] ?? "")) {
+      return { part: { type: "variable", name: content[i]!, quoted }, end: i + 1 };
+    }
+
+    if (content[i] === "(" && content[i + 1] === "(" && findArithmeticEnd(content, i + 2) !== -1) {
+      const close = findArithmeticEnd(content, i + 2);
+      const expression = content.slice(i + 2, close);
+      i = close + 2;
+      return { part: { type: "arithmetic", expression, quoted }, end: i };
+    }
+
+    if (content[i] === "(") {
+      i++;
+      let depth = 1;
+      let command = "";
+      while (i < content.length && depth > 0) {
+        if (content[i] === "(") {
+          depth++;
+        } else if (content[i] === ")") {
+          depth--;
+          if (depth === 0) {
+            i++;
+            break;
+          }
+        }
+        command += content[i]!;
+        i++;
+      }
+      const span = origin && spanWithin(origin, content, start, i);
+      return { part: { type: "substitution", command: this.parseInner(command, span), quoted }, end: i };
     }
 
+    if (/[a-zA-Z_]/.test(content[i] ?? "")) {
+      let name = "";
+      while (i < content.length && /[a-zA-Z0-9_]/.test(content[i] ?? "")) {
+        name += content[i];
+        i++;
+      }
+      return { part: { type: "variable", name, quoted }, end: i };
+    }
+
+    return null;
+  }
+
+  private parseRedirect(): Redirect {
+    const start = this.pos;
+    const token = this.advance() as Token & { type: "redirect" };
+    const { op } = token;
+    const fd = token.fd ?? (op === "<" || op === "<>" || op === "<<<" || op === "<&" ? 0 : 1);
+
     if (!this.isWordToken()) {
-      throw new ParseError(`Expected redirect target after ${mode}`);
+      throw new ParseError(`Expected redirect target after ${tokenToString(token)}`);
     }
 
     const target = this.parseWordArg();
-    return { mode, target };
+    return this.located(start, { fd, op, target });
+  }
+
+  private heredocRedirect(token: Token & { type: "heredoc" }): Redirect {
+    const redirect: Redirect = { fd: 0, op: "<<", target: this.tokenToWord(token) };
+    return token.span ? withSpan(redirect, token.span) : redirect;
   }
 
   private isWordToken(): boolean {
     const token = this.peek();
+    return this.isWordLike(token) || token.type === "heredoc";
+  }
+
+  private isWordLike(token: Token): boolean {
     return (
       Array.isArray(token) ||
       token.type === "word" ||
       token.type === "singleQuote" ||
       token.type === "doubleQuote" ||
       token.type === "variable" ||
+      token.type === "parameterExpansion" ||
       token.type === "substitution" ||
+      token.type === "processSubstitution" ||
       token.type === "arithmetic" ||
-      token.type === "glob" ||
-      token.type === "heredoc"
+      token.type === "glob"
     );
   }
 
+  private sourceText(start: number, end: number): string {
+    return this.tokens
+      .slice(start, end)
+      .filter((token) => Array.isArray(token) || token.type !== "newline")
+      .map((token) => (Array.isArray(token) ? token.map(tokenToString).join("") : tokenToString(token)))
+      .join(" ");
+  }
+
   private check(type: Token["type"]): boolean {
     return this.peek().type === type;
   }
@@ -645,6 +1318,10 @@ export class Parser {
     return this.tokens[this.pos] ?? { type: "eof" };
   }
 
+  private peekAt(offset: number): Token {
+    return this.tokens[this.pos + offset] ?? { type: "eof" };
+  }
+
   private advance(): Token {
     const token = this.peek();
     this.pos++;
@@ -659,3 +1336,89 @@ export class Parser {
 export function parse(tokens: Token[]): ASTNode {
   return new Parser(tokens).parse();
 }
+
+// `span` moved `offset` characters right on its first line
+function shiftSpan(span: SourceSpan, offset: number): SourceSpan {
+  return { ...span, start: span.start + offset, column: span.column + offset };
+}
+
+function toOrigin(span: SourceSpan): { offset: number; line: number; column: number } {
+  return { offset: span.start, line: span.line, column: span.column };
+}
+
+// The span of `text.slice(from, to)`, where `text` is read character for character from where `span` starts
+function spanWithin(span: SourceSpan, text: string, from: number, to: number): SourceSpan {
+  const before = text.slice(0, from);
+  const lastNewline = before.lastIndexOf("\n");
+  return {
+    start: span.start + from,
+    end: span.start + to,
+    line: span.line + before.split("\n").length - 1,
+    column: lastNewline === -1 ? span.column + from : from - lastNewline,
+  };
+}
+
+/**
+ * The `name=`, `name+=` or `name[index]=` an assignment token starts with,
+ * and the token's span when it spans that text as written.
+ */
+function assignmentHead(token: Token & { type: "assignment" }): { head: string; span?: SourceSpan } {
+  const head = `${token.name}${token.index === undefined ? "" : `[${token.index}]`}${token.append ? "+=" : "="}`;
+  const { span } = token;
+  return { head, span: span && span.end - span.start >= head.length ? span : undefined };
+}
+
+// The source after an assignment's `=` or `+=`, unless the value is an array literal
+function assignmentValueSpan(token: Token & { type: "assignment" }): SourceSpan | undefined {
+  const { head, span } = assignmentHead(token);
+  return span && token.array === undefined ? { ...spanWithin(span, head, head.length, head.length), end: span.end } : undefined;
+}
+
+/**
+ * Where the operand and replacement of a `${name<op>operand}` token start,
+ * known only when the token spans its text as written, not an alias's name.
+ */
+function operandOrigins(token: Token & { type: "parameterExpansion" }): [SourceSpan | undefined, SourceSpan | undefined] {
+  const { span, operand = "", replacement } = token;
+  const head = `\${${token.name}${token.index === undefined ? "" : `[${token.index}]`}${token.operator}`;
+  const text = replacement === undefined ? `${head}${operand}}` : `${head}${operand}/${replacement}}`;
+  if (!span || span.end - span.start !== text.length) {
+    return [undefined, undefined];
+  }
+  const at = (offset: number) => spanWithin(span, text, offset, offset);
+  return [at(head.length), replacement === undefined ? undefined : at(head.length + operand.length + 1)];
+}
+
+// Give parts without a span of their own the span of the token they were read from
+function spanParts(parts: WordPart[], span: SourceSpan | undefined): WordPart[] {
+  if (span) {
+    for (const part of parts) {
+      if (!part.span) {
+        withSpan(part, span);
+      }
+    }
+  }
+  return parts;
+}
+
+/**
+ * Give each object in a parsed tree without a span the span of its nearest
+ * ancestor with one, or with `replace`, give every object `span`.
+ */
+function fillSpans<T extends object>(value: T, span: SourceSpan | undefined, replace = false): T {
+  let inherited = span;
+  if (!Array.isArray(value)) {
+    const own = (value as { span?: SourceSpan }).span;
+    if (span && (replace || !own)) {
+      withSpan(value, span);
+    } else {
+      inherited = own;
+    }
+  }
+  for (const child of Object.values(value)) {
+    if (typeof child === "object" && child !== null) {
+      fillSpans(child, inherited, replace);
+    }
+  }
+  return value;
+}
@@ -3,17 +3,23 @@ import type {
   Command,
   VirtualFS,
   ExecResult,
+  RedirectObject,
   RedirectObjectMap,
   TerminalInfo,
   ShellCommandFallback,
+  ShellOptions,
+  ShoptOptions,
+  ShellLimits,
 } from "./types.ts";
-import { isRawValue, isRedirectObject } from "./types.ts";
+import { describeRedirectObjects, isRawValue, isRedirectObject } from "./types.ts";
 import type { Token } from "./lexer/tokens.ts";
 import type { ASTNode } from "./parser/ast.ts";
 import { Lexer } from "./lexer/lexer.ts";
 import { Parser } from "./parser/parser.ts";
 import { Interpreter } from "./interpreter/interpreter.ts";
+import type { PipeOptions } from "./io/stdout.ts";
 import { ShellPromise } from "./shell-promise.ts";
+import { LexError, ParseError, attachCodeFrame } from "./errors.ts";
 import { escape, escapeForInterpolation } from "./utils/escape.ts";
 
 export interface Program {
@@ -32,6 +38,11 @@ export class ShellDSL {
   private isTTY: boolean;
   private terminal: TerminalInfo;
   private externalCommand?: ShellCommandFallback;
+  private scriptPath: boolean;
+  private shellOptions: ShellOptions;
+  private shoptOptions: ShoptOptions;
+  private pipeOptions: PipeOptions;
+  private limits: ShellLimits;
 
   constructor(config: ShellConfig) {
     this.fs = config.fs;
@@ -43,6 +54,11 @@ export class ShellDSL {
     this.terminal = config.terminal ?? { isTTY: config.isTTY ?? false };
     this.isTTY = this.terminal.isTTY;
     this.externalCommand = config.externalCommand;
+    this.scriptPath = config.scriptPath ?? false;
+    this.shellOptions = { ...config.options };
+    this.shoptOptions = { ...config.shopt };
+    this.pipeOptions = { ...config.pipes };
+    this.limits = { ...config.limits };
   }
 
   // Template tag function
@@ -61,7 +77,8 @@ export class ShellDSL {
       } else if (this.isRedirectTarget(precedingString, value)) {
         // Value appears after a redirect operator - store as redirect object
         const marker = `__REDIR_OBJ_${objIndex++}__`;
-        redirectObjects[marker] = value as Buffer | Blob | Response | string;
+        // Another script is read as it writes its stdout, and only starts once the redirect is read
+        redirectObjects[marker] = value instanceof ShellPromise ? deferStdout(value) : (value as RedirectObject);
         source += marker;
       } else {
         source += escapeForInterpolation(value);
@@ -79,32 +96,31 @@ export class ShellDSL {
     }
     // Check if preceding string ends with redirect operator
     const trimmed = precedingString.trimEnd();
-    const afterRedirectOp = /(<|>|>>|2>|2>>|&>|&>>)\s*$/.test(trimmed);
+    const afterRedirectOp = /(<|>|>>|>\||2>|2>>|&>|&>>)\s*$/.test(trimmed);
 
-    if (!afterRedirectOp) {
+    // Here-string words (`<<< ${text}`) are interpolated like any other word
+    if (!afterRedirectOp || /<<<\s*$/.test(trimmed)) {
       return false;
     }
 
-    // Buffer, Blob, Response are always treated as redirect objects
-    if (Buffer.isBuffer(value) || value instanceof Blob || value instanceof Response) {
-      return true;
-    }
-
     // For strings after input redirect (<), treat as content per spec
-    // For strings after output redirect (>), they must be Buffers
+    // For strings after output redirect (>), they are file names
     if (typeof value === "string") {
       // Only input redirection supports string content
       return /<\s*$/.test(trimmed);
     }
 
-    return false;
+    // Every other object is read or written; the interpreter rejects the wrong direction
+    return true;
   }
 
   private createPromise(source: string, options?: { cwd?: string; env?: Record<string, string>; shouldThrow?: boolean; redirectObjects?: RedirectObjectMap }): ShellPromise {
     const shell = this;
+    const redirectObjects = options?.redirectObjects ?? {};
+    const describe = (text: string) => describeRedirectObjects(text, redirectObjects);
 
     return new ShellPromise({
-      execute: async (overrides) => {
+      execute: (overrides) => {
         const cwd = overrides?.cwd ?? options?.cwd ?? shell.currentCwd;
         const env = { ...shell.currentEnv, ...options?.env, ...overrides?.env };
 
@@ -116,12 +132,23 @@ export class ShellDSL {
           redirectObjects: options?.redirectObjects,
           terminal: shell.terminal,
           externalCommand: shell.externalCommand,
+          scriptPath: shell.scriptPath,
+          shellOptions: { ...shell.shellOptions, ...overrides?.options },
+          shoptOptions: shell.shoptOptions,
+          pipes: shell.pipeOptions,
+          limits: shell.limits,
         });
 
-        const tokens = shell.lex(source);
-        const ast = shell.parse(tokens);
-        return interpreter.execute(ast);
+        let ast: ASTNode;
+        try {
+          ast = shell.parse(shell.lex(source));
+        } catch (err) {
+          throw err instanceof LexError || err instanceof ParseError ? attachCodeFrame(err, source, describe) : err;
+        }
+        return interpreter.executeStreaming(ast, { stdin: overrides.stdin, limits: overrides.limits });
       },
+      source,
+      describe,
       cwdOverride: options?.cwd,
       envOverride: options?.env,
       shouldThrow: options?.shouldThrow ?? this.shouldThrow,
@@ -179,6 +206,11 @@ export class ShellDSL {
       commands: this.commands,
       terminal: this.terminal,
       externalCommand: this.externalCommand,
+      scriptPath: this.scriptPath,
+      shellOptions: this.shellOptions,
+      shoptOptions: this.shoptOptions,
+      pipes: this.pipeOptions,
+      limits: this.limits,
     });
 
     return interpreter.execute(program.ast);
@@ -207,6 +239,9 @@ export function createShellDSL(config: ShellConfig): ShellDSL & ((strings: Templ
     isTTY: (shell as any).isTTY,
     terminal: (shell as any).terminal,
     externalCommand: (shell as any).externalCommand,
+    scriptPath: (shell as any).scriptPath,
+    shellOptions: (shell as any).shellOptions,
+    shoptOptions: (shell as any).shoptOptions,
   });
 
   // Bind methods
@@ -224,3 +259,8 @@ export function createShellDSL(config: ShellConfig): ShellDSL & ((strings: Templ
 
   return tag as ShellDSL & ((strings: TemplateStringsArray, ...values: unknown[]) => ShellPromise);
 }
+
+// A script's stdout that starts the script only when a redirect reads it
+function deferStdout(script: ShellPromise): AsyncIterable<Uint8Array> {
+  return { [Symbol.asyncIterator]: () => script.stdout[Symbol.asyncIterator]() };
+}
@@ -1,52 +1,86 @@
-import type { ExecResult } from "./types.ts";
-import { ShellError } from "./errors.ts";
+import type { ExecResult, ShellExecution, ShellInputSource, ShellLimits, ShellOptions } from "./types.ts";
+import { ShellError, attachCodeFrame } from "./errors.ts";
 
 export interface ExecuteOverrides {
   cwd?: string;
   env?: Record<string, string>;
+  options?: ShellOptions;
+  stdin?: ShellInputSource;
+  limits?: ShellLimits;
 }
 
 export interface ShellPromiseOptions {
-  execute: (overrides: ExecuteOverrides) => Promise<ExecResult>;
+  execute: (overrides: ExecuteOverrides) => ShellExecution;
   cwdOverride?: string;
   envOverride?: Record<string, string>;
+  optionsOverride?: ShellOptions;
+  limitsOverride?: ShellLimits;
   shouldThrow?: boolean;
   quiet?: boolean;
+  stdin?: ShellInputSource;
+  // The script, so a ShellError can show where it failed
+  source?: string;
+  // How the script and error messages are shown, when they hold markers
+  describe?: (text: string) => string;
 }
 
-export class ShellPromise implements PromiseLike<ExecResult> {
-  private executor: (overrides: ExecuteOverrides) => Promise<ExecResult>;
+export class ShellPromise implements PromiseLike<ExecResult>, AsyncIterable<string> {
+  private executor: (overrides: ExecuteOverrides) => ShellExecution;
   private cwdOverride?: string;
   private envOverride?: Record<string, string>;
+  private optionsOverride?: ShellOptions;
+  private limitsOverride?: ShellLimits;
   private shouldThrow: boolean;
   private isQuiet: boolean;
-  private cachedResult?: Promise<ExecResult>;
+  private stdinSource?: ShellInputSource;
+  private execution?: ShellExecution;
+  private source?: string;
+  private describe?: (text: string) => string;
 
   constructor(options: ShellPromiseOptions) {
     this.executor = options.execute;
     this.cwdOverride = options.cwdOverride;
     this.envOverride = options.envOverride;
+    this.optionsOverride = options.optionsOverride;
+    this.limitsOverride = options.limitsOverride;
     this.shouldThrow = options.shouldThrow ?? true;
     this.isQuiet = options.quiet ?? false;
+    this.stdinSource = options.stdin;
+    this.source = options.source;
+    this.describe = options.describe;
   }
 
-  private async run(): Promise<ExecResult> {
-    if (!this.cachedResult) {
-      this.cachedResult = this.executor({
-        cwd: this.cwdOverride,
-        env: this.envOverride,
-      });
+  // The script runs once, when it is first awaited, read or killed
+  private start(): ShellExecution {
+    if (!this.execution) {
+      try {
+        this.execution = this.executor({
+          cwd: this.cwdOverride,
+          env: this.envOverride,
+          options: this.optionsOverride,
+          stdin: this.stdinSource,
+          limits: this.limitsOverride,
+        });
+      } catch (err) {
+        this.execution = failedExecution(err);
+      }
     }
+    return this.execution;
+  }
 
-    const result = await this.cachedResult;
+  private async run(): Promise<ExecResult> {
+    const result = await this.start().exit;
 
     if (this.shouldThrow && result.exitCode !== 0) {
-      throw new ShellError(
+      const error = new ShellError(
         `Command failed with exit code ${result.exitCode}`,
         result.stdout,
         result.stderr,
-        result.exitCode
+        result.exitCode,
+        result.location,
+        result.stages
       );
+      throw this.source === undefined ? error : attachCodeFrame(error, this.source, this.describe);
     }
 
     return result;
@@ -80,18 +114,41 @@ export class ShellPromise implements PromiseLike<ExecResult> {
     return JSON.parse(text);
   }
 
+  // Lines of stdout as the script writes them; a failed script throws once they are read
   async *lines(): AsyncIterable<string> {
-    const text = await this.text();
-    const lines = text.split("\n");
-    // Remove trailing empty line if present
-    if (lines[lines.length - 1] === "") {
-      lines.pop();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    for await (const chunk of this.start().stdout) {
+      buffer += decoder.decode(chunk, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+      yield* lines;
     }
-    for (const line of lines) {
-      yield line;
+    buffer += decoder.decode();
+    await this.run();
+    if (buffer !== "") {
+      yield buffer;
     }
   }
 
+  [Symbol.asyncIterator](): AsyncIterator<string> {
+    return this.lines()[Symbol.asyncIterator]();
+  }
+
+  // Output streams, readable while the script runs; each read starts from the beginning
+  get stdout(): ReadableStream<Uint8Array> {
+    return toReadableStream(this.start().stdout);
+  }
+
+  get stderr(): ReadableStream<Uint8Array> {
+    return toReadableStream(this.start().stderr);
+  }
+
+  // Stop the script, as `ShellExecution.kill()` does
+  kill(reason?: unknown): void {
+    this.start().kill(reason);
+  }
+
   async blob(): Promise<Blob> {
     const result = await this.run();
     return new Blob([new Uint8Array(result.stdout)]);
@@ -104,53 +161,81 @@ export class ShellPromise implements PromiseLike<ExecResult> {
 
   // Behavior modifiers - return new ShellPromise with modified options
   quiet(): ShellPromise {
-    return new ShellPromise({
-      execute: this.executor,
-      cwdOverride: this.cwdOverride,
-      envOverride: this.envOverride,
-      shouldThrow: this.shouldThrow,
-      quiet: true,
-    });
+    return this.derive({ quiet: true });
   }
 
   nothrow(): ShellPromise {
-    return new ShellPromise({
-      execute: this.executor,
-      cwdOverride: this.cwdOverride,
-      envOverride: this.envOverride,
-      shouldThrow: false,
-      quiet: this.isQuiet,
-    });
+    return this.derive({ shouldThrow: false });
   }
 
   throws(enable: boolean): ShellPromise {
-    return new ShellPromise({
-      execute: this.executor,
-      cwdOverride: this.cwdOverride,
-      envOverride: this.envOverride,
-      shouldThrow: enable,
-      quiet: this.isQuiet,
-    });
+    return this.derive({ shouldThrow: enable });
   }
 
   // Context overrides - these need to be handled by the shell
   cwd(path: string): ShellPromise {
-    return new ShellPromise({
-      execute: this.executor,
-      cwdOverride: path,
-      envOverride: this.envOverride,
-      shouldThrow: this.shouldThrow,
-      quiet: this.isQuiet,
-    });
+    return this.derive({ cwdOverride: path });
   }
 
   env(vars: Record<string, string>): ShellPromise {
-    return new ShellPromise({
-      execute: this.executor,
-      cwdOverride: this.cwdOverride,
-      envOverride: { ...this.envOverride, ...vars },
-      shouldThrow: this.shouldThrow,
-      quiet: this.isQuiet,
+    return this.derive({ envOverride: { ...this.envOverride, ...vars } });
+  }
+
+  // Shell options for this run, as if the script started with `set -e` etc.
+  options(options: ShellOptions): ShellPromise {
+    return this.derive({ optionsOverride: { ...this.optionsOverride, ...options } });
+  }
+
+  // Limits for this run, over those the shell was created with
+  limits(limits: ShellLimits): ShellPromise {
+    return this.derive({ limitsOverride: { ...this.limitsOverride, ...limits } });
+  }
+
+  // Input for the script, read by the commands that read stdin
+  stdin(source: ShellInputSource): ShellPromise {
+    return this.derive({ stdin: source });
+  }
+
+  /**
+   * Run `next` with this script's stdout as its stdin, like `this | next`.
+   * The result is `next`'s. Like every stage of a pipeline, this script
+   * starts with `next` whether or not `next` reads it, and is killed once
+   * `next` ends, as a broken pipe would stop it; the result waits for it.
+   */
+  pipe(next: ShellPromise): ShellPromise {
+    const upstream = this;
+    const input: AsyncIterable<Uint8Array> = {
+      [Symbol.asyncIterator]: () => upstream.start().stdout[Symbol.asyncIterator](),
+    };
+    return next.derive({
+      stdin: input,
+      execute: (overrides) => {
+        const source = upstream.start();
+        const stop = () => {
+          source.kill();
+          return source.exit.catch(() => {});
+        };
+        let execution: ShellExecution;
+        try {
+          execution = next.executor(overrides);
+        } catch (err) {
+          stop();
+          throw err;
+        }
+        return {
+          ...execution,
+          exit: execution.exit.then(
+            async (result) => {
+              await stop();
+              return result;
+            },
+            async (err) => {
+              await stop();
+              throw err;
+            }
+          ),
+        };
+      },
     });
   }
 
@@ -163,6 +248,14 @@ export class ShellPromise implements PromiseLike<ExecResult> {
     return this.envOverride;
   }
 
+  getOptionsOverride(): ShellOptions | undefined {
+    return this.optionsOverride;
+  }
+
+  getLimitsOverride(): ShellLimits | undefined {
+    return this.limitsOverride;
+  }
+
   getShouldThrow(): boolean {
     return this.shouldThrow;
   }
@@ -170,4 +263,47 @@ export class ShellPromise implements PromiseLike<ExecResult> {
   getIsQuiet(): boolean {
     return this.isQuiet;
   }
+
+  private derive(changes: Partial<ShellPromiseOptions>): ShellPromise {
+    return new ShellPromise({
+      execute: this.executor,
+      cwdOverride: this.cwdOverride,
+      envOverride: this.envOverride,
+      optionsOverride: this.optionsOverride,
+      limitsOverride: this.limitsOverride,
+      shouldThrow: this.shouldThrow,
+      quiet: this.isQuiet,
+      stdin: this.stdinSource,
+      source: this.source,
+      describe: this.describe,
+      ...changes,
+    });
+  }
+}
+
+function toReadableStream(source: AsyncIterable<Uint8Array>): ReadableStream<Uint8Array> {
+  let iterator: AsyncIterator<Uint8Array> | undefined;
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      iterator ??= source[Symbol.asyncIterator]();
+      const { value, done } = await iterator.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    async cancel() {
+      await iterator?.return?.();
+    },
+  });
+}
+
+// An execution that could not start, such as for a script that does not parse
+function failedExecution(error: unknown): ShellExecution {
+  const empty: AsyncIterable<never> = { [Symbol.asyncIterator]: async function* () {} };
+  const exit = Promise.reject(error);
+  // Rejections surface where the result is awaited
+  exit.catch(() => {});
+  return { stdout: empty, stderr: empty, output: empty, exit, kill: () => {} };
 }
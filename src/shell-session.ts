@@ -4,9 +4,12 @@ import type {
   CompletionResult,
   ExecResult,
   ShellCommandFallback,
-  ShellConfig,
   ShellExecution,
   ShellExecutionOptions,
+  ShellJob,
+  ShellLimits,
+  ShellOptions,
+  ShoptOptions,
   TerminalInfo,
   VirtualFS,
 } from "./types.ts";
@@ -14,7 +17,7 @@ import type { Program } from "./shell-dsl.ts";
 import { Lexer } from "./lexer/lexer.ts";
 import { Parser } from "./parser/parser.ts";
 import { Interpreter } from "./interpreter/interpreter.ts";
-import { createStderr, createStdout } from "./io/stdout.ts";
+import { createStderr, createStdout, type PipeOptions } from "./io/stdout.ts";
 import { AsyncQueue } from "./io/async-queue.ts";
 import type { ShellOutputEvent } from "./types.ts";
 
@@ -27,6 +30,14 @@ export interface ShellSessionOptions {
   isTTY?: boolean;
   terminal?: TerminalInfo;
   externalCommand?: ShellCommandFallback;
+  scriptPath?: boolean;
+  // Aliases defined before the first command, as if by `alias name=value`
+  aliases?: Record<string, string>;
+  options?: ShellOptions;
+  shopt?: ShoptOptions;
+  pipes?: PipeOptions;
+  // Limits of every run; `run()` options can override them
+  limits?: ShellLimits;
 }
 
 export class ShellSession {
@@ -48,16 +59,25 @@ export class ShellSession {
       commands: options.commands,
       terminal: this.terminal,
       externalCommand: options.externalCommand,
+      scriptPath: options.scriptPath,
+      aliases: new Map(Object.entries(options.aliases ?? {})),
+      jobControl: true,
+      shellOptions: options.options,
+      shoptOptions: options.shopt,
+      pipes: options.pipes,
+      limits: options.limits,
     });
   }
 
   run(source: string, options: ShellExecutionOptions = {}): ShellExecution {
     try {
-      const tokens = new Lexer(source, { preserveNewlines: true }).tokenize();
+      // Aliases apply from the next run, as they do from the next line in bash
+      const aliases = this.interpreter.getAliases();
+      const tokens = new Lexer(source, { preserveNewlines: true, aliases }).tokenize();
       if (tokens.every((token) => token.type === "newline" || token.type === "eof")) {
         return this.createImmediateExecution(0, "", "");
       }
-      const ast = new Parser(tokens).parse();
+      const ast = new Parser(tokens, { aliases }).parse();
       return this.interpreter.executeStreaming(ast, options);
     } catch (err) {
       const message = err instanceof Error ? err.message : String(err);
@@ -81,6 +101,54 @@ export class ShellSession {
     return this.interpreter.getLastExitCode();
   }
 
+  getFunctionNames(): string[] {
+    return this.interpreter.getFunctionNames();
+  }
+
+  /** Aliases defined with `alias` or the `aliases` option, name to replacement text. */
+  getAliases(): Record<string, string> {
+    return Object.fromEntries(this.interpreter.getAliases());
+  }
+
+  /** Options set through the session config or `set` (e.g. `set -e`). */
+  getOptions(): Required<ShellOptions> {
+    return this.interpreter.getOptions();
+  }
+
+  setOptions(options: ShellOptions): void {
+    this.interpreter.setOptions(options);
+  }
+
+  /** Options set through the session config or `shopt` (e.g. `shopt -s extglob`). */
+  getShoptOptions(): Required<ShoptOptions> {
+    return this.interpreter.getShoptOptions();
+  }
+
+  setShoptOptions(options: ShoptOptions): void {
+    this.interpreter.setShoptOptions(options);
+  }
+
+  /** Background jobs started with `&` that are running or not yet reported. */
+  getJobs(): ShellJob[] {
+    return this.interpreter.getJobs();
+  }
+
+  /**
+   * Remove and return jobs that finished since the last call, so a terminal can
+   * print `[1]+ Done ...` lines when the prompt returns.
+   */
+  takeFinishedJobs(): ShellJob[] {
+    return this.interpreter.takeFinishedJobs();
+  }
+
+  waitForJob(id?: number): Promise<number> {
+    return this.interpreter.waitForJob(id);
+  }
+
+  killJob(id: number, signal?: number): void {
+    this.interpreter.killJob(id, signal);
+  }
+
   async complete(source: string, cursor: number = source.length): Promise<CompletionResult> {
     const boundedCursor = Math.max(0, Math.min(cursor, source.length));
     const prefix = source.slice(0, boundedCursor);
@@ -89,7 +157,7 @@ export class ShellSession {
     if (isCommandPosition(prefix, start) && !looksLikePath(word)) {
       return {
         replacement: word,
-        matches: Object.keys(this.commands)
+        matches: [...new Set([...Object.keys(this.commands), ...this.getFunctionNames(), ...this.interpreter.getAliases().keys()])]
           .filter((name) => name.startsWith(word))
           .sort()
           .map((name) => `${name} `),
@@ -119,7 +187,8 @@ export class ShellSession {
   }
 
   async dispose(): Promise<void> {
-    // Reserved for future resources owned by a session.
+    this.interpreter.killAllJobs(new Error("Shell session disposed"));
+    await this.interpreter.waitForJob();
   }
 
   private async completePath(word: string): Promise<CompletionResult> {
@@ -198,7 +267,7 @@ export class ShellSession {
   }
 }
 
-export function createShellSession(config: ShellConfig): ShellSession {
+export function createShellSession(config: ShellSessionOptions): ShellSession {
   return new ShellSession(config);
 }
 
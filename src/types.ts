@@ -1,3 +1,6 @@
+import type { SourceSpan } from "./lexer/tokens.ts";
+import type { PipeOptions } from "./io/stdout.ts";
+
 // Virtual Filesystem Interface
 export interface VirtualFSWritable {
   write(chunk: Uint8Array): Promise<void>;
@@ -23,7 +26,19 @@ export interface VirtualFS {
   resolve(...paths: string[]): string;
   dirname(path: string): string;
   basename(path: string): string;
-  glob(pattern: string, opts?: { cwd?: string }): Promise<string[]>;
+  glob(pattern: string, opts?: GlobOptions): Promise<string[]>;
+}
+
+/**
+ * Options for `VirtualFS.glob()`, named after the `shopt` options that set
+ * them in the shell. Unset, `**` recurses and wildcards match dotfiles.
+ */
+export interface GlobOptions {
+  cwd?: string;
+  extglob?: boolean; // ?(p) *(p) +(p) @(p) !(p) pattern lists
+  dotglob?: boolean; // wildcards match names starting with `.`
+  nocaseglob?: boolean; // match names case-insensitively
+  globstar?: boolean; // `**` matches any number of directories
 }
 
 export interface FileStat {
@@ -47,8 +62,114 @@ export interface ShellCommandApi {
   source(path: string, args?: string[]): Promise<number>;
   runScript(path: string, args?: string[]): Promise<number>;
   runShell(source: string, options?: ShellRunOptions): Promise<number>;
+  // Run a command with the caller's stdio; `env` replaces the exported environment
+  runCommand(name: string, args: string[], env?: Record<string, string>, options?: RunCommandOptions): Promise<number>;
+  // What running `name` would do, or undefined when nothing would run
+  resolveCommand(name: string): Promise<CommandResolution | undefined>;
+  // Scripts found on `$PATH` so far, name to path
+  getCommandHash(): Record<string, string>;
+  clearCommandHash(): void;
+  // Aliases, name to replacement text; they apply to source parsed after the change
+  getAliases(): Record<string, string>;
+  setAlias(name: string, value: string): void;
+  // False when there was no such alias
+  unsetAlias(name: string): boolean;
   getLastExitCode(): number;
   exit(exitCode?: number): never;
+  return(exitCode?: number): never;
+  local(name: string, value?: string): void;
+  // True while a shell function runs, where `local` can be used
+  isInFunction(): boolean;
+  // `name[key]` reads one array element; a bare array name reads element 0
+  getVariable(name: string): string | undefined;
+  // Every scalar shell variable, exported or not; arrays are read with getArray
+  getVariables(): Record<string, string>;
+  setVariable(name: string, value: string): void;
+  getArrayNames(): string[];
+  getArray(name: string): ShellArray | undefined;
+  setArray(name: string, array: ShellArray): void;
+  unsetVariable(name: string): void;
+  unsetFunction(name: string): void;
+  exportVariable(name: string, value?: string): void;
+  unexportVariable(name: string): void;
+  getExportedNames(): string[];
+  setReadonly(name: string, value?: string): void;
+  getReadonlyNames(): string[];
+  getPositionalParameters(): string[];
+  setPositionalParameters(args: string[]): void;
+  jobs(): ShellJob[];
+  findJob(spec: string): ShellJob | undefined;
+  waitForJob(id?: number): Promise<number>;
+  killJob(id: number, signal?: number): void;
+  getOptions(): Required<ShellOptions>;
+  setOptions(options: ShellOptions): void;
+  getShoptOptions(): Required<ShoptOptions>;
+  setShoptOptions(options: ShoptOptions): void;
+  // Trap actions keyed by EXIT, ERR or a signal name such as INT
+  getTraps(): Record<string, string>;
+  // A null action resets the condition to its default
+  setTrap(condition: string, action: string | null): void;
+  // Keep this command's redirects open in the calling shell, as `exec 3> file` does
+  keepRedirects(): void;
+}
+
+export interface RunCommandOptions {
+  // False to skip shell functions, as `command name` does
+  functions?: boolean;
+  // Run the command in a subshell that is stopped when the signal aborts
+  signal?: AbortSignal;
+}
+
+/**
+ * How a command name resolves, in lookup order. Builtins are the registered
+ * commands bash also builds in, such as `cd` and `read`; other registered
+ * commands are `command`. Aliases carry their text and scripts the path of
+ * the file that runs.
+ */
+export interface CommandResolution {
+  kind: "alias" | "keyword" | "function" | "builtin" | "command" | "script" | "external";
+  value?: string;
+  path?: string;
+}
+
+// Shell options toggled with `set -o name` or their single-letter flags
+export interface ShellOptions {
+  errexit?: boolean; // -e: exit when a command fails outside a condition
+  nounset?: boolean; // -u: expanding an unset variable is an error
+  xtrace?: boolean; // -x: trace each command to stderr before running it
+  pipefail?: boolean; // a pipeline fails if any of its commands fails
+  noglob?: boolean; // -f: disable pathname expansion
+}
+
+// Shell options toggled with `shopt -s name` and `shopt -u name`
+export interface ShoptOptions {
+  extglob?: boolean; // ?(p) *(p) +(p) @(p) !(p) in globs and patterns
+  nullglob?: boolean; // a glob with no matches expands to nothing
+  failglob?: boolean; // a glob with no matches is an error
+  dotglob?: boolean; // globs match names starting with `.`
+  nocaseglob?: boolean; // globs match names case-insensitively
+  globstar?: boolean; // `**` in a glob matches any number of directories
+}
+
+/**
+ * An indexed (`arr=(a b)`) or associative (`declare -A map`) array. Entries
+ * are in expansion order; indexed arrays are keyed by decimal indices.
+ */
+export interface ShellArray {
+  associative: boolean;
+  entries: Array<[string, string]>;
+}
+
+export type ShellJobStatus = "running" | "done" | "killed";
+
+// A background job started with `&`
+export interface ShellJob {
+  id: number;
+  pid: number;
+  command: string;
+  status: ShellJobStatus;
+  exitCode: number | null;
+  signal: number | null;
 }
 
 export interface TerminalInfo {
@@ -92,6 +213,16 @@ export interface CommandContext {
   setCwd: (path: string) => void;
   exec?: (name: string, args: string[]) => Promise<ExecResult>;
   shell?: ShellCommandApi;
+  // Descriptors above 2 opened by redirects, such as 3 in `cmd 3> log`; the
+  // shell always sets it, but contexts built by hand may leave it out
+  fds?: ReadonlyMap<number, FileDescriptor>;
+}
+
+export interface FileDescriptor {
+  // Set when the descriptor is open for reading (`3< file`, `3<&0`)
+  input?: Stdin;
+  // Set when the descriptor is open for writing (`3> file`, `3>&1`)
+  output?: Stdout;
 }
 
 export interface ExternalCommandContext extends CommandContext {
@@ -105,6 +236,22 @@ export interface Stdin {
   buffer(): Promise<Buffer>;
   text(): Promise<string>;
   lines(): AsyncIterable<string>;
+  /**
+   * Read up to and including `delimiter`, or at most `maxChars` characters,
+   * leaving the rest of the input for the next reader. Resolves to null at
+   * end of input.
+   */
+  readUntil(delimiter: string, options?: StdinReadOptions): Promise<string | null>;
+  /** Read the next chunk of input as it arrives. Resolves to null at end of input. */
+  read(options?: StdinReadOptions): Promise<Uint8Array | null>;
+  /** Give back bytes read but not used, so the next reader starts with them. */
+  unread(chunk: Uint8Array): void;
+}
+
+export interface StdinReadOptions {
+  maxChars?: number;
+  // Stop waiting for input; bytes read so far stay unconsumed
+  signal?: AbortSignal;
 }
 
 export interface ShellInputController extends AsyncIterable<Uint8Array> {
@@ -136,6 +283,23 @@ export interface ExecResult {
   stdout: Buffer;
   stderr: Buffer;
   exitCode: number;
+  // With a non-zero exit code, where the command the status came from is in the script
+  location?: SourceSpan;
+  // The stages of the last pipeline the script ran, whose statuses `$PIPESTATUS` lists
+  stages?: PipelineStage[];
+}
+
+/**
+ * One command of a pipeline as it ran. A simple command outside a pipeline
+ * counts as a pipeline of one.
+ */
+export interface PipelineStage {
+  // The command name after expansion, or the keyword of a compound command, such as `while` or `(`
+  command: string;
+  args: string[];
+  exitCode: number;
+  // Milliseconds from the stage starting to it ending
+  duration: number;
 }
 
 export interface ShellOutputEvent {
@@ -152,6 +316,30 @@ export interface ShellExecutionOptions {
   terminal?: TerminalInfo;
   signal?: AbortSignal;
   outputMode?: "separate" | "merged";
+  // Merged over the limits the shell was created with
+  limits?: ShellLimits;
+}
+
+/**
+ * Bounds on what one execution may do, counting everything it runs,
+ * including subshells, command substitutions and background jobs. Going
+ * over one stops the execution with a `ShellLimitError`.
+ */
+export interface ShellLimits {
+  // Milliseconds the execution may run for
+  timeout?: number;
+  // Simple commands run, including builtins, functions and assignments
+  maxCommands?: number;
+  // Iterations of `for`, `while` and `until` loops, all loops together
+  maxLoopIterations?: number;
+  // Bytes written to each of stdout and stderr
+  maxOutputBytes?: number;
+  // Commands in one pipeline
+  maxPipelineWidth?: number;
+  // Nesting of function calls, `source`, `eval`, `sh` and scripts; 1000 unless set
+  maxRecursionDepth?: number;
+  // Bytes written to files in the VirtualFS
+  maxBytesWritten?: number;
 }
 
 export interface ShellExecution {
@@ -172,6 +360,13 @@ export interface ShellConfig {
   isTTY?: boolean;
   terminal?: TerminalInfo;
   externalCommand?: ShellCommandFallback;
+  // Run files in the `$PATH` directories of `fs` by bare name, after functions and commands
+  scriptPath?: boolean;
+  options?: ShellOptions;
+  shopt?: ShoptOptions;
+  // Buffering of pipes between pipeline stages and of process substitutions
+  pipes?: PipeOptions;
+  limits?: ShellLimits;
 }
 
 // Raw escape hatch type
@@ -189,7 +384,25 @@ export function isRawValue(value: unknown): value is RawValue {
 }
 
 // JS Object Redirection types
-export type RedirectObject = Buffer | Blob | Response | string;
+// Called with each chunk written to `> ${callback}`, which waits for it to return
+export type RedirectCallback = (chunk: Uint8Array) => void | Promise<void>;
+
+/**
+ * A value interpolated after a redirect operator. Input (`<`) reads from a
+ * Buffer, Blob, Response, string, array of lines, ReadableStream or async
+ * iterable; output (`>`, `>>`) writes into a Buffer, array of lines,
+ * callback or WritableStream.
+ */
+export type RedirectObject =
+  | Buffer
+  | Blob
+  | Response
+  | string
+  | string[]
+  | RedirectCallback
+  | ReadableStream<Uint8Array>
+  | WritableStream<Uint8Array>
+  | AsyncIterable<Uint8Array | string>;
 
 export interface RedirectObjectMap {
   [marker: string]: RedirectObject;
@@ -200,6 +413,37 @@ export function isRedirectObject(value: unknown): value is RedirectObject {
     Buffer.isBuffer(value) ||
     value instanceof Blob ||
     value instanceof Response ||
-    typeof value === "string"
+    typeof value === "string" ||
+    Array.isArray(value) ||
+    typeof value === "function" ||
+    value instanceof ReadableStream ||
+    value instanceof WritableStream ||
+    isAsyncIterable(value)
+  );
+}
+
+/**
+ * `text` with the markers that stand in the script for interpolated redirect
+ * objects spelled out, as `redirect target 0 (Array)`, for errors.
+ */
+export function describeRedirectObjects(text: string, objects: RedirectObjectMap): string {
+  return text.replace(/__REDIR_OBJ_(\d+)__/g, (marker, index: string) =>
+    marker in objects ? `redirect target ${index} (${redirectObjectKind(objects[marker]!)})` : marker
   );
 }
+
+function redirectObjectKind(obj: RedirectObject): string {
+  if (typeof obj === "string") {
+    return "string";
+  }
+  if (typeof obj === "function") {
+    return "Function";
+  }
+  // Async generators and plain objects have no useful class name
+  const name = (obj as object).constructor?.name;
+  return name && name !== "Object" ? name : "AsyncIterable";
+}
+
+export function isAsyncIterable(value: unknown): value is AsyncIterable<unknown> {
+  return typeof value === "object" && value !== null && Symbol.asyncIterator in value;
+}
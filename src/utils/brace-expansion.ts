@@ -0,0 +1,122 @@
+/**
+ * Brace expansion over a word split into items: each string item is one
+ * unquoted character that may be brace syntax, and any other item (a quoted
+ * part, a `$VAR`) is carried through untouched. Supports comma lists
+ * `{a,b}`, sequences `{1..10}`, `{01..10..2}` and `{a..z}`, and nesting
+ * `{a,b{1..3}}`. Braces that form neither stay literal.
+ */
+export function expandBraces<T extends object>(items: ReadonlyArray<string | T>): Array<Array<string | T>> {
+  for (let open = 0; open < items.length; open++) {
+    if (items[open] !== "{") {
+      continue;
+    }
+    const close = findBraceEnd(items, open);
+    if (close === -1) {
+      continue;
+    }
+
+    const body = items.slice(open + 1, close);
+    const alternatives = splitAlternatives(body) ?? expandSequence(body);
+    if (!alternatives) {
+      continue;
+    }
+
+    const prefix = items.slice(0, open);
+    const suffixes = expandBraces(items.slice(close + 1));
+    const results: Array<Array<string | T>> = [];
+    for (const alternative of alternatives) {
+      for (const expanded of expandBraces(alternative)) {
+        for (const suffix of suffixes) {
+          results.push([...prefix, ...expanded, ...suffix]);
+        }
+      }
+    }
+    return results;
+  }
+
+  return [[...items]];
+}
+
+// Index of the `}` matching the `{` at `open`, or -1
+function findBraceEnd<T>(items: ReadonlyArray<string | T>, open: number): number {
+  let depth = 0;
+  for (let i = open; i < items.length; i++) {
+    if (items[i] === "{") {
+      depth++;
+    } else if (items[i] === "}" && --depth === 0) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+// The comma-separated alternatives of a brace body, or null without a top-level comma
+function splitAlternatives<T>(body: Array<string | T>): Array<Array<string | T>> | null {
+  const alternatives: Array<Array<string | T>> = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < body.length; i++) {
+    if (body[i] === "{") {
+      depth++;
+    } else if (body[i] === "}") {
+      depth--;
+    } else if (body[i] === "," && depth === 0) {
+      alternatives.push(body.slice(start, i));
+      start = i + 1;
+    }
+  }
+  if (alternatives.length === 0) {
+    return null;
+  }
+  alternatives.push(body.slice(start));
+  return alternatives;
+}
+
+const NUMERIC_SEQUENCE = /^([-+]?\d+)\.\.([-+]?\d+)(?:\.\.([-+]?\d+))?$/;
+const CHARACTER_SEQUENCE = /^([a-zA-Z])\.\.([a-zA-Z])(?:\.\.([-+]?\d+))?$/;
+
+// The terms of `start..end[..step]`, each as characters, or null when the body is not a sequence
+function expandSequence<T>(body: Array<string | T>): string[][] | null {
+  if (!body.every((item) => typeof item === "string")) {
+    return null;
+  }
+  const text = body.join("");
+
+  const numeric = text.match(NUMERIC_SEQUENCE);
+  if (numeric) {
+    const start = parseInt(numeric[1]!, 10);
+    const end = parseInt(numeric[2]!, 10);
+    // A leading zero on either end pads every term to the wider end's width
+    const padded = /^[-+]?0\d/.test(numeric[1]!) || /^[-+]?0\d/.test(numeric[2]!);
+    const width = padded ? Math.max(numeric[1]!.length, numeric[2]!.length) : 0;
+    return sequence(start, end, numeric[3]).map((n) => [...formatTerm(n, width)]);
+  }
+
+  const character = text.match(CHARACTER_SEQUENCE);
+  if (character) {
+    const start = character[1]!.charCodeAt(0);
+    const end = character[2]!.charCodeAt(0);
+    return sequence(start, end, character[3]).map((code) => [String.fromCharCode(code)]);
+  }
+
+  return null;
+}
+
+// From start to end inclusive; the step's sign is ignored and 0 counts as 1
+function sequence(start: number, end: number, step: string | undefined): number[] {
+  const increment = Math.max(Math.abs(parseInt(step ?? "1", 10)), 1);
+  const terms: number[] = [];
+  if (start <= end) {
+    for (let n = start; n <= end; n += increment) terms.push(n);
+  } else {
+    for (let n = start; n >= end; n -= increment) terms.push(n);
+  }
+  return terms;
+}
+
+function formatTerm(n: number, width: number): string {
+  if (n < 0) {
+    return `-${String(-n).padStart(width - 1, "0")}`;
+  }
+  return String(n).padStart(width, "0");
+}
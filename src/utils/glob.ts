@@ -1,65 +1,79 @@
-import type { VirtualFS } from "../types.ts";
+import type { GlobOptions, VirtualFS } from "../types.ts";
+import { expandBraces } from "./brace-expansion.ts";
 import { matchGlob } from "./match-glob.ts";
 
+export type { GlobOptions };
+
 export type GlobVirtualFS = Pick<VirtualFS, "readdir" | "stat" | "resolve">;
 
-export interface GlobOptions {
-  cwd?: string;
-}
+type MatchOptions = Required<Omit<GlobOptions, "cwd">>;
 
 export async function globVirtualFS(fs: GlobVirtualFS, pattern: string, opts?: GlobOptions): Promise<string[]> {
   const cwd = fs.resolve(opts?.cwd ?? "/");
-  const patterns = expandBraces(pattern);
+  const options: MatchOptions = {
+    extglob: opts?.extglob ?? false,
+    dotglob: opts?.dotglob ?? true,
+    nocaseglob: opts?.nocaseglob ?? false,
+    globstar: opts?.globstar ?? true,
+  };
+  const patterns = expandPatternBraces(pattern);
   const allMatches: string[] = [];
 
   for (const expandedPattern of patterns) {
-    const matches = await matchPattern(fs, expandedPattern, cwd);
+    const matches = await matchPattern(fs, expandedPattern, cwd, options);
     allMatches.push(...matches);
   }
 
   return [...new Set(allMatches)].sort();
 }
 
-function expandBraces(pattern: string): string[] {
-  const braceMatch = pattern.match(/\{([^{}]+)\}/);
-  if (!braceMatch) return [pattern];
-
-  const before = pattern.slice(0, braceMatch.index);
-  const after = pattern.slice(braceMatch.index! + braceMatch[0].length);
-  const options = braceMatch[1]!.split(",");
-  const results: string[] = [];
-
-  for (const option of options) {
-    results.push(...expandBraces(before + option + after));
+// Brace-expand a pattern, leaving braces inside `[...]` classes literal
+function expandPatternBraces(pattern: string): string[] {
+  const items: Array<string | { text: string }> = [];
+  for (let i = 0; i < pattern.length; i++) {
+    const characterClass = pattern.slice(i).match(/^\[[!^]?\]?[^\]]*\]/);
+    if (characterClass) {
+      items.push({ text: characterClass[0] });
+      i += characterClass[0].length - 1;
+    } else {
+      items.push(pattern[i]!);
+    }
   }
-
-  return results;
+  return expandBraces(items).map((expanded) =>
+    expanded.map((item) => (typeof item === "string" ? item : item.text)).join("")
+  );
 }
 
-async function matchPattern(fs: GlobVirtualFS, pattern: string, cwd: string): Promise<string[]> {
+async function matchPattern(fs: GlobVirtualFS, pattern: string, cwd: string, options: MatchOptions): Promise<string[]> {
   const parts = pattern.split("/").filter(Boolean);
   const startDir = pattern.startsWith("/") ? "/" : cwd;
-  return matchParts(fs, parts, startDir);
+  return matchParts(fs, parts, startDir, options);
 }
 
-async function matchParts(fs: GlobVirtualFS, parts: string[], currentPath: string): Promise<string[]> {
+async function matchParts(
+  fs: GlobVirtualFS,
+  parts: string[],
+  currentPath: string,
+  options: MatchOptions
+): Promise<string[]> {
   if (parts.length === 0) {
     return (await pathExists(fs, currentPath)) ? [currentPath] : [];
   }
 
   const [part, ...rest] = parts;
 
-  if (part === "**") {
-    const results = await matchParts(fs, rest, currentPath);
+  if (part === "**" && options.globstar) {
+    const results = await matchParts(fs, rest, currentPath, options);
 
     try {
       const entries = await fs.readdir(currentPath);
       for (const entry of entries) {
+        if (entry.startsWith(".") && !options.dotglob) continue;
         const entryPath = fs.resolve(currentPath, entry);
         try {
           const stat = await fs.stat(entryPath);
           if (stat.isDirectory()) {
-            results.push(...(await matchParts(fs, parts, entryPath)));
+            results.push(...(await matchParts(fs, parts, entryPath, options)));
           }
         } catch {
           // Skip entries we can't stat.
@@ -77,7 +91,8 @@ async function matchParts(fs: GlobVirtualFS, parts: string[], currentPath: strin
     const results: string[] = [];
 
     for (const entry of entries) {
-      if (!matchGlob(part!, entry)) continue;
+      if (entry.startsWith(".") && !options.dotglob && !matchesDotfiles(part!, options.extglob)) continue;
+      if (!matchGlob(part!, entry, options.nocaseglob, options.extglob)) continue;
 
       const entryPath = fs.resolve(currentPath, entry);
 
@@ -91,7 +106,7 @@ async function matchParts(fs: GlobVirtualFS, parts: string[], currentPath: strin
       try {
         const stat = await fs.stat(entryPath);
         if (stat.isDirectory()) {
-          results.push(...(await matchParts(fs, rest, entryPath)));
+          results.push(...(await matchParts(fs, rest, entryPath, options)));
         }
       } catch {
         // Skip entries we can't stat.
@@ -104,6 +119,12 @@ async function matchParts(fs: GlobVirtualFS, parts: string[], currentPath: strin
   }
 }
 
+// Without dotglob, only a pattern that spells out the leading `.` matches
+// dotfiles, itself or in an extglob list that starts it, as in `@(.env|*.ts)`
+function matchesDotfiles(pattern: string, extglob: boolean): boolean {
+  return pattern.startsWith(".") || (extglob && /^[?*+@]\((?:[^)]*\|)?\./.test(pattern));
+}
+
 async function pathExists(fs: GlobVirtualFS, filePath: string): Promise<boolean> {
   try {
     await fs.stat(filePath);
@@ -1,65 +1,148 @@
 /**
  * Simple glob pattern matching (fnmatch-style)
- * Supports: * (any chars), ? (single char), [...] (character class)
+ * Supports: * (any chars), ? (single char), [...] (character class), \x (a
+ * literal x), and with `extglob` the pattern lists ?(a|b) *(a|b) +(a|b) @(a|b) !(a|b)
  */
-export function matchGlob(pattern: string, str: string, caseInsensitive = false): boolean {
-  if (caseInsensitive) {
-    pattern = pattern.toLowerCase();
-    str = str.toLowerCase();
+export function matchGlob(pattern: string, str: string, caseInsensitive = false, extglob = false): boolean {
+  try {
+    return new RegExp(`^(?:${globToRegExpSource(pattern, extglob)})$`, caseInsensitive ? "is" : "s").test(str);
+  } catch {
+    return false;
   }
+}
 
-  // Convert glob to regex
-  let regex = "^";
+const EXTGLOB_OPERATORS = new Set(["?", "*", "+", "@", "!"]);
+
+/**
+ * Convert a glob pattern to regex source, for use with the `s` flag. The
+ * source is unanchored so callers can match prefixes, suffixes or substrings.
+ */
+export function globToRegExpSource(pattern: string, extglob = false): string {
+  return convertPattern(pattern, { extglob, groups: 0 });
+}
+
+interface ConvertState {
+  extglob: boolean;
+  // Counts `!(...)` lists, which each need a uniquely named capture group
+  groups: number;
+}
+
+function convertPattern(pattern: string, state: ConvertState): string {
+  let regexStr = "";
   for (let i = 0; i < pattern.length; i++) {
-    const c = pattern[i]!;
-    switch (c) {
-      case "*":
-        regex += ".*";
-        break;
-      case "?":
-        regex += ".";
-        break;
-      case "[": {
-        // Find closing bracket
-        let j = i + 1;
-        // Handle negation
-        if (pattern[j] === "!" || pattern[j] === "^") j++;
-        // Handle ] as first char in class
-        if (pattern[j] === "]") j++;
-        while (j < pattern.length && pattern[j] !== "]") j++;
-        if (j >= pattern.length) {
-          // No closing bracket, treat [ as literal
-          regex += "\\[";
-        } else {
-          let charClass = pattern.slice(i, j + 1);
-          // Convert ! to ^ for negation in regex
-          charClass = charClass.replace(/^\[!/, "[^");
-          regex += charClass;
-          i = j;
-        }
-        break;
+    const char = pattern[i]!;
+    if (state.extglob && EXTGLOB_OPERATORS.has(char) && pattern[i + 1] === "(") {
+      const end = findListEnd(pattern, i + 2);
+      if (end !== -1) {
+        const alternatives = splitAlternatives(pattern.slice(i + 2, end)).map((alt) => convertPattern(alt, state));
+        regexStr += convertPatternList(char, alternatives.join("|"), state);
+        i = end;
+        continue;
       }
-      case ".":
-      case "^":
-      case "$":
-      case "+":
-      case "{":
-      case "}":
-      case "(":
-      case ")":
-      case "|":
-      case "\\":
-        regex += "\\" + c;
-        break;
-      default:
-        regex += c;
+    }
+    if (char === "\\" && i + 1 < pattern.length) {
+      // A backslash quotes the character after it
+      const quoted = pattern[++i]!;
+      regexStr += /[.*+?^${}()|[\]\\/]/.test(quoted) ? `\\${quoted}` : quoted;
+    } else if (char === "*") {
+      regexStr += ".*";
+    } else if (char === "?") {
+      regexStr += ".";
+    } else if (char === "[") {
+      const j = findClassEnd(pattern, i);
+      if (j !== -1) {
+        let body = pattern.slice(i + 1, j);
+        const negated = body.startsWith("!") || body.startsWith("^");
+        if (negated) body = body.slice(1);
+        const members = body.replace(/\\([\s\S])|[\\\]\[^]/g, (match, quoted: string | undefined) =>
+          quoted === undefined || /[\\\]\[^-]/.test(quoted) ? `\\${quoted ?? match}` : quoted
+        );
+        regexStr += `[${negated ? "^" : ""}${members}]`;
+        i = j;
+      } else {
+        regexStr += "\\[";
+      }
+    } else if (/[.+^${}()|\\]/.test(char)) {
+      // Escape regex special characters
+      regexStr += "\\" + char;
+    } else {
+      regexStr += char;
     }
   }
-  regex += "$";
+  return regexStr;
+}
 
-  try {
-    return new RegExp(regex).test(str);
-  } catch {
-    return false;
+function convertPatternList(operator: string, body: string, state: ConvertState): string {
+  switch (operator) {
+    case "?":
+      return `(?:${body})?`;
+    case "*":
+      return `(?:${body})*`;
+    case "+":
+      return `(?:${body})+`;
+    case "@":
+      return `(?:${body})`;
+    default: {
+      // `!(...)` consumes any text the list does not match. The lookahead
+      // captures everything from where the text starts, which pins the
+      // lookbehind's list match to start at the same place.
+      const name = `extglob${state.groups++}`;
+      return `(?=(?<${name}>.*))(?:.*?)(?<!(?=\\k<${name}>$)(?:${body}))`;
+    }
+  }
+}
+
+// Index of the `]` closing the character class opened at `start`, or -1
+function findClassEnd(pattern: string, start: number): number {
+  // A leading ] is literal
+  let j = start + 1;
+  if (pattern[j] === "!" || pattern[j] === "^") j++;
+  if (pattern[j] === "]") j++;
+  while (j < pattern.length && pattern[j] !== "]") {
+    j += pattern[j] === "\\" ? 2 : 1;
+  }
+  return j < pattern.length ? j : -1;
+}
+
+// Index of the `)` closing a pattern list whose text starts at `start`, or -1
+function findListEnd(pattern: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < pattern.length; i++) {
+    if (pattern[i] === "\\") {
+      i++;
+    } else if (pattern[i] === "[") {
+      i = Math.max(i, findClassEnd(pattern, i));
+    } else if (pattern[i] === "(") {
+      depth++;
+    } else if (pattern[i] === ")") {
+      if (depth === 0) {
+        return i;
+      }
+      depth--;
+    }
+  }
+  return -1;
+}
+
+// Split the text of a pattern list at the `|`s outside nested lists
+function splitAlternatives(text: string): string[] {
+  const alternatives: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === "\\") {
+      i++;
+    } else if (text[i] === "[") {
+      i = Math.max(i, findClassEnd(text, i));
+    } else if (text[i] === "(") {
+      depth++;
+    } else if (text[i] === ")") {
+      depth--;
+    } else if (text[i] === "|" && depth === 0) {
+      alternatives.push(text.slice(start, i));
+      start = i + 1;
+    }
   }
+  alternatives.push(text.slice(start));
+  return alternatives;
 }
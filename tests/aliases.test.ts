@@ -0,0 +1,116 @@
+import { test, expect, describe, beforeEach } from "bun:test";
+import { createFsFromVolume, Volume } from "memfs";
+import { createShellSession, createVirtualFS, type ShellSession } from "../src/index.ts";
+import { builtinCommands } from "../src/commands/index.ts";
+
+describe("Aliases", () => {
+  let session: ShellSession;
+
+  const run = async (source: string) => {
+    const result = await session.run(source).exit;
+    return { exitCode: result.exitCode, stdout: result.stdout.toString(), stderr: result.stderr.toString() };
+  };
+
+  beforeEach(() => {
+    const vol = new Volume();
+    vol.fromJSON({ "/data/a.txt": "a", "/data/b.txt": "b" });
+    session = createShellSession({
+      fs: createVirtualFS(createFsFromVolume(vol)),
+      cwd: "/data",
+      env: {},
+      commands: builtinCommands,
+      aliases: { hi: "echo hello" },
+    });
+  });
+
+  describe("expansion", () => {
+    test("the aliases option preloads aliases", async () => {
+      expect((await run("hi world")).stdout).toBe("hello world\n");
+    });
+
+    test("aliases apply from the next run", async () => {
+      const defined = await run("alias e='echo from alias'; e now");
+
+      expect(defined.stderr).toBe("e: command not found\n");
+      expect((await run("e later")).stdout).toBe("from alias later\n");
+    });
+
+    test("only words in command position expand", async () => {
+      const result = await run("echo hi; if true; then hi; fi; true && hi | cat; (hi); x=$(hi); echo $x");
+
+      expect(result.stdout).toBe("hi\nhello\nhello\nhello\nhello\n");
+    });
+
+    test("an alias is not expanded inside its own text", async () => {
+      await run("alias ls='ls -1' a=b b=a");
+
+      const listed = await run("ls");
+      expect(listed.stdout).toBe("a.txt\nb.txt\n");
+      expect((await run("a")).stderr).toBe("a: command not found\n");
+    });
+
+    test("a trailing blank makes the next word an alias candidate", async () => {
+      await run("alias run='command ' plain=command");
+
+      expect((await run("run hi there")).stdout).toBe("hello there\n");
+      expect((await run("plain hi there")).stderr).toBe("hi: command not found\n");
+    });
+
+    test("quoted and escaped names are not expanded", async () => {
+      const result = await run('"hi"; \\hi');
+
+      expect(result.stderr).toBe("hi: command not found\nhi: command not found\n");
+    });
+
+    test("eval parses with the current aliases", async () => {
+      expect((await run("alias e=echo; eval 'e evaluated'")).stdout).toBe("evaluated\n");
+    });
+  });
+
+  describe("alias", () => {
+    test("lists aliases sorted and quoted", async () => {
+      await run(`alias q="echo it's" ll='ls -l'`);
+
+      const result = await run("alias");
+      expect(result.stdout).toBe("alias hi='echo hello'\nalias ll='ls -l'\nalias q='echo it'\\''s'\n");
+      expect(session.getAliases()).toEqual({ hi: "echo hello", ll: "ls -l", q: "echo it's" });
+    });
+
+    test("prints named aliases and rejects unknown or invalid names", async () => {
+      const result = await run("alias hi missing 'a b=c'");
+
+      expect(result.exitCode).toBe(1);
+      expect(result.stdout).toBe("alias hi='echo hello'\n");
+      expect(result.stderr).toBe("alias: missing: not found\nalias: `a b': invalid alias name\n");
+    });
+
+    test("type and command -v report aliases", async () => {
+      const result = await run("type hi; type -t hi; command -v hi");
+
+      expect(result.stdout).toBe("hi is aliased to `echo hello'\nalias\nalias hi='echo hello'\n");
+    });
+  });
+
+  describe("unalias", () => {
+    test("removes aliases and reports unknown names", async () => {
+      const result = await run("unalias hi missing");
+
+      expect(result.exitCode).toBe(1);
+      expect(result.stderr).toBe("unalias: missing: not found\n");
+      expect(session.getAliases()).toEqual({});
+    });
+
+    test("-a removes every alias", async () => {
+      await run("alias a=b c=d; unalias -a");
+
+      expect((await run("alias")).stdout).toBe("");
+    });
+
+    test("needs a name", async () => {
+      const result = await run("unalias");
+
+      expect(result.exitCode).toBe(2);
+      expect(result.stderr).toBe("unalias: usage: unalias [-a] name [name ...]\n");
+    });
+  });
+});
@@ -0,0 +1,183 @@
+import { test, expect, describe, beforeEach } from "bun:test";
+import { createFsFromVolume, Volume } from "memfs";
+import { createShellDSL, createVirtualFS, parseArithmetic } from "../src/index.ts";
+import { builtinCommands } from "../src/commands/index.ts";
+
+describe("Arithmetic", () => {
+  let sh: ReturnType<typeof createShellDSL>;
+
+  beforeEach(() => {
+    sh = createShellDSL({
+      fs: createVirtualFS(createFsFromVolume(new Volume())),
+      cwd: "/",
+      env: {},
+      commands: builtinCommands,
+    });
+  });
+
+  describe("$(( ))", () => {
+    test("assigns and updates variables", async () => {
+      const result = await sh`i=0; echo $((i++)) $((i++)) $((++i)) $((i--)) $i; echo $((x = i * 2)) $x`.text();
+
+      expect(result).toBe("0 1 3 3 2\n4 4\n");
+    });
+
+    test("compound assignment operators", async () => {
+      const result = await sh`x=5; echo $((x *= 2)) $((x -= 1)) $((x <<= 2)) $((x %= 7)) $((x |= 8)) $((x ^= 1)) $x`.text();
+
+      expect(result).toBe("10 9 36 1 9 8 8\n");
+    });
+
+    test("bitwise, shift and power operators", async () => {
+      const result = await sh`echo $((1 << 4 | 3)) $((255 >> 4 & 6)) $((5 ^ 1)) $((~0)) $((2 ** 10)) $((2 ** 3 ** 2))`.text();
+
+      expect(result).toBe("19 6 4 -1 1024 512\n");
+    });
+
+    test("ternary, logic and comma", async () => {
+      const result = await sh`echo $((3 > 2 ? 10 : 20)) $((!5)) $((0 || 2)) $((a = 1, b = a + 1, a + b))`.text();
+
+      expect(result).toBe("10 0 1 3\n");
+    });
+
+    test("&&, || and ?: only evaluate what they need", async () => {
+      const result = await sh`n=0; : $((0 && n++)) $((1 || n++)) $((1 ? n : n++)); echo $n`.text();
+
+      expect(result).toBe("0\n");
+    });
+
+    test("hex, octal and base#n constants", async () => {
+      const result = await sh`echo $((0x1f)) $((017)) $((2#101)) $((36#z)) $((64#_)) $((16#FF))`.text();
+
+      expect(result).toBe("31 15 5 35 63 255\n");
+    });
+
+    test("division truncates toward zero", async () => {
+      const result = await sh`echo $((-7 / 2)) $((-7 % 3)) $((7 % -3))`.text();
+
+      expect(result).toBe("-3 -1 1\n");
+    });
+
+    test("integers wrap at 64 bits", async () => {
+      const result = await sh`echo $((9223372036854775807 + 1)) $((2 ** 64))`.text();
+
+      expect(result).toBe("-9223372036854775808 0\n");
+    });
+
+    test("variables hold expressions", async () => {
+      const result = await sh`x="1 + 2"; y=x; echo $((x * 2)) $((y)) $((unset + 1))`.text();
+
+      expect(result).toBe("6 3 1\n");
+    });
+
+    test("parentheses nest inside the expansion", async () => {
+      const result = await sh`n=2; echo $((n*(1+2))) $(( (1+2)*(3+4) ))`.text();
+
+      expect(result).toBe("6 21\n");
+    });
+
+    test("$( (subshell) ) is still command substitution", async () => {
+      const result = await sh`echo $((echo hi) | tr a-z A-Z)`.text();
+
+      expect(result).toBe("HI\n");
+    });
+
+    test("division by zero is an error", async () => {
+      const result = await sh`echo $((5 / 0)); echo unreachable`.nothrow();
+
+      expect(result.exitCode).toBe(1);
+      expect(result.stderr.toString()).toBe("sh: 5 / 0: division by 0\n");
+    });
+
+    test("syntax errors name the offending token", async () => {
+      const incomplete = await sh`echo $((1 +))`.nothrow();
+      expect(incomplete.stderr.toString()).toBe('sh: 1 +: syntax error: operand expected (error token is "+")\n');
+
+      const octal = await sh`echo $((08))`.nothrow();
+      expect(octal.stderr.toString()).toBe('sh: 08: value too great for base (error token is "08")\n');
+
+      const assignment = await sh`echo $((1 = 2))`.nothrow();
+      expect(assignment.stderr.toString()).toBe('sh: 1 = 2: attempted assignment to non-variable (error token is "= 2")\n');
+    });
+
+    test("negative exponents are errors", async () => {
+      const result = await sh`echo $((2 ** -1))`.nothrow();
+
+      expect(result.exitCode).toBe(1);
+      expect(result.stderr.toString()).toBe("sh: 2 ** -1: exponent less than 0\n");
+    });
+  });
+
+  describe("(( ))", () => {
+    test("succeeds when the expression is non-zero", async () => {
+      const result = await sh`(( 0 )); echo $?; (( 5 > 3 )); echo $?; (( n = 7 )); echo $? $n`.text();
+
+      expect(result).toBe("1\n0\n0 7\n");
+    });
+
+    test("works as a condition", async () => {
+      const result = await sh`n=4; if (( n % 2 == 0 )); then echo even; fi; (( n > 10 )) || echo small`.text();
+
+      expect(result).toBe("even\nsmall\n");
+    });
+
+    test("counts as a failed command for set -e", async () => {
+      const result = await sh`set -e; (( 1 )); echo yes; (( 0 )); echo no`.nothrow();
+
+      expect(result.exitCode).toBe(1);
+      expect(result.stdout.toString()).toBe("yes\n");
+    });
+
+    test("updates array elements", async () => {
+      const result = await sh`a=(1 2 3); (( a[1] += 10, a[2]++ )); echo "\${a[@]}"; declare -A m; (( m[k] = 4 )); echo \${m[k]}`.text();
+
+      expect(result).toBe("1 12 4\n4\n");
+    });
+
+    test("is traced by set -x", async () => {
+      const result = await sh`set -x; (( y = 1 + 1 ))`.nothrow();
+
+      expect(result.stderr.toString()).toBe("+ (( y = 1 + 1 ))\n");
+    });
+  });
+
+  describe("for (( ))", () => {
+    test("runs init, test and update", async () => {
+      const result = await sh`for (( i = 0; i < 3; i++ )); do echo $i; done`.text();
+
+      expect(result).toBe("0\n1\n2\n");
+    });
+
+    test("an empty test loops until break", async () => {
+      const result = await sh`for ((;;)); do (( c++ >= 2 )) && break; done; echo $c`.text();
+
+      expect(result).toBe("3\n");
+    });
+
+    test("continue runs the update", async () => {
+      const result = await sh`
+        for ((i = 0; i < 5; i++))
+        do
+          (( i % 2 )) && continue
+          echo $i
+        done
+      `.text();
+
+      expect(result).toBe("0\n2\n4\n");
+    });
+  });
+
+  test("parseArithmetic builds an expression tree", () => {
+    expect(parseArithmetic("x += y[1] ? 2 : -1")).toEqual({
+      type: "assignment",
+      operator: "+=",
+      target: { type: "variable", name: "x" },
+      value: {
+        type: "conditional",
+        test: { type: "variable", name: "y", subscript: "1" },
+        consequent: { type: "number", value: 2n },
+        alternate: { type: "unary", operator: "-", operand: { type: "number", value: 1n } },
+      },
+    });
+  });
+});
@@ -0,0 +1,210 @@
+import { test, expect, describe, beforeEach } from "bun:test";
+import { createFsFromVolume, Volume } from "memfs";
+import { createShellDSL, createShellSession, createVirtualFS } from "../src/index.ts";
+import { builtinCommands } from "../src/commands/index.ts";
+import type { Command, ShellArray, VirtualFS } from "../src/types.ts";
+
+describe("Arrays", () => {
+  let fs: VirtualFS;
+  let sh: ReturnType<typeof createShellDSL>;
+
+  // Prints each argument in brackets, to show field boundaries
+  const args: Command = async (ctx) => {
+    await ctx.stdout.writeText(ctx.args.map((arg) => `[${arg}]`).join("") + "\n");
+    return 0;
+  };
+
+  beforeEach(() => {
+    const vol = new Volume();
+    vol.fromJSON({ "/data/a.txt": "", "/data/b.txt": "" });
+    fs = createVirtualFS(createFsFromVolume(vol));
+    sh = createShellDSL({
+      fs,
+      cwd: "/",
+      env: {},
+      commands: { ...builtinCommands, args },
+    });
+  });
+
+  describe("indexed arrays", () => {
+    test("assigns a literal and reads elements by index", async () => {
+      const result = await sh`arr=(a "b c" d); echo "\${arr[1]}" \${arr[0]} \${arr[-1]}`.text();
+
+      expect(result).toBe("b c a d\n");
+    });
+
+    test('"${arr[@]}" expands to one field per element', async () => {
+      const result = await sh`arr=(a "b c" "" d); args "\${arr[@]}"; args x"\${arr[@]}"y`.text();
+
+      expect(result).toBe("[a][b c][][d]\n[xa][b c][][dy]\n");
+    });
+
+    test('"${arr[*]}" joins with the first character of IFS', async () => {
+      const result = await sh`arr=(a "b c" d); args "\${arr[*]}"; IFS=,; args "\${arr[*]}"; args \${arr[*]}`.text();
+
+      expect(result).toBe("[a b c d]\n[a,b c,d]\n[a][b c][d]\n");
+    });
+
+    test("unquoted elements are split like $@", async () => {
+      const result = await sh`set -- "p q" r; arr=("$@" s); args \${arr[@]}; args "\${arr[@]}"`.text();
+
+      expect(result).toBe("[p][q][r][s]\n[p q][r][s]\n");
+    });
+
+    test("counts elements and measures one element", async () => {
+      const result = await sh`arr=(a bcd); echo \${#arr[@]} \${#arr[*]} \${#arr[1]} \${#arr}`.text();
+
+      expect(result).toBe("2 2 3 1\n");
+    });
+
+    test("+= appends elements after the highest index", async () => {
+      const result = await sh`arr=(a); arr[5]=f; arr+=(g h); arr[0]+=z; echo "\${!arr[@]}" "\${arr[@]}"`.text();
+
+      expect(result).toBe("0 5 6 7 az f g h\n");
+    });
+
+    test("literals accept explicit indices, globs and expansions", async () => {
+      const result = await sh`x=mid; arr=([3]=c /data/*.txt "$x"); echo "\${!arr[@]}"; echo "\${arr[@]}"`.text();
+
+      expect(result).toBe("3 4 5 6\nc /data/a.txt /data/b.txt mid\n");
+    });
+
+    test("subscripts are arithmetic", async () => {
+      const result = await sh`arr=(a b c); i=1; echo \${arr[i+1]} \${arr[$i]}; echo $(( arr[0] + \${#arr[@]} ))`.text();
+
+      expect(result).toBe("c b\n3\n");
+    });
+
+    test("a bare name is element 0", async () => {
+      const result = await sh`arr=(a b); echo $arr; arr=z; echo "\${arr[@]}"`.text();
+
+      expect(result).toBe("a\nz b\n");
+    });
+
+    test("parameter operators apply to each element", async () => {
+      const result = await sh`arr=(a.txt b.txt c.md); echo "\${arr[@]%.txt}" "\${arr[@]/./-}" "\${arr[@]:1:2}"`.text();
+
+      expect(result).toBe("a b c.md a-txt b-txt c-md b.txt c.md\n");
+    });
+
+    test("unset removes elements without renumbering", async () => {
+      const result = await sh`arr=(a b c); unset 'arr[1]'; echo \${#arr[@]} "\${!arr[@]}"; unset arr; echo "[\${arr[@]}]"`.text();
+
+      expect(result).toBe("2 0 2\n[]\n");
+    });
+
+    test("negative subscripts past the start are errors", async () => {
+      const result = await sh`arr=(a); arr[-3]=x; echo unreachable`.nothrow();
+
+      expect(result.exitCode).toBe(1);
+      expect(result.stderr.toString()).toBe("sh: arr[-3]: bad array subscript\n");
+    });
+
+    test("iterates with for", async () => {
+      const result = await sh`arr=(one "two words"); for item in "\${arr[@]}"; do echo "<$item>"; done`.text();
+
+      expect(result).toBe("<one>\n<two words>\n");
+    });
+  });
+
+  describe("associative arrays", () => {
+    test("declare -A maps string keys in insertion order", async () => {
+      const result = await sh`declare -A m=([b]=2 ["x y"]=1); m[a]=3; echo "\${!m[@]}"; echo "\${m[x y]}" \${#m[@]}`.text();
+
+      expect(result).toBe("b x y a\n1 3\n");
+    });
+
+    test("keys are not arithmetic", async () => {
+      const result = await sh`declare -A m; i=k; m[i]=literal; m[$i]=expanded; echo \${m[i]} \${m[k]}`.text();
+
+      expect(result).toBe("literal expanded\n");
+    });
+
+    test("literals need subscripts", async () => {
+      const result = await sh`declare -A m; m=(k v)`.nothrow();
+
+      expect(result.exitCode).toBe(1);
+      expect(result.stderr.toString()).toBe("sh: m: must use subscript when assigning associative array\n");
+    });
+  });
+
+  describe("declare", () => {
+    test("-p prints arrays and scalars as declarations", async () => {
+      const result = await sh`
+        arr=(a 'say "hi"')
+        declare -A m=([k]=v)
+        declare -rx s=1
+        declare -p arr m s
+      `.text();
+
+      expect(result).toBe('declare -a arr=([0]="a" [1]="say \\"hi\\"")\ndeclare -A m=([k]="v")\ndeclare -rx s="1"\n');
+    });
+
+    test("-a keeps a scalar value as element 0", async () => {
+      const result = await sh`x=1; declare -a x; x+=(2); declare -p x`.text();
+
+      expect(result).toBe('declare -a x=([0]="1" [1]="2")\n');
+    });
+
+    test("refuses to change the kind of an array", async () => {
+      const result = await sh`arr=(a); declare -A arr`.nothrow();
+
+      expect(result.exitCode).toBe(1);
+      expect(result.stderr.toString()).toBe("declare: arr: cannot convert indexed to associative array\n");
+    });
+
+    test("is local inside functions unless -g is given", async () => {
+      const result = await sh`
+        f() { declare -A m=([k]=v); declare -g g=global; local -a l=(1 2); echo "\${m[k]} \${l[1]}"; }
+        f
+        echo "[\${m[k]}] [\${l[@]}] $g"
+      `.text();
+
+      expect(result).toBe("v 2\n[] [] global\n");
+    });
+
+    test("typeset is an alias", async () => {
+      const result = await sh`typeset -a t=(x y); echo \${t[1]}`.text();
+
+      expect(result).toBe("y\n");
+    });
+  });
+
+  describe("environment", () => {
+    test("arrays are never exported", async () => {
+      const result = await sh`arr=(a b); export arr; declare -x -A m=([k]=v); env`.text();
+
+      expect(result).toBe("");
+    });
+
+    test("subshells and command substitutions see a copy", async () => {
+      const result = await sh`arr=(a b); (arr+=(c); echo \${#arr[@]}); echo $(echo "\${arr[1]}") \${#arr[@]}`.text();
+
+      expect(result).toBe("3\nb 2\n");
+    });
+
+    test("builtins read and write arrays through ctx.shell", async () => {
+      const inspect: Command = async (ctx) => {
+        const array = ctx.shell!.getArray("arr");
+        ctx.shell!.setArray("copy", { associative: true, entries: array!.entries });
+        await ctx.stdout.writeText(`${JSON.stringify(array)} ${ctx.env.arr === undefined}\n`);
+        return 0;
+      };
+      const session = createShellSession({ fs, cwd: "/", env: {}, commands: { ...builtinCommands, inspect } });
+
+      const result = await session.run(`arr=(a b); inspect; echo "\${!copy[@]}"`).exit;
+
+      const expected: ShellArray = { associative: false, entries: [["0", "a"], ["1", "b"]] };
+      expect(result.stdout.toString()).toBe(`${JSON.stringify(expected)} true\n0 1\n`);
+    });
+
+    test("persist across session runs", async () => {
+      const session = createShellSession({ fs, cwd: "/", env: {}, commands: builtinCommands });
+
+      await session.run("arr=(a b)").exit;
+      const result = await session.run('arr+=(c); echo "${arr[@]}"').exit;
+
+      expect(result.stdout.toString()).toBe("a b c\n");
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import { test, expect, describe, beforeEach } from "bun:test";
+import { createFsFromVolume, Volume } from "memfs";
+import { createShellDSL, createVirtualFS } from "../src/index.ts";
+import { builtinCommands } from "../src/commands/index.ts";
+
+describe("Brace expansion", () => {
+  let sh: ReturnType<typeof createShellDSL>;
+
+  beforeEach(() => {
+    const vol = new Volume();
+    vol.fromJSON({ "/src/main.c": "", "/src/main.h": "", "/src/util.c": "" });
+    sh = createShellDSL({
+      fs: createVirtualFS(createFsFromVolume(vol)),
+      cwd: "/src",
+      env: {},
+      commands: builtinCommands,
+    });
+  });
+
+  describe("sequences", () => {
+    test("count through integers in either direction", async () => {
+      const result = await sh`echo {1..5}; echo {3..-1}; for i in {1..3}; do echo "n=$i"; done`.text();
+
+      expect(result).toBe("1 2 3 4 5\n3 2 1 0 -1\nn=1\nn=2\nn=3\n");
+    });
+
+    test("take an optional step", async () => {
+      const result = await sh`echo {0..10..5} {10..1..3} {1..4..-2} {1..3..0}`.text();
+
+      expect(result).toBe("0 5 10 10 7 4 1 1 3 1 2 3\n");
+    });
+
+    test("pad every term when an end has a leading zero", async () => {
+      const result = await sh`echo {01..10..3}; echo {8..010}; echo {-05..2..3}`.text();
+
+      expect(result).toBe("01 04 07 10\n008 009 010\n-05 -02 001\n");
+    });
+
+    test("count through letters", async () => {
+      const result = await sh`echo {a..e} {Z..X} {a..k..5}`.text();
+
+      expect(result).toBe("a b c d e Z Y X a f k\n");
+    });
+  });
+
+  describe("lists", () => {
+    test("combine with a prefix, a suffix and each other", async () => {
+      const result = await sh`echo file{1,2}.txt; echo {x,y}{1,2}; echo a{,b}c`.text();
+
+      expect(result).toBe("file1.txt file2.txt\nx1 x2 y1 y2\nac abc\n");
+    });
+
+    test("nest, with sequences inside lists", async () => {
+      const result = await sh`echo {a,b{1..3}} {x,y{p,q}}z`.text();
+
+      expect(result).toBe("a b1 b2 b3 xz ypz yqz\n");
+    });
+  });
+
+  describe("as its own phase", () => {
+    test("makes words whether or not files exist", async () => {
+      const result = await sh`echo /missing/{a,b}.txt; echo {main,util}.{c,h}`.text();
+
+      expect(result).toBe("/missing/a.txt /missing/b.txt\nmain.c main.h util.c util.h\n");
+    });
+
+    test("runs before parameter expansion and pathname expansion", async () => {
+      const result = await sh`x=1; y="p q"; echo {$x,2}-{"$y",r}; echo {main,util}.*`.text();
+
+      expect(result).toBe("1-p q 1-r 2-p q 2-r\n/src/main.c /src/main.h /src/util.c\n");
+    });
+
+    test("does not expand braces produced by other expansions", async () => {
+      const result = await sh`x="{a,b}"; echo $x; n=3; echo {1..$n}`.text();
+
+      expect(result).toBe("{a,b}\n{1..3}\n");
+    });
+
+    test("expands for loop words and array elements", async () => {
+      const result = await sh`for f in {a,b}.log; do echo $f; done; arr=(v{1..3}); echo \${#arr[@]} \${arr[2]}`.text();
+
+      expect(result).toBe("a.log\nb.log\n3 v3\n");
+    });
+  });
+
+  describe("literal braces", () => {
+    test("braces without a comma or a sequence stay as written", async () => {
+      const result = await sh`echo {} {a} {a,b {1..} {a..1} {{x,y}}`.text();
+
+      expect(result).toBe("{} {a} {a,b {1..} {a..1} {x} {y}\n");
+    });
+
+    test("quoted or escaped braces and commas are literal", async () => {
+      const result = await sh`echo "{a,b}" '{1..2}' \\{a,b\\} {a\\,b,c}`.text();
+
+      expect(result).toBe("{a,b} {1..2} {a,b} a,b c\n");
+    });
+
+    test("assignment values are not expanded", async () => {
+      const result = await sh`x={a,b}; y=v{1..2}; echo "$x $y"`.text();
+
+      expect(result).toBe("{a,b} v{1..2}\n");
+    });
+
+    test("leftover braces are not glob patterns", async () => {
+      const result = await sh`echo {main}.c`.text();
+
+      expect(result).toBe("{main}.c\n");
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import { test, expect, describe, beforeEach } from "bun:test";
+import { createFsFromVolume, Volume } from "memfs";
+import { createShellDSL, createShellSession, createVirtualFS } from "../src/index.ts";
+import { builtinCommands } from "../src/commands/index.ts";
+import type { VirtualFS } from "../src/types.ts";
+
+describe("Command lookup", () => {
+  let fs: VirtualFS;
+  let sh: ReturnType<typeof createShellDSL>;
+
+  beforeEach(() => {
+    const vol = new Volume();
+    vol.fromJSON({
+      "/usr/local/bin/greet": '#!/bin/sh\necho "hello $1"\n',
+      "/opt/bin/greet": "echo opt\n",
+    });
+    fs = createVirtualFS(createFsFromVolume(vol));
+    sh = createShellDSL({
+      fs,
+      cwd: "/",
+      env: { PATH: "/usr/local/bin:/usr/bin" },
+      commands: builtinCommands,
+      scriptPath: true,
+    });
+  });
+
+  describe("$PATH scripts", () => {
+    test("run by bare name", async () => {
+      const result = await sh`greet world`.text();
+
+      expect(result).toBe("hello world\n");
+    });
+
+    test("are searched in $PATH order", async () => {
+      const result = await sh`PATH=/opt/bin:$PATH; greet; PATH=/usr/local/bin greet x`.text();
+
+      expect(result).toBe("opt\nhello x\n");
+    });
+
+    test("come after functions and registered commands", async () => {
+      await fs.writeFile("/usr/local/bin/cat", "echo script\n");
+
+      const result = await sh`greet() { echo function; }; greet; echo hi | cat`.text();
+
+      expect(result).toBe("function\nhi\n");
+    });
+
+    test("are not looked up unless scriptPath is set", async () => {
+      sh = createShellDSL({ fs, cwd: "/", env: { PATH: "/usr/local/bin" }, commands: builtinCommands });
+
+      const result = await sh`greet`.nothrow();
+
+      expect(result.exitCode).toBe(127);
+      expect(result.stderr.toString()).toBe("greet: command not found\n");
+    });
+  });
+
+  describe("type", () => {
+    test("reports how each name resolves", async () => {
+      const result = await sh`f() { :; }; type "if" f cd cat greet`.text();
+
+      expect(result).toBe(
+        "if is a shell keyword\nf is a function\ncd is a shell builtin\ncat is a registered command\ngreet is /usr/local/bin/greet\n"
+      );
+    });
+
+    test("-t prints one word and -p the script path", async () => {
+      const result = await sh`type -t "if" cd cat greet; type -p greet cd`.text();
+
+      expect(result).toBe("keyword\nbuiltin\ncommand\nfile\n/usr/local/bin/greet\n");
+    });
+
+    test("fails for unknown names", async () => {
+      const result = await sh`type missing cd`.nothrow();
+
+      expect(result.exitCode).toBe(1);
+      expect(result.stdout.toString()).toBe("cd is a shell builtin\n");
+      expect(result.stderr.toString()).toBe("type: missing: not found\n");
+    });
+
+    test("reports the external command fallback", async () => {
+      sh = createShellDSL({ fs, cwd: "/", env: {}, commands: builtinCommands, externalCommand: async () => 0 });
+
+      const result = await sh`type git`.text();
+
+      expect(result).toBe("git is handled by the external command fallback\n");
+    });
+  });
+
+  describe("command", () => {
+    test("-v prints names and script paths", async () => {
+      const result = await sh`command -v cd greet missing; echo $?`.text();
+
+      expect(result).toBe("cd\n/usr/local/bin/greet\n1\n");
+    });
+
+    test("runs a command passing over functions", async () => {
+      const result = await sh`echo() { printf 'function\\n'; }; command echo plain; greet() { command greet wrapped; }; greet`.text();
+
+      expect(result).toBe("plain\nhello wrapped\n");
+    });
+  });
+
+  describe("hash", () => {
+    test("lists and clears the scripts found on $PATH", async () => {
+      const session = createShellSession({ fs, cwd: "/", env: { PATH: "/usr/local/bin" }, commands: builtinCommands, scriptPath: true });
+
+      const empty = await session.run("hash").exit;
+      expect(empty.stderr.toString()).toBe("hash: hash table empty\n");
+
+      await session.run("greet > /dev/null").exit;
+      const listed = await session.run("hash").exit;
+      expect(listed.stdout.toString()).toBe("greet\t/usr/local/bin/greet\n");
+
+      const cleared = await session.run("hash -r; hash").exit;
+      expect(cleared.stderr.toString()).toBe("hash: hash table empty\n");
+    });
+
+    test("a name looks the script up, and unknown names fail", async () => {
+      const result = await sh`hash greet missing; hash`.nothrow();
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout.toString()).toBe("greet\t/usr/local/bin/greet\n");
+      expect(result.stderr.toString()).toBe("hash: missing: not found\n");
+    });
+
+    test("a remembered script that is removed is searched for again", async () => {
+      const result = await sh`PATH=/usr/local/bin:/opt/bin; greet x; rm /usr/local/bin/greet; greet`.text();
+
+      expect(result).toBe("hello x\nopt\n");
+    });
+  });
+});
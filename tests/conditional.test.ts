@@ -0,0 +1,161 @@
+import { test, expect, describe, beforeEach } from "bun:test";
+import { createFsFromVolume, Volume } from "memfs";
+import { createShellDSL, createVirtualFS } from "../src/index.ts";
+import { builtinCommands } from "../src/commands/index.ts";
+
+describe("Conditional expressions", () => {
+  let sh: ReturnType<typeof createShellDSL>;
+
+  beforeEach(() => {
+    const vol = new Volume();
+    vol.fromJSON({ "/data/file.txt": "content", "/data/empty.txt": "" });
+    sh = createShellDSL({
+      fs: createVirtualFS(createFsFromVolume(vol)),
+      cwd: "/",
+      env: {},
+      commands: builtinCommands,
+    });
+  });
+
+  describe("string matching", () => {
+    test("== and != match unquoted right-hand sides as patterns", async () => {
+      const result = await sh`
+        f=report.txt
+        [[ $f == *.txt ]] && echo glob
+        [[ $f = r?port.* ]] && echo single
+        [[ $f != *.md ]] && echo differs
+        [[ $f == [a-q]* ]] || echo range
+      `.text();
+
+      expect(result).toBe("glob\nsingle\ndiffers\nrange\n");
+    });
+
+    test("quoted or escaped patterns match literally", async () => {
+      const result = await sh`
+        p='*'
+        [[ abc == "*" ]] || echo quoted
+        [[ abc == \\* ]] || echo escaped
+        [[ abc == $p ]] && echo variable
+        [[ '*' == "$p" ]] && echo literal
+      `.text();
+
+      expect(result).toBe("quoted\nescaped\nvariable\nliteral\n");
+    });
+
+    test("words are not split or globbed", async () => {
+      const result = await sh`x="a  b"; e=""; [[ $x == "a  b" ]] && echo same; [[ -z $e && -n $x ]] && echo empty; [[ /data/* == /data/* ]] && echo unexpanded`.text();
+
+      expect(result).toBe("same\nempty\nunexpanded\n");
+    });
+
+    test("< and > compare strings", async () => {
+      const result = await sh`[[ apple < banana ]] && echo less; [[ b > a ]] && echo greater; [[ 10 < 9 ]] && echo textual`.text();
+
+      expect(result).toBe("less\ngreater\ntextual\n");
+    });
+  });
+
+  describe("=~", () => {
+    test("matches extended regular expressions and fills BASH_REMATCH", async () => {
+      const result = await sh`
+        v=release-1.24.3
+        if [[ $v =~ ^release-([0-9]+)\.([0-9]+) ]]; then
+          echo "\${BASH_REMATCH[0]} \${BASH_REMATCH[1]} \${BASH_REMATCH[2]} \${#BASH_REMATCH[@]}"
+        fi
+        [[ $v =~ ^v ]]; echo $? \${#BASH_REMATCH[@]}
+      `.text();
+
+      expect(result).toBe("release-1.24 1 24 3\n1 0\n");
+    });
+
+    test("quoted parts of the regex match literally", async () => {
+      const result = await sh`[[ a.c =~ "a.c" ]] && echo dot; [[ abc =~ "a.c" ]] || echo literal; [[ x+y =~ ^x"+"y$ ]] && echo plus`.text();
+
+      expect(result).toBe("dot\nliteral\nplus\n");
+    });
+
+    test("supports POSIX character classes and alternation", async () => {
+      const result = await sh`[[ "ab 12" =~ ^[[:alpha:]]+[[:space:]]([[:digit:]]+)$ ]] && echo \${BASH_REMATCH[1]}; [[ dog =~ ^(cat|dog)$ ]] && echo pet`.text();
+
+      expect(result).toBe("12\npet\n");
+    });
+
+    test("an invalid regex returns 2", async () => {
+      const result = await sh`[[ a =~ "(" ]]; echo $?; [[ a =~ ( ]]; echo $?`.text();
+
+      expect(result).toBe("1\n2\n");
+    });
+  });
+
+  describe("operators", () => {
+    test("&&, || and ! combine tests, with parentheses for grouping", async () => {
+      const result = await sh`
+        a=1 b=
+        [[ -n $a && -z $b ]] && echo and
+        [[ -z $a || -n $a ]] && echo or
+        [[ ! -n $b ]] && echo not
+        [[ -z $a && ( -n $a || -z $b ) ]] || echo grouped
+        [[ ( -z $a && -n $a ) || -z $b ]] && echo precedence
+      `.text();
+
+      expect(result).toBe("and\nor\nnot\ngrouped\nprecedence\n");
+    });
+
+    test("&& and || short-circuit expansions", async () => {
+      const result = await sh`[[ -z x && $(echo ran >&2) ]]; [[ -n x || $(echo ran >&2) ]]; echo finished`.nothrow();
+
+      expect(result.stdout.toString()).toBe("finished\n");
+      expect(result.stderr.toString()).toBe("");
+    });
+
+    test("numeric comparisons evaluate arithmetic", async () => {
+      const result = await sh`n=5; [[ $n -gt 3 ]] && echo gt; [[ n+1 -eq 6 ]] && echo eq; [[ 010 -eq 8 ]] && echo octal; [[ $n -le 4 ]] || echo le`.text();
+
+      expect(result).toBe("gt\neq\noctal\nle\n");
+    });
+
+    test("file tests check the virtual filesystem", async () => {
+      const result = await sh`
+        [[ -e /data/file.txt && -f /data/file.txt ]] && echo file
+        [[ -d /data && ! -f /data ]] && echo dir
+        [[ -s /data/file.txt && ! -s /data/empty.txt ]] && echo size
+        [[ -e /missing ]] || echo missing
+      `.text();
+
+      expect(result).toBe("file\ndir\nsize\nmissing\n");
+    });
+  });
+
+  describe("as a command", () => {
+    test("counts as a failed command for set -e", async () => {
+      const result = await sh`set -e; [[ a == a ]]; echo yes; [[ a == b ]]; echo no`.nothrow();
+
+      expect(result.exitCode).toBe(1);
+      expect(result.stdout.toString()).toBe("yes\n");
+    });
+
+    test("is traced by set -x with expanded words", async () => {
+      const result = await sh`x="a b"; set -x; [[ $x == a* && -n $x ]]`.nothrow();
+
+      expect(result.stderr.toString()).toBe("+ [[ 'a b' == a* -n 'a b' ]]\n");
+    });
+
+    test("works in functions, loops, case clauses and pipelines", async () => {
+      const result = await sh`
+        is_txt() { [[ $1 == *.txt ]]; }
+        for f in a.txt b.md; do is_txt $f && echo $f; done
+        case x in x) [[ -n x ]] && echo clause;; esac
+        { [[ -d /data ]] && echo group; }
+        echo piped | while read -r line; do [[ $line == p* ]] && echo $line; done
+      `.text();
+
+      expect(result).toBe("a.txt\nclause\ngroup\npiped\n");
+    });
+
+    test("[[ is only special at the start of a command", async () => {
+      const result = await sh`echo [[ a ]]`.text();
+
+      expect(result).toBe("[[ a ]]\n");
+    });
+  });
+});
@@ -1,5 +1,5 @@
 import { test, expect, describe } from "bun:test";
-import { ShellError, LexError, ParseError } from "../src/errors.ts";
+import { ShellError, LexError, ParseError, codeFrame, attachCodeFrame } from "../src/errors.ts";
 
 describe("ShellError", () => {
   test("creates error with correct properties", () => {
@@ -91,3 +91,72 @@ describe("ParseError", () => {
     expect(error.position).toBe(0);
   });
 });
+
+describe("codeFrame", () => {
+  const source = "echo start\nfor f in a b; do\n  cat \"$f\"\ndone";
+
+  test("numbers the lines around the span and underlines it", () => {
+    expect(codeFrame(source, { start: 30, end: 38, line: 3, column: 3 })).toBe(
+      [
+        "  2 | for f in a b; do",
+        "> 3 |   cat \"$f\"",
+        "    |   ^^^^^^^^",
+        "  4 | done",
+      ].join("\n"),
+    );
+  });
+
+  test("pads the gutter and keeps tabs in the marker line", () => {
+    const lines = Array.from({ length: 9 }, (_, i) => `echo ${i + 1}`);
+    lines.push("\tfalse");
+
+    expect(codeFrame(lines.join("\n"), { start: 64, end: 69, line: 10, column: 2 })).toBe(
+      ["   9 | echo 9", "> 10 | \tfalse", "     | \t^^^^^"].join("\n"),
+    );
+  });
+
+  test("marks at least one column and stops the marker at the end of the line", () => {
+    expect(codeFrame("echo \"open\nx", { start: 12, end: 12, line: 2, column: 2 })).toBe(
+      ["  1 | echo \"open", "> 2 | x", "    |  ^"].join("\n"),
+    );
+    expect(codeFrame("if true\nthen", { start: 0, end: 12, line: 1, column: 1 })).toBe(
+      ["> 1 | if true", "    | ^^^^^^^", "  2 | then"].join("\n"),
+    );
+  });
+});
+
+describe("attachCodeFrame", () => {
+  test("adds a frame for a ShellError location", () => {
+    const error = new ShellError("Command failed with exit code 1", Buffer.from(""), Buffer.from(""), 1, {
+      start: 5,
+      end: 10,
+      line: 1,
+      column: 6,
+    });
+
+    attachCodeFrame(error, "true; false");
+
+    expect(error.frame).toBe("> 1 | true; false\n    |      ^^^^^");
+    expect(error.message).toBe(`Command failed with exit code 1\n\n${error.frame}`);
+  });
+
+  test("uses the position of a LexError and the span of a ParseError", () => {
+    const lexError = attachCodeFrame(new LexError("Unterminated single quote", 5, 1, 6), "echo 'x");
+    const parseError = new ParseError("Unexpected token", 3);
+    parseError.span = { start: 3, end: 4, line: 1, column: 4 };
+    attachCodeFrame(parseError, "a; )");
+
+    expect(lexError.frame).toBe("> 1 | echo 'x\n    |      ^");
+    expect(parseError.message).toBe("Unexpected token\n\n> 1 | a; )\n    |    ^");
+  });
+
+  test("leaves errors without a location alone and frames only once", () => {
+    const unlocated = attachCodeFrame(new ParseError("Unexpected end of input"), "if true");
+    const error = new ShellError("failed", Buffer.from(""), Buffer.from(""), 1, { start: 0, end: 1, line: 1, column: 1 });
+    attachCodeFrame(attachCodeFrame(error, "x"), "x");
+
+    expect(unlocated.frame).toBeUndefined();
+    expect(unlocated.message).toBe("Unexpected end of input");
+    expect(error.message).toBe("failed\n\n> 1 | x\n    | ^");
+  });
+});
@@ -0,0 +1,210 @@
+import { test, expect, describe, beforeEach } from "bun:test";
+import { createFsFromVolume, Volume } from "memfs";
+import { createShellDSL, createShellSession, createVirtualFS } from "../src/index.ts";
+import { builtinCommands } from "../src/commands/index.ts";
+import type { Command, VirtualFS } from "../src/types.ts";
+
+// Writes its arguments to descriptor 3
+const log3: Command = async (ctx) => {
+  const output = ctx.fds?.get(3)?.output;
+  if (!output) {
+    await ctx.stderr.writeText("log3: 3: Bad file descriptor\n");
+    return 1;
+  }
+  await output.writeText(`${ctx.args.join(" ")}\n`);
+  return 0;
+};
+
+describe("exec", () => {
+  let vol: InstanceType<typeof Volume>;
+  let fs: VirtualFS;
+  let sh: ReturnType<typeof createShellDSL>;
+
+  beforeEach(() => {
+    vol = new Volume();
+    vol.fromJSON({ "/log/old.txt": "stale\n", "/input.txt": "first\nsecond\nthird\n" });
+    fs = createVirtualFS(createFsFromVolume(vol));
+    sh = createShellDSL({
+      fs,
+      cwd: "/",
+      env: {},
+      commands: { ...builtinCommands, log3 },
+    });
+  });
+
+  describe("redirects only", () => {
+    test("redirects the output of every later command", async () => {
+      const result = await sh`echo before; exec > /log/out.txt 2>&1; echo after; echo oops >&2; false; echo "status $?"`.nothrow();
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout.toString()).toBe("before\n");
+      expect(result.stderr.toString()).toBe("");
+      expect(vol.readFileSync("/log/out.txt", "utf8")).toBe("after\noops\nstatus 1\n");
+    });
+
+    test("truncates the file once and then appends each write", async () => {
+      await sh`exec 3> /log/old.txt; echo one >&3; log3 two; echo three >&3`;
+
+      expect(vol.readFileSync("/log/old.txt", "utf8")).toBe("one\ntwo\nthree\n");
+    });
+
+    test(">> keeps the existing content", async () => {
+      await sh`exec >> /log/old.txt; echo fresh`;
+
+      expect(vol.readFileSync("/log/old.txt", "utf8")).toBe("stale\nfresh\n");
+    });
+
+    test("opens a descriptor that later commands read in turn", async () => {
+      const result = await sh`exec 3< /input.txt; read a <&3; read b <&3; cat <&3; echo "$a $b"`.text();
+
+      expect(result).toBe("third\nfirst second\n");
+    });
+
+    test("closes a descriptor", async () => {
+      const result = await sh`exec 3> /log/out.txt; exec 3>&-; log3 lost`.nothrow();
+
+      expect(result.exitCode).toBe(1);
+      expect(result.stderr.toString()).toBe("log3: 3: Bad file descriptor\n");
+      expect(vol.readFileSync("/log/out.txt", "utf8")).toBe("");
+    });
+
+    test("copies descriptors from the current table", async () => {
+      const result = await sh`exec 3>&1 > /log/out.txt; echo hidden; echo shown >&3`;
+
+      expect(result.stdout.toString()).toBe("shown\n");
+      expect(vol.readFileSync("/log/out.txt", "utf8")).toBe("hidden\n");
+    });
+
+    test("applies to the whole shell when run in a function", async () => {
+      const result = await sh`quiet() { exec > /log/out.txt; }; quiet; echo hidden`.text();
+
+      expect(result).toBe("");
+      expect(vol.readFileSync("/log/out.txt", "utf8")).toBe("hidden\n");
+    });
+
+    test("ends with the subshell or redirected group it runs in", async () => {
+      const result = await sh`
+        (exec > /log/sub.txt; echo sub)
+        { exec > /log/group.txt; echo group; } 2> /log/err.txt
+        echo main
+      `.text();
+
+      expect(result).toBe("main\n");
+      expect(vol.readFileSync("/log/sub.txt", "utf8")).toBe("sub\n");
+      expect(vol.readFileSync("/log/group.txt", "utf8")).toBe("group\n");
+    });
+
+    test("is inherited by scripts and subshells", async () => {
+      vol.fromJSON({ "/log.sh": "log3 from script\n" });
+      await sh`exec 3> /log/out.txt; log3 main; (log3 subshell); sh /log.sh`;
+
+      expect(vol.readFileSync("/log/out.txt", "utf8")).toBe("main\nsubshell\nfrom script\n");
+    });
+
+    test("keeps redirects to JS objects open until the script ends", async () => {
+      const buffer = Buffer.alloc(10);
+      const lines: string[] = [];
+      const result = await sh`exec > ${buffer}; exec 3> ${lines}; echo hi; echo one >&3; log3 two`.nothrow();
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stderr.toString()).toBe("");
+      expect(buffer.toString("utf8", 0, 3)).toBe("hi\n");
+      expect(lines).toEqual(["one", "two"]);
+    });
+
+    test("ends a WritableStream it keeps open when the subshell ends", async () => {
+      const chunks: string[] = [];
+      let closed = false;
+      const stream = new WritableStream<Uint8Array>({
+        write(chunk) {
+          chunks.push(new TextDecoder().decode(chunk));
+        },
+        close() {
+          closed = true;
+        },
+      });
+      const result = await sh`(exec > ${stream}; echo one; echo two); echo after`.text();
+
+      expect(result).toBe("after\n");
+      expect(chunks.join("")).toBe("one\ntwo\n");
+      expect(closed).toBe(true);
+    });
+
+    test("reports redirect errors", async () => {
+      const result = await sh`exec < /missing.txt; echo "status $?"`.nothrow();
+
+      expect(result.stdout.toString()).toBe("status 1\n");
+      expect(result.stderr.toString()).toContain("/missing.txt");
+    });
+  });
+
+  describe("with a command", () => {
+    test("replaces the rest of the script", async () => {
+      const result = await sh`echo start; exec echo replaced; echo unreachable`.text();
+
+      expect(result).toBe("start\nreplaced\n");
+    });
+
+    test("exits with the command's status and skips the EXIT trap", async () => {
+      const result = await sh`trap 'echo trapped' EXIT; exec cat /missing; echo unreachable`.nothrow();
+
+      expect(result.exitCode).toBe(1);
+      expect(result.stdout.toString()).toBe("");
+    });
+
+    test("redirects apply to the command only", async () => {
+      const result = await sh`(exec echo hidden > /log/out.txt); echo shown`.text();
+
+      expect(result).toBe("shown\n");
+      expect(vol.readFileSync("/log/out.txt", "utf8")).toBe("hidden\n");
+    });
+
+    test("accepts -- before the command", async () => {
+      const result = await sh`exec -- echo ok`.text();
+
+      expect(result).toBe("ok\n");
+    });
+
+    test("reports a missing command with status 127", async () => {
+      const result = await sh`exec nosuch; echo unreachable`.nothrow();
+
+      expect(result.exitCode).toBe(127);
+      expect(result.stdout.toString()).toBe("");
+    });
+  });
+
+  describe("in a session", () => {
+    test("redirects persist across runs", async () => {
+      const session = createShellSession({ fs, cwd: "/", env: {}, commands: builtinCommands });
+
+      await session.run("exec > /log/out.txt 2>&1").exit;
+      const first = await session.run("echo one; echo oops >&2").exit;
+      const second = await session.run("echo two").exit;
+
+      expect(first.stdout.toString()).toBe("");
+      expect(first.stderr.toString()).toBe("");
+      expect(second.stdout.toString()).toBe("");
+      expect(vol.readFileSync("/log/out.txt", "utf8")).toBe("one\noops\ntwo\n");
+    });
+
+    test("descriptors copied from stdout follow each run's stdout", async () => {
+      const session = createShellSession({ fs, cwd: "/", env: {}, commands: builtinCommands });
+
+      await session.run("exec 3>&1").exit;
+      const result = await session.run("echo hello >&3").exit;
+
+      expect(result.stdout.toString()).toBe("hello\n");
+    });
+
+    test("input descriptors keep their position across runs", async () => {
+      const session = createShellSession({ fs, cwd: "/", env: {}, commands: builtinCommands });
+
+      await session.run("exec 3< /input.txt").exit;
+      const first = await session.run("read line <&3; echo $line").exit;
+      const second = await session.run("read line <&3; echo $line").exit;
+
+      expect(first.stdout.toString()).toBe("first\n");
+      expect(second.stdout.toString()).toBe("second\n");
+    });
+  });
+});
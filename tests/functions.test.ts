@@ -0,0 +1,194 @@
+import { test, expect, describe, beforeEach } from "bun:test";
+import { createFsFromVolume, Volume } from "memfs";
+import { createShellDSL, createShellSession, createVirtualFS } from "../src/index.ts";
+import { builtinCommands } from "../src/commands/index.ts";
+import type { Command, VirtualFS } from "../src/types.ts";
+
+describe("shell functions", () => {
+  let fs: VirtualFS;
+  let sh: ReturnType<typeof createShellDSL>;
+
+  beforeEach(() => {
+    const vol = new Volume();
+    vol.fromJSON({ "/work/.gitkeep": "" });
+    fs = createVirtualFS(createFsFromVolume(vol));
+    sh = createShellDSL({
+      fs,
+      cwd: "/",
+      env: {},
+      commands: builtinCommands,
+    });
+  });
+
+  test("defines and calls a POSIX function with positional parameters", async () => {
+    const result = await sh`greet() { echo "hello $1 ($#)"; }; greet alice bob; echo "after:$#"`.text();
+
+    expect(result).toBe("hello alice (2)\nafter:0\n");
+  });
+
+  test("supports the function keyword with and without parentheses", async () => {
+    const result = await sh`function a { echo a; }; function b() { echo b; }; a; b`.text();
+
+    expect(result).toBe("a\nb\n");
+  });
+
+  test("supports multi-line definitions", async () => {
+    const result = await sh`
+      count()
+      {
+        for item in "$@"; do
+          echo "item:$item"
+        done
+      }
+      count one "two words"
+    `.text();
+
+    expect(result).toBe("item:one\nitem:two words\n");
+  });
+
+  test("functions resolve before registered commands", async () => {
+    const result = await sh`echo() { printf "wrapped:%s\\n" "$1"; }; echo hi`.text();
+
+    expect(result).toBe("wrapped:hi\n");
+  });
+
+  test("return sets the exit status and stops the function", async () => {
+    const result = await sh`f() { return 3; echo unreachable; }; f; echo "status:$?"`.text();
+
+    expect(result).toBe("status:3\n");
+  });
+
+  test("return without an argument uses the last exit status", async () => {
+    const result = await sh`f() { false; return; }; f || echo failed`.text();
+
+    expect(result).toBe("failed\n");
+  });
+
+  test("return exits enclosing loops inside the function", async () => {
+    const result = await sh`
+      find_two() {
+        for i in 1 2 3; do
+          if [ "$i" = 2 ]; then return 0; fi
+          echo "visit:$i"
+        done
+        return 1
+      }
+      find_two && echo found
+    `.text();
+
+    expect(result).toBe("visit:1\nfound\n");
+  });
+
+  test("return outside a function or sourced script is an error", async () => {
+    const result = await sh`return 1`.nothrow();
+
+    expect(result.exitCode).toBe(1);
+    expect(result.stderr.toString()).toContain("return: can only `return' from a function or sourced script");
+  });
+
+  test("return stops a sourced script", async () => {
+    await fs.writeFile("/lib.sh", "echo loaded\nreturn 4\necho unreachable\n");
+
+    const result = await sh`source /lib.sh; echo "status:$?"`.text();
+
+    expect(result).toBe("loaded\nstatus:4\n");
+  });
+
+  test("local variables are restored when the function returns", async () => {
+    const result = await sh`
+      NAME=global
+      f() {
+        local NAME=inner OTHER
+        OTHER=set
+        echo "in:$NAME:$OTHER"
+      }
+      f
+      echo "out:$NAME:$OTHER"
+    `.text();
+
+    expect(result).toBe("in:inner:set\nout:global:\n");
+  });
+
+  test("local values are not field-split", async () => {
+    const argv: Command = async (ctx) => {
+      await ctx.stdout.writeText(`${JSON.stringify(ctx.args)}\n`);
+      return 0;
+    };
+    sh = createShellDSL({ fs, cwd: "/", env: {}, commands: { ...builtinCommands, argv } });
+
+    const result = await sh`f() { local value=$1; argv "$value"; }; f "a b"`.text();
+
+    expect(result).toBe('["a b"]\n');
+  });
+
+  test("local is scoped to nested calls", async () => {
+    const result = await sh`
+      inner() { echo "inner sees:$X"; X=changed; }
+      outer() { local X=outer; inner; echo "outer sees:$X"; }
+      outer
+      echo "global:$X"
+    `.text();
+
+    expect(result).toBe("inner sees:outer\nouter sees:changed\nglobal:\n");
+  });
+
+  test("local outside a function is an error", async () => {
+    const result = await sh`local X=1`.nothrow();
+
+    expect(result.exitCode).toBe(1);
+    expect(result.stderr.toString()).toContain("local: can only be used in a function");
+  });
+
+  test("prefix assignments are scoped to the function call", async () => {
+    const result = await sh`f() { echo "in:$MODE"; }; MODE=fast f; echo "out:$MODE"`.text();
+
+    expect(result).toBe("in:fast\nout:\n");
+  });
+
+  test("functions are visible in command substitutions and pipelines", async () => {
+    const result = await sh`upper() { tr a-z A-Z; }; echo "$(echo hi | upper)"; echo bye | upper`.text();
+
+    expect(result).toBe("HI\nBYE\n");
+  });
+
+  test("functions in concurrent pipeline stages keep their own arguments", async () => {
+    const result = await sh`f() { echo "$1"; }; g() { read l; echo "$1 $l"; }; f x | g y`.text();
+
+    expect(result).toBe("y x\n");
+  });
+
+  test("pipeline stages do not change the shell's positional parameters", async () => {
+    const result = await sh`set -- top; f() { while read l; do echo "$1$l"; done; }; printf '1\n2\n' | f a | f b; echo "[$1]"`.text();
+
+    expect(result).toBe("ba1\nba2\n[top]\n");
+  });
+
+  test("functions are not inherited by ./script subshells", async () => {
+    await fs.writeFile("/script", "helper\n");
+
+    const result = await sh`helper() { echo helper; }; ./script`.nothrow();
+
+    expect(result.exitCode).toBe(127);
+    expect(result.stderr.toString()).toContain("helper: command not found");
+  });
+
+  test("functions defined via source persist in a session", async () => {
+    await fs.writeFile("/lib.sh", 'say() { echo "say:$1"; }\n');
+    const session = createShellSession({ fs, cwd: "/", env: {}, commands: builtinCommands });
+
+    await session.run("source /lib.sh").exit;
+    const result = await session.run("say hi").exit;
+
+    expect(result.stdout.toString()).toBe("say:hi\n");
+    expect(session.getFunctionNames()).toEqual(["say"]);
+  });
+
+  test("session completion includes function names", async () => {
+    const session = createShellSession({ fs, cwd: "/", env: {}, commands: builtinCommands });
+
+    await session.run("deploy_all() { echo deploying; }").exit;
+    const completion = await session.complete("deploy_");
+
+    expect(completion.matches).toEqual(["deploy_all "]);
+  });
+});
@@ -74,3 +74,64 @@ describe("globVirtualFS", () => {
     expect(matches).toEqual(["/docs/@tanstack/router/file-based-routing.md", "/workspace.md"]);
   });
 });
+
+describe("globVirtualFS options", () => {
+  const fs = createVirtualFS(
+    createFsFromVolume(
+      Volume.fromJSON({
+        "/src/app.ts": "",
+        "/src/App.test.ts": "",
+        "/src/.env": "",
+        "/src/lib/util.ts": "",
+        "/src/.cache/built.ts": "",
+      })
+    )
+  );
+
+  test("matches dotfiles and recurses by default", async () => {
+    expect(await globVirtualFS(fs, "/src/*")).toEqual([
+      "/src/.cache",
+      "/src/.env",
+      "/src/App.test.ts",
+      "/src/app.ts",
+      "/src/lib",
+    ]);
+    expect(await globVirtualFS(fs, "**/*.ts", { cwd: "/src" })).toContain("/src/.cache/built.ts");
+  });
+
+  test("dotglob: false skips dotfiles unless the pattern starts with a dot", async () => {
+    expect(await globVirtualFS(fs, "**/*.ts", { cwd: "/src", dotglob: false })).toEqual([
+      "/src/App.test.ts",
+      "/src/app.ts",
+      "/src/lib/util.ts",
+    ]);
+    expect(await globVirtualFS(fs, "/src/.e*", { dotglob: false })).toEqual(["/src/.env"]);
+  });
+
+  test("globstar: false makes ** match one directory level", async () => {
+    expect(await globVirtualFS(fs, "/src/**/*.ts", { globstar: false })).toEqual([
+      "/src/.cache/built.ts",
+      "/src/lib/util.ts",
+    ]);
+  });
+
+  test("nocaseglob and extglob change how names match", async () => {
+    expect(await globVirtualFS(fs, "/src/a*", { nocaseglob: true })).toEqual(["/src/App.test.ts", "/src/app.ts"]);
+    expect(await globVirtualFS(fs, "/src/!(*.test).ts", { extglob: true })).toEqual(["/src/app.ts"]);
+    expect(await globVirtualFS(fs, "/src/!(*.test).ts")).toEqual([]);
+  });
+
+  test("expands brace lists and sequences, keeping braces in classes literal", async () => {
+    expect(await globVirtualFS(fs, "/src/{app,lib/util}.ts")).toEqual(["/src/app.ts", "/src/lib/util.ts"]);
+    expect(await globVirtualFS(fs, "/src/{.e,a}{n..p}*")).toEqual(["/src/.env", "/src/app.ts"]);
+    expect(await globVirtualFS(fs, "/src/[{]a,b}*")).toEqual([]);
+  });
+
+  test("the memfs adapter passes options through", async () => {
+    expect(await fs.glob("*", { cwd: "/src", dotglob: false, extglob: true })).toEqual([
+      "/src/App.test.ts",
+      "/src/app.ts",
+      "/src/lib",
+    ]);
+  });
+});
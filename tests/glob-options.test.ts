@@ -0,0 +1,211 @@
+import { test, expect, describe, beforeEach } from "bun:test";
+import { createFsFromVolume, Volume } from "memfs";
+import { createShellDSL, createShellSession, createVirtualFS } from "../src/index.ts";
+import { builtinCommands } from "../src/commands/index.ts";
+import type { VirtualFS } from "../src/types.ts";
+
+describe("Glob options", () => {
+  let fs: VirtualFS;
+  let sh: ReturnType<typeof createShellDSL>;
+
+  beforeEach(() => {
+    const vol = new Volume();
+    vol.fromJSON({
+      "/p/main.c": "",
+      "/p/util.h": "",
+      "/p/notes.md": "",
+      "/p/README.MD": "",
+      "/p/.env": "",
+      "/p/src/app.c": "",
+      "/p/src/deep/lib.c": "",
+    });
+    fs = createVirtualFS(createFsFromVolume(vol));
+    sh = createShellDSL({ fs, cwd: "/p", env: {}, commands: builtinCommands });
+  });
+
+  describe("extglob", () => {
+    test("pattern lists expand pathnames", async () => {
+      const result = await sh`
+        shopt -s extglob
+        echo *.@(c|h)
+        echo !(*.c|*.h|*.md|*.MD)
+        echo +([a-z]).c ?(x)main.c
+      `.text();
+
+      expect(result).toBe("/p/main.c /p/util.h\n/p/src\n/p/main.c /p/main.c\n");
+    });
+
+    test("pattern lists match in case and [[ ]]", async () => {
+      const result = await sh`
+        shopt -s extglob
+        for f in a.tar.gz b.zip c.tgz; do
+          case $f in
+            *.@(tar.gz|tgz)) echo "$f tarball";;
+            !(*.zip)) echo "$f other";;
+            *) echo "$f zip";;
+          esac
+        done
+        [[ aaa == +(a) ]] && echo plus
+        [[ ab == a*(b|c) ]] && echo star
+        [[ x.md != !(*.md) ]] && echo negated
+      `.text();
+
+      expect(result).toBe("a.tar.gz tarball\nb.zip zip\nc.tgz tarball\nplus\nstar\nnegated\n");
+    });
+
+    test("pattern lists work in parameter expansion", async () => {
+      const result = await sh`shopt -s extglob; f=archive.tar.gz; echo \${f%.@(gz|bz2)} \${f//+(a|r)/_}`.text();
+
+      expect(result).toBe("archive.tar _chive.t_.gz\n");
+    });
+
+    test("quoted list text matches literally", async () => {
+      const result = await sh`shopt -s extglob; case 'a|b' in @("a|b")) echo literal;; esac; case b in @("a|b")) echo split;; esac`.text();
+
+      expect(result).toBe("literal\n");
+    });
+
+    test("lists are left alone while extglob is off", async () => {
+      const result = await sh`echo @(main|util).*; case a in @(a)) echo matched;; *) echo literal;; esac`.text();
+
+      expect(result).toBe("@(main|util).*\nliteral\n");
+    });
+
+    test("[[ ]] patterns always understand lists, as in bash", async () => {
+      const result = await sh`[[ a == @(a|b) ]] && echo at; [[ c == !(a|b) ]] && echo not; [[ aab != +(a|b) ]] || echo plus; shopt extglob`.nothrow();
+
+      expect(result.stdout.toString()).toBe("at\nnot\nplus\nextglob        \toff\n");
+    });
+  });
+
+  describe("unmatched globs", () => {
+    test("stay literal by default", async () => {
+      const result = await sh`echo *.txt`.text();
+
+      expect(result).toBe("*.txt\n");
+    });
+
+    test("nullglob removes them", async () => {
+      const result = await sh`shopt -s nullglob; for f in *.txt; do echo $f; done; echo "[" *.txt "]"`.text();
+
+      expect(result).toBe("[ ]\n");
+    });
+
+    test("failglob makes them an error that stops the script", async () => {
+      const result = await sh`shopt -s failglob; echo *.txt; echo unreachable`.nothrow();
+
+      expect(result.exitCode).toBe(1);
+      expect(result.stdout.toString()).toBe("");
+      expect(result.stderr.toString()).toBe("sh: no match: *.txt\n");
+    });
+  });
+
+  describe("matching names", () => {
+    test("dotfiles match only a leading dot unless dotglob is set", async () => {
+      const result = await sh`echo *; echo .e*; shopt -s dotglob; echo *`.text();
+
+      expect(result).toBe(
+        "/p/README.MD /p/main.c /p/notes.md /p/src /p/util.h\n/p/.env\n/p/.env /p/README.MD /p/main.c /p/notes.md /p/src /p/util.h\n"
+      );
+    });
+
+    test("nocaseglob matches names case-insensitively", async () => {
+      const result = await sh`echo *.md; shopt -s nocaseglob; echo *.md`.text();
+
+      expect(result).toBe("/p/notes.md\n/p/README.MD /p/notes.md\n");
+    });
+
+    test("globstar is on by default; off, ** matches one directory", async () => {
+      const result = await sh`echo **/*.c; shopt -u globstar; echo **/*.c`.text();
+
+      expect(result).toBe("/p/main.c /p/src/app.c /p/src/deep/lib.c\n/p/src/app.c\n");
+    });
+  });
+
+  describe("shopt", () => {
+    test("lists options and their state", async () => {
+      const result = await sh`shopt; shopt -s extglob; shopt -p extglob nullglob`.nothrow();
+
+      expect(result.exitCode).toBe(1);
+      expect(result.stdout.toString()).toBe(
+        [
+          "extglob        \toff",
+          "nullglob       \toff",
+          "failglob       \toff",
+          "dotglob        \toff",
+          "nocaseglob     \toff",
+          "globstar       \ton",
+          "shopt -s extglob",
+          "shopt -u nullglob",
+          "",
+        ].join("\n")
+      );
+    });
+
+    test("-s and -u without names list the options that are on or off", async () => {
+      const result = await sh`shopt -s dotglob; shopt -s; shopt -u`.text();
+
+      expect(result).toBe(
+        "dotglob        \ton\nglobstar       \ton\nextglob        \toff\nnullglob       \toff\nfailglob       \toff\nnocaseglob     \toff\n"
+      );
+    });
+
+    test("querying names returns 1 when any is off", async () => {
+      const result = await sh`shopt -q globstar; echo $?; shopt -q globstar extglob; echo $?; shopt nullglob; echo $?`.text();
+
+      expect(result).toBe("0\n1\nnullglob       \toff\n1\n");
+    });
+
+    test("-o works on set -o options", async () => {
+      const result = await sh`shopt -so pipefail; set -o | grep pipefail; shopt -po errexit; shopt -qo pipefail`.text();
+
+      expect(result).toBe("pipefail       \ton\nset +o errexit\n");
+    });
+
+    test("rejects unknown names, setting the valid ones, and conflicting flags", async () => {
+      const result = await sh`shopt -s nosuch dotglob; echo $?; shopt -s -u extglob; echo $?; shopt -x; echo $?; shopt -q dotglob`.nothrow();
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout.toString()).toBe("1\n1\n2\n");
+      expect(result.stderr.toString()).toBe(
+        "shopt: nosuch: invalid shell option name\n" +
+          "shopt: cannot set and unset shell options simultaneously\n" +
+          "shopt: invalid option -- 'x'\nusage: shopt [-pqsu] [-o] [optname ...]\n"
+      );
+    });
+
+    test("options are inherited by subshells but do not leak out of them", async () => {
+      const result = await sh`shopt -s nullglob; (echo a *.txt; shopt -u nullglob; echo b *.txt); echo c *.txt`.text();
+
+      expect(result).toBe("a\nb *.txt\nc\n");
+    });
+  });
+
+  describe("configuration", () => {
+    test("ShellConfig sets the initial options", async () => {
+      sh = createShellDSL({ fs, cwd: "/p", env: {}, commands: builtinCommands, shopt: { extglob: true, nullglob: true } });
+
+      const result = await sh`echo !(*.c|*.h|*.md|*.MD|src) *.txt end`.text();
+
+      expect(result).toBe("end\n");
+    });
+
+    test("ShellSession reads and changes options between runs", async () => {
+      const session = createShellSession({ fs, cwd: "/p", env: {}, commands: builtinCommands, shopt: { dotglob: true } });
+
+      await session.run("shopt -s extglob").exit;
+      session.setShoptOptions({ dotglob: false });
+      const result = await session.run("echo @(.env|main.c) !(main.c|*.h|*.md|*.MD|src)").exit;
+
+      expect(result.stdout.toString()).toBe("/p/.env /p/main.c !(main.c|*.h|*.md|*.MD|src)\n");
+      expect(session.getShoptOptions()).toEqual({
+        extglob: true,
+        nullglob: false,
+        failglob: false,
+        dotglob: false,
+        nocaseglob: false,
+        globstar: true,
+      });
+    });
+  });
+});
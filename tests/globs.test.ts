@@ -51,7 +51,7 @@ describe("Glob Expansion", () => {
 
   test("brace expansion {a,b}", async () => {
     const result = await sh`echo {a,b}.txt`.text();
-    expect(result.trim().split(/\s+/).sort()).toEqual(["/files/a.txt", "/files/b.txt"]);
+    expect(result.trim().split(/\s+/).sort()).toEqual(["a.txt", "b.txt"]);
   });
 
   test("unquoted variable expansions participate in pathname expansion", async () => {
@@ -0,0 +1,125 @@
+import { test, expect, describe, beforeEach } from "bun:test";
+import { createFsFromVolume, Volume } from "memfs";
+import { createShellDSL, createVirtualFS } from "../src/index.ts";
+import { builtinCommands } from "../src/commands/index.ts";
+import type { VirtualFS } from "../src/types.ts";
+
+describe("subshells and brace groups", () => {
+  let fs: VirtualFS;
+  let sh: ReturnType<typeof createShellDSL>;
+
+  beforeEach(() => {
+    const vol = new Volume();
+    vol.fromJSON({
+      "/project/src/main.ts": "main\n",
+      "/project/README.md": "readme\n",
+    });
+    fs = createVirtualFS(createFsFromVolume(vol));
+    sh = createShellDSL({
+      fs,
+      cwd: "/",
+      env: {},
+      commands: builtinCommands,
+    });
+  });
+
+  describe("( ... )", () => {
+    test("isolates cwd changes", async () => {
+      const result = await sh`(cd /project && pwd); pwd`.text();
+
+      expect(result).toBe("/project\n/\n");
+    });
+
+    test("isolates variable and function changes", async () => {
+      const result = await sh`NAME=outer; (NAME=inner; helper() { echo helper; }; echo "in:$NAME"); echo "out:$NAME"; helper`.nothrow();
+
+      expect(result.stdout.toString()).toBe("in:inner\nout:outer\n");
+      expect(result.stderr.toString()).toContain("helper: command not found");
+    });
+
+    test("sees the parent's variables, functions, and positional parameters", async () => {
+      await fs.writeFile("/script", 'greet() { echo "hi $1"; }\n(greet "$1"; echo "$NAME")\n');
+
+      const result = await sh`NAME=visible ./script bob`.text();
+
+      expect(result).toBe("hi bob\nvisible\n");
+    });
+
+    test("exit only leaves the subshell", async () => {
+      const result = await sh`(echo before; exit 3; echo after); echo "status:$?"`.text();
+
+      expect(result).toBe("before\nstatus:3\n");
+    });
+
+    test("works in pipelines and with && / ||", async () => {
+      const result = await sh`(cd /project && ls) | sort -r && (false) || echo recovered`.text();
+
+      expect(result).toBe("src\nREADME.md\nrecovered\n");
+    });
+
+    test("applies redirects to the whole subshell", async () => {
+      await sh`(echo one; echo two) > /out.txt`;
+
+      expect(await fs.readFile("/out.txt", "utf-8")).toBe("one\ntwo\n");
+    });
+
+    test("nests", async () => {
+      const result = await sh`(echo outer; (cd /project; pwd); pwd)`.text();
+
+      expect(result).toBe("outer\n/project\n/\n");
+    });
+  });
+
+  describe("{ ...; }", () => {
+    test("runs in the current shell", async () => {
+      const result = await sh`{ NAME=group; cd /project; }; echo "$NAME"; pwd`.text();
+
+      expect(result).toBe("group\n/project\n");
+    });
+
+    test("applies one redirect to the whole group", async () => {
+      await sh`{ echo one; echo two; } > /out.txt; { echo three; } >> /out.txt`;
+
+      expect(await fs.readFile("/out.txt", "utf-8")).toBe("one\ntwo\nthree\n");
+    });
+
+    test("applies input redirects and heredocs to the group", async () => {
+      const result = await sh`{ cat; } < /project/README.md; { cat; } <<EOF
+heredoc
+EOF`.text();
+
+      expect(result).toBe("readme\nheredoc\n");
+    });
+
+    test("merges stderr into stdout for the group", async () => {
+      const result = await sh`{ echo out; echo err 1>&2; } 2>&1 | sort`.text();
+
+      expect(result).toBe("err\nout\n");
+    });
+
+    test("works in pipelines and with && / ||", async () => {
+      const result = await sh`{ echo b; echo a; } | sort; { false; } || echo fallback`.text();
+
+      expect(result).toBe("a\nb\nfallback\n");
+    });
+
+    test("flushes redirected output when exit unwinds the group", async () => {
+      const result = await sh`{ echo saved; exit 4; } > /out.txt; echo unreachable`.nothrow();
+
+      expect(result.exitCode).toBe(4);
+      expect(result.stdout.toString()).toBe("");
+      expect(await fs.readFile("/out.txt", "utf-8")).toBe("saved\n");
+    });
+
+    test("supports newlines inside the group", async () => {
+      const result = await sh`
+        {
+          echo first
+          echo second
+        } | tr a-z A-Z
+      `.text();
+
+      expect(result).toBe("FIRST\nSECOND\n");
+    });
+  });
+});
@@ -0,0 +1,18 @@
+import type { Command } from "../src/types.ts";
+
+// Resolves after the given number of milliseconds, or rejects when aborted
+export const sleep: Command = async (ctx) => {
+  const ms = Number(ctx.args[0] ?? 0);
+  await new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    ctx.signal.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        reject(ctx.signal.reason);
+      },
+      { once: true }
+    );
+  });
+  return 0;
+};
@@ -105,6 +105,18 @@ describe("Heredoc", () => {
         { type: "eof" },
       ]);
     });
+
+    test("ends the command line before the heredoc body", () => {
+      const tokens = lex("cat <<EOF\nhello\nEOF\necho ok", { preserveNewlines: true });
+      expect(tokens).toEqual([
+        { type: "word", value: "cat" },
+        { type: "heredoc", content: "hello\n", expand: true },
+        { type: "newline" },
+        { type: "word", value: "echo" },
+        { type: "word", value: "ok" },
+        { type: "eof" },
+      ]);
+    });
   });
 
   describe("Parser", () => {
@@ -114,8 +126,8 @@ describe("Heredoc", () => {
       expect(ast.type).toBe("command");
       if (ast.type === "command") {
         expect(ast.redirects).toHaveLength(1);
-        expect(ast.redirects[0]!.mode).toBe("<");
-        expect(ast.redirects[0]!.heredocContent).toBe(true);
+        expect(ast.redirects[0]!.fd).toBe(0);
+        expect(ast.redirects[0]!.op).toBe("<<");
       }
     });
 
@@ -199,6 +211,14 @@ EOF`.text();
       expect(result).toBe("hello world\n");
     });
 
+    test("commands after the closing delimiter run separately", async () => {
+      const result = await sh`cat <<EOF
+first
+EOF
+echo second`.text();
+      expect(result).toBe("first\nsecond\n");
+    });
+
     test("multi-line heredoc content", async () => {
       const result = await sh`cat <<EOF
 line 1
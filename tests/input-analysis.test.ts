@@ -16,6 +16,19 @@ describe("analyzeInput", () => {
     expect(analyzeInput("if true; then\n")).toMatchObject({ kind: "incomplete", reason: "compound" });
   });
 
+  test("detects incomplete function definitions", () => {
+    expect(analyzeInput("greet() {\n  echo hi\n")).toMatchObject({ kind: "incomplete", reason: "compound" });
+    expect(analyzeInput("greet()\n")).toMatchObject({ kind: "incomplete", reason: "compound" });
+    expect(analyzeInput("greet() {\n  echo hi\n}\n").kind).toBe("complete");
+  });
+
+  test("detects unclosed subshells and brace groups", () => {
+    expect(analyzeInput("( cd /tmp\n")).toMatchObject({ kind: "incomplete", reason: "compound" });
+    expect(analyzeInput("{ echo a;\n")).toMatchObject({ kind: "incomplete", reason: "compound" });
+    expect(analyzeInput("( cd /tmp; ls )").kind).toBe("complete");
+    expect(analyzeInput("{ echo a; } > out.txt").kind).toBe("complete");
+  });
+
   test("detects incomplete heredoc input", () => {
     expect(analyzeInput("cat <<EOF\nhello\n")).toMatchObject({
       kind: "incomplete",
@@ -37,6 +50,24 @@ describe("analyzeInput", () => {
     });
   });
 
+  test("adds lint diagnostics when given lint options", () => {
+    const lint = { commands: { echo: async () => 0 } };
+
+    expect(analyzeInput("echo $x; nosuch", { lint })).toMatchObject({
+      kind: "complete",
+      diagnostics: [
+        { rule: "unquoted-expansion", line: 1, column: 6 },
+        { rule: "unknown-command", line: 1, column: 10 },
+      ],
+    });
+    expect(analyzeInput("echo )", { lint })).toMatchObject({
+      kind: "invalid",
+      diagnostics: [{ rule: "syntax-error", line: 1, column: 6 }],
+    });
+    expect(analyzeInput("if true; then\n", { lint })).toEqual({ kind: "incomplete", reason: "compound" });
+    expect(analyzeInput("nosuch")).not.toHaveProperty("diagnostics");
+  });
+
   test("reports invalid syntax", () => {
     const result = analyzeInput(")");
 
@@ -0,0 +1,164 @@
+import { test, expect, describe, beforeEach } from "bun:test";
+import { createFsFromVolume, Volume } from "memfs";
+import { Interpreter, createShellDSL, createShellSession, createVirtualFS, lex, parse } from "../src/index.ts";
+import { builtinCommands } from "../src/commands/index.ts";
+import type { VirtualFS } from "../src/types.ts";
+import { sleep } from "./helpers.ts";
+
+describe("background jobs", () => {
+  let fs: VirtualFS;
+  let sh: ReturnType<typeof createShellDSL>;
+
+  beforeEach(() => {
+    fs = createVirtualFS(createFsFromVolume(new Volume()));
+    sh = createShellDSL({
+      fs,
+      cwd: "/",
+      env: {},
+      commands: { ...builtinCommands, sleep },
+    });
+  });
+
+  test("runs jobs concurrently with the rest of the script", async () => {
+    const result = await sh`(sleep 40; echo slow) & sleep 5; echo fast; wait; echo finished`.text();
+
+    expect(result).toBe("fast\nslow\nfinished\n");
+  });
+
+  test("runs two long-running commands at the same time", async () => {
+    const start = Date.now();
+    await sh`sleep 60 & sleep 60 & wait`;
+
+    expect(Date.now() - start).toBeLessThan(110);
+  });
+
+  test("$! is the id of the most recent job and wait returns its status", async () => {
+    const result = await sh`f() { sleep 5; return 3; }; f & pid=$!; wait $pid; echo "$? $pid"`.text();
+
+    expect(result).toBe("3 1000\n");
+  });
+
+  test("jobs run in a subshell environment", async () => {
+    const result = await sh`x=1; { x=2; cd /tmp; } & wait; echo $x`.text();
+
+    expect(result).toBe("1\n");
+  });
+
+  test("kill %n aborts the job's signal", async () => {
+    const result = await sh`sleep 5000 & kill %1; wait %1; echo "status $?"`.text();
+
+    expect(result).toBe("status 143\n");
+  });
+
+  test("kill accepts signal names and numbers", async () => {
+    const result = await sh`sleep 5000 & kill -KILL $!; wait $!; echo $?; sleep 5000 & kill -s INT %%; wait %%; echo $?`.text();
+
+    expect(result).toBe("137\n130\n");
+  });
+
+  test("jobs lists running and finished jobs", async () => {
+    const result = await sh`sleep 5000 & sleep 0 & sleep 5; jobs; jobs -p %1; kill %1`.text();
+
+    expect(result).toBe(
+      "[1]-  Running                 sleep 5000 &\n" +
+        "[2]+  Done                    sleep 0\n" +
+        "1000\n"
+    );
+  });
+
+  test("reports unknown jobs", async () => {
+    const result = await sh`wait %4; echo $?; kill %4; echo $?; kill 4242`.nothrow();
+
+    expect(result.stdout.toString()).toBe("127\n1\n");
+    expect(result.stderr.toString()).toBe(
+      "wait: %4: no such job\nkill: %4: no such job\nkill: (4242) - No such process\n"
+    );
+  });
+
+  test("script output stays open until background jobs finish", async () => {
+    const result = await sh`(sleep 20; echo late) & echo early`.text();
+
+    expect(result).toBe("early\nlate\n");
+  });
+
+  test("killing the script kills its jobs", async () => {
+    const interpreter = new Interpreter({ fs, cwd: "/", env: {}, commands: { ...builtinCommands, sleep } });
+    const execution = interpreter.executeStreaming(parse(lex("sleep 5000 & echo started")));
+    setTimeout(() => execution.kill(), 5);
+
+    const result = await execution.exit;
+
+    expect(result.stdout.toString()).toBe("started\n");
+    expect(interpreter.getJobs()[0]!.status).toBe("killed");
+  });
+});
+
+describe("ShellSession jobs", () => {
+  const createSession = () =>
+    createShellSession({
+      fs: createVirtualFS(createFsFromVolume(new Volume())),
+      cwd: "/",
+      env: {},
+      commands: { ...builtinCommands, sleep },
+    });
+
+  test("returns to the prompt while jobs keep running", async () => {
+    const session = createSession();
+
+    const result = await session.run("sleep 5000 & echo started").exit;
+
+    expect(result.stdout.toString()).toBe("started\n");
+    expect(session.getJobs()).toEqual([
+      { id: 1, pid: 1000, command: "sleep 5000", status: "running", exitCode: null, signal: null },
+    ]);
+
+    await session.run("kill %1").exit;
+    expect(await session.waitForJob(1)).toBe(143);
+    expect(session.getJobs()).toEqual([]);
+  });
+
+  test("reports finished jobs once", async () => {
+    const session = createSession();
+
+    await session.run("sleep 5 &").exit;
+    await session.run("sleep 20").exit;
+
+    expect(session.takeFinishedJobs()).toEqual([
+      { id: 1, pid: 1000, command: "sleep 5", status: "done", exitCode: 0, signal: null },
+    ]);
+    expect(session.takeFinishedJobs()).toEqual([]);
+  });
+
+  test("output a job writes after its run goes to the next run", async () => {
+    const session = createSession();
+
+    const first = await session.run("{ echo early; sleep 10; echo late; echo oops >&2; } & echo started").exit;
+    expect(first.stdout.toString()).toBe("early\nstarted\n");
+    await session.waitForJob(1);
+
+    const second = await session.run("echo next").exit;
+    expect(second.stdout.toString()).toBe("late\nnext\n");
+    expect(second.stderr.toString()).toBe("oops\n");
+    expect((await session.run("echo again").exit).stdout.toString()).toBe("again\n");
+  });
+
+  test("output a job writes while a later run is going goes to that run", async () => {
+    const session = createSession();
+
+    await session.run("{ sleep 10; echo finished; } &").exit;
+    const result = await session.run("wait %1; echo waited").exit;
+
+    expect(result.stdout.toString()).toBe("finished\nwaited\n");
+  });
+
+  test("killJob and dispose abort running jobs", async () => {
+    const session = createSession();
+
+    await session.run("sleep 5000 & sleep 5000 &").exit;
+    session.killJob(1, 9);
+    expect(await session.waitForJob(1)).toBe(137);
+
+    await session.dispose();
+    expect(session.getJobs()).toEqual([]);
+  });
+});
@@ -1,6 +1,6 @@
 import { test, expect, describe, beforeEach } from "bun:test";
 import { createFsFromVolume, Volume } from "memfs";
-import { createVirtualFS, createShellDSL } from "../src/index.ts";
+import { createVirtualFS, createShellDSL, type Command } from "../src/index.ts";
 import { builtinCommands } from "../src/commands/index.ts";
 
 describe("JS Object Redirection", () => {
@@ -15,11 +15,18 @@ describe("JS Object Redirection", () => {
     const memfs = createFsFromVolume(vol);
     const fs = createVirtualFS(memfs);
 
+    // Writes the bytes of é in two chunks
+    const split: Command = async (ctx) => {
+      await ctx.stdout.write(new Uint8Array([0x63, 0xc3]));
+      await ctx.stdout.write(new Uint8Array([0xa9, 0x0a]));
+      return 0;
+    };
+
     sh = createShellDSL({
       fs,
       cwd: "/",
       env: {},
-      commands: builtinCommands,
+      commands: { ...builtinCommands, split },
     });
   });
 
@@ -96,6 +103,187 @@ describe("JS Object Redirection", () => {
     });
   });
 
+  describe("Output to sinks", () => {
+    test("> array replaces its contents with the lines written", async () => {
+      const lines = ["old"];
+      await sh`printf 'a\nb\nlast' > ${lines}`;
+      expect(lines).toEqual(["a", "b", "last"]);
+    });
+
+    test(">> array appends lines", async () => {
+      const lines = ["first"];
+      await sh`echo second >> ${lines}; echo third >> ${lines}`;
+      expect(lines).toEqual(["first", "second", "third"]);
+    });
+
+    test("array lines keep characters split across writes", async () => {
+      const lines: string[] = [];
+      await sh`split > ${lines}`;
+      expect(lines).toEqual(["cé"]);
+    });
+
+    test("> callback receives each chunk as it is written", async () => {
+      const chunks: string[] = [];
+      await sh`{ for i in 1 2 3; do echo $i; done; } > ${(chunk: Uint8Array) => {
+        chunks.push(new TextDecoder().decode(chunk));
+      }}`;
+      expect(chunks).toEqual(["1\n", "2\n", "3\n"]);
+    });
+
+    test("2> and &> redirect to callbacks", async () => {
+      const errors: string[] = [];
+      const both: string[] = [];
+      const result = await sh`{ echo out; echo err >&2; } 2> ${(chunk: Uint8Array) => {
+        errors.push(new TextDecoder().decode(chunk));
+      }}; { echo out; echo err >&2; } &> ${(chunk: Uint8Array) => {
+        both.push(new TextDecoder().decode(chunk));
+      }}`;
+      expect(result.stdout.toString()).toBe("out\n");
+      expect(errors).toEqual(["err\n"]);
+      expect(both).toEqual(["out\n", "err\n"]);
+    });
+
+    test("a slow callback holds the writer back", async () => {
+      const events: string[] = [];
+      const slow = async (chunk: Uint8Array) => {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        events.push(`wrote ${new TextDecoder().decode(chunk).trim()}`);
+      };
+      const mark: Command = async (ctx) => {
+        events.push(`mark ${ctx.args[0]}`);
+        return 0;
+      };
+      const shell = createShellDSL({ fs: createVirtualFS(createFsFromVolume(vol)), cwd: "/", env: {}, commands: { ...builtinCommands, mark } });
+      await shell`{ echo 1; mark a; echo 2; mark b; } > ${slow}`;
+      expect(events).toEqual(["wrote 1", "mark a", "wrote 2", "mark b"]);
+    });
+
+    test("> WritableStream writes through and closes the stream", async () => {
+      const chunks: string[] = [];
+      let closed = false;
+      const stream = new WritableStream<Uint8Array>({
+        write(chunk) {
+          chunks.push(new TextDecoder().decode(chunk));
+        },
+        close() {
+          closed = true;
+        },
+      });
+      await sh`echo one; echo two > ${stream}`;
+      expect(chunks).toEqual(["two\n"]);
+      expect(closed).toBe(true);
+    });
+
+    test(">> WritableStream leaves the stream open for later writes", async () => {
+      const chunks: string[] = [];
+      const stream = new WritableStream<Uint8Array>({
+        write(chunk) {
+          chunks.push(new TextDecoder().decode(chunk));
+        },
+      });
+      await sh`echo one >> ${stream}`;
+      await sh`echo two >> ${stream}`;
+      expect(chunks).toEqual(["one\n", "two\n"]);
+      expect(stream.locked).toBe(false);
+    });
+
+    test("a WritableStream that fails fails the command", async () => {
+      const stream = new WritableStream<Uint8Array>({
+        write() {
+          throw new Error("disk full");
+        },
+      });
+      const result = await sh`echo data > ${stream}`.nothrow();
+      expect(result.exitCode).not.toBe(0);
+    });
+
+    test("output redirects reject input-only objects", async () => {
+      const result = await sh`echo hi > ${new Blob(["x"])}; echo $?`.nothrow();
+      expect(result.stdout.toString()).toBe("1\n");
+      expect(result.stderr.toString()).toContain("Output redirection only supports Buffer, array, function and WritableStream targets");
+    });
+  });
+
+  describe("Streaming input", () => {
+    test("cat < ReadableStream reads the stream", async () => {
+      const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(new TextEncoder().encode("from "));
+          controller.enqueue(new TextEncoder().encode("stream\n"));
+          controller.close();
+        },
+      });
+      expect(await sh`cat < ${stream}`.text()).toBe("from stream\n");
+    });
+
+    test("< async iterable reads strings and bytes", async () => {
+      async function* source() {
+        yield "line 1\n";
+        yield new TextEncoder().encode("line 2\n");
+      }
+      expect(await sh`{ while read line; do echo "got $line"; done; } < ${source()}`.text()).toBe("got line 1\ngot line 2\n");
+    });
+
+    test("input is read as it arrives rather than all at once", async () => {
+      // The second line is only produced once the first has come out the other end
+      let release!: () => void;
+      const released = new Promise<void>((resolve) => {
+        release = resolve;
+      });
+      async function* source() {
+        yield "first\n";
+        await released;
+        yield "second\n";
+      }
+      const lines: string[] = [];
+      await sh`cat < ${source()} > ${(chunk: Uint8Array) => {
+        lines.push(new TextDecoder().decode(chunk));
+        release();
+      }}`;
+      expect(lines).toEqual(["first\n", "second\n"]);
+    });
+
+    test("a stream is read only as far as the command reads it", async () => {
+      let pulled = 0;
+      const endless = new ReadableStream<Uint8Array>({
+        pull(controller) {
+          pulled++;
+          controller.enqueue(new TextEncoder().encode(`line ${pulled}\n`));
+        },
+      });
+      expect(await sh`head -n 2 < ${endless}`.text()).toBe("line 1\nline 2\n");
+      expect(pulled).toBeLessThan(10);
+    });
+
+    test("< array reads its elements as lines", async () => {
+      expect(await sh`sort < ${["b", "a"]}`.text()).toBe("a\nb\n");
+    });
+
+    test("< another script reads its stdout", async () => {
+      expect(await sh`grep b < ${sh`printf 'a\nb\nc\n'`}`.text()).toBe("b\n");
+    });
+
+    test("another script starts only when its redirect is read", async () => {
+      const inner = sh`echo started > /started.txt; echo data`;
+      const outer = sh`false && cat < ${inner}`.nothrow();
+      await Promise.resolve();
+      expect(vol.existsSync("/started.txt")).toBe(false);
+
+      await outer;
+      expect(vol.existsSync("/started.txt")).toBe(false);
+      expect(await sh`cat < ${inner}`.text()).toBe("data\n");
+      expect(vol.existsSync("/started.txt")).toBe(true);
+    });
+
+    test("input redirects reject output-only objects", async () => {
+      const result = await sh`cat < ${() => {}}; echo $?`.nothrow();
+      expect(result.stdout.toString()).toBe("1\n");
+      expect(result.stderr.toString()).toBe(
+        "sh: redirect target 0 (Function): Input redirection does not support functions or WritableStream sources\n"
+      );
+    });
+  });
+
   describe("Edge cases", () => {
     test("empty Buffer input", async () => {
       const input = Buffer.from("");
@@ -1,5 +1,5 @@
 import { test, expect, describe } from "bun:test";
-import { lex } from "../src/lexer/index.ts";
+import { lex, Lexer, type Token } from "../src/lexer/index.ts";
 
 describe("Lexer", () => {
   test("tokenizes simple words", () => {
@@ -55,15 +55,42 @@ describe("Lexer", () => {
   });
 
   test("tokenizes redirects", () => {
-    expect(lex("echo > file")[1]).toEqual({ type: "redirect", mode: ">" });
-    expect(lex("echo >> file")[1]).toEqual({ type: "redirect", mode: ">>" });
-    expect(lex("cat < file")[1]).toEqual({ type: "redirect", mode: "<" });
-    expect(lex("cmd 2> file")[1]).toEqual({ type: "redirect", mode: "2>" });
-    expect(lex("cmd 2>> file")[1]).toEqual({ type: "redirect", mode: "2>>" });
-    expect(lex("cmd &> file")[1]).toEqual({ type: "redirect", mode: "&>" });
-    expect(lex("cmd &>> file")[1]).toEqual({ type: "redirect", mode: "&>>" });
-    expect(lex("cmd 2>&1")[1]).toEqual({ type: "redirect", mode: "2>&1" });
-    expect(lex("cmd 1>&2")[1]).toEqual({ type: "redirect", mode: "1>&2" });
+    expect(lex("echo > file")[1]).toEqual({ type: "redirect", op: ">" });
+    expect(lex("echo >> file")[1]).toEqual({ type: "redirect", op: ">>" });
+    expect(lex("cat < file")[1]).toEqual({ type: "redirect", op: "<" });
+    expect(lex("cmd 2> file")[1]).toEqual({ type: "redirect", op: ">", fd: 2 });
+    expect(lex("cmd 2>> file")[1]).toEqual({ type: "redirect", op: ">>", fd: 2 });
+    expect(lex("cmd &> file")[1]).toEqual({ type: "redirect", op: "&>" });
+    expect(lex("cmd &>> file")[1]).toEqual({ type: "redirect", op: "&>>" });
+    expect(lex("cmd >| file")[1]).toEqual({ type: "redirect", op: ">|" });
+    expect(lex("cmd 3<> file")[1]).toEqual({ type: "redirect", op: "<>", fd: 3 });
+    expect(lex("cmd <<< word")[1]).toEqual({ type: "redirect", op: "<<<" });
+  });
+
+  test("tokenizes descriptor duplication and closing", () => {
+    expect(lex("cmd 2>&1")).toEqual([
+      { type: "word", value: "cmd" },
+      { type: "redirect", op: ">&", fd: 2 },
+      { type: "word", value: "1" },
+      { type: "eof" },
+    ]);
+    expect(lex("cmd 10<&0 3>&-").slice(1, 5)).toEqual([
+      { type: "redirect", op: "<&", fd: 10 },
+      { type: "word", value: "0" },
+      { type: "redirect", op: ">&", fd: 3 },
+      { type: "word", value: "-" },
+    ]);
+    expect(lex("cmd 2>&1>log").slice(3, 5)).toEqual([
+      { type: "redirect", op: ">" },
+      { type: "word", value: "log" },
+    ]);
+  });
+
+  test("only treats digits directly before a redirect as a descriptor", () => {
+    expect(lex("echo 2 > file").slice(1, 3)).toEqual([
+      { type: "word", value: "2" },
+      { type: "redirect", op: ">" },
+    ]);
   });
 
   test("tokenizes variables", () => {
@@ -84,6 +111,48 @@ describe("Lexer", () => {
     ]);
   });
 
+  test("tokenizes background operator", () => {
+    expect(lex("sleep 1 & wait")).toEqual([
+      { type: "word", value: "sleep" },
+      { type: "word", value: "1" },
+      { type: "background" },
+      { type: "word", value: "wait" },
+      { type: "eof" },
+    ]);
+  });
+
+  test("tokenizes parameter expansion operators", () => {
+    expect(lex("${VAR:-a b}")[0]).toEqual({ type: "parameterExpansion", name: "VAR", operator: ":-", operand: "a b" });
+    expect(lex("${#VAR}")[0]).toEqual({ type: "parameterExpansion", name: "VAR", operator: "length" });
+    expect(lex("${path##*/}")[0]).toEqual({ type: "parameterExpansion", name: "path", operator: "##", operand: "*/" });
+    expect(lex("${v//a/b}")[0]).toEqual({
+      type: "parameterExpansion",
+      name: "v",
+      operator: "//",
+      operand: "a",
+      replacement: "b",
+    });
+    expect(lex("${v:1:2}")[0]).toEqual({
+      type: "parameterExpansion",
+      name: "v",
+      operator: ":",
+      operand: "1",
+      replacement: "2",
+    });
+  });
+
+  test("keeps braces nested inside parameter expansion operands", () => {
+    expect(lex("${A:-${B:-}}x")[0] as unknown).toEqual([
+      { type: "parameterExpansion", name: "A", operator: ":-", operand: "${B:-}" },
+      { type: "word", value: "x" },
+    ]);
+  });
+
+  test("rejects bad substitutions", () => {
+    expect(() => lex("echo ${A!}")).toThrow("Bad substitution");
+    expect(() => lex("echo ${A:-x")).toThrow("Unterminated parameter expansion");
+  });
+
   test("tokenizes command substitution", () => {
     const tokens = lex("echo $(pwd)");
     expect(tokens).toEqual([
@@ -139,6 +208,205 @@ describe("Lexer", () => {
     ]);
   });
 
+  test("tokenizes array assignments and subscripts", () => {
+    const tokens = lex("a[1]=x b+=(1 2) echo ${m[k]} ${!m[@]}");
+    expect(tokens).toEqual([
+      { type: "assignment", name: "a", index: "1", value: "x" },
+      { type: "assignment", name: "b", append: true, value: "", array: "1 2" },
+      { type: "word", value: "echo" },
+      { type: "variable", name: "m", index: "k" },
+      { type: "parameterExpansion", name: "m", index: "@", operator: "keys" },
+      { type: "eof" },
+    ]);
+  });
+
+  test("keeps expansions in the middle of assignment values", () => {
+    expect(lex('PATH=/bin:$PATH X=a"b c"')).toEqual([
+      { type: "assignment", name: "PATH", value: [{ type: "word", value: "/bin:" }, { type: "variable", name: "PATH" }] },
+      { type: "assignment", name: "X", value: [{ type: "word", value: "a" }, { type: "doubleQuote", parts: ["b c"] }] },
+      { type: "eof" },
+    ]);
+  });
+
+  test("expands aliases in command position", () => {
+    const aliases = new Map([["ll", "ls -l"], ["ls", "ls -F"], ["sudo", "sudo "]]);
+    expect(lex("ll; echo ll; sudo ll; \\ll", { aliases }) as unknown[]).toEqual([
+      { type: "word", value: "ls" },
+      { type: "word", value: "-F" },
+      { type: "word", value: "-l" },
+      { type: "semicolon" },
+      { type: "word", value: "echo" },
+      { type: "word", value: "ll" },
+      { type: "semicolon" },
+      { type: "word", value: "sudo" },
+      { type: "word", value: "ls" },
+      { type: "word", value: "-F" },
+      { type: "word", value: "-l" },
+      { type: "semicolon" },
+      { type: "word", value: "ll" },
+      { type: "eof" },
+    ]);
+  });
+
+  test("tokenizes an escaped leading tilde as quoted", () => {
+    expect(lex("echo \\~/x") as unknown[]).toEqual([
+      { type: "word", value: "echo" },
+      [{ type: "singleQuote", value: "~" }, { type: "word", value: "/x" }],
+      { type: "eof" },
+    ]);
+  });
+
+  test("records where each token was read from", () => {
+    const tokens = lex('echo a$x 2>&1\n  "v=$y"', { preserveNewlines: true }) as unknown[];
+    const merged = tokens[1] as Token[];
+    const quoted = tokens[5] as Token & { type: "doubleQuote" };
+
+    expect((tokens[0] as Token).span).toEqual({ start: 0, end: 4, line: 1, column: 1 });
+    expect((merged as unknown as Token).span).toEqual({ start: 5, end: 8, line: 1, column: 6 });
+    expect(merged[1]!.span).toEqual({ start: 6, end: 8, line: 1, column: 7 });
+    expect((tokens[2] as Token).span).toEqual({ start: 9, end: 12, line: 1, column: 10 });
+    expect((tokens[3] as Token).span).toEqual({ start: 12, end: 13, line: 1, column: 13 });
+    expect((tokens[4] as Token).span).toEqual({ start: 13, end: 14, line: 1, column: 14 });
+    expect(quoted.span).toEqual({ start: 16, end: 22, line: 2, column: 3 });
+    expect((quoted.parts[1] as Token).span).toEqual({ start: 19, end: 21, line: 2, column: 6 });
+    expect(quoted.textSpans).toEqual([{ start: 17, end: 19, line: 2, column: 4 }]);
+    expect((tokens[6] as Token).span).toEqual({ start: 22, end: 22, line: 2, column: 9 });
+  });
+
+  test("keeps spans out of token equality and JSON", () => {
+    const [token] = lex("echo");
+
+    expect(token).toEqual({ type: "word", value: "echo" });
+    expect(JSON.stringify(token)).toBe('{"type":"word","value":"echo"}');
+  });
+
+  test("spans what an alias expands to as the alias name", () => {
+    const aliases = new Map([["ll", "ls -l"]]);
+    const tokens = new Lexer("ll x; ll", { aliases }).tokenize();
+
+    expect(tokens.map((token) => token.span && [token.span.start, token.span.end])).toEqual([
+      [0, 2],
+      [0, 2],
+      [3, 4],
+      [4, 5],
+      [6, 8],
+      [6, 8],
+      [8, 8],
+    ]);
+  });
+
+  test("offsets spans by where the source starts in an enclosing text", () => {
+    const tokens = lex("a\nb", { preserveNewlines: true, origin: { offset: 10, line: 3, column: 5 } });
+
+    expect(tokens.map((token) => token.span)).toEqual([
+      { start: 10, end: 11, line: 3, column: 5 },
+      { start: 11, end: 12, line: 3, column: 6 },
+      { start: 12, end: 13, line: 4, column: 1 },
+      { start: 13, end: 13, line: 4, column: 2 },
+    ]);
+  });
+
+  test("rejects backtick command substitution", () => {
+    expect(() => lex("echo `date`")).toThrow("Backtick command substitution is not supported, use $(...)");
+  });
+
+  test("tokenizes escaped pattern characters as quoted", () => {
+    expect(lex("echo a\\*{b\\,c} x=\\*") as unknown[]).toEqual([
+      { type: "word", value: "echo" },
+      [
+        { type: "word", value: "a" },
+        { type: "singleQuote", value: "*" },
+        { type: "glob", pattern: "{b" },
+        { type: "singleQuote", value: "," },
+        { type: "glob", pattern: "c}" },
+      ],
+      { type: "assignment", name: "x", value: "*" },
+      { type: "eof" },
+    ]);
+  });
+
+  test("tokenizes arithmetic commands but not nested subshells", () => {
+    expect(lex("(( i += (2 * 3) ))")).toEqual([{ type: "arithmeticCommand", expression: " i += (2 * 3) " }, { type: "eof" }]);
+    expect(lex("((a); b)")).toEqual([
+      { type: "openParen" },
+      { type: "openParen" },
+      { type: "word", value: "a" },
+      { type: "closeParen" },
+      { type: "semicolon" },
+      { type: "word", value: "b" },
+      { type: "closeParen" },
+      { type: "eof" },
+    ]);
+  });
+
+  test("tokenizes process substitutions apart from redirects", () => {
+    expect(lex("cat <(sort a) < <(ls) > >(wc -c)")).toEqual([
+      { type: "word", value: "cat" },
+      { type: "processSubstitution", op: "<", command: "sort a" },
+      { type: "redirect", op: "<" },
+      { type: "processSubstitution", op: "<", command: "ls" },
+      { type: "redirect", op: ">" },
+      { type: "processSubstitution", op: ">", command: "wc -c" },
+      { type: "eof" },
+    ]);
+  });
+
+  test("tokenizes conditional expressions without splitting on operators", () => {
+    expect(lex('[[ $a == x* && -f "b c" ]]')).toEqual([
+      { type: "word", value: "[[" },
+      { type: "variable", name: "a" },
+      { type: "word", value: "==" },
+      { type: "word", value: "x*" },
+      { type: "and" },
+      { type: "word", value: "-f" },
+      { type: "doubleQuote", parts: ["b c"] },
+      { type: "word", value: "]]" },
+      { type: "eof" },
+    ]);
+    const regex = lex("[[ $s =~ ^(a|b)\\.x$ ]]");
+    expect(regex[2]).toEqual({ type: "word", value: "=~" });
+    // The regex is one word, with the escaped dot kept literal
+    expect(regex[3] as unknown as any[]).toEqual([
+      { type: "word", value: "^(a|b)" },
+      { type: "singleQuote", value: "." },
+      { type: "word", value: "x$" },
+    ]);
+    expect(regex[4]).toEqual({ type: "word", value: "]]" });
+    expect(lex("echo [[ x")).toEqual([
+      { type: "word", value: "echo" },
+      { type: "glob", pattern: "[[" },
+      { type: "word", value: "x" },
+      { type: "eof" },
+    ]);
+  });
+
+  test("reads extglob pattern lists as part of a word", () => {
+    expect(lex('echo !(*.md) x@(a|b c)y +("|")')).toEqual([
+      { type: "word", value: "echo" },
+      { type: "glob", pattern: "!(*.md)" },
+      { type: "glob", pattern: "x@(a|b c)y" },
+      { type: "glob", pattern: "+([|])" },
+      { type: "eof" },
+    ]);
+    expect(lex("[[ $f == *.@(c|h) ]]")[3]).toEqual({ type: "word", value: "*.@(c|h)" });
+    expect(lex("echo \\@(a)")).toEqual([
+      { type: "word", value: "echo" },
+      { type: "word", value: "@" },
+      { type: "openParen" },
+      { type: "word", value: "a" },
+      { type: "closeParen" },
+      { type: "eof" },
+    ]);
+  });
+
+  test("arithmetic expansion ends at the matching parentheses", () => {
+    expect(lex("echo $((a*(b+c)))")).toEqual([
+      { type: "word", value: "echo" },
+      { type: "arithmetic", expression: "a*(b+c)" },
+      { type: "eof" },
+    ]);
+  });
+
   test("handles escaped characters", () => {
     const tokens = lex("echo hello\\ world");
     expect(tokens).toEqual([
@@ -0,0 +1,201 @@
+import { test, expect, describe, beforeEach } from "bun:test";
+import { createFsFromVolume, Volume } from "memfs";
+import {
+  createShellDSL,
+  createShellSession,
+  createVirtualFS,
+  ShellLimitError,
+  type Command,
+  type ShellLimits,
+  type VirtualFS,
+} from "../src/index.ts";
+import { builtinCommands } from "../src/commands/index.ts";
+
+async function limitError(promise: PromiseLike<unknown>): Promise<ShellLimitError> {
+  try {
+    await promise;
+  } catch (err) {
+    expect(err).toBeInstanceOf(ShellLimitError);
+    return err as ShellLimitError;
+  }
+  throw new Error("expected the script to go over a limit");
+}
+
+describe("Limits", () => {
+  let vol: InstanceType<typeof Volume>;
+  let fs: VirtualFS;
+
+  function shell(limits?: ShellLimits) {
+    return createShellDSL({ fs, cwd: "/", env: {}, commands: builtinCommands, limits });
+  }
+
+  beforeEach(() => {
+    vol = new Volume();
+    vol.fromJSON({ "/loop.sh": ". /loop.sh\n" });
+    fs = createVirtualFS(createFsFromVolume(vol));
+  });
+
+  test("timeout stops a script that never waits", async () => {
+    const err = await limitError(shell({ timeout: 50 })`echo start; while true; do :; done`);
+
+    expect(err.limit).toBe("timeout");
+    expect(err.value).toBe(50);
+    expect(err.exitCode).toBe(152);
+    expect(err.message).toBe("Timed out after 50ms");
+    expect(err.stdout.toString()).toBe("start\n");
+  });
+
+  test("timeout stops a script that waits", async () => {
+    // Waits for a second unless the execution is stopped first
+    const waiting: Command = async (ctx) => {
+      await new Promise((resolve) => {
+        const timer = setTimeout(resolve, 1000);
+        ctx.signal.addEventListener("abort", () => resolve(clearTimeout(timer)));
+      });
+      return 0;
+    };
+    const sh = createShellDSL({ fs, cwd: "/", env: {}, commands: { ...builtinCommands, waiting }, limits: { timeout: 20 } });
+    const started = performance.now();
+
+    expect((await limitError(sh`waiting`)).limit).toBe("timeout");
+    expect(performance.now() - started).toBeLessThan(500);
+  });
+
+  test("maxCommands counts every simple command, in subshells and substitutions too", async () => {
+    const sh = shell({ maxCommands: 6 });
+
+    // echo, echo, the assignment, the echo in it, echo and cat
+    expect(await sh`echo 1; (echo 2); x=$(echo 3); echo "$x" | cat`.text()).toBe("1\n2\n3\n");
+    const err = await limitError(sh`echo 1; (echo 2); x=$(echo 3); echo "$x" | cat; echo 4`);
+    expect(err.limit).toBe("maxCommands");
+    expect(err.message).toBe("Ran more than 6 commands");
+    expect(err.stdout.toString()).toBe("1\n2\n3\n");
+  });
+
+  test("maxLoopIterations counts the iterations of every loop", async () => {
+    const sh = shell({ maxLoopIterations: 4 });
+
+    expect(await sh`for i in 1 2; do for j in a; do :; done; done; echo ok`.text()).toBe("ok\n");
+    const err = await limitError(sh`i=0; while true; do echo $i; i=$((i + 1)); done`);
+    expect(err.limit).toBe("maxLoopIterations");
+    expect(err.stdout.toString()).toBe("0\n1\n2\n3\n");
+    expect((await limitError(sh`for ((i = 0; ; i++)); do :; done`)).limit).toBe("maxLoopIterations");
+    expect((await limitError(sh`until false; do :; done`)).limit).toBe("maxLoopIterations");
+  });
+
+  test("maxOutputBytes cuts each stream off at the limit", async () => {
+    const sh = shell({ maxOutputBytes: 8 });
+
+    expect(await sh`echo 1234567; echo 1234567 >&2`.text()).toBe("1234567\n");
+    const err = await limitError(sh`echo hello; echo world`);
+    expect(err.limit).toBe("maxOutputBytes");
+    expect(err.message).toBe("Wrote more than 8 bytes to stdout");
+    expect(err.stdout.toString()).toBe("hello\nwo");
+    // Output that goes to a variable or a file is not counted
+    expect(await sh`x=$(echo 0123456789); echo 0123456789 > /out; echo ok`.text()).toBe("ok\n");
+  });
+
+  test("maxPipelineWidth limits the commands in one pipeline", async () => {
+    const sh = shell({ maxPipelineWidth: 2 });
+
+    expect(await sh`echo a | cat`.text()).toBe("a\n");
+    const err = await limitError(sh`echo before; echo a | cat | cat`);
+    expect(err.limit).toBe("maxPipelineWidth");
+    expect(err.message).toBe("Pipeline of 3 commands is over the limit of 2");
+    expect(err.stdout.toString()).toBe("before\n");
+  });
+
+  test("maxRecursionDepth limits nested functions, eval, source and sh", async () => {
+    const sh = shell({ maxRecursionDepth: 3 });
+
+    expect(await sh`f() { eval 'sh -c "echo deep"'; }; f`.text()).toBe("deep\n");
+    expect((await limitError(sh`f() { f; }; f`)).message).toBe("Nested more than 3 calls deep");
+    expect((await limitError(sh`s='eval "$s"'; eval "$s"`)).limit).toBe("maxRecursionDepth");
+    expect((await limitError(sh`. /loop.sh`)).limit).toBe("maxRecursionDepth");
+    expect((await limitError(sh`sh -c 'sh -c "sh -c \\"sh -c true\\""'`)).limit).toBe("maxRecursionDepth");
+  });
+
+  test("recursion is limited to 1000 calls by default", async () => {
+    const err = await limitError(shell()`f() { f; }; f`.nothrow());
+
+    expect(err.limit).toBe("maxRecursionDepth");
+    expect(err.value).toBe(1000);
+    expect(err.exitCode).toBe(152);
+    expect(await shell()`f() { if [ $1 -lt 999 ]; then f $(($1 + 1)); else echo "depth $1"; fi; }; f 0`.text()).toBe(
+      "depth 999\n"
+    );
+  });
+
+  test("maxBytesWritten limits writes to files", async () => {
+    const sh = shell({ maxBytesWritten: 10 });
+
+    expect(await sh`echo 1234 > /a; echo 1234 >> /a; cat /a`.text()).toBe("1234\n1234\n");
+    const err = await limitError(sh`echo 12345 > /b; echo 123456 | tee /c`);
+    expect(err.limit).toBe("maxBytesWritten");
+    expect(err.message).toBe("Wrote more than 10 bytes to files");
+    expect(vol.existsSync("/b")).toBe(true);
+  });
+
+  test("the error is thrown even with nothrow(), and traps do not run", async () => {
+    const err = await limitError(
+      shell({ maxCommands: 10 })`trap 'echo trapped' EXIT; while true; do :; done`.nothrow()
+    );
+
+    expect(err.stdout.toString()).toBe("");
+  });
+
+  test("commands that catch the error are still stopped", async () => {
+    const stubborn: Command = async (ctx) => {
+      for (let i = 0; i < 5; i++) {
+        await ctx.stdout.writeText("chunk\n").catch(() => {});
+      }
+      return 0;
+    };
+    const sh = createShellDSL({
+      fs,
+      cwd: "/",
+      env: {},
+      commands: { ...builtinCommands, stubborn },
+      limits: { maxOutputBytes: 8 },
+    });
+
+    const err = await limitError(sh`stubborn; echo after`);
+    expect(err.stdout.toString()).toBe("chunk\nch");
+  });
+
+  test("background jobs count against the execution that started them", async () => {
+    const err = await limitError(shell({ timeout: 30 })`while true; do :; done & wait`);
+
+    expect(err.limit).toBe("timeout");
+  });
+
+  test(".limits() adds to the shell's limits for one run", async () => {
+    const sh = shell({ maxCommands: 2 });
+
+    expect(await sh`echo a; echo b; echo c`.limits({ maxCommands: 10 }).text()).toBe("a\nb\nc\n");
+    expect((await limitError(sh`while true; do :; done`.limits({ maxLoopIterations: 100 }))).limit).toBe(
+      "maxCommands"
+    );
+    expect((await limitError(sh`echo hello`.limits({ maxOutputBytes: 2 }))).limit).toBe("maxOutputBytes");
+  });
+
+  describe("sessions", () => {
+    test("limits apply to each run, and run options override them", async () => {
+      const session = createShellSession({ fs, cwd: "/", env: {}, commands: builtinCommands, limits: { maxCommands: 2 } });
+
+      expect((await session.run("echo a; echo b").exit).stdout.toString()).toBe("a\nb\n");
+      expect((await session.run("echo c; echo d").exit).stdout.toString()).toBe("c\nd\n");
+      await expect(session.run("echo 1; echo 2; echo 3").exit).rejects.toBeInstanceOf(ShellLimitError);
+      expect((await session.run("echo $?").exit).stdout.toString()).toBe("152\n");
+      const execution = session.run("i=0; while true; do i=$((i + 1)); done", { limits: { maxCommands: undefined, timeout: 20 } });
+      expect((await limitError(execution.exit)).limit).toBe("timeout");
+    });
+  });
+
+  test("kill() from a timer stops a script that never waits", async () => {
+    const promise = shell()`while true; do :; done`.nothrow();
+    setTimeout(() => promise.kill(), 20);
+
+    expect((await promise).exitCode).toBe(130);
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, expect, test } from "bun:test";
+import { lintScript, type LintDiagnostic } from "../src/index.ts";
+import { builtinCommands } from "../src/commands/index.ts";
+
+// Diagnostics as `line:column-endLine:endColumn rule`, which is easier to read in failures
+function summarize(diagnostics: LintDiagnostic[]): string[] {
+  return diagnostics.map((d) => `${d.line}:${d.column}-${d.endLine}:${d.endColumn} ${d.rule}`);
+}
+
+describe("lintScript", () => {
+  test("returns nothing for a clean script", () => {
+    const source = 'for f in "$@"; do\n  if [[ -f $f ]]; then cat "$f" > /tmp/out; fi\ndone\necho $# $?';
+
+    expect(lintScript(source, { commands: builtinCommands })).toEqual([]);
+  });
+
+  describe("unknown commands", () => {
+    test("reports names outside the registry with their range", () => {
+      const diagnostics = lintScript("echo ok\n  frobnicate --all | sort", { commands: builtinCommands });
+
+      expect(diagnostics).toEqual([
+        {
+          rule: "unknown-command",
+          severity: "error",
+          message: "frobnicate: command not found",
+          line: 2,
+          column: 3,
+          endLine: 2,
+          endColumn: 13,
+        },
+      ]);
+    });
+
+    test("accepts the script's own functions and aliases, paths and dynamic names", () => {
+      const source = "greet() { echo hi; }\nalias ll='ls -l'\ngreet; ll; ./build.sh; $cmd";
+
+      expect(summarize(lintScript(source, { commands: builtinCommands }))).toEqual(["3:24-3:28 unquoted-expansion"]);
+    });
+
+    test("checks commands inside command substitutions", () => {
+      expect(summarize(lintScript('x="$(nosuch)"', { commands: builtinCommands }))).toEqual(["1:6-1:12 unknown-command"]);
+    });
+
+    test("are not checked without a registry", () => {
+      expect(lintScript("frobnicate")).toEqual([]);
+    });
+  });
+
+  test("warns about unquoted expansions in words that are split", () => {
+    const source = 'rm $files ${dir}/x "$ok" $(ls) ${#n}\nfor f in $list; do :; done\ny=$x; case $x in *) ;; esac; cat < $in';
+    const diagnostics = lintScript(source, { commands: builtinCommands });
+
+    expect(summarize(diagnostics)).toEqual([
+      "1:4-1:10 unquoted-expansion",
+      "1:11-1:19 unquoted-expansion",
+      "1:26-1:31 unquoted-expansion",
+      "2:10-2:15 unquoted-expansion",
+    ]);
+    expect(diagnostics[0]).toMatchObject({
+      severity: "warning",
+      message: "Unquoted expansion of $files is split into words and globbed; quote it",
+    });
+    expect(diagnostics[2]!.message).toBe("Unquoted command substitution is split into words and globbed; quote it");
+  });
+
+  test("does not warn about values of declaration builtins, which are not split", () => {
+    const source = 'export A=$B G=$dir/*; readonly R=$(ls); local L=$x; declare D=$x; echo $B';
+
+    expect(summarize(lintScript(source, { commands: builtinCommands }))).toEqual(["1:72-1:74 unquoted-expansion"]);
+  });
+
+  test("warns about code after exit", () => {
+    const source = "echo start\nexit 1\necho a\necho b\nif true; then exit 0; else exit 2; fi\n";
+    const diagnostics = lintScript(source, { commands: builtinCommands });
+
+    expect(summarize(diagnostics)).toEqual(["3:1-5:38 unreachable-code"]);
+    expect(diagnostics[0]!.message).toBe("Unreachable code after `exit`");
+    expect(lintScript("f() { exit; }; (exit 1); echo ok; true || exit; echo ok")).toEqual([]);
+  });
+
+  test("reports break and continue outside loops", () => {
+    const source = "break\nfor i in 1; do while true; do break 2; done; done\nf() { continue; }\ncontinue";
+
+    expect(summarize(lintScript(source))).toEqual(["1:1-1:6 break-outside-loop", "4:1-4:9 break-outside-loop"]);
+  });
+
+  test("reports redirects that write to read-only or excluded paths", () => {
+    const source = "cat a > /etc/hosts\necho >> logs/x.log 2>/dev/null\ncat < /etc/hosts > secret/key\necho > /tmp/ok";
+    const diagnostics = lintScript(source, {
+      permissions: { "etc/**": "read-only", "home/logs/**": "read-only", "home/secret/**": "excluded" },
+      cwd: "/home",
+    });
+
+    expect(summarize(diagnostics)).toEqual([
+      "1:9-1:19 read-only-redirect",
+      "2:9-2:19 read-only-redirect",
+      "3:20-3:30 read-only-redirect",
+    ]);
+    expect(diagnostics.map((d) => d.message)).toEqual([
+      "Redirect writes to /etc/hosts, which is read-only",
+      "Redirect writes to /home/logs/x.log, which is read-only",
+      "Redirect writes to /home/secret/key, which is excluded",
+    ]);
+  });
+
+  test("reports syntax this shell does not support", () => {
+    const source = "echo $'tab\\t' $\"msg\" $[1+2] \\$'ok'\n! true\ntime ls";
+    const diagnostics = lintScript(source, { commands: builtinCommands });
+
+    expect(summarize(diagnostics)).toEqual([
+      "1:6-1:14 unsupported-syntax",
+      "1:15-1:21 unsupported-syntax",
+      "1:22-1:28 unsupported-syntax",
+      "2:1-2:2 unsupported-syntax",
+      "3:1-3:5 unsupported-syntax",
+    ]);
+    expect(diagnostics[0]!.message).toBe("`$'...'` quoting is not supported");
+    expect(lintScript("a |& b")).toEqual([
+      {
+        rule: "unsupported-syntax",
+        severity: "error",
+        message: "`|&` is not supported, use `2>&1 |`",
+        line: 1,
+        column: 3,
+        endLine: 1,
+        endColumn: 5,
+      },
+    ]);
+    expect(summarize(lintScript("echo `date`"))).toEqual(["1:6-1:7 unsupported-syntax"]);
+    expect(summarize(lintScript("case x in a) echo;& b) ;; esac"))).toEqual(["1:18-1:20 unsupported-syntax"]);
+  });
+
+  test("reports syntax errors where parsing stopped", () => {
+    expect(lintScript("echo ok\nif true; then echo; fi )")).toEqual([
+      {
+        rule: "syntax-error",
+        severity: "error",
+        message: 'Unexpected token: {"type":"closeParen"}',
+        line: 2,
+        column: 24,
+        endLine: 2,
+        endColumn: 25,
+      },
+    ]);
+    expect(summarize(lintScript('echo "open'))).toEqual(["1:11-1:11 syntax-error"]);
+  });
+});
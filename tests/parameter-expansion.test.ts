@@ -0,0 +1,182 @@
+import { test, expect, describe, beforeEach } from "bun:test";
+import { createFsFromVolume, Volume } from "memfs";
+import { createShellDSL, createVirtualFS } from "../src/index.ts";
+import { builtinCommands } from "../src/commands/index.ts";
+
+describe("parameter expansion", () => {
+  let sh: ReturnType<typeof createShellDSL>;
+
+  beforeEach(() => {
+    const fs = createVirtualFS(createFsFromVolume(new Volume()));
+    sh = createShellDSL({
+      fs,
+      cwd: "/",
+      env: { EMPTY: "", NAME: "world" },
+      commands: builtinCommands,
+    });
+  });
+
+  describe("default and alternate values", () => {
+    test("${VAR:-word} and ${VAR-word} distinguish unset from empty", async () => {
+      const result = await sh`echo "\${MISSING:-a}" "\${EMPTY:-b}" "[\${EMPTY-c}]" "\${NAME:-d}"`.text();
+
+      expect(result).toBe("a b [] world\n");
+    });
+
+    test("${VAR:=word} assigns the default", async () => {
+      const result = await sh`echo \${MISSING:=assigned}; echo $MISSING`.text();
+
+      expect(result).toBe("assigned\nassigned\n");
+    });
+
+    test("${VAR:+word} uses the alternate only when set", async () => {
+      const result = await sh`echo "[\${NAME:+set}]" "[\${EMPTY:+set}]" "[\${EMPTY+set}]"`.text();
+
+      expect(result).toBe("[set] [] [set]\n");
+    });
+
+    test("only expands the operand when it is used", async () => {
+      const result = await sh`echo \${NAME:-$(echo side-effect > /out.txt)}; cat /out.txt`.nothrow();
+
+      expect(result.stdout.toString()).toBe("world\n");
+      expect(result.exitCode).not.toBe(0);
+    });
+
+    test("expands nested expansions in the operand", async () => {
+      const result = await sh`echo \${MISSING:-\${NAME}!} \${MISSING:-$(echo sub)}`.text();
+
+      expect(result).toBe("world! sub\n");
+    });
+
+    test("splits unquoted operands but keeps quoted pieces together", async () => {
+      const result = await sh`for w in \${MISSING:-"a b" c}; do echo "<$w>"; done`.text();
+
+      expect(result).toBe("<a b>\n<c>\n");
+    });
+  });
+
+  describe("${VAR:?message}", () => {
+    test("exits non-zero with a message when unset", async () => {
+      const result = await sh`echo before; echo \${MISSING:?must be set}; echo after`.nothrow();
+
+      expect(result.exitCode).toBe(1);
+      expect(result.stdout.toString()).toBe("before\n");
+      expect(result.stderr.toString()).toBe("sh: MISSING: must be set\n");
+    });
+
+    test("uses a default message", async () => {
+      const result = await sh`echo \${EMPTY:?}`.nothrow();
+
+      expect(result.exitCode).toBe(1);
+      expect(result.stderr.toString()).toBe("sh: EMPTY: parameter null or not set\n");
+    });
+
+    test("only exits the subshell it runs in", async () => {
+      const result = await sh`(echo \${MISSING:?}); echo "status $?"`.nothrow();
+
+      expect(result.stdout.toString()).toBe("status 1\n");
+    });
+  });
+
+  test("${#VAR} is the length of the value", async () => {
+    const result = await sh`echo \${#NAME} \${#EMPTY} \${#MISSING}`.text();
+
+    expect(result).toBe("5 0 0\n");
+  });
+
+  describe("pattern removal", () => {
+    test("removes shortest and longest prefixes and suffixes", async () => {
+      const result = await sh`f=dir/sub/file.tar.gz; echo \${f#*/} \${f##*/} \${f%.*} \${f%%.*}`.text();
+
+      expect(result).toBe("sub/file.tar.gz file.tar.gz dir/sub/file.tar dir/sub/file\n");
+    });
+
+    test("treats patterns as patterns inside double quotes", async () => {
+      const result = await sh`f=a.b.c; echo "\${f#*.}" "\${f#"*."}"`.text();
+
+      expect(result).toBe("b.c a.b.c\n");
+    });
+
+    test("supports character classes", async () => {
+      const result = await sh`v=v1.2.3; echo \${v#[a-z]}`.text();
+
+      expect(result).toBe("1.2.3\n");
+    });
+  });
+
+  describe("pattern replacement", () => {
+    test("replaces the first or every match", async () => {
+      const result = await sh`v=a-b-c; echo \${v/-/+} \${v//-/+} \${v//-}`.text();
+
+      expect(result).toBe("a+b-c a+b+c abc\n");
+    });
+
+    test("anchors replacements with /# and /%", async () => {
+      const result = await sh`v=abcabc; echo \${v/#abc/X} \${v/%abc/Y} \${v/#c/Z}`.text();
+
+      expect(result).toBe("Xabc abcY abcabc\n");
+    });
+
+    test("supports glob patterns and expansions in the replacement", async () => {
+      const result = await sh`v=file.txt; echo "\${v/.*/.$NAME}"`.text();
+
+      expect(result).toBe("file.world\n");
+    });
+
+    test("matches backslash-quoted pattern characters literally", async () => {
+      const result = await sh`X='a*b'; echo \${X/\\*/S} "\${X/\\*/S}" \${X//[\\*?]/R} \${X/\\?/T}`.text();
+
+      expect(result).toBe("aSb aSb aRb a*b\n");
+    });
+
+    test("matches a quoted backslash literally", async () => {
+      const result = await sh`Y='a\\b'; echo \${Y/"\\\\"b/W} \${Y/[\\\\]/Z}`.text();
+
+      expect(result).toBe("aW aZb\n");
+    });
+  });
+
+  describe("substrings", () => {
+    test("extracts by offset and length", async () => {
+      const result = await sh`v=abcdef; echo \${v:2} \${v:1:3} \${v: -2} \${v:1:-2} "[\${v:10}]"`.text();
+
+      expect(result).toBe("cdef bcd ef bcd []\n");
+    });
+
+    test("evaluates arithmetic offsets", async () => {
+      const result = await sh`v=abcdef; n=2; echo \${v:n:n+1}`.text();
+
+      expect(result).toBe("cde\n");
+    });
+
+    test("slices positional parameters", async () => {
+      const result = await sh`f() { echo \${@:2}; for a in "\${@:2:2}"; do echo "<$a>"; done; echo "\${@: -1}"; }; f a "b c" d e`.text();
+
+      expect(result).toBe("b c d e\n<b c>\n<d>\ne\n");
+    });
+
+    test("fails on a negative length that ends before the offset", async () => {
+      const result = await sh`v=abc; echo \${v:2:-2}`.nothrow();
+
+      expect(result.exitCode).toBe(1);
+      expect(result.stderr.toString()).toBe("sh: -2: substring expression < 0\n");
+    });
+  });
+
+  test("supports multi-digit positional parameters", async () => {
+    const result = await sh`f() { echo \${10} \${11:-none}; }; f 1 2 3 4 5 6 7 8 9 ten`.text();
+
+    expect(result).toBe("ten none\n");
+  });
+
+  test("expands operators in heredocs and assignments", async () => {
+    const result = await sh`
+      out=\${MISSING:-fallback}
+      cat <<EOF
+\${out%back} \${#NAME}
+EOF
+    `.text();
+
+    expect(result).toBe("fall 5\n");
+  });
+});
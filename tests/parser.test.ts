@@ -1,6 +1,7 @@
 import { test, expect, describe } from "bun:test";
-import { lex } from "../src/lexer/index.ts";
+import { lex, type SourceSpan } from "../src/lexer/index.ts";
 import { parse } from "../src/parser/index.ts";
+import { ParseError } from "../src/errors.ts";
 
 describe("Parser", () => {
   test("parses simple command", () => {
@@ -48,7 +49,18 @@ describe("Parser", () => {
     const ast = parse(tokens);
     expect(ast.type).toBe("command");
     expect((ast as any).redirects.length).toBe(1);
-    expect((ast as any).redirects[0].mode).toBe(">");
+    expect((ast as any).redirects[0].op).toBe(">");
+    expect((ast as any).redirects[0].fd).toBe(1);
+  });
+
+  test("parses descriptor redirects with their targets", () => {
+    const ast = parse(lex("cmd 3>&1 1>&2 2>&3 <<< word")) as any;
+    expect(ast.redirects.map((r: any) => [r.fd, r.op, r.target.parts[0].value])).toEqual([
+      [3, ">&", "1"],
+      [1, ">&", "2"],
+      [2, ">&", "3"],
+      [0, "<<<", "word"],
+    ]);
   });
 
   test("parses variable expansion", () => {
@@ -60,6 +72,30 @@ describe("Parser", () => {
     });
   });
 
+  test("parses parameter expansion operands into words", () => {
+    const ast = parse(lex('echo "${NAME:-$USER x}" ${f%."$ext"}'));
+    expect((ast as any).args[0].parts).toEqual([
+      {
+        type: "parameterExpansion",
+        name: "NAME",
+        operator: ":-",
+        operand: {
+          type: "word",
+          parts: [
+            { type: "variable", name: "USER", quoted: true },
+            { type: "text", value: " x", quoted: true },
+          ],
+        },
+        replacement: undefined,
+        quoted: true,
+      },
+    ]);
+    expect((ast as any).args[1].parts[0].operand.parts).toEqual([
+      { type: "text", value: ".", quoted: false },
+      { type: "variable", name: "ext", quoted: true },
+    ]);
+  });
+
   test("parses glob pattern", () => {
     const tokens = lex("ls *.txt");
     const ast = parse(tokens);
@@ -77,6 +113,125 @@ describe("Parser", () => {
     expect((ast as any).assignments[0].name).toBe("FOO");
   });
 
+  test("parses array assignments into elements", () => {
+    const ast = parse(lex('arr=(a "b c" [5]=d)'));
+    expect((ast as any).assignments[0]).toEqual({
+      name: "arr",
+      value: { type: "word", parts: [{ type: "text", value: "", quoted: false }] },
+      elements: [
+        { value: { type: "word", parts: [{ type: "text", value: "a", quoted: false }] } },
+        { value: { type: "word", parts: [{ type: "text", value: "b c", quoted: true }] } },
+        {
+          index: { type: "word", parts: [{ type: "text", value: "5", quoted: false }] },
+          value: { type: "word", parts: [{ type: "text", value: "d", quoted: false }] },
+        },
+      ],
+    });
+  });
+
+  test("parses arithmetic for loops", () => {
+    const ast = parse(lex("for ((i = 0; i < 3; i++)); do echo $i; done"));
+    expect(ast.type).toBe("arithmeticFor");
+    expect((ast as any).init).toBe("i = 0");
+    expect((ast as any).test).toBe(" i < 3");
+    expect((ast as any).update).toBe(" i++");
+    expect((ast as any).body.type).toBe("command");
+  });
+
+  test("parses process substitutions into word parts", () => {
+    const ast = parse(lex("cat <(sort a) >(true)"));
+    expect((ast as any).args).toEqual([
+      {
+        type: "word",
+        parts: [{
+          type: "processSubstitution",
+          op: "<",
+          command: {
+            type: "command",
+            name: { type: "word", parts: [{ type: "text", value: "sort", quoted: false }] },
+            args: [{ type: "word", parts: [{ type: "text", value: "a", quoted: false }] }],
+            assignments: [],
+            redirects: [],
+          },
+          quoted: false,
+        }],
+      },
+      {
+        type: "word",
+        parts: [{
+          type: "processSubstitution",
+          op: ">",
+          command: {
+            type: "command",
+            name: { type: "word", parts: [{ type: "text", value: "true", quoted: false }] },
+            args: [],
+            assignments: [],
+            redirects: [],
+          },
+          quoted: false,
+        }],
+      },
+    ]);
+  });
+
+  test("splits tilde prefixes from unquoted words and assignment values", () => {
+    const ast = parse(lex('P=~/bin:~+ cd ~ ~-/x "~" ~user'));
+    expect(ast as any).toEqual({
+      type: "command",
+      name: { type: "word", parts: [{ type: "text", value: "cd", quoted: false }] },
+      args: [
+        { type: "word", parts: [{ type: "tilde", prefix: "", quoted: true }] },
+        { type: "word", parts: [{ type: "tilde", prefix: "-", quoted: true }, { type: "text", value: "/x", quoted: false }] },
+        { type: "word", parts: [{ type: "text", value: "~", quoted: true }] },
+        { type: "word", parts: [{ type: "text", value: "~user", quoted: false }] },
+      ],
+      assignments: [{
+        name: "P",
+        value: {
+          type: "word",
+          parts: [
+            { type: "tilde", prefix: "", quoted: true },
+            { type: "text", value: "/bin:", quoted: false },
+            { type: "tilde", prefix: "+", quoted: true },
+          ],
+        },
+      }],
+      redirects: [],
+    });
+  });
+
+  test("parses conditional commands", () => {
+    const ast = parse(lex('[[ ! -d $dir || ( $a == "x" && $n -lt 3 ) ]]'));
+    const word = (parts: object[]) => ({ type: "word", parts });
+    expect(ast as any).toEqual({
+      type: "conditionalCommand",
+      expression: {
+        type: "or",
+        left: { type: "not", expression: { type: "unary", operator: "-d", operand: word([{ type: "variable", name: "dir", quoted: false }]) } },
+        right: {
+          type: "and",
+          left: {
+            type: "binary",
+            operator: "==",
+            left: word([{ type: "variable", name: "a", quoted: false }]),
+            right: word([{ type: "text", value: "x", quoted: true }]),
+          },
+          right: {
+            type: "binary",
+            operator: "-lt",
+            left: word([{ type: "variable", name: "n", quoted: false }]),
+            right: word([{ type: "text", value: "3", quoted: false }]),
+          },
+        },
+      },
+    });
+  });
+
+  test("rejects malformed conditional commands", () => {
+    expect(() => parse(lex("[[ a == ]]"))).toThrow("Expected operand in conditional expression, got ']]'");
+    expect(() => parse(lex("[[ ( a ]]"))).toThrow("Expected ')' in conditional expression");
+  });
+
   test("operator precedence: pipeline binds tighter than and/or", () => {
     const tokens = lex("a | b && c | d");
     const ast = parse(tokens);
@@ -142,4 +297,159 @@ describe("Parser", () => {
       quoted: false,
     });
   });
+
+  test("parses POSIX function definitions", () => {
+    const ast = parse(lex("greet() { echo hi; echo bye; }"));
+    expect(ast.type).toBe("function");
+    expect((ast as any).name).toBe("greet");
+    expect((ast as any).body.type).toBe("group");
+    expect((ast as any).body.body.type).toBe("sequence");
+    expect((ast as any).body.body.commands).toHaveLength(2);
+  });
+
+  test("parses function keyword definitions", () => {
+    const withParens = parse(lex("function greet() { echo hi; }"));
+    const withoutParens = parse(lex("function greet {\n  echo hi\n}", { preserveNewlines: true }));
+    expect(withParens).toEqual(withoutParens);
+    expect((withoutParens as any).body.body.type).toBe("command");
+  });
+
+  test("parses assignment-like arguments as words", () => {
+    const ast = parse(lex("echo a=b"));
+    expect((ast as any).assignments).toEqual([]);
+    expect((ast as any).args[0]).toEqual({
+      type: "word",
+      parts: [
+        { type: "text", value: "a=", quoted: false },
+        { type: "text", value: "b", quoted: false },
+      ],
+    });
+  });
+
+  test("rejects unterminated function bodies", () => {
+    expect(() => parse(lex("greet() { echo hi;"))).toThrow("Expected '}'");
+  });
+
+  test("parses background and-or lists as separators", () => {
+    const ast = parse(lex("sleep 1 && echo ok & echo next"));
+    expect(ast.type).toBe("sequence");
+    expect((ast as any).commands).toHaveLength(2);
+    expect((ast as any).commands[0].type).toBe("background");
+    expect((ast as any).commands[0].body.type).toBe("and");
+    expect((ast as any).commands[0].command).toBe("sleep 1 && echo ok");
+    expect((ast as any).commands[1].type).toBe("command");
+  });
+
+  test("parses trailing background jobs inside groups", () => {
+    const ast = parse(lex("{ sleep 1 & }"));
+    expect(ast.type).toBe("group");
+    expect((ast as any).body.type).toBe("background");
+  });
+
+  test("parses subshells with redirects", () => {
+    const ast = parse(lex("(cd /tmp && ls) > out.txt"));
+    expect(ast.type).toBe("subshell");
+    expect((ast as any).body.type).toBe("and");
+    expect((ast as any).redirects).toHaveLength(1);
+    expect((ast as any).redirects[0].op).toBe(">");
+  });
+
+  test("parses brace groups inside pipelines and and/or lists", () => {
+    const ast = parse(lex("{ echo a; echo b; } | sort && (echo ok)"));
+    expect(ast.type).toBe("and");
+    expect((ast as any).left.type).toBe("pipeline");
+    expect((ast as any).left.commands[0].type).toBe("group");
+    expect((ast as any).left.commands[0].body.commands).toHaveLength(2);
+    expect((ast as any).right.type).toBe("subshell");
+  });
+
+  test("treats braces as plain words outside command position", () => {
+    const ast = parse(lex("echo { }"));
+    expect(ast.type).toBe("command");
+    expect((ast as any).args).toHaveLength(2);
+  });
+
+  test("rejects unterminated groups", () => {
+    expect(() => parse(lex("(echo hi"))).toThrow("Expected ')' to close subshell");
+    expect(() => parse(lex("{ echo hi }"))).toThrow("Expected '}'");
+  });
+
+  describe("spans", () => {
+    const source = 'echo a b > out &&\n  ls "$dir" $(cat <f) ${x:-$y}';
+    const text = (node: { span?: SourceSpan }) => source.slice(node.span!.start, node.span!.end);
+
+    test("locate nodes, words, parts and redirects", () => {
+      const ast = parse(lex(source)) as any;
+
+      expect(text(ast)).toBe(source);
+      expect(text(ast.left)).toBe("echo a b > out");
+      expect(text(ast.left.redirects[0])).toBe("> out");
+      expect(text(ast.left.redirects[0].target)).toBe("out");
+      expect(text(ast.right)).toBe('ls "$dir" $(cat <f) ${x:-$y}');
+      expect(ast.right.span).toMatchObject({ line: 2, column: 3 });
+      expect(text(ast.right.args[0])).toBe('"$dir"');
+      expect(text(ast.right.args[0].parts[0])).toBe("$dir");
+    });
+
+    test("point into the script from inside command substitutions", () => {
+      const ast = parse(lex(source)) as any;
+      const inner = ast.right.args[1].parts[0].command;
+
+      expect(text(inner)).toBe("cat <f");
+      expect(text(inner.redirects[0].target)).toBe("f");
+      expect(inner.span).toMatchObject({ line: 2, column: 15 });
+    });
+
+    test("of parts read from a token's text are their own", () => {
+      const ast = parse(lex(source)) as any;
+      const expansion = ast.right.args[2].parts[0];
+
+      expect(text(expansion)).toBe("${x:-$y}");
+      expect(text(expansion.operand)).toBe("$y");
+      expect(text(expansion.operand.parts[0])).toBe("$y");
+      expect(expansion.operand.span).toMatchObject({ line: 2, column: 28 });
+    });
+
+    test("locate quoted text, operands and assignment values", () => {
+      const script = 'X=~/a:b echo "a$b" "${c:-\'d\'$e}" n[$i]+=v\necho ${f/g/"h"}';
+      const ast = parse(lex(script, { preserveNewlines: true })) as any;
+      const slice = (node: { span?: SourceSpan }) => script.slice(node.span!.start, node.span!.end);
+      const [first, second] = ast.commands;
+      const [quoted, operands, assignment] = first.args;
+      const replacement = second.args[0].parts[0].replacement;
+
+      expect(slice(first.assignments[0].value)).toBe("~/a:b");
+      expect(first.assignments[0].value.parts.map(slice)).toEqual(["~", "/a:b"]);
+      expect(quoted.parts.map(slice)).toEqual(["a", "$b"]);
+      expect(operands.parts[0].operand.parts.map(slice)).toEqual(["'d'", "$e"]);
+      expect(assignment.parts.map(slice)).toEqual(["n[", "$i", "]+=", "v"]);
+      expect(slice(replacement.parts[0])).toBe("h");
+      expect(replacement.parts[0].span).toMatchObject({ line: 2, column: 13 });
+    });
+
+    test("cover compound commands, clauses and conditional expressions", () => {
+      const script = "if [[ -n $a && $b == c ]]; then :\nelif true; then :; fi; case $x in a) one;; b) two;; esac";
+      const ast = parse(lex(script)) as any;
+      const slice = (node: { span?: SourceSpan }) => script.slice(node.span!.start, node.span!.end);
+
+      expect(slice(ast.commands[0])).toBe("if [[ -n $a && $b == c ]]; then :\nelif true; then :; fi");
+      expect(slice(ast.commands[0].condition.expression)).toBe("-n $a && $b == c");
+      expect(slice(ast.commands[0].condition.expression.right)).toBe("$b == c");
+      expect(slice(ast.commands[0].elifBranches[0])).toBe("elif true; then :");
+      expect(slice(ast.commands[1].clauses[1])).toBe("b) two");
+    });
+
+    test("locate parse errors at the token parsing stopped at", () => {
+      const error = (() => {
+        try {
+          parse(lex("echo a\nfi"));
+        } catch (err) {
+          return err as ParseError;
+        }
+      })();
+
+      expect(error?.position).toBe(7);
+      expect(error?.span).toEqual({ start: 7, end: 9, line: 2, column: 1 });
+    });
+  });
 });
@@ -1,6 +1,13 @@
 import { test, expect, describe, beforeEach } from "bun:test";
 import { createFsFromVolume, Volume } from "memfs";
-import { createVirtualFS, createShellDSL } from "../src/index.ts";
+import {
+  createVirtualFS,
+  createShellDSL,
+  createShellSession,
+  BrokenPipeError,
+  ShellError,
+  type Command,
+} from "../src/index.ts";
 import { builtinCommands } from "../src/commands/index.ts";
 
 describe("Pipelines", () => {
@@ -29,6 +36,11 @@ describe("Pipelines", () => {
     expect(result).toBe("apple\nbanana\n");
   });
 
+  test("stages run in subshells", async () => {
+    const result = await sh`x=1; echo hi | read x; echo q | exit 3; echo "$x $?"`.text();
+    expect(result).toBe("1 3\n");
+  });
+
   test("three-command pipeline", async () => {
     const result = await sh`cat /data.txt | grep ^a | wc -l`.text();
     expect(result.trim()).toBe("2");
@@ -65,4 +77,164 @@ describe("Pipelines", () => {
     const result = await sh`cat /data.txt | grep -c berry`.text();
     expect(result.trim()).toBe("1");
   });
+
+  describe("bounded pipes", () => {
+    // Writes `count` chunks of `size` bytes, noting how many writes have finished
+    function producer(count: number, size: number, progress: { written: number }): Command {
+      return async (ctx) => {
+        for (let i = 0; i < count; i++) {
+          await ctx.stdout.write(new Uint8Array(size).fill(120));
+          progress.written++;
+        }
+        return 0;
+      };
+    }
+
+    // Waits before reading, noting how far the producer got meanwhile
+    function lagging(progress: { written: number; seen?: number }): Command {
+      return async (ctx) => {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        progress.seen = progress.written;
+        await ctx.stdout.writeText(`${(await ctx.stdin.buffer()).length}\n`);
+        return 0;
+      };
+    }
+
+    function shell(commands: Record<string, Command>, highWaterMark?: number) {
+      return createShellDSL({
+        fs: createVirtualFS(createFsFromVolume(vol)),
+        cwd: "/",
+        env: {},
+        commands: { ...builtinCommands, ...commands },
+        pipes: highWaterMark === undefined ? undefined : { highWaterMark },
+      });
+    }
+
+    test("writers wait once the pipe holds highWaterMark bytes", async () => {
+      const progress: { written: number; seen?: number } = { written: 0 };
+      const sh = shell({ produce: producer(10, 10, progress), lag: lagging(progress) }, 25);
+
+      expect(await sh`produce | lag`.text()).toBe("100\n");
+      expect(progress.seen).toBe(2);
+      expect(progress.written).toBe(10);
+    });
+
+    test("the default high water mark is 64 KiB", async () => {
+      const progress: { written: number; seen?: number } = { written: 0 };
+      const sh = shell({ produce: producer(20, 4096, progress), lag: lagging(progress) });
+
+      expect(await sh`produce | lag`.text()).toBe("81920\n");
+      expect(progress.seen).toBe(16);
+    });
+
+    test("writers stop with status 141 once the reader exits", async () => {
+      const result = await sh`set -o pipefail; while true; do echo y; done | head -n 2`.nothrow();
+
+      expect(result.stdout.toString()).toBe("y\ny\n");
+      expect(result.exitCode).toBe(141);
+      expect(result.stderr.toString()).toBe("");
+      expect(await sh`i=0; while true; do echo $i; i=$((i + 1)); done | head -n 3; echo "end $?"`.text()).toBe(
+        "0\n1\n2\nend 0\n"
+      );
+    });
+
+    test("empty writes succeed even once the reader is gone", async () => {
+      vol.fromJSON({ "/empty.txt": "" });
+      const result = await sh`cat /empty.txt | cat | head -0; echo "\${PIPESTATUS[@]}"`.text();
+
+      expect(result).toBe("0 0 0\n");
+    });
+
+    test("readers that never read break the pipe when they exit", async () => {
+      const progress = { written: 0 };
+      const sh = shell({ produce: producer(1000, 1024, progress) });
+      const result = await sh`set -o pipefail; produce | true`.nothrow();
+
+      expect(result.exitCode).toBe(141);
+      expect(progress.written).toBeLessThan(1000);
+    });
+
+    test("commands see an EPIPE error, and end with 141 even if they catch it", async () => {
+      const errors: unknown[] = [];
+      const stubborn: Command = async (ctx) => {
+        while (true) {
+          try {
+            await ctx.stdout.writeText("y\n");
+          } catch (err) {
+            errors.push(err);
+            return 0;
+          }
+        }
+      };
+      const sh = shell({ stubborn });
+      const result = await sh`set -o pipefail; { stubborn; echo unreached; } | head -n 1`.nothrow();
+
+      expect(result.stdout.toString()).toBe("y\n");
+      expect(result.exitCode).toBe(141);
+      expect(errors).toHaveLength(1);
+      expect(errors[0]).toBeInstanceOf(BrokenPipeError);
+      expect((errors[0] as BrokenPipeError).code).toBe("EPIPE");
+    });
+  });
+
+  describe("PIPESTATUS", () => {
+    test("lists the status of every stage of the last pipeline", async () => {
+      const result = await sh`false | true | (exit 3); echo "\${PIPESTATUS[@]} \${#PIPESTATUS[@]}"; echo $PIPESTATUS`.text();
+
+      expect(result).toBe("1 0 3 3\n0\n");
+    });
+
+    test("counts a simple command, subshell or test as a pipeline of one", async () => {
+      const result = await sh`(exit 4); echo "\${PIPESTATUS[@]}"; [[ a == b ]]; echo "\${PIPESTATUS[@]}"; x=$(false); echo "\${PIPESTATUS[@]}"`.text();
+
+      expect(result).toBe("4\n1\n1\n");
+    });
+
+    test("is left by compound commands as their last pipeline set it", async () => {
+      const result = await sh`if false; then :; fi; echo "\${PIPESTATUS[@]}"; for i in 1; do false | true; done; echo "\${PIPESTATUS[@]}"; f() { false | true; }; f; echo "\${PIPESTATUS[@]}"`.text();
+
+      expect(result).toBe("1\n1 0\n0\n");
+    });
+  });
+
+  describe("stages", () => {
+    test("the result describes each stage of the last pipeline", async () => {
+      const result = await sh`x=apple; echo $x pie | grep -q cherry | while read l; do :; done`;
+
+      expect(result.stages).toEqual([
+        { command: "echo", args: ["apple", "pie"], exitCode: 0, duration: expect.any(Number) },
+        { command: "grep", args: ["-q", "cherry"], exitCode: 1, duration: expect.any(Number) },
+        { command: "while", args: [], exitCode: 0, duration: expect.any(Number) },
+      ]);
+      expect(result.stages!.every((stage) => stage.duration >= 0)).toBe(true);
+    });
+
+    test("a failing script's ShellError has them too", async () => {
+      try {
+        await sh`set -e -o pipefail; cat /data.txt | grep kiwi | sort; echo unreached`;
+        expect(true).toBe(false);
+      } catch (err) {
+        expect(err).toBeInstanceOf(ShellError);
+        expect((err as ShellError).stages!.map((stage) => [stage.command, stage.exitCode])).toEqual([
+          ["cat", 0],
+          ["grep", 1],
+          ["sort", 0],
+        ]);
+      }
+    });
+
+    test("a single command is one stage, and a run with no commands has none", async () => {
+      const session = createShellSession({
+        fs: createVirtualFS(createFsFromVolume(vol)),
+        cwd: "/",
+        env: {},
+        commands: builtinCommands,
+      });
+
+      expect((await session.run("echo a | cat; wc -l /data.txt").exit).stages).toEqual([
+        { command: "wc", args: ["-l", "/data.txt"], exitCode: 0, duration: expect.any(Number) },
+      ]);
+      expect((await session.run("f() { :; }").exit).stages).toEqual([]);
+    });
+  });
 });
@@ -0,0 +1,134 @@
+import { test, expect, describe, beforeEach } from "bun:test";
+import { createFsFromVolume, Volume } from "memfs";
+import { createShellDSL, createShellSession, createVirtualFS } from "../src/index.ts";
+import { builtinCommands } from "../src/commands/index.ts";
+import type { Command, VirtualFS } from "../src/types.ts";
+
+describe("Process substitution", () => {
+  let fs: VirtualFS;
+  let sh: ReturnType<typeof createShellDSL>;
+
+  beforeEach(() => {
+    const vol = new Volume();
+    vol.fromJSON({ "/data/a.txt": "pear\napple\n", "/data/b.txt": "fig\nbanana\n" });
+    fs = createVirtualFS(createFsFromVolume(vol));
+    sh = createShellDSL({
+      fs,
+      cwd: "/",
+      env: {},
+      commands: builtinCommands,
+    });
+  });
+
+  describe("<(cmd)", () => {
+    test("expands to a /dev/fd path", async () => {
+      const result = await sh`echo <(true) <(true) x<(true)`.text();
+
+      expect(result).toBe("/dev/fd/63 /dev/fd/62 x/dev/fd/61\n");
+    });
+
+    test("is part of an assignment value", async () => {
+      const result = await sh`x=<(echo hi); y=a<(true)b; echo "$x $y"`.nothrow();
+
+      expect(result.stdout.toString()).toBe("/dev/fd/63 a/dev/fd/63b\n");
+      expect(result.stderr.toString()).toBe("");
+    });
+
+    test("commands read the output of each substitution", async () => {
+      const result = await sh`cat <(sort /data/a.txt) <(sort /data/b.txt)`.text();
+
+      expect(result).toBe("apple\npear\nbanana\nfig\n");
+    });
+
+    test("works as a redirect target", async () => {
+      const result = await sh`{ while read -r line; do echo "[$line]"; done; } < <(printf 'x\ny\n')`.text();
+
+      expect(result).toBe("[x]\n[y]\n");
+    });
+
+    test("is read as a stream while the command runs", async () => {
+      const lines: Command = async (ctx) => {
+        let count = 0;
+        for await (const chunk of ctx.fs.readStream(ctx.args[0]!)) {
+          count += new TextDecoder().decode(chunk).split("\n").length - 1;
+        }
+        await ctx.stdout.writeText(`${count}\n`);
+        return 0;
+      };
+      sh = createShellDSL({ fs, cwd: "/", env: {}, commands: { ...builtinCommands, lines } });
+
+      const result = await sh`lines <(for i in 1 2 3; do echo $i; done)`.text();
+
+      expect(result).toBe("3\n");
+    });
+
+    test("paths reach functions, loops and subshells", async () => {
+      const result = await sh`
+        show() { cat "$1"; }
+        show <(echo function)
+        for f in <(echo loop); do cat $f; done
+        (cat <(echo subshell))
+        echo $(cat <(echo substitution))
+      `.text();
+
+      expect(result).toBe("function\nloop\nsubshell\nsubstitution\n");
+    });
+
+    test("the substitution runs in a subshell", async () => {
+      const result = await sh`x=1; cat <(x=2; echo $x); echo $x`.text();
+
+      expect(result).toBe("2\n1\n");
+    });
+  });
+
+  describe(">(cmd)", () => {
+    test("feeds writes to the command's input", async () => {
+      const result = await sh`echo hello | tee >(tr a-z A-Z) > /dev/null`.text();
+
+      expect(result).toBe("HELLO\n");
+    });
+
+    test("writes several substitutions and waits for them", async () => {
+      const result = await sh`echo hi | tee >(wc -c) >(tr h H) > /dev/null; echo after`.text();
+
+      expect(result).toBe("       3\nHi\nafter\n");
+    });
+
+    test("works as a redirect target", async () => {
+      const result = await sh`echo data > >(cat -n)`.text();
+
+      expect(result).toBe("     1\tdata\n");
+    });
+  });
+
+  describe("paths", () => {
+    test("only exist while the command that expanded them runs", async () => {
+      const result = await sh`echo <(echo x) > /dev/null; cat /dev/fd/63`.nothrow();
+
+      expect(result.exitCode).toBe(1);
+      expect(result.stderr.toString()).toContain("/dev/fd/63");
+    });
+
+    test("are open in one direction only", async () => {
+      const result = await sh`cat >(true)`.nothrow();
+
+      expect(result.exitCode).toBe(1);
+      expect(result.stderr.toString()).toBe("cat: /dev/fd/63: Bad file descriptor, read '/dev/fd/63'\n");
+    });
+
+    test("are resolved by the filesystem commands see", async () => {
+      const probe: Command = async (ctx) => {
+        const stat = await ctx.fs.stat(ctx.args[0]!);
+        const text = await ctx.fs.readFile(ctx.args[0]!, "utf-8");
+        await ctx.stdout.writeText(`${await ctx.fs.exists(ctx.args[0]!)} ${stat.isFile()} ${text}`);
+        return 0;
+      };
+      const session = createShellSession({ fs, cwd: "/", env: {}, commands: { ...builtinCommands, probe } });
+
+      const result = await session.run("probe <(echo piped)").exit;
+
+      expect(result.stdout.toString()).toBe("true true piped\n");
+      expect(await fs.exists("/dev/fd/63")).toBe(false);
+    });
+  });
+});
@@ -3,7 +3,11 @@ import { createFsFromVolume, Volume } from "memfs";
 import {
   createVirtualFS,
   createShellDSL,
+  createShellSession,
   ShellError,
+  ShellLimitError,
+  analyzeInput,
+  lintScript,
   type Command,
 } from "../src/index.ts";
 import { builtinCommands } from "../src/commands/index.ts";
@@ -92,6 +96,32 @@ describe("README Examples", () => {
       expect(blob).toBeInstanceOf(Blob);
       expect(await blob.text()).toBe("hello\n");
     });
+
+    test("for await yields stdout lines", async () => {
+      const lines: string[] = [];
+      for await (const line of sh`grep line /data.txt`) {
+        lines.push(line);
+      }
+      expect(lines).toEqual(["line1", "line2", "line3"]);
+    });
+
+    test(".stdout is a ReadableStream", async () => {
+      expect(await new Response(sh`echo built`.stdout).text()).toBe("built\n");
+    });
+
+    test(".stdin() and .pipe()", async () => {
+      vol.writeFileSync("/words.txt", "b\na\nb\n");
+
+      expect(await sh`tr a-z A-Z`.stdin("hello\n").text()).toBe("HELLO\n");
+      expect(await sh`cat /words.txt`.pipe(sh`sort`).pipe(sh`uniq -c`).text()).toBe("      1 a\n      2 b\n");
+    });
+
+    test(".kill() stops the script with status 130", async () => {
+      const server = sh`while true; do echo tick; done`.nothrow();
+      await server.stdout.getReader().read();
+      server.kill();
+      expect((await server).exitCode).toBe(130);
+    });
   });
 
   describe("Error Handling", () => {
@@ -122,6 +152,24 @@ describe("README Examples", () => {
       }
     });
 
+    test("ShellError has the location and a code frame of the failing command", async () => {
+      try {
+        await sh`echo start
+for f in a b; do
+  cat "/missing/$f"
+done`;
+        expect(true).toBe(false); // should not reach
+      } catch (err) {
+        expect(err).toBeInstanceOf(ShellError);
+        if (err instanceof ShellError) {
+          expect(err.location).toEqual({ start: 30, end: 47, line: 3, column: 3 });
+          expect(err.frame).toBe(
+            '  2 | for f in a b; do\n> 3 |   cat "/missing/$f"\n    |   ^^^^^^^^^^^^^^^^^\n  4 | done',
+          );
+        }
+      }
+    });
+
     test(".nothrow() suppresses throwing", async () => {
       const result = await sh`cat /nonexistent`.nothrow();
       expect(result.exitCode).toBe(1);
@@ -138,6 +186,41 @@ describe("README Examples", () => {
       expect(result.exitCode).toBe(1);
     });
 
+    test("set -euo pipefail stops at the first failure", async () => {
+      const result = await sh`set -euo pipefail; cat /data.csv | sort > /sorted.csv; echo sorted`.nothrow();
+      expect(result.exitCode).toBe(1);
+      expect(result.stdout.toString()).toBe("");
+    });
+
+    test(".options() sets shell options for one call", async () => {
+      const result = await sh`false; echo unreachable`.options({ errexit: true }).nothrow();
+      expect(result.exitCode).toBe(1);
+      expect(result.stdout.toString()).toBe("");
+    });
+
+    test("trap runs cleanup on EXIT and reports failures on ERR", async () => {
+      const build: Command = async (ctx) => {
+        await ctx.stdout.writeText("partial output\n");
+        return 2;
+      };
+      vol.mkdirSync("/tmp");
+      const trapSh = createShellDSL({
+        fs: createVirtualFS(createFsFromVolume(vol)),
+        cwd: "/",
+        env: {},
+        commands: { ...builtinCommands, build },
+      });
+
+      const result = await trapSh`
+        trap 'rm -f /tmp/work.txt' EXIT
+        trap 'echo "failed with $?" 1>&2' ERR
+        build > /tmp/work.txt
+      `.nothrow();
+      expect(result.exitCode).toBe(2);
+      expect(result.stderr.toString()).toBe("failed with 2\n");
+      expect(vol.existsSync("/tmp/work.txt")).toBe(false);
+    });
+
     test("per-command .throws(true) overrides global", async () => {
       sh.throws(false);
       try {
@@ -170,6 +253,37 @@ describe("README Examples", () => {
       const result = await sh`cat /data.txt | grep foo | wc -l`.text();
       expect(result.trim()).toBe("2");
     });
+
+    test("writers stop when the reader exits", async () => {
+      expect(await sh`while true; do echo y; done | head -n 2`.text()).toBe("y\ny\n");
+
+      const result = await sh`set -o pipefail; while true; do echo y; done | head -n 1`.nothrow();
+      expect(result.exitCode).toBe(141);
+    });
+
+    test("$PIPESTATUS lists every stage's status", async () => {
+      expect(await sh`false | true | (exit 3); echo "\${PIPESTATUS[@]}"`.text()).toBe("1 0 3\n");
+    });
+
+    test("results list the stages of the last pipeline", async () => {
+      const result = await sh`cat /data.txt | grep -q missing | sort`.nothrow();
+      expect(result.stages!.map(({ command, args, exitCode }) => ({ command, args, exitCode }))).toEqual([
+        { command: "cat", args: ["/data.txt"], exitCode: 0 },
+        { command: "grep", args: ["-q", "missing"], exitCode: 1 },
+        { command: "sort", args: [], exitCode: 0 },
+      ]);
+    });
+
+    test("pipes take a highWaterMark", async () => {
+      const sh = createShellDSL({
+        fs: createVirtualFS(createFsFromVolume(vol)),
+        cwd: "/",
+        env: {},
+        commands: builtinCommands,
+        pipes: { highWaterMark: 1024 },
+      });
+      expect(await sh`cat /data.txt | grep -c foo`.text()).toBe("2\n");
+    });
   });
 
   describe("Control Flow Operators", () => {
@@ -218,6 +332,11 @@ describe("README Examples", () => {
       const result = await sh`mkdir -p /out && echo "created" || echo "failed"`.text();
       expect(result).toBe("created\n");
     });
+
+    test("background jobs (&) with wait", async () => {
+      const result = await sh`{ echo a > /a.txt; } & { echo b > /b.txt; } & wait; cat /a.txt /b.txt`.text();
+      expect(result).toBe("a\nb\n");
+    });
   });
 
   describe("Redirection", () => {
@@ -278,6 +397,86 @@ describe("README Examples", () => {
       expect(output).toContain("content");
       expect(output).toContain("nonexistent");
     });
+
+    test("here-strings feed a word to stdin", async () => {
+      const result = await sh`log="error: disk full"; grep error <<< "$log"`.text();
+      expect(result).toBe("error: disk full\n");
+    });
+
+    test("3>&1 1>&2 2>&3 swaps stdout and stderr", async () => {
+      const result = await sh`{ echo out; echo err >&2; } 3>&1 1>&2 2>&3`;
+      expect(result.stdout.toString()).toBe("err\n");
+      expect(result.stderr.toString()).toBe("out\n");
+    });
+
+    test("custom commands write to descriptors on ctx.fds", async () => {
+      const audit: Command = async (ctx) => {
+        await ctx.fds?.get(3)?.output?.writeText(`${ctx.args.join(" ")}\n`);
+        return 0;
+      };
+      const auditSh = createShellDSL({
+        fs: createVirtualFS(createFsFromVolume(vol)),
+        cwd: "/",
+        env: {},
+        commands: { ...builtinCommands, audit },
+      });
+
+      await auditSh`audit "deploy started" 3>> /audit.log`;
+      expect(vol.readFileSync("/audit.log", "utf8")).toBe("deploy started\n");
+    });
+
+    test("exec keeps redirects open for the rest of the script", async () => {
+      vol.fromJSON({ "/log/.keep": "", "/input.txt": "one\ntwo\n" });
+      const result = await sh`
+        exec > /log/out.txt 2>&1
+        echo "goes to the log"
+        exec 3< /input.txt
+        read first <&3
+        read second <&3
+        exec 3<&-
+        echo "$first $second"
+      `;
+      expect(result.stdout.toString()).toBe("");
+      expect(vol.readFileSync("/log/out.txt", "utf8")).toBe("goes to the log\none two\n");
+    });
+
+    test("exec with a command replaces the script", async () => {
+      const result = await sh`trap 'echo cleanup' EXIT; exec echo replaced; echo unreachable`.text();
+      expect(result).toBe("replaced\n");
+    });
+
+    test("redirects collect lines and call callbacks", async () => {
+      vol.fromJSON({ "/src/a.ts": "", "/src/b.ts": "" });
+      const files: string[] = [];
+      await sh`ls /src > ${files}`;
+      expect(files).toEqual(["a.ts", "b.ts"]);
+
+      const chunks: string[] = [];
+      await sh`{ echo failed >&2; } 2> ${(chunk: Uint8Array) => {
+        chunks.push(new TextDecoder().decode(chunk));
+      }}`;
+      expect(chunks).toEqual(["failed\n"]);
+    });
+
+    test("redirects stream between JS streams", async () => {
+      const body = new Response("# header\nb\na\n").body!;
+      const sent: string[] = [];
+      const upload = new WritableStream<Uint8Array>({ write: (chunk) => void sent.push(new TextDecoder().decode(chunk)) });
+      await sh`grep -v '^#' < ${body} | sort > ${upload}`;
+      expect(sent.join("")).toBe("a\nb\n");
+    });
+
+    test("one script's output feeds another", async () => {
+      vol.fromJSON({ "/var/log/app.log": "ok\nerror: disk\n" });
+      expect(await sh`grep error < ${sh`cat /var/log/app.log`}`.text()).toBe("error: disk\n");
+    });
+
+    test("output collects into a Blob through a TransformStream", async () => {
+      const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+      const blob = new Response(readable).blob();
+      await sh`echo collected > ${writable}`;
+      expect(await (await blob).text()).toBe("collected\n");
+    });
   });
 
   describe("Environment Variables", () => {
@@ -304,6 +503,35 @@ describe("README Examples", () => {
       expect(result).toBe("Home: /home/alice\n");
     });
 
+    test("tilde expansion", async () => {
+      const result = await sh`echo ~ ~/notes.txt; P=~/bin:~/lib; echo $P`.text();
+      expect(result).toBe("/home/alice /home/alice/notes.txt\n/home/alice/bin:/home/alice/lib\n");
+    });
+
+    test("arrays", async () => {
+      const files = await sh`files=(a.txt "my notes.txt"); files+=(c.txt); for f in "\${files[@]}"; do echo "<$f>"; done`.text();
+      expect(files).toBe("<a.txt>\n<my notes.txt>\n<c.txt>\n");
+
+      const ports = await sh`declare -A port=([web]=80 [db]=5432); echo \${port[db]} \${#port[@]} "\${!port[@]}"`.text();
+      expect(ports).toBe("5432 2 web db\n");
+    });
+
+    test("only exported variables reach scripts", async () => {
+      const shellOnly = await sh`NAME=world; sh -c 'echo "[$NAME]"'`.text();
+      expect(shellOnly).toBe("[]\n");
+
+      const exported = await sh`export NAME=world; sh -c 'echo "[$NAME]"'`.text();
+      expect(exported).toBe("[world]\n");
+    });
+
+    test("parameter expansion operators", async () => {
+      const parts = await sh`f=src/app.test.ts; echo \${f##*/} \${f%%.*} \${f/test/spec}`.text();
+      expect(parts).toBe("app.test.ts src/app src/app.spec.ts\n");
+
+      const port = await sh`echo \${PORT:-8080}`.text();
+      expect(port).toBe("8080\n");
+    });
+
     test("double quotes expand variables", async () => {
       const result = await sh`echo "Hello $USER"`.text();
       expect(result).toBe("Hello alice\n");
@@ -383,8 +611,18 @@ describe("README Examples", () => {
 
     test("brace expansion {a,b,c}", async () => {
       const result = await sh`echo {a,b,c}.txt`.text();
-      // Brace expansion returns absolute paths when files exist
-      expect(result.trim()).toBe("/a.txt /b.txt /c.txt");
+      // Brace expansion makes words, not paths, whether or not the files exist
+      expect(result.trim()).toBe("a.txt b.txt c.txt");
+    });
+
+    test("brace sequences, steps, padding and nesting", async () => {
+      const result = await sh`echo {1..5}; echo {0..10..5}; echo {01..10..3}; echo {a..e}; echo {a,b{1..3}}`.text();
+      expect(result).toBe("1 2 3 4 5\n0 5 10\n01 04 07 10\na b c d e\na b1 b2 b3\n");
+    });
+
+    test("braces expand before globbing", async () => {
+      const result = await sh`mkdir -p /out/{logs,tmp}; ls /out; echo /{src,out}/*`.text();
+      expect(result).toBe("logs\ntmp\n/src/index.ts /src/lib /out/logs /out/tmp\n");
     });
 
     test("** recursive glob", async () => {
@@ -392,6 +630,31 @@ describe("README Examples", () => {
       expect(result).toContain("index");
       expect(result).toContain("utils");
     });
+
+    test("glob options with shopt", async () => {
+      vol.fromJSON({ "/src/package.json": "{}", "/src/notes.md": "", "/src/logo.png": "" });
+      const result = await sh`
+        cd /src
+        file=logo.png
+        shopt -s extglob nullglob
+        rm -f !(*.ts|*.json)
+        case $file in *.@(jpg|png)) echo image;; esac
+        echo * *.md
+      `.text();
+      expect(result).toBe("image\n/src/index.ts /src/lib /src/package.json\n");
+    });
+
+    test("shopt settings from ShellConfig", async () => {
+      sh = createShellDSL({
+        fs: createVirtualFS(createFsFromVolume(vol)),
+        cwd: "/",
+        env: {},
+        commands: builtinCommands,
+        shopt: { extglob: true },
+      });
+      const result = await sh`echo file@(1|3).txt`.text();
+      expect(result).toBe("/file1.txt /file3.txt\n");
+    });
   });
 
   describe("Command Substitution", () => {
@@ -422,6 +685,124 @@ describe("README Examples", () => {
     });
   });
 
+  describe("Process Substitution", () => {
+    let sh: ReturnType<typeof createShellDSL>;
+
+    beforeEach(() => {
+      const vol = new Volume();
+      vol.fromJSON({ "/a.txt": "pear\napple\n", "/b.txt": "fig\nbanana\n" });
+      sh = createShellDSL({
+        fs: createVirtualFS(createFsFromVolume(vol)),
+        cwd: "/",
+        env: {},
+        commands: builtinCommands,
+      });
+    });
+
+    test("<(command) reads command output", async () => {
+      const result = await sh`cat <(sort a.txt) <(sort b.txt)`.text();
+      expect(result).toBe("apple\npear\nbanana\nfig\n");
+    });
+
+    test(">(command) feeds command input", async () => {
+      const result = await sh`echo hello | tee >(tr a-z A-Z) > /dev/null`.text();
+      expect(result).toBe("HELLO\n");
+    });
+  });
+
+  describe("Arithmetic", () => {
+    let sh: ReturnType<typeof createShellDSL>;
+
+    beforeEach(() => {
+      sh = createShellDSL({
+        fs: createVirtualFS(createFsFromVolume(new Volume())),
+        cwd: "/",
+        env: {},
+        commands: builtinCommands,
+      });
+    });
+
+    test("for (( )) loop", async () => {
+      const result = await sh`for (( i = 0; i < 3; i++ )); do echo $(( i * i )); done`.text();
+      expect(result).toBe("0\n1\n4\n");
+    });
+
+    test("(( )) command and constants", async () => {
+      const result = await sh`n=7; (( n % 2 )) && echo odd; echo $(( n > 5 ? 0x10 : 2#11 ))`.text();
+      expect(result).toBe("odd\n16\n");
+    });
+  });
+
+  describe("Conditional Expressions", () => {
+    let sh: ReturnType<typeof createShellDSL>;
+
+    beforeEach(() => {
+      sh = createShellDSL({
+        fs: createVirtualFS(createFsFromVolume(new Volume())),
+        cwd: "/",
+        env: {},
+        commands: builtinCommands,
+      });
+    });
+
+    test("glob matching and file tests", async () => {
+      const result = await sh`f=report.txt; [[ $f == *.txt && ! -d $f ]] && echo text`.text();
+      expect(result).toBe("text\n");
+    });
+
+    test("regex matching with BASH_REMATCH", async () => {
+      const result = await sh`[[ v1.24 =~ ^v([0-9]+)\\.([0-9]+)$ ]] && echo "\${BASH_REMATCH[2]}"`.text();
+      expect(result).toBe("24\n");
+    });
+  });
+
+  describe("Aliases", () => {
+    test("aliases option and alias builtin", async () => {
+      const session = createShellSession({
+        fs: createVirtualFS(createFsFromVolume(new Volume())),
+        cwd: "/",
+        env: {},
+        commands: builtinCommands,
+        aliases: { ll: "ls -l" },
+      });
+
+      await session.run("alias greet='echo hello'").exit;
+      expect((await session.run("greet world").exit).stdout.toString()).toBe("hello world\n");
+      expect(session.getAliases()).toEqual({ ll: "ls -l", greet: "echo hello" });
+    });
+  });
+
+  describe("$PATH Lookup", () => {
+    let fs: ReturnType<typeof createVirtualFS>;
+    let sh: ReturnType<typeof createShellDSL>;
+
+    beforeEach(() => {
+      fs = createVirtualFS(createFsFromVolume(new Volume()));
+      sh = createShellDSL({
+        fs,
+        cwd: "/",
+        env: { PATH: "/usr/local/bin:/usr/bin" },
+        commands: builtinCommands,
+        scriptPath: true,
+      });
+    });
+
+    test("scripts run by bare name", async () => {
+      await fs.mkdir("/usr/local/bin", { recursive: true });
+      await fs.writeFile("/usr/local/bin/greet", "#!/bin/sh\necho \"Hello, $1\"\n");
+      expect(await sh`greet Alice`.text()).toBe("Hello, Alice\n");
+    });
+
+    test("type and command -v show resolution", async () => {
+      await fs.mkdir("/usr/local/bin", { recursive: true });
+      await fs.writeFile("/usr/local/bin/greet", "#!/bin/sh\necho \"Hello, $1\"\n");
+      expect(await sh`type cd cat greet`.text()).toBe(
+        "cd is a shell builtin\ncat is a registered command\ngreet is /usr/local/bin/greet\n"
+      );
+      expect(await sh`command -v greet`.text()).toBe("/usr/local/bin/greet\n");
+    });
+  });
+
   describe("Defining Custom Commands", () => {
     test("custom hello command", async () => {
       const hello: Command = async (ctx) => {
@@ -860,6 +1241,11 @@ describe("README Examples", () => {
       expect(vol.existsSync("/data.txt")).toBe(false);
     });
 
+    test("read splits lines into variables", async () => {
+      const result = await sh`sort -n /numbers.txt | while read -r n; do echo "n=$n"; done`.text();
+      expect(result).toBe("n=1\nn=2\nn=3\n");
+    });
+
     test("test -f checks file existence", async () => {
       const result1 = await sh`test -f /data.txt && echo yes`.text();
       expect(result1).toBe("yes\n");
@@ -976,6 +1362,16 @@ describe("README Examples", () => {
       expect(result.stdout.toString()).toBe("hello\n");
     });
 
+    test("tokens and nodes have non-enumerable spans", () => {
+      const command = sh.parse(sh.lex("echo hi > out.txt"));
+      if (command.type !== "command") throw new Error("expected a command");
+
+      expect(command.span).toEqual({ start: 0, end: 17, line: 1, column: 1 });
+      expect(command.args[0]!.span).toEqual({ start: 5, end: 7, line: 1, column: 6 });
+      expect(command.redirects[0]!.span).toEqual({ start: 8, end: 17, line: 1, column: 9 });
+      expect(JSON.stringify(command)).not.toContain("span");
+    });
+
     test("sh.escape() escapes special characters", () => {
       expect(sh.escape("hello world")).toBe("'hello world'");
       expect(sh.escape("$(rm -rf /)")).toBe("'$(rm -rf /)'");
@@ -983,6 +1379,97 @@ describe("README Examples", () => {
     });
   });
 
+  describe("Linting Scripts", () => {
+    test("lintScript() reports problems with their ranges", () => {
+      const diagnostics = lintScript("rm $files > /etc/log\nexit 0\necho finished", {
+        commands: builtinCommands,
+        permissions: { "etc/**": "read-only" },
+        cwd: "/home",
+      });
+      expect(diagnostics).toEqual([
+        {
+          rule: "unquoted-expansion",
+          severity: "warning",
+          line: 1,
+          column: 4,
+          endLine: 1,
+          endColumn: 10,
+          message: "Unquoted expansion of $files is split into words and globbed; quote it",
+        },
+        {
+          rule: "read-only-redirect",
+          severity: "error",
+          line: 1,
+          column: 13,
+          endLine: 1,
+          endColumn: 21,
+          message: "Redirect writes to /etc/log, which is read-only",
+        },
+        {
+          rule: "unreachable-code",
+          severity: "warning",
+          line: 3,
+          column: 1,
+          endLine: 3,
+          endColumn: 14,
+          message: "Unreachable code after `exit`",
+        },
+      ]);
+    });
+
+    test("analyzeInput() adds diagnostics with lint options", () => {
+      const analysis = analyzeInput("cat $file | frobnicate", { lint: { commands: builtinCommands } });
+      expect(analysis).toMatchObject({
+        kind: "complete",
+        diagnostics: [
+          { rule: "unquoted-expansion", line: 1, column: 5 },
+          { rule: "unknown-command", line: 1, column: 13 },
+        ],
+      });
+    });
+  });
+
+  describe("Resource Limits", () => {
+    let sh: ReturnType<typeof createShellDSL>;
+
+    beforeEach(() => {
+      sh = createShellDSL({
+        fs: createVirtualFS(createFsFromVolume(new Volume())),
+        cwd: "/",
+        env: {},
+        commands: builtinCommands,
+        limits: { timeout: 5000, maxCommands: 10_000, maxOutputBytes: 1024 * 1024 },
+      });
+    });
+
+    test("going over a limit rejects with ShellLimitError", async () => {
+      const untrustedScript = "echo working; while true; do echo x > /tmp.txt; done";
+      let caught: unknown;
+      try {
+        await sh`${{ raw: untrustedScript }}`.limits({ maxBytesWritten: 64 });
+      } catch (err) {
+        caught = err;
+      }
+      expect(caught).toBeInstanceOf(ShellLimitError);
+      const error = caught as ShellLimitError;
+      expect(error.limit).toBe("maxBytesWritten");
+      expect(error.value).toBe(64);
+      expect(error.exitCode).toBe(152);
+      expect(error.stdout.toString()).toBe("working\n");
+    });
+
+    test("timeout limit", async () => {
+      const error = await sh`while true; do :; done`.limits({ timeout: 20 }).nothrow().catch((err) => err);
+      expect(error).toBeInstanceOf(ShellLimitError);
+      expect((error as ShellLimitError).limit).toBe("timeout");
+    });
+
+    test("timeout builtin", async () => {
+      const result = await sh`timeout 0.05 sh -c 'while :; do :; done' || echo "gave up ($?)"`.text();
+      expect(result).toBe("gave up (124)\n");
+    });
+  });
+
   describe("Safety & Security", () => {
     let vol: InstanceType<typeof Volume>;
     let sh: ReturnType<typeof createShellDSL>;
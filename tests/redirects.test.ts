@@ -2,6 +2,18 @@ import { test, expect, describe, beforeEach } from "bun:test";
 import { createFsFromVolume, Volume } from "memfs";
 import { createVirtualFS, createShellDSL } from "../src/index.ts";
 import { builtinCommands } from "../src/commands/index.ts";
+import type { Command } from "../src/types.ts";
+
+// Writes its arguments to descriptor 3, or reports that it is not open
+const log3: Command = async (ctx) => {
+  const fd = ctx.fds?.get(3);
+  if (!fd?.output) {
+    await ctx.stderr.writeText("log3: descriptor 3 is not open for writing\n");
+    return 1;
+  }
+  await fd.output.writeText(ctx.args.join(" ") + "\n");
+  return 0;
+};
 
 describe("Redirections", () => {
   let vol: InstanceType<typeof Volume>;
@@ -19,7 +31,7 @@ describe("Redirections", () => {
       fs,
       cwd: "/",
       env: {},
-      commands: builtinCommands,
+      commands: { ...builtinCommands, log3 },
     });
   });
 
@@ -104,6 +116,81 @@ describe("Redirections", () => {
     });
   });
 
+  describe("Here-strings (<<<)", () => {
+    test("feeds the expanded word plus a newline to stdin", async () => {
+      const result = await sh`line="b c"; grep c <<< "a $line"`.text();
+      expect(result).toBe("a b c\n");
+    });
+
+    test("is not field-split", async () => {
+      const result = await sh`text='one   two'; read -r first rest <<< $text; echo "$rest"`.text();
+      expect(result).toBe("two\n");
+    });
+  });
+
+  describe("Numbered descriptors", () => {
+    test("n> opens a descriptor that later redirects can duplicate", async () => {
+      await sh`echo hi 3> /log.txt 1>&3`;
+      expect(vol.readFileSync("/log.txt", "utf8")).toBe("hi\n");
+    });
+
+    test("3>&1 1>&2 2>&3 swaps stdout and stderr", async () => {
+      const result = await sh`{ echo out; echo err 1>&2; } 3>&1 1>&2 2>&3`;
+      expect(result.stdout.toString()).toBe("err\n");
+      expect(result.stderr.toString()).toBe("out\n");
+    });
+
+    test("applies redirects from left to right", async () => {
+      const result = await sh`cat /nonexistent 2>&1 > /out.txt`.nothrow();
+      expect(result.stdout.toString()).toContain("nonexistent");
+      expect(vol.readFileSync("/out.txt", "utf8")).toBe("");
+    });
+
+    test("n< and n<& read from another descriptor", async () => {
+      const result = await sh`{ read -r first; cat <&4; } 4< /input.txt <<< line`.text();
+      expect(result).toBe("hello world");
+    });
+
+    test("descriptors reach functions and subshells", async () => {
+      await sh`f() { echo "from f" >&3; }; { f; ( echo "from subshell" >&3 ); } 3>> /log.txt`;
+      expect(vol.readFileSync("/log.txt", "utf8")).toBe("from f\nfrom subshell\n");
+    });
+
+    test("custom commands see extra descriptors on ctx.fds", async () => {
+      const result = await sh`log3 first 3> /log.txt; log3 second`.nothrow();
+      expect(vol.readFileSync("/log.txt", "utf8")).toBe("first\n");
+      expect(result.exitCode).toBe(1);
+      expect(result.stderr.toString()).toBe("log3: descriptor 3 is not open for writing\n");
+    });
+
+    test("duplicating a descriptor that is not open fails", async () => {
+      const result = await sh`echo hi >&5`.nothrow();
+      expect(result.exitCode).toBe(1);
+      expect(result.stderr.toString()).toBe("sh: 5: Bad file descriptor\n");
+    });
+  });
+
+  describe("Closing and opening descriptors", () => {
+    test("n>&- closes a descriptor", async () => {
+      const result = await sh`echo hi >&-`.nothrow();
+      expect(result.exitCode).toBe(1);
+      expect(result.stdout.toString()).toBe("");
+    });
+
+    test(">| overwrites like >", async () => {
+      vol.writeFileSync("/existing.txt", "old content");
+      await sh`echo new >| /existing.txt`;
+      expect(vol.readFileSync("/existing.txt", "utf8")).toBe("new\n");
+    });
+
+    test("<> opens a file for reading and writing without truncating it", async () => {
+      const result = await sh`cat <> /input.txt; echo HELLO 1<> /input.txt; cat <> /created.txt`.text();
+      expect(result).toBe("hello world");
+      expect(vol.readFileSync("/input.txt", "utf8")).toBe("HELLO\nworld");
+      expect(vol.readFileSync("/created.txt", "utf8")).toBe("");
+    });
+  });
+
   describe("Combined redirects", () => {
     test("input and output redirection", async () => {
       await sh`cat < /input.txt > /copy.txt`;
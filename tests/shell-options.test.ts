@@ -0,0 +1,216 @@
+import { test, expect, describe, beforeEach } from "bun:test";
+import { createFsFromVolume, Volume } from "memfs";
+import { createShellDSL, createShellSession, createVirtualFS } from "../src/index.ts";
+import { builtinCommands } from "../src/commands/index.ts";
+import type { VirtualFS } from "../src/types.ts";
+
+describe("shell options", () => {
+  let fs: VirtualFS;
+  let sh: ReturnType<typeof createShellDSL>;
+
+  beforeEach(() => {
+    const vol = new Volume();
+    vol.fromJSON({ "/a.txt": "", "/b.txt": "" });
+    fs = createVirtualFS(createFsFromVolume(vol));
+    sh = createShellDSL({
+      fs,
+      cwd: "/",
+      env: {},
+      commands: builtinCommands,
+    });
+  });
+
+  describe("set -e", () => {
+    test("exits with the status of the failing command", async () => {
+      const result = await sh`set -e; echo one; cat /missing.txt; echo two`.nothrow();
+
+      expect(result.exitCode).toBe(1);
+      expect(result.stdout.toString()).toBe("one\n");
+    });
+
+    test("ignores failures in conditions and and-or lists", async () => {
+      const result = await sh`
+        set -e
+        if false; then echo no; fi
+        while false; do echo no; done
+        false || echo or
+        false && echo no
+        echo reached
+      `.nothrow();
+
+      expect(result.stdout.toString()).toBe("or\nreached\n");
+    });
+
+    test("ignores failures inside functions called as a condition", async () => {
+      const result = await sh`set -e; f() { false; echo body; }; if f; then echo ok; fi; f; echo unreachable`.nothrow();
+
+      expect(result.exitCode).toBe(1);
+      expect(result.stdout.toString()).toBe("body\nok\n");
+    });
+
+    test("exits when the last command of an and-or list fails", async () => {
+      const result = await sh`set -e; true && false; echo unreachable`.nothrow();
+
+      expect(result.exitCode).toBe(1);
+      expect(result.stdout.toString()).toBe("");
+    });
+
+    test("exits the subshell first, then the parent", async () => {
+      const result = await sh`set -e; (false; echo inner); echo outer`.nothrow();
+
+      expect(result.exitCode).toBe(1);
+      expect(result.stdout.toString()).toBe("");
+    });
+
+    test("uses the status of the last command substitution in assignments", async () => {
+      const result = await sh`x=$(false); echo "status $?"; set -e; y=$(exit 3); echo unreachable`.nothrow();
+
+      expect(result.exitCode).toBe(3);
+      expect(result.stdout.toString()).toBe("status 1\n");
+    });
+
+    test("can be turned off with set +e", async () => {
+      const result = await sh`set -e; set +e; false; echo still-running`.text();
+
+      expect(result).toBe("still-running\n");
+    });
+  });
+
+  describe("set -u", () => {
+    test("fails on unset variables", async () => {
+      const result = await sh`set -u; echo "\${UNSET:-default}"; echo $UNSET; echo unreachable`.nothrow();
+
+      expect(result.exitCode).toBe(1);
+      expect(result.stdout.toString()).toBe("default\n");
+      expect(result.stderr.toString()).toBe("sh: UNSET: unbound variable\n");
+    });
+
+    test("allows empty variables and $@", async () => {
+      const result = await sh`set -u; EMPTY=; echo "[$EMPTY]" "[$@]"`.text();
+
+      expect(result).toBe("[] []\n");
+    });
+
+    test("applies to lengths and arithmetic", async () => {
+      const length = await sh`set -u; echo \${#UNSET}`.nothrow();
+      const arithmetic = await sh`set -u; echo $((UNSET + 1))`.nothrow();
+
+      expect(length.stderr.toString()).toBe("sh: UNSET: unbound variable\n");
+      expect(arithmetic.stderr.toString()).toBe("sh: UNSET: unbound variable\n");
+    });
+  });
+
+  describe("set -x", () => {
+    test("traces expanded commands to stderr", async () => {
+      const result = await sh`name="a b"; set -x; echo "$name" > /dev/null; count=2; FOO=1 true; set +x; echo done-tracing`.nothrow();
+
+      expect(result.stdout.toString()).toBe("done-tracing\n");
+      expect(result.stderr.toString()).toBe("+ echo 'a b'\n+ count=2\n+ FOO=1 true\n+ set +x\n");
+    });
+
+    test("uses PS4 as the prefix", async () => {
+      const result = await sh`PS4='trace: '; set -x; echo hi`.nothrow();
+
+      expect(result.stderr.toString()).toBe("trace: echo hi\n");
+    });
+
+    test("traces substitutions with one more PS4 character per level", async () => {
+      const result = await sh`set -x; x=$(echo sub); echo $(echo a $(echo b)); cat <(echo p)`.nothrow();
+
+      expect(result.stdout.toString()).toBe("a b\np\n");
+      expect(result.stderr.toString()).toBe(
+        "++ echo sub\n+ x=sub\n+++ echo b\n++ echo a b\n+ echo a b\n+ cat /dev/fd/63\n++ echo p\n"
+      );
+    });
+  });
+
+  test("set -o pipefail returns the last failing status", async () => {
+    const result = await sh`false | true; echo $?; set -o pipefail; sh -c 'exit 3' | false | true; echo $?`.text();
+
+    expect(result).toBe("0\n1\n");
+  });
+
+  test("set -f disables pathname expansion", async () => {
+    const result = await sh`echo /*.txt; set -f; echo /*.txt`.text();
+
+    expect(result).toBe("/a.txt /b.txt\n/*.txt\n");
+  });
+
+  test("$- lists the enabled single-letter options", async () => {
+    const result = await sh`echo "[$-]"; set -eu -o noglob; echo "[$-]"; set +u; echo "[\${-}]"`.text();
+
+    expect(result).toBe("[]\n[efu]\n[ef]\n");
+  });
+
+  test("set -o lists options and set +o prints commands to restore them", async () => {
+    const result = await sh`set -o pipefail; set -o; set +o`.text();
+
+    expect(result).toBe(
+      "errexit        \toff\n" +
+        "nounset        \toff\n" +
+        "xtrace         \toff\n" +
+        "pipefail       \ton\n" +
+        "noglob         \toff\n" +
+        "set +o errexit\n" +
+        "set +o nounset\n" +
+        "set +o xtrace\n" +
+        "set -o pipefail\n" +
+        "set +o noglob\n"
+    );
+  });
+
+  test("rejects unknown options", async () => {
+    const result = await sh`set -q; set -o bogus`.nothrow();
+
+    expect(result.exitCode).toBe(2);
+    expect(result.stderr.toString()).toBe(
+      "set: -q: invalid option\nset: usage: set [-efux] [-o option-name]\nset: bogus: invalid option name\n"
+    );
+  });
+
+  test("ShellConfig options apply to every run", async () => {
+    const strict = createShellDSL({
+      fs,
+      cwd: "/",
+      env: {},
+      commands: builtinCommands,
+      options: { errexit: true, pipefail: true },
+    });
+
+    const result = await strict`false | true; echo unreachable`.nothrow();
+
+    expect(result.exitCode).toBe(1);
+    expect(result.stdout.toString()).toBe("");
+  });
+
+  test("ShellPromise.options() sets options for one call", async () => {
+    const strict = await sh`false; echo unreachable`.options({ errexit: true }).nothrow();
+    const relaxed = await sh`false; echo reached`.nothrow();
+
+    expect(strict.stdout.toString()).toBe("");
+    expect(relaxed.stdout.toString()).toBe("reached\n");
+  });
+
+  test("ShellSession keeps options across runs", async () => {
+    const session = createShellSession({
+      fs,
+      cwd: "/",
+      env: {},
+      commands: builtinCommands,
+      options: { nounset: true },
+    });
+
+    await session.run("set -e").exit;
+    const result = await session.run("false; echo unreachable").exit;
+
+    expect(result.exitCode).toBe(1);
+    expect(result.stdout.toString()).toBe("");
+    expect(session.getOptions()).toEqual({
+      errexit: true,
+      nounset: true,
+      xtrace: false,
+      pipefail: false,
+      noglob: false,
+    });
+  });
+});
@@ -1,6 +1,6 @@
 import { test, expect, describe, beforeEach } from "bun:test";
 import { createFsFromVolume, Volume } from "memfs";
-import { createVirtualFS, createShellDSL, ShellError } from "../src/index.ts";
+import { createVirtualFS, createShellDSL, ShellError, type Command } from "../src/index.ts";
 import { builtinCommands } from "../src/commands/index.ts";
 
 describe("ShellPromise", () => {
@@ -203,6 +203,130 @@ describe("ShellPromise", () => {
     });
   });
 
+  describe("Streaming", () => {
+    // Waits until the test opens the gate, or until the script is killed
+    function gated(): { command: Command; open: () => void } {
+      let open!: () => void;
+      const opened = new Promise<void>((resolve) => (open = resolve));
+      const command: Command = async (ctx) => {
+        await Promise.race([
+          opened,
+          new Promise((_, reject) => ctx.signal?.addEventListener("abort", () => reject(ctx.signal!.reason))),
+        ]);
+        return 0;
+      };
+      return { command, open };
+    }
+
+    function shellWith(commands: Record<string, Command>) {
+      return createShellDSL({
+        fs: createVirtualFS(createFsFromVolume(vol)),
+        cwd: "/",
+        env: {},
+        commands: { ...builtinCommands, ...commands },
+      });
+    }
+
+    test("stdout and stderr can be read while the script runs", async () => {
+      const gate = gated();
+      const promise = shellWith({ gate: gate.command })`echo first; echo oops >&2; gate; echo second`;
+      const reader = promise.stdout.getReader();
+
+      const { value } = await reader.read();
+      expect(new TextDecoder().decode(value)).toBe("first\n");
+      const errors = await promise.stderr.getReader().read();
+      expect(new TextDecoder().decode(errors.value)).toBe("oops\n");
+      gate.open();
+      expect(new TextDecoder().decode((await reader.read()).value)).toBe("second\n");
+      expect((await reader.read()).done).toBe(true);
+      expect((await promise).stdout.toString()).toBe("first\nsecond\n");
+    });
+
+    test("lines() yields lines before the script finishes", async () => {
+      const gate = gated();
+      const seen: string[] = [];
+      for await (const line of shellWith({ gate: gate.command })`echo a; echo b; gate; echo c`.lines()) {
+        seen.push(line);
+        if (line === "b") {
+          gate.open();
+        }
+      }
+      expect(seen).toEqual(["a", "b", "c"]);
+    });
+
+    test("for await iterates over lines and throws if the script fails", async () => {
+      const seen: string[] = [];
+      let error: unknown;
+      try {
+        for await (const line of sh`echo one; echo two; exit 3`) {
+          seen.push(line);
+        }
+      } catch (err) {
+        error = err;
+      }
+      expect(seen).toEqual(["one", "two"]);
+      expect(error).toBeInstanceOf(ShellError);
+      expect((error as ShellError).exitCode).toBe(3);
+    });
+
+    test(".stdin() feeds input to the script", async () => {
+      async function* chunks() {
+        yield new TextEncoder().encode("b\n");
+        yield new TextEncoder().encode("a\n");
+      }
+
+      expect(await sh`tr a-z A-Z`.stdin("hello\n").text()).toBe("HELLO\n");
+      expect(await sh`sort`.stdin(chunks()).text()).toBe("a\nb\n");
+      expect((await sh`wc -l`.stdin(Buffer.from("1\n2\n3\n")).text()).trim()).toBe("3");
+    });
+
+    test(".pipe() connects two scripts like a pipeline", async () => {
+      const result = await sh`cat /lines.txt`.pipe(sh`sort`).pipe(sh`head -n 2`);
+
+      expect(result.stdout.toString()).toBe("one\nthree\n");
+    });
+
+    test(".pipe() stops the first script once the second exits", async () => {
+      const upstream = sh`while true; do echo y; done`.nothrow();
+
+      expect(await upstream.pipe(sh`head -n 2`).text()).toBe("y\ny\n");
+      expect((await upstream).exitCode).toBe(130);
+    });
+
+    test(".pipe() runs the first script even if the second never reads it", async () => {
+      const result = await sh`mkdir -p /work; echo side > /work/side`.pipe(sh`echo finished`).text();
+
+      expect(result).toBe("finished\n");
+      expect(vol.readFileSync("/work/side", "utf8")).toBe("side\n");
+    });
+
+    test(".pipe() takes its status from the last script", async () => {
+      const result = await sh`cat /missing.txt`.nothrow().pipe(sh`cat`);
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout.toString()).toBe("");
+    });
+
+    test(".kill() stops the script", async () => {
+      const gate = gated();
+      const promise = shellWith({ gate: gate.command })`echo start; gate; echo never`.nothrow();
+      const reader = promise.stdout.getReader();
+
+      await reader.read();
+      promise.kill();
+      const result = await promise;
+      expect(result.exitCode).toBe(130);
+      expect(result.stdout.toString()).toBe("start\n");
+    });
+
+    test("syntax errors reject without output", async () => {
+      const promise = sh`echo "open`;
+
+      expect(await new Response(promise.stdout).text()).toBe("");
+      await expect(promise.text()).rejects.toThrow("Lex error");
+    });
+  });
+
   describe("Promise interface", () => {
     test("works with await", async () => {
       const result = await sh`echo hello`;
@@ -0,0 +1,102 @@
+import { test, expect, describe, beforeEach } from "bun:test";
+import { createFsFromVolume, Volume } from "memfs";
+import { createShellDSL, createVirtualFS, ShellError, ParseError, LexError } from "../src/index.ts";
+import { builtinCommands } from "../src/commands/index.ts";
+
+async function failure(promise: PromiseLike<unknown>): Promise<unknown> {
+  try {
+    await promise;
+  } catch (err) {
+    return err;
+  }
+  throw new Error("expected the script to fail");
+}
+
+describe("Source locations", () => {
+  let sh: ReturnType<typeof createShellDSL>;
+
+  beforeEach(() => {
+    sh = createShellDSL({
+      fs: createVirtualFS(createFsFromVolume(new Volume())),
+      cwd: "/",
+      env: {},
+      commands: builtinCommands,
+    });
+  });
+
+  describe("ShellError", () => {
+    test("points at the command the exit status came from", async () => {
+      const script = 'echo start\nfor f in a b; do\n  cat "/missing/$f"\ndone';
+      const err = (await failure(sh`${{ raw: script }}`)) as ShellError;
+
+      expect(err).toBeInstanceOf(ShellError);
+      expect(err.location).toEqual({ start: 30, end: 47, line: 3, column: 3 });
+      expect(err.frame).toBe(
+        ["  2 | for f in a b; do", '> 3 |   cat "/missing/$f"', "    |   ^^^^^^^^^^^^^^^^^", "  4 | done"].join("\n"),
+      );
+      expect(err.message).toBe(`Command failed with exit code 1\n\n${err.frame}`);
+    });
+
+    test("spells out redirect objects in the frame", async () => {
+      const sink = new WritableStream<Uint8Array>({
+        close() {
+          throw new Error("closed early");
+        },
+      });
+      const err = (await failure(sh`echo hi > ${sink}`)) as ShellError;
+
+      expect(err.stderr.toString()).toBe("sh: redirect target 0 (WritableStream): closed early\n");
+      expect(err.frame).toBe(
+        ["> 1 | echo hi > redirect target 0 (WritableStream)", "    | ^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^"].join("\n"),
+      );
+    });
+
+    test("points at the command that stopped a set -e script", async () => {
+      const err = (await failure(sh`set -e; echo one; false; echo two`)) as ShellError;
+
+      expect(err.location).toEqual({ start: 18, end: 23, line: 1, column: 19 });
+      expect(err.stdout.toString()).toBe("one\n");
+    });
+
+    test("points inside function bodies and at the failing pipeline stage", async () => {
+      const fn = (await failure(sh`f() { return 3; }; echo a; f`)) as ShellError;
+      const pipe = (await failure(sh`echo a | grep b`)) as ShellError;
+
+      expect(fn.location).toMatchObject({ line: 1, column: 7 });
+      expect(pipe.location).toMatchObject({ start: 9, end: 15 });
+    });
+
+    test("points at the eval or source call for code that is not in the script", async () => {
+      const err = (await failure(sh`echo ok; eval "true; false"`)) as ShellError;
+
+      expect(err.location).toEqual({ start: 9, end: 27, line: 1, column: 10 });
+    });
+  });
+
+  test("ExecResult carries the location of a non-zero status", async () => {
+    const failed = await sh`true; (exit 2)`.nothrow();
+    const passed = await sh`false; true`;
+
+    expect(failed.location).toEqual({ start: 6, end: 14, line: 1, column: 7 });
+    expect(passed.location).toBeUndefined();
+  });
+
+  test("syntax errors in a template include a code frame", async () => {
+    const parseError = (await failure(sh`${{ raw: "echo ok\nif true; then echo; fi )" }}`)) as ParseError;
+    const lexError = (await failure(sh`echo "open`)) as LexError;
+
+    expect(parseError).toBeInstanceOf(ParseError);
+    expect(parseError.span).toEqual({ start: 31, end: 32, line: 2, column: 24 });
+    expect(parseError.message).toBe(
+      'Unexpected token: {"type":"closeParen"}\n\n  1 | echo ok\n> 2 | if true; then echo; fi )\n    |                        ^',
+    );
+    expect(lexError).toBeInstanceOf(LexError);
+    expect(lexError.frame).toBe('> 1 | echo "open\n    |           ^');
+  });
+
+  test("syntax errors after a redirect object point past its description", async () => {
+    const err = (await failure(sh`cat < ${["a"]} )`)) as ParseError;
+
+    expect(err.frame).toBe("> 1 | cat < redirect target 0 (Array) )\n    | " + " ".repeat(32) + "^");
+  });
+});
@@ -1,4 +1,5 @@
 import { test, expect, describe } from "bun:test";
+import { BrokenPipeError } from "../src/errors.ts";
 import {
   OutputCollectorImpl,
   PipeBuffer,
@@ -158,6 +159,31 @@ describe("PipeBuffer", () => {
     const result = await collectPromise;
     expect(result.toString()).toBe("waiting");
   });
+
+  test("write waits while more than highWaterMark bytes are unread", async () => {
+    const pipe = new PipeBuffer({ highWaterMark: 4 });
+    let done = false;
+    await pipe.writeText("abc");
+    const pending = pipe.writeText("de").then(() => (done = true));
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    expect(done).toBe(false);
+
+    const reader = pipe.getReadableStream()[Symbol.asyncIterator]();
+    await reader.next();
+    await pending;
+    expect(done).toBe(true);
+  });
+
+  test("closeReadEnd fails waiting and later writes with BrokenPipeError", async () => {
+    const pipe = new PipeBuffer({ highWaterMark: 0 });
+    const pending = pipe.writeText("unread");
+    pipe.closeReadEnd();
+
+    await expect(pending).rejects.toBeInstanceOf(BrokenPipeError);
+    await expect(pipe.writeText("more")).rejects.toThrow("Broken pipe");
+    expect(pipe.isBroken).toBe(true);
+    expect((await pipe.collect()).length).toBe(0);
+  });
 });
 
 describe("BufferTargetCollector", () => {
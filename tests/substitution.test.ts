@@ -53,6 +53,12 @@ describe("Command Substitution", () => {
     expect(result).toBe("beforemiddleafter\n");
   });
 
+  test("stderr of a substitution goes to the shell's stderr", async () => {
+    const result = await sh`x=$(echo oops >&2; echo out); echo "$x"`.nothrow();
+    expect(result.stdout.toString()).toBe("out\n");
+    expect(result.stderr.toString()).toBe("oops\n");
+  });
+
   test("substitution with pwd", async () => {
     const result = await sh`echo "cwd: $(pwd)"`.text();
     expect(result).toBe("cwd: /\n");
@@ -0,0 +1,55 @@
+import { test, expect, describe, beforeEach } from "bun:test";
+import { createFsFromVolume, Volume } from "memfs";
+import { createShellDSL, createVirtualFS } from "../src/index.ts";
+import { builtinCommands } from "../src/commands/index.ts";
+
+describe("Tilde expansion", () => {
+  let sh: ReturnType<typeof createShellDSL>;
+
+  beforeEach(() => {
+    const vol = new Volume();
+    vol.fromJSON({ "/home/me/notes.txt": "note", "/work/.keep": "" });
+    sh = createShellDSL({
+      fs: createVirtualFS(createFsFromVolume(vol)),
+      cwd: "/",
+      env: { HOME: "/home/me" },
+      commands: builtinCommands,
+    });
+  });
+
+  test("~ and ~/path expand to $HOME", async () => {
+    const result = await sh`echo ~ ~/notes.txt; cat ~/notes.txt`.text();
+
+    expect(result).toBe("/home/me /home/me/notes.txt\nnote");
+  });
+
+  test("~+ and ~- expand to the working and previous directories", async () => {
+    const result = await sh`cd /work; cd /; echo ~+ ~- ~-/.keep`.text();
+
+    expect(result).toBe("/ /work /work/.keep\n");
+  });
+
+  test("quoted, escaped and mid-word tildes stay literal", async () => {
+    const result = await sh`echo "~" '~/x' \\~ a~ ~user ~"/x"`.text();
+
+    expect(result).toBe("~ ~/x ~ a~ ~user ~/x\n");
+  });
+
+  test("assignments expand after = and every :", async () => {
+    const result = await sh`P=~/bin:~/lib:x~; export Q=~; a=(~ "~"); echo $P $Q "\${a[@]}"`.text();
+
+    expect(result).toBe("/home/me/bin:/home/me/lib:x~ /home/me /home/me ~\n");
+  });
+
+  test("the directory is not split or globbed", async () => {
+    const result = await sh`HOME="/my *home"; printf '[%s]' ~ ~/x; echo`.text();
+
+    expect(result).toBe("[/my *home][/my *home/x]\n");
+  });
+
+  test("an unset HOME leaves the tilde alone", async () => {
+    const result = await sh`unset HOME; echo ~ ~/x`.text();
+
+    expect(result).toBe("~ ~/x\n");
+  });
+});
@@ -38,48 +38,48 @@ describe("tokenToString", () => {
   });
 
   test("redirect token (>)", () => {
-    const token: Token = { type: "redirect", mode: ">" };
+    const token: Token = { type: "redirect", op: ">" };
     expect(tokenToString(token)).toBe(">");
   });
 
   test("redirect token (>>)", () => {
-    const token: Token = { type: "redirect", mode: ">>" };
+    const token: Token = { type: "redirect", op: ">>" };
     expect(tokenToString(token)).toBe(">>");
   });
 
   test("redirect token (<)", () => {
-    const token: Token = { type: "redirect", mode: "<" };
+    const token: Token = { type: "redirect", op: "<" };
     expect(tokenToString(token)).toBe("<");
   });
 
   test("redirect token (2>)", () => {
-    const token: Token = { type: "redirect", mode: "2>" };
+    const token: Token = { type: "redirect", op: ">", fd: 2 };
     expect(tokenToString(token)).toBe("2>");
   });
 
   test("redirect token (2>>)", () => {
-    const token: Token = { type: "redirect", mode: "2>>" };
+    const token: Token = { type: "redirect", op: ">>", fd: 2 };
     expect(tokenToString(token)).toBe("2>>");
   });
 
   test("redirect token (&>)", () => {
-    const token: Token = { type: "redirect", mode: "&>" };
+    const token: Token = { type: "redirect", op: "&>" };
     expect(tokenToString(token)).toBe("&>");
   });
 
   test("redirect token (&>>)", () => {
-    const token: Token = { type: "redirect", mode: "&>>" };
+    const token: Token = { type: "redirect", op: "&>>" };
     expect(tokenToString(token)).toBe("&>>");
   });
 
-  test("redirect token (2>&1)", () => {
-    const token: Token = { type: "redirect", mode: "2>&1" };
-    expect(tokenToString(token)).toBe("2>&1");
+  test("redirect token (2>&)", () => {
+    const token: Token = { type: "redirect", op: ">&", fd: 2 };
+    expect(tokenToString(token)).toBe("2>&");
   });
 
-  test("redirect token (1>&2)", () => {
-    const token: Token = { type: "redirect", mode: "1>&2" };
-    expect(tokenToString(token)).toBe("1>&2");
+  test("redirect token (<<<)", () => {
+    const token: Token = { type: "redirect", op: "<<<" };
+    expect(tokenToString(token)).toBe("<<<");
   });
 
   test("variable token", () => {
@@ -0,0 +1,155 @@
+import { test, expect, describe, beforeEach } from "bun:test";
+import { createFsFromVolume, Volume } from "memfs";
+import { createShellDSL, createShellSession, createVirtualFS } from "../src/index.ts";
+import { builtinCommands } from "../src/commands/index.ts";
+import type { VirtualFS } from "../src/types.ts";
+import { sleep } from "./helpers.ts";
+
+describe("trap", () => {
+  let vol: InstanceType<typeof Volume>;
+  let fs: VirtualFS;
+  let sh: ReturnType<typeof createShellDSL>;
+
+  beforeEach(() => {
+    vol = new Volume();
+    vol.fromJSON({ "/tmp/work.txt": "" });
+    fs = createVirtualFS(createFsFromVolume(vol));
+    sh = createShellDSL({
+      fs,
+      cwd: "/",
+      env: {},
+      commands: { ...builtinCommands, sleep },
+    });
+  });
+
+  describe("EXIT", () => {
+    test("runs when the script ends, with the final status in $?", async () => {
+      const result = await sh`trap 'echo "bye $?"' EXIT; echo hi; exit 3`.nothrow();
+
+      expect(result.exitCode).toBe(3);
+      expect(result.stdout.toString()).toBe("hi\nbye 3\n");
+    });
+
+    test("runs when set -e stops the script", async () => {
+      const result = await sh`set -e; trap 'rm /tmp/work.txt' EXIT; false; echo unreachable`.nothrow();
+
+      expect(result.exitCode).toBe(1);
+      expect(result.stdout.toString()).toBe("");
+      expect(vol.existsSync("/tmp/work.txt")).toBe(false);
+    });
+
+    test("exit inside the handler sets the final status", async () => {
+      const result = await sh`trap 'echo cleanup; exit 9' EXIT; true`.nothrow();
+
+      expect(result.exitCode).toBe(9);
+      expect(result.stdout.toString()).toBe("cleanup\n");
+    });
+
+    test("runs at the end of subshells and scripts", async () => {
+      const result = await sh`(trap 'echo sub-exit' EXIT; echo inner); sh -c "trap 'echo script-exit' EXIT; exit 4"; echo "outer $?"`.text();
+
+      expect(result).toBe("inner\nsub-exit\nscript-exit\nouter 4\n");
+    });
+
+    test("survives source and runs when the sourcing shell exits", async () => {
+      vol.fromJSON({ "/lib.sh": "trap 'echo lib-exit' EXIT\necho sourced\nreturn 0\n" });
+      const result = await sh`source /lib.sh; echo main`.text();
+
+      expect(result).toBe("sourced\nmain\nlib-exit\n");
+    });
+  });
+
+  describe("ERR", () => {
+    test("runs when a command fails outside a condition", async () => {
+      const result = await sh`
+        trap 'echo "failed with $?"' ERR
+        if false; then :; fi
+        false || true
+        false
+        echo "status $?"
+      `.text();
+
+      expect(result).toBe("failed with 1\nstatus 1\n");
+    });
+
+    test("is not inherited by function bodies", async () => {
+      const result = await sh`trap 'echo err' ERR; f() { false; echo body; }; f; g() { false; }; g`.nothrow();
+
+      expect(result.stdout.toString()).toBe("body\nerr\n");
+    });
+
+    test("exit inside the handler stops the script", async () => {
+      const result = await sh`trap 'exit 7' ERR; false; echo unreachable`.nothrow();
+
+      expect(result.exitCode).toBe(7);
+      expect(result.stdout.toString()).toBe("");
+    });
+  });
+
+  describe("signals", () => {
+    test("kill() runs the INT trap and then the EXIT trap", async () => {
+      const session = createShellSession({ fs, cwd: "/", env: {}, commands: { ...builtinCommands, sleep } });
+      const execution = session.run("trap 'echo interrupted $?' INT; trap 'rm /tmp/work.txt' EXIT; sleep 5000");
+      setTimeout(() => execution.kill(), 20);
+
+      const result = await execution.exit;
+
+      expect(result.exitCode).toBe(130);
+      expect(result.stdout.toString()).toBe("interrupted 130\n");
+      expect(vol.existsSync("/tmp/work.txt")).toBe(false);
+    });
+
+    test("a signal name as the kill() reason selects the trap", async () => {
+      const session = createShellSession({ fs, cwd: "/", env: {}, commands: { ...builtinCommands, sleep } });
+      const execution = session.run("trap 'echo int' INT; trap 'echo term $?' TERM; sleep 5000");
+      setTimeout(() => execution.kill("SIGTERM"), 20);
+
+      const result = await execution.exit;
+
+      expect(result.exitCode).toBe(143);
+      expect(result.stdout.toString()).toBe("term 143\n");
+    });
+
+    test("a second kill() stops a running handler", async () => {
+      const session = createShellSession({ fs, cwd: "/", env: {}, commands: { ...builtinCommands, sleep } });
+      const execution = session.run("trap 'echo slow; sleep 5000; echo unreachable' EXIT; sleep 5000");
+      setTimeout(() => execution.kill(), 20);
+      setTimeout(() => execution.kill(), 60);
+
+      const result = await execution.exit;
+
+      expect(result.exitCode).toBe(130);
+      expect(result.stdout.toString()).toBe("slow\n");
+      expect(result.stderr.toString()).toBe("");
+    });
+  });
+
+  describe("builtin", () => {
+    test("-p lists handlers and - resets them", async () => {
+      const result = await sh`trap "echo 'it is done'" EXIT INT; trap -p; trap - INT EXIT; trap -p`.text();
+
+      expect(result).toBe("trap -- 'echo '\\''it is done'\\''' EXIT\ntrap -- 'echo '\\''it is done'\\''' INT\n");
+    });
+
+    test("accepts signal numbers and SIG prefixes", async () => {
+      const result = await sh`trap 'echo a' 0 SIGTERM 2; trap -p; trap 2 15; trap -p`.text();
+
+      expect(result).toBe(
+        "trap -- 'echo a' EXIT\ntrap -- 'echo a' INT\ntrap -- 'echo a' TERM\ntrap -- 'echo a' EXIT\na\n"
+      );
+    });
+
+    test("an empty action ignores the condition", async () => {
+      const result = await sh`trap 'echo err' ERR; trap '' ERR; false; trap -p ERR`.text();
+
+      expect(result).toBe("trap -- '' ERR\n");
+    });
+
+    test("rejects unknown conditions", async () => {
+      const result = await sh`trap 'echo x' BOGUS`.nothrow();
+
+      expect(result.exitCode).toBe(1);
+      expect(result.stderr.toString()).toBe("trap: BOGUS: invalid signal specification\n");
+    });
+  });
+});
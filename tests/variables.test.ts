@@ -193,6 +193,124 @@ describe("Variables", () => {
     });
   });
 
+  describe("Exported variables", () => {
+    const getenv: Command = async (ctx) => {
+      await ctx.stdout.writeText(`${ctx.env[ctx.args[0]!] ?? "<unset>"}\n`);
+      return 0;
+    };
+
+    test("commands only see exported variables in ctx.env", async () => {
+      const exportSh = createShell({ getenv });
+      const result = await exportSh`LOCAL=1; getenv LOCAL; getenv USER; export LOCAL; getenv LOCAL`.text();
+      expect(result).toBe("<unset>\ntestuser\n1\n");
+    });
+
+    test("scripts inherit exported variables only", async () => {
+      vol.fromJSON({ "/show.sh": 'echo "[$SHARED] [$PRIVATE]"\n' });
+      const result = await sh`export SHARED=yes; PRIVATE=no; sh /show.sh; sh -c 'echo $SHARED'`.text();
+      expect(result).toBe("[yes] []\nyes\n");
+    });
+
+    test("export -n removes the export attribute and export -p lists exports", async () => {
+      const exportSh = createShell({ getenv });
+      const result = await exportSh`export A='x y' B; export -n A; getenv A; echo "$A"; export -p`.text();
+      expect(result).toBe(
+        "<unset>\nx y\nexport B\nexport HOME=/home/testuser\nexport PATH=/bin:/usr/bin\nexport USER=testuser\n"
+      );
+    });
+
+    test("export rejects invalid identifiers", async () => {
+      const result = await sh`export 1BAD=x OK=1; echo $OK`.nothrow();
+      expect(result.stdout.toString()).toBe("1\n");
+      expect(result.stderr.toString()).toBe("export: `1BAD=x': not a valid identifier\n");
+    });
+
+    test("changes in subshells do not leak out", async () => {
+      const result = await sh`X=1; (export X; sh -c 'echo "inner $X"'); sh -c 'echo "outer [$X]"'`.text();
+      expect(result).toBe("inner 1\nouter []\n");
+    });
+
+    test("export values are not split or globbed", async () => {
+      vol.fromJSON({ "/a1": "", "/a2": "" });
+      const result = await sh`B="x y"; export A=$B G=/a*; echo "[$A] [$G]"; sh -c 'echo "[$A]"'; export -p`.text();
+      expect(result).toBe(
+        "[x y] [/a*]\n[x y]\nexport A='x y'\nexport G='/a*'\nexport HOME=/home/testuser\nexport PATH=/bin:/usr/bin\nexport USER=testuser\n"
+      );
+    });
+  });
+
+  describe("unset and readonly", () => {
+    test("unset removes variables and functions", async () => {
+      const result = await sh`V=1; f() { echo fn; }; unset V; unset -f f; echo "[\${V-gone}]"; f`.nothrow();
+      expect(result.stdout.toString()).toBe("[gone]\n");
+      expect(result.stderr.toString()).toBe("f: command not found\n");
+    });
+
+    test("unsetting an exported variable drops its export", async () => {
+      const getenv: Command = async (ctx) => {
+        await ctx.stdout.writeText(`${ctx.env[ctx.args[0]!] ?? "<unset>"}\n`);
+        return 0;
+      };
+      const exportSh = createShell({ getenv });
+      const result = await exportSh`unset USER; USER=again; getenv USER`.text();
+      expect(result).toBe("<unset>\n");
+    });
+
+    test("assigning to a readonly variable is a fatal error", async () => {
+      const result = await sh`readonly LOCKED=1; echo $LOCKED; LOCKED=2; echo unreachable`.nothrow();
+      expect(result.exitCode).toBe(1);
+      expect(result.stdout.toString()).toBe("1\n");
+      expect(result.stderr.toString()).toBe("sh: LOCKED: readonly variable\n");
+    });
+
+    test("builtins report readonly variables and keep going", async () => {
+      const result = await sh`readonly LOCKED=1; unset LOCKED; export LOCKED=2; echo "$? $LOCKED"; readonly`.nothrow();
+      expect(result.stdout.toString()).toBe("1 1\nreadonly LOCKED=1\n");
+      expect(result.stderr.toString()).toBe(
+        "unset: LOCKED: cannot unset: readonly variable\nexport: LOCKED: readonly variable\n"
+      );
+    });
+
+    test("readonly values are not split or globbed", async () => {
+      vol.fromJSON({ "/a1": "", "/a2": "" });
+      const result = await sh`B="x y"; readonly A=$B G=/a*; echo "[$A] [$G]"; readonly`.text();
+      expect(result).toBe("[x y] [/a*]\nreadonly A='x y'\nreadonly G='/a*'\n");
+    });
+
+    test("readonly variables stay readonly in subshells", async () => {
+      const result = await sh`readonly LOCKED=1; (LOCKED=2); echo "status $?"`.nothrow();
+      expect(result.stdout.toString()).toBe("status 1\n");
+    });
+  });
+
+  describe("Positional parameters", () => {
+    test("set -- replaces the positional parameters", async () => {
+      const result = await sh`set -- a "b c"; echo "$# $2"; set --; echo "$#"`.text();
+      expect(result).toBe("2 b c\n0\n");
+    });
+
+    test("set treats the first non-option argument as the start of the parameters", async () => {
+      const result = await sh`set -f one two; echo "$1 $2 $-"`.text();
+      expect(result).toBe("one two f\n");
+    });
+
+    test("shift drops leading parameters", async () => {
+      const result = await sh`set -- a b c d; shift; echo "$@"; shift 2; echo "$@"`.text();
+      expect(result).toBe("b c d\nd\n");
+    });
+
+    test("shift fails when there are too few parameters", async () => {
+      const result = await sh`set -- a; shift 2; echo "status $? $1"`.nothrow();
+      expect(result.stdout.toString()).toBe("status 1 a\n");
+      expect(result.stderr.toString()).toBe("shift: 2: shift count out of range\n");
+    });
+
+    test("shift inside a function only affects its arguments", async () => {
+      const result = await sh`set -- outer; f() { shift; echo "in: $@"; }; f x y; echo "out: $@"`.text();
+      expect(result).toBe("in: y\nout: outer\n");
+    });
+  });
+
   describe("Global env changes", () => {
     test("sh.env() adds variables", async () => {
       sh.env({ CUSTOM: "value" });